@@ -0,0 +1,60 @@
+'use client';
+
+/**
+ * FrankenKiro Level Editor Page
+ * Paint levels on a grid, validate them live and playtest them in the engine
+ */
+
+import { useState } from 'react';
+import { GameContainer } from '@/components/GameContainer';
+import { LevelEditor } from '@/components/LevelEditor';
+import { createBlankLevel } from '@/game/levelEditor';
+import { createCampaignFromLevels } from '@/game/campaign';
+import { Campaign, LevelMap } from '@/game/types';
+
+/**
+ * Save slot used while playtesting so campaign saves are left alone
+ */
+const PLAYTEST_SAVE_KEY = 'frankenkiro_playtest_save';
+
+export default function EditorPage() {
+  const [level, setLevel] = useState<LevelMap>(() => createBlankLevel(16, 16));
+  const [name, setName] = useState('Untitled');
+  const [playtest, setPlaytest] = useState<Campaign | null>(null);
+
+  if (playtest) {
+    return (
+      <div style={{ position: 'relative' }}>
+        <GameContainer initialCampaign={playtest} autoStart saveKey={PLAYTEST_SAVE_KEY} />
+        <button
+          onClick={() => setPlaytest(null)}
+          style={{
+            position: 'absolute',
+            top: '10px',
+            right: '10px',
+            zIndex: 1100,
+            padding: '6px 10px',
+            fontFamily: 'monospace',
+            fontWeight: 'bold',
+            color: '#4ade80',
+            backgroundColor: 'rgba(0, 0, 0, 0.7)',
+            border: '2px dashed #4ade80',
+            cursor: 'pointer',
+          }}
+        >
+          ✎ Back to editor
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <LevelEditor
+      level={level}
+      name={name}
+      onLevelChange={setLevel}
+      onNameChange={setName}
+      onPlaytest={(playtestLevel) => setPlaytest(createCampaignFromLevels('playtest', name, [playtestLevel]))}
+    />
+  );
+}
@@ -8,6 +8,13 @@
 
 import { GameContainer } from '@/components/GameContainer';
 
+/**
+ * Draw frames in a render worker; set NEXT_PUBLIC_RENDER_IN_WORKER=true at
+ * build time to turn it on. Browsers without OffscreenCanvas, or whose
+ * worker fails, keep drawing on the main thread
+ */
+const RENDER_IN_WORKER = process.env.NEXT_PUBLIC_RENDER_IN_WORKER === 'true';
+
 export default function GamePage() {
-  return <GameContainer />;
+  return <GameContainer renderInWorker={RENDER_IN_WORKER} />;
 }
@@ -16,6 +16,18 @@ export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
   enabled: true,
 };
 
+/**
+ * Every sound effect type, for validating sounds named in level data
+ */
+export const SOUND_EFFECT_TYPES: readonly SoundEffectType[] = [
+  'fire',
+  'hit',
+  'pickup',
+  'death',
+  'enemyDeath',
+  'damage',
+];
+
 /**
  * Sound effect parameter definitions for procedural generation
  */
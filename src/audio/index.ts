@@ -5,6 +5,7 @@
 export * from './types';
 export {
   DEFAULT_AUDIO_CONFIG,
+  SOUND_EFFECT_TYPES,
   createAudioManager,
   initializeAudio,
   resumeAudio,
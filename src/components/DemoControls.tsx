@@ -0,0 +1,143 @@
+'use client';
+
+/**
+ * DemoControls component for FrankenKiro game
+ * Playback bar shown while a recorded demo is playing
+ */
+
+import React from 'react';
+import { PlaybackSpeed } from '@/game/demo';
+
+interface DemoControlsProps {
+  /** Ticks played so far */
+  tick: number;
+  /** Total recorded ticks */
+  tickCount: number;
+  /** Simulation ticks per second, used to show times */
+  tickRate: number;
+  /** Whether playback is paused */
+  paused: boolean;
+  /** Current playback speed */
+  speed: PlaybackSpeed;
+  /** Callback when pause/play is clicked */
+  onTogglePause?: () => void;
+  /** Callback when a playback speed is chosen */
+  onSpeedChange?: (speed: PlaybackSpeed) => void;
+  /** Callback when the timeline is dragged */
+  onSeek?: (tick: number) => void;
+  /** Callback when playback is stopped */
+  onStop?: () => void;
+}
+
+/**
+ * Halloween color palette
+ */
+const COLORS = {
+  green: '#4ade80',
+  purple: '#a855f7',
+  orange: '#fb923c',
+  bone: '#fef3c7',
+  blood: '#dc2626',
+  seamColor: '#374151',
+};
+
+const SPEEDS: PlaybackSpeed[] = [1, 2, 4];
+
+/**
+ * Format a tick count as m:ss
+ */
+function formatTime(tick: number, tickRate: number): string {
+  const seconds = Math.floor(tick / tickRate);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Small stitched control button
+ */
+const ControlButton: React.FC<{
+  onClick?: () => void;
+  active?: boolean;
+  color?: string;
+  children: React.ReactNode;
+}> = ({ onClick, active = false, color = COLORS.purple, children }) => (
+  <button
+    onClick={onClick}
+    style={{
+      padding: '4px 10px',
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      fontSize: '14px',
+      color: active ? '#000' : color,
+      backgroundColor: active ? color : 'transparent',
+      border: `2px dashed ${color}`,
+      borderRadius: '2px',
+      cursor: 'pointer',
+    }}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * DemoControls component
+ */
+export const DemoControls: React.FC<DemoControlsProps> = ({
+  tick,
+  tickCount,
+  tickRate,
+  paused,
+  speed,
+  onTogglePause,
+  onSpeedChange,
+  onSeek,
+  onStop,
+}) => (
+  <div
+    style={{
+      position: 'absolute',
+      top: '12px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '10px',
+      padding: '8px 12px',
+      backgroundColor: 'rgba(26, 26, 46, 0.9)',
+      border: `3px double ${COLORS.seamColor}`,
+      borderRadius: '4px',
+      color: COLORS.bone,
+      fontFamily: 'monospace',
+      zIndex: 200,
+    }}
+  >
+    <span style={{ color: COLORS.orange }}>🎬 DEMO</span>
+    <ControlButton onClick={onTogglePause} color={COLORS.green}>
+      {paused ? '▶' : '⏸'}
+    </ControlButton>
+    {SPEEDS.map((option) => (
+      <ControlButton
+        key={option}
+        onClick={() => onSpeedChange?.(option)}
+        active={option === speed}
+      >
+        {option}x
+      </ControlButton>
+    ))}
+    <input
+      type="range"
+      min={0}
+      max={tickCount}
+      value={tick}
+      onChange={(e) => onSeek?.(Number(e.target.value))}
+      style={{ width: '200px', accentColor: COLORS.green }}
+    />
+    <span>
+      {formatTime(tick, tickRate)} / {formatTime(tickCount, tickRate)}
+    </span>
+    <ControlButton onClick={onStop} color={COLORS.blood}>
+      ✖
+    </ControlButton>
+  </div>
+);
+
+export default DemoControls;
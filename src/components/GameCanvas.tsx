@@ -2,11 +2,14 @@
 
 /**
  * GameCanvas component for FrankenKiro game
- * Handles canvas rendering with aspect ratio preservation
+ * Handles canvas rendering with aspect ratio preservation, on the main thread
+ * or by handing the canvas to a render worker
  * Requirements: 10.3
  */
 
 import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { nextCosmeticRandom } from '@/engine/renderer';
+import { WorkerRenderer, supportsOffscreenRendering } from '@/engine/workerRenderer';
 
 interface GameCanvasProps {
   /** Base width for the game canvas */
@@ -15,6 +18,14 @@ interface GameCanvasProps {
   baseHeight?: number;
   /** Callback when canvas context is ready */
   onContextReady?: (ctx: CanvasRenderingContext2D) => void;
+  /**
+   * Hand the canvas to a render worker when the browser supports
+   * OffscreenCanvas; otherwise, or if the worker fails, onContextReady is
+   * called as usual
+   */
+  renderInWorker?: boolean;
+  /** Callback when the canvas has been handed to a render worker */
+  onWorkerRendererReady?: (renderer: WorkerRenderer) => void;
   /** Callback for each render frame */
   onRender?: (ctx: CanvasRenderingContext2D, deltaTime: number) => void;
   /** Whether the game loop should be running */
@@ -64,6 +75,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   baseWidth = 640,
   baseHeight = 480,
   onContextReady,
+  renderInWorker = false,
+  onWorkerRendererReady,
   onRender,
   isRunning = true,
   className = '',
@@ -72,6 +85,12 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const contextRef = useRef<CanvasRenderingContext2D | null>(null);
+  // Canvas handed to a render worker, which can no longer be drawn on here
+  const transferredCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Changed to swap in a new canvas element once the current one is handed over
+  const [canvasKey, setCanvasKey] = useState(0);
+  // Set when the render worker fails, so later canvases are drawn on this thread
+  const [workerFailed, setWorkerFailed] = useState(false);
   const lastTimeRef = useRef<number>(0);
   const animationFrameRef = useRef<number>(0);
   const [dimensions, setDimensions] = useState({ width: baseWidth, height: baseHeight });
@@ -87,8 +106,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     }
 
     const shakeInterval = setInterval(() => {
-      const offsetX = (Math.random() - 0.5) * 2 * shakeIntensity;
-      const offsetY = (Math.random() - 0.5) * 2 * shakeIntensity;
+      const offsetX = (nextCosmeticRandom() - 0.5) * 2 * shakeIntensity;
+      const offsetY = (nextCosmeticRandom() - 0.5) * 2 * shakeIntensity;
       setShakeOffset({ x: offsetX, y: offsetY });
     }, 50);
 
@@ -114,12 +133,39 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   }, [baseWidth, baseHeight]);
 
   /**
-   * Initialize canvas context
+   * Initialize canvas context, or hand the canvas to a render worker
    */
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    // A canvas can only be handed over once; when this effect runs again (as
+    // it does in strict mode, or after the worker fails) draw on a new one
+    if (canvas === transferredCanvasRef.current) {
+      setCanvasKey((key) => key + 1);
+      return;
+    }
+
+    // Set internal canvas resolution to base dimensions
+    canvas.width = baseWidth;
+    canvas.height = baseHeight;
+
+    if (renderInWorker && !workerFailed && onWorkerRendererReady && supportsOffscreenRendering(canvas)) {
+      const worker = new Worker(new URL('../engine/renderWorker.ts', import.meta.url));
+      transferredCanvasRef.current = canvas;
+      const workerRenderer = new WorkerRenderer(
+        canvas.transferControlToOffscreen(),
+        worker,
+        { screenWidth: baseWidth, screenHeight: baseHeight },
+        (message) => {
+          console.error('GameCanvas: Render worker failed, drawing on the main thread:', message);
+          setWorkerFailed(true);
+        }
+      );
+      onWorkerRendererReady(workerRenderer);
+      return () => workerRenderer.dispose();
+    }
+
     const ctx = canvas.getContext('2d');
     if (!ctx) {
       console.error('GameCanvas: Failed to get 2D context');
@@ -128,17 +174,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
     contextRef.current = ctx;
 
-    // Set internal canvas resolution to base dimensions
-    canvas.width = baseWidth;
-    canvas.height = baseHeight;
-
     // Disable image smoothing for crisp pixel art
     ctx.imageSmoothingEnabled = false;
 
     if (onContextReady) {
       onContextReady(ctx);
     }
-  }, [baseWidth, baseHeight, onContextReady]);
+  }, [baseWidth, baseHeight, onContextReady, renderInWorker, onWorkerRendererReady, workerFailed, canvasKey]);
 
   /**
    * Set up resize observer
@@ -212,6 +254,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       }}
     >
       <canvas
+        key={canvasKey}
         ref={canvasRef}
         style={{
           width: `${dimensions.width}px`,
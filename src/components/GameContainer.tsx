@@ -12,83 +12,150 @@ import { StitchedHUD } from './StitchedHUD';
 import { GameMenu } from './GameMenu';
 import { TouchControls } from './TouchControls';
 import { WeaponSprite } from './WeaponSprite';
+import { DemoControls } from './DemoControls';
 import { useInputHandler } from '@/input/useInputHandler';
 import { GameLoop, createGameLoop } from '@/engine/gameLoop';
-import { GameRenderer } from '@/engine/renderer';
-import { CollisionSystem, moveWithCollision } from '@/engine/collision';
-import { fromAngle } from '@/engine/vector2';
+import { FrameRenderer, GameRenderer } from '@/engine/renderer';
+import { WorkerRenderer } from '@/engine/workerRenderer';
+import { SpriteAtlas, loadSpriteAtlas } from '@/engine/spriteAtlas';
+import { RaycastConfig } from '@/engine/types';
+import { Campaign, GameState, GameStatus, LevelSummary } from '@/game/types';
+import { getCurrentAmmo } from '@/game/player';
+import { GameEvent, createLevelState, createNewGame, stepGame } from '@/game/simulation';
+import { interpolateState } from '@/game/interpolation';
+import { createRandomState, createSeed } from '@/game/random';
 import {
-  GameState,
-  GameStatus,
-  Player,
-  Enemy,
-  GameItem,
-  LevelMap,
-} from '@/game/types';
+  DemoPlayer,
+  DemoRecorder,
+  PlaybackSpeed,
+  createDemoPlayer,
+  createDemoRecorder,
+  deserializeDemo,
+  serializeDemo,
+  validateDemoCampaign,
+} from '@/game/demo';
+import { DEFAULT_CAMPAIGN } from '@/game/levels';
+import { parseCampaignFile } from '@/game/campaign';
+import { describeExitLock, getExitLock } from '@/game/exit';
+import { isAtExitPoint } from '@/game/level';
 import {
-  createPlayer,
-  moveForward,
-  moveBackward,
-  rotateLeft,
-  rotateRight,
-  takeDamage,
-  fire,
-  addScore,
-  setPosition,
-  isDead as isPlayerDead,
-} from '@/game/player';
-import { EnemyManager, createEnemyManager } from '@/game/enemyManager';
-import { processItems, createItemsFromSpawns } from '@/game/item';
-import { isAtExitPoint, hasNextLevel, isFinalLevel } from '@/game/level';
-import { LEVEL_LAB, LEVEL_DUNGEON } from '@/game/levels';
+  deserializeBestResults,
+  getBestResultKey,
+  recordBestResult,
+  serializeBestResults,
+} from '@/game/levelStats';
 import {
   serialize,
-  deserialize,
+  deserializeSaveData,
+  applySaveData,
   createDefaultGameState,
 } from '@/game/gameStateManager';
 import { GameAction } from '@/input/types';
+import {
+  AudioManagerState,
+  createAudioManager,
+  disposeAudio,
+  initializeAudio,
+  playSoundEffect,
+} from '@/audio';
 
 /**
- * Available game levels
+ * Local storage key for save data
  */
-const GAME_LEVELS: LevelMap[] = [LEVEL_LAB, LEVEL_DUNGEON];
+const SAVE_KEY = 'frankenkiro_save';
 
 /**
- * Local storage key for save data
+ * Local storage key for the best result of every level played
  */
-const SAVE_KEY = 'frankenkiro_save';
+const BEST_RESULTS_KEY = 'frankenkiro_best_results';
+
+/**
+ * Sprite atlas shipped in public/sprites
+ */
+const SPRITE_ATLAS_URL = '/sprites/atlas.json';
+
+/**
+ * File name used when downloading a recorded demo
+ */
+const DEMO_FILE_NAME = 'frankenkiro_demo.json';
 
 /**
- * Player collision radius
+ * Simulation ticks per second
  */
-const PLAYER_RADIUS = 0.3;
+const TICK_RATE = 60;
 
+/**
+ * Raycast configuration of the 3D view
+ */
+const RENDER_CONFIG: RaycastConfig = {
+  screenWidth: 640,
+  screenHeight: 480,
+  fov: Math.PI / 3,
+  maxRenderDistance: 20,
+};
 
 /**
- * Attack cooldown tracking for enemies
+ * Playback bar state shown while a demo plays
  */
-const ENEMY_ATTACK_COOLDOWN = 1.0; // seconds
+interface DemoPlaybackInfo {
+  tick: number;
+  tickCount: number;
+  tickRate: number;
+  paused: boolean;
+  speed: PlaybackSpeed;
+}
+
+/**
+ * Level shown on the intermission and victory screens
+ */
+interface CompletedLevelInfo {
+  name: string;
+  summary: LevelSummary;
+  best?: LevelSummary;
+}
 
 interface GameContainerProps {
   /** Initial game status */
   initialStatus?: GameStatus;
+  /** Campaign a new game starts, until a campaign pack is loaded from the menu */
+  initialCampaign?: Campaign;
+  /** Start a new game as soon as the component mounts */
+  autoStart?: boolean;
+  /** Local storage key for save data */
+  saveKey?: string;
+  /** Render in a worker through an OffscreenCanvas where the browser supports it */
+  renderInWorker?: boolean;
+  /**
+   * URL of a JSON sprite atlas; sprites it has no clips for, or every sprite
+   * when this is empty, keep their procedural shapes
+   */
+  spriteAtlasUrl?: string;
 }
 
 /**
  * GameContainer component
- * Main game orchestration component that wires together all systems
+ * Thin shell around the game simulation: feeds it input each frame,
+ * renders the resulting state and turns its events into UI feedback
  */
 export const GameContainer: React.FC<GameContainerProps> = ({
   initialStatus = 'menu',
+  initialCampaign = DEFAULT_CAMPAIGN,
+  autoStart = false,
+  saveKey = SAVE_KEY,
+  renderInWorker = false,
+  spriteAtlasUrl = SPRITE_ATLAS_URL,
 }) => {
   // Game state
-  const [gameStatus, setGameStatus] = useState<GameStatus>(initialStatus);
-  const [player, setPlayer] = useState<Player>(() => createPlayer({ x: 2.5, y: 2.5 }, 0));
-  const [enemies, setEnemies] = useState<Enemy[]>([]);
-  const [items, setItems] = useState<GameItem[]>([]);
-  const [currentLevel, setCurrentLevel] = useState(0);
-  const [levelMap, setLevelMap] = useState<LevelMap>(GAME_LEVELS[0]);
-  const [elapsedTime, setElapsedTime] = useState(0);
+  const [gameState, setGameState] = useState<GameState>(() => ({
+    ...createDefaultGameState(),
+    status: initialStatus,
+  }));
+  const { status: gameStatus, player } = gameState;
+
+  // Explain a locked exit while the player stands on it
+  const exitLock = isAtExitPoint(player.position, gameState.levelMap)
+    ? getExitLock(gameState.levelMap, gameState)
+    : null;
   
   // Notification state for save/load feedback
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
@@ -99,23 +166,38 @@ export const GameContainer: React.FC<GameContainerProps> = ({
   // Weapon animation state
   const [weaponAnimating, setWeaponAnimating] = useState(false);
 
+  // Demo state: whether this session is being recorded, and playback progress
+  const [isRecording, setIsRecording] = useState(false);
+  const [demoPlayback, setDemoPlayback] = useState<DemoPlaybackInfo | null>(null);
+
+  // Statistics of the level just completed, for the intermission and victory screens
+  const [completedLevel, setCompletedLevel] = useState<CompletedLevelInfo | null>(null);
+
+  // Campaign being played; each campaign pack keeps its own save slot
+  const [campaign, setCampaign] = useState(initialCampaign);
+  const campaignSaveKey = campaign === initialCampaign ? saveKey : `${saveKey}_${campaign.id}`;
+
   // Refs for game systems (not React state to avoid re-renders)
   const gameLoopRef = useRef<GameLoop | null>(null);
-  // Create renderer immediately so it's available when canvas context is ready
-  const rendererRef = useRef<GameRenderer>(new GameRenderer({
-    screenWidth: 640,
-    screenHeight: 480,
-    fov: Math.PI / 3,
-    maxRenderDistance: 20,
-  }));
-  const enemyManagerRef = useRef<EnemyManager>(createEnemyManager());
-  const canvasContextRef = useRef<CanvasRenderingContext2D | null>(null);
-  const attackCooldownRef = useRef<number>(0);
+  // Renderer drawing on this thread or in a worker, set once the canvas is ready
+  const rendererRef = useRef<FrameRenderer | null>(null);
+  // Loaded sprite atlas, handed to the renderer once both are ready
+  const spriteAtlasRef = useRef<SpriteAtlas | null>(null);
+  // Audio starts on the first game, since browsers only allow it after a user gesture
+  const audioRef = useRef<AudioManagerState>(createAudioManager());
   
   // Refs for callbacks to avoid stale closures in game loop
   const handleUpdateRef = useRef<(deltaTime: number) => void>(() => {});
-  const handleRenderRef = useRef<() => void>(() => {});
-  const lastDeltaTimeRef = useRef<number>(0.016);
+  const handleRenderRef = useRef<(alpha: number, deltaTime: number) => void>(() => {});
+
+  // Current state for the game loop (to avoid stale closures)
+  const gameStateRef = useRef(gameState);
+  // State before the latest update, blended with the current one when rendering
+  const previousStateRef = useRef(gameState);
+
+  // Demo recording of the current session, and the demo being played back
+  const recorderRef = useRef<DemoRecorder | null>(null);
+  const demoPlayerRef = useRef<DemoPlayer | null>(null);
 
   // Input handling
   const {
@@ -125,199 +207,193 @@ export const GameContainer: React.FC<GameContainerProps> = ({
     isTouchDevice,
   } = useInputHandler();
 
-  // Refs for current state (to avoid stale closures in game loop)
-  const playerRef = useRef(player);
-  const enemiesRef = useRef(enemies);
-  const itemsRef = useRef(items);
-  const levelMapRef = useRef(levelMap);
-  const gameStatusRef = useRef(gameStatus);
-  const currentLevelRef = useRef(currentLevel);
-  const elapsedTimeRef = useRef(elapsedTime);
-
-  // Keep refs in sync with state
-  useEffect(() => { playerRef.current = player; }, [player]);
-  useEffect(() => { enemiesRef.current = enemies; }, [enemies]);
-  useEffect(() => { itemsRef.current = items; }, [items]);
-  useEffect(() => { levelMapRef.current = levelMap; }, [levelMap]);
-  useEffect(() => { gameStatusRef.current = gameStatus; }, [gameStatus]);
-  useEffect(() => { currentLevelRef.current = currentLevel; }, [currentLevel]);
-  useEffect(() => { elapsedTimeRef.current = elapsedTime; }, [elapsedTime]);
-
-
   /**
-   * Initialize a level with enemies and items
+   * Show notification with auto-dismiss
    */
-  const initializeLevel = useCallback((levelIndex: number, preserveScore: boolean = false) => {
-    const level = GAME_LEVELS[levelIndex];
-    if (!level) return;
+  const showNotification = useCallback((message: string, type: 'success' | 'error') => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  }, []);
 
-    // Reset player position to spawn point
-    const newPlayer = createPlayer(level.playerSpawn, 0);
-    if (preserveScore) {
-      newPlayer.stats.score = playerRef.current.stats.score;
+  /**
+   * Show the name and intro text of a campaign level
+   */
+  const showLevelIntro = useCallback((levelIndex: number) => {
+    const entry = campaign.levels[levelIndex];
+    if (entry) {
+      showNotification(`📜 ${entry.name}${entry.intro ? ` — ${entry.intro}` : ''}`, 'success');
     }
-    setPlayer(newPlayer);
-    playerRef.current = newPlayer;
-
-    // Set level map
-    setLevelMap(level);
-    levelMapRef.current = level;
-    setCurrentLevel(levelIndex);
-    currentLevelRef.current = levelIndex;
-
-    // Spawn enemies
-    const manager = enemyManagerRef.current;
-    manager.clear();
-    manager.spawnFromLevel(level.enemySpawns);
-    setEnemies(manager.getEnemies());
-    enemiesRef.current = manager.getEnemies();
-
-    // Create items
-    const newItems = createItemsFromSpawns(level.items);
-    setItems(newItems);
-    itemsRef.current = newItems;
-
-    // Reset attack cooldown
-    attackCooldownRef.current = 0;
+  }, [campaign, showNotification]);
+
+  /**
+   * Replace the game state for both the game loop and the UI
+   * The new state is not blended with the old one when rendering
+   */
+  const commitState = useCallback((state: GameState) => {
+    gameStateRef.current = state;
+    previousStateRef.current = state;
+    setGameState(state);
   }, []);
 
   /**
-   * Handle game update (called each frame)
+   * Change only the game status
    */
-  const handleUpdate = useCallback((deltaTime: number) => {
-    if (gameStatusRef.current !== 'playing') return;
-    
-    // Store deltaTime for render callback
-    lastDeltaTimeRef.current = deltaTime;
-
-    const inputState = getInputState();
-    let currentPlayer = playerRef.current;
-    const level = levelMapRef.current;
-
-    // Update elapsed time
-    const newElapsedTime = elapsedTimeRef.current + deltaTime;
-    setElapsedTime(newElapsedTime);
-    elapsedTimeRef.current = newElapsedTime;
-
-    // Handle player movement
-    if (inputState.activeActions.has('moveForward')) {
-      currentPlayer = moveForward(currentPlayer, deltaTime);
-    }
-    if (inputState.activeActions.has('moveBackward')) {
-      currentPlayer = moveBackward(currentPlayer, deltaTime);
-    }
-    if (inputState.activeActions.has('turnLeft')) {
-      currentPlayer = rotateLeft(currentPlayer, deltaTime);
-    }
-    if (inputState.activeActions.has('turnRight')) {
-      currentPlayer = rotateRight(currentPlayer, deltaTime);
+  const setStatus = useCallback((status: GameStatus) => {
+    commitState({ ...gameStateRef.current, status });
+  }, [commitState]);
+
+  /**
+   * Merge a completed level into the stored best results
+   * @returns The level's best result, or undefined if storage failed
+   */
+  const recordLevelResult = useCallback((summary: LevelSummary): LevelSummary | undefined => {
+    try {
+      const results = recordBestResult(
+        deserializeBestResults(localStorage.getItem(BEST_RESULTS_KEY)),
+        campaign.id,
+        summary
+      );
+      localStorage.setItem(BEST_RESULTS_KEY, serializeBestResults(results));
+      return results[getBestResultKey(campaign.id, summary.levelId)];
+    } catch (e) {
+      console.error('Failed to save best results:', e);
+      return undefined;
     }
+  }, [campaign]);
 
-    // Apply collision detection to player movement
-    const resolvedPosition = moveWithCollision(
-      playerRef.current.position,
-      currentPlayer.position,
-      PLAYER_RADIUS,
-      level
-    );
-    currentPlayer = setPosition(currentPlayer, resolvedPosition);
-
-    // Handle firing
-    if (inputState.activeActions.has('fire')) {
-      const fireResult = fire(currentPlayer);
-      if (fireResult.success) {
-        currentPlayer = fireResult.player;
-        
-        // Trigger weapon animation
-        setWeaponAnimating(true);
-        setTimeout(() => setWeaponAnimating(false), 150);
-        
-        // Check for enemy hits (simple raycast-based hit detection)
-        const direction = fromAngle(currentPlayer.rotation);
-        const manager = enemyManagerRef.current;
-        const closestEnemy = manager.findClosestEnemy(
-          currentPlayer.position,
-          currentPlayer.currentWeapon.range
-        );
-        if (closestEnemy) {
-          const scoreIncrease = manager.damageEnemy(
-            closestEnemy.id,
-            currentPlayer.currentWeapon.damage
-          );
-          if (scoreIncrease > 0) {
-            currentPlayer = addScore(currentPlayer, scoreIncrease);
+  /**
+   * Turn simulation events into UI feedback
+   */
+  const handleEvents = useCallback((events: GameEvent[]) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'weaponFired':
+          setWeaponAnimating(true);
+          setTimeout(() => setWeaponAnimating(false), 150);
+          break;
+        case 'playerDamaged':
+          setScreenShake(8);
+          setTimeout(() => setScreenShake(0), 200);
+          break;
+        case 'doorLocked':
+          showNotification('🔒 This door needs a key', 'error');
+          break;
+        case 'secretFound':
+          showNotification(`🤫 Secret found! (${event.found}/${event.total})`, 'success');
+          break;
+        case 'message':
+          showNotification(event.text, 'success');
+          break;
+        case 'sound':
+          playSoundEffect(audioRef.current, event.sound);
+          break;
+        case 'levelComplete':
+          // Demos play straight through; live games stop for the intermission
+          if (demoPlayerRef.current) {
+            if (gameStateRef.current.status === 'playing') {
+              showLevelIntro(gameStateRef.current.currentLevel);
+            }
+            break;
           }
-          setEnemies(manager.getEnemies());
-          enemiesRef.current = manager.getEnemies();
-        }
+          setCompletedLevel({
+            name: campaign.levels[event.levelIndex]?.name ?? '',
+            summary: event.summary,
+            best: recordLevelResult(event.summary),
+          });
+          if (gameStateRef.current.status === 'playing') {
+            gameLoopRef.current?.pause();
+            setStatus('intermission');
+          }
+          break;
+        case 'playerDied':
+        case 'victory':
+          gameLoopRef.current?.pause();
+          break;
       }
     }
+  }, [showNotification, showLevelIntro, campaign, recordLevelResult, setStatus]);
 
+  /**
+   * Refresh the playback bar from the demo player
+   */
+  const syncDemoPlayback = useCallback(() => {
+    const demoPlayer = demoPlayerRef.current;
+    setDemoPlayback(demoPlayer ? {
+      tick: demoPlayer.tick,
+      tickCount: demoPlayer.tickCount,
+      tickRate: TICK_RATE,
+      paused: demoPlayer.isPaused,
+      speed: demoPlayer.speed,
+    } : null);
+  }, []);
 
-    // Update enemies
-    const manager = enemyManagerRef.current;
-    const enemyResult = manager.update(currentPlayer, level, deltaTime);
-    setEnemies(manager.getEnemies());
-    enemiesRef.current = manager.getEnemies();
-
-    // Apply enemy damage to player (with cooldown)
-    attackCooldownRef.current -= deltaTime;
-    if (enemyResult.totalDamageToPlayer > 0 && attackCooldownRef.current <= 0) {
-      currentPlayer = takeDamage(currentPlayer, enemyResult.totalDamageToPlayer);
-      attackCooldownRef.current = ENEMY_ATTACK_COOLDOWN;
-      
-      // Trigger screen shake on damage
-      setScreenShake(8);
-      setTimeout(() => setScreenShake(0), 200);
-    }
+  /**
+   * Stop demo playback and return to the main menu
+   */
+  const handleStopDemo = useCallback(() => {
+    demoPlayerRef.current = null;
+    syncDemoPlayback();
+    gameLoopRef.current?.stop();
+    commitState({ ...gameStateRef.current, status: 'menu' });
+  }, [syncDemoPlayback, commitState]);
 
-    // Process item collection
-    const itemResult = processItems(currentPlayer, itemsRef.current);
-    if (itemResult.collectedCount > 0) {
-      currentPlayer = itemResult.player;
-      setItems(itemResult.items);
-      itemsRef.current = itemResult.items;
+  /**
+   * Advance demo playback by one tick of the game loop
+   */
+  const updateDemo = useCallback((demoPlayer: DemoPlayer) => {
+    if (demoPlayer.isPaused) return;
+
+    const previous = gameStateRef.current;
+    const events = demoPlayer.update();
+    if (demoPlayer.isFinished) {
+      handleStopDemo();
+      showNotification('🎬 Demo finished', 'success');
+      return;
     }
+    commitState(demoPlayer.getState());
+    previousStateRef.current = previous;
+    handleEvents(events);
+    syncDemoPlayback();
+  }, [handleStopDemo, showNotification, commitState, handleEvents, syncDemoPlayback]);
 
-    // Check for player death
-    if (isPlayerDead(currentPlayer)) {
-      setGameStatus('gameOver');
-      gameStatusRef.current = 'gameOver';
-      gameLoopRef.current?.pause();
-    }
+  /**
+   * Handle game update (called each fixed tick)
+   */
+  const handleUpdate = useCallback((deltaTime: number) => {
+    if (gameStateRef.current.status !== 'playing') return;
 
-    // Check for level exit
-    if (isAtExitPoint(currentPlayer.position, level)) {
-      const nextLevelIndex = currentLevelRef.current + 1;
-      if (nextLevelIndex < GAME_LEVELS.length) {
-        // Load next level
-        initializeLevel(nextLevelIndex, true);
-      } else {
-        // Victory!
-        setGameStatus('victory');
-        gameStatusRef.current = 'victory';
-        gameLoopRef.current?.pause();
-      }
+    if (demoPlayerRef.current) {
+      updateDemo(demoPlayerRef.current);
+      return;
     }
 
-    // Update player state
-    setPlayer(currentPlayer);
-    playerRef.current = currentPlayer;
-  }, [getInputState, initializeLevel]);
+    const previous = gameStateRef.current;
+    const input = getInputState();
+    recorderRef.current?.record(input);
+    const { state, events } = stepGame(previous, input, deltaTime, { campaign });
+    commitState(state);
+    previousStateRef.current = previous;
+    handleEvents(events);
+  }, [getInputState, commitState, handleEvents, updateDemo, campaign]);
 
   /**
    * Handle game render (called each frame)
+   * @param alpha - How far the frame lies between the last two updates
+   * @param deltaTime - Time since the previous frame, which drives visual effects
    */
-  const handleRender = useCallback(() => {
-    if (!canvasContextRef.current) return;
-    if (gameStatusRef.current !== 'playing') return;
-
-    rendererRef.current.render(
-      playerRef.current,
-      levelMapRef.current,
-      enemiesRef.current,
-      itemsRef.current,
-      lastDeltaTimeRef.current
+  const handleRender = useCallback((alpha: number, deltaTime: number) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    if (gameStateRef.current.status !== 'playing') return;
+    const state = interpolateState(previousStateRef.current, gameStateRef.current, alpha);
+
+    renderer.render(
+      state.player,
+      state.levelMap,
+      state.enemies,
+      state.items,
+      deltaTime,
+      state.projectiles
     );
   }, []);
 
@@ -336,13 +412,15 @@ export const GameContainer: React.FC<GameContainerProps> = ({
   useEffect(() => {
     // Create game loop with wrapper functions that call the refs
     gameLoopRef.current = createGameLoop({
-      targetFPS: 60,
+      targetFPS: TICK_RATE,
+      fixedTimestep: true,
       onUpdate: (deltaTime: number) => handleUpdateRef.current(deltaTime),
-      onRender: () => handleRenderRef.current(),
+      onRender: (alpha: number, deltaTime: number) => handleRenderRef.current(alpha, deltaTime),
     });
 
     return () => {
       gameLoopRef.current?.stop();
+      audioRef.current = disposeAudio(audioRef.current);
     };
   }, []); // Empty deps - only create once
 
@@ -351,10 +429,43 @@ export const GameContainer: React.FC<GameContainerProps> = ({
    * Handle canvas context ready
    */
   const handleContextReady = useCallback((ctx: CanvasRenderingContext2D) => {
-    canvasContextRef.current = ctx;
-    rendererRef.current.setContext(ctx);
+    const renderer = new GameRenderer(RENDER_CONFIG);
+    renderer.setContext(ctx);
+    renderer.setSpriteAtlas(spriteAtlasRef.current);
+    rendererRef.current = renderer;
+  }, []);
+
+  /**
+   * Handle the canvas being handed to a render worker
+   */
+  const handleWorkerRendererReady = useCallback((renderer: WorkerRenderer) => {
+    renderer.setConfig(RENDER_CONFIG);
+    renderer.setSpriteAtlas(spriteAtlasRef.current);
+    rendererRef.current = renderer;
   }, []);
 
+  /**
+   * Load the sprite atlas; sprites keep their procedural shapes if it fails
+   */
+  useEffect(() => {
+    if (!spriteAtlasUrl) return;
+
+    let cancelled = false;
+    loadSpriteAtlas(spriteAtlasUrl)
+      .then((atlas) => {
+        if (cancelled) return;
+        spriteAtlasRef.current = atlas;
+        rendererRef.current?.setSpriteAtlas(atlas);
+      })
+      .catch((e) => {
+        console.error('Failed to load sprite atlas:', e);
+        showNotification(`❌ ${e instanceof Error ? e.message : 'Invalid sprite atlas'}`, 'error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [spriteAtlasUrl, showNotification]);
+
   /**
    * Handle canvas render callback
    */
@@ -366,63 +477,58 @@ export const GameContainer: React.FC<GameContainerProps> = ({
    * Start a new game
    */
   const handleStartGame = useCallback(() => {
-    initializeLevel(0, false);
-    setElapsedTime(0);
-    elapsedTimeRef.current = 0;
-    setGameStatus('playing');
-    gameStatusRef.current = 'playing';
+    audioRef.current = initializeAudio(audioRef.current);
+    const seed = createSeed();
+    rendererRef.current?.setSeed(seed);
+    recorderRef.current = createDemoRecorder(campaign.id, 0, seed, TICK_RATE);
+    setIsRecording(true);
+    demoPlayerRef.current = null;
+    setDemoPlayback(null);
+    setCompletedLevel(null);
+    commitState(createNewGame(seed, campaign));
     gameLoopRef.current?.start();
-  }, [initializeLevel]);
+    showLevelIntro(0);
+  }, [commitState, campaign, showLevelIntro]);
 
   /**
    * Resume from pause
    */
   const handleResume = useCallback(() => {
-    setGameStatus('playing');
-    gameStatusRef.current = 'playing';
+    setStatus('playing');
     gameLoopRef.current?.resume();
-  }, []);
+  }, [setStatus]);
 
   /**
-   * Pause the game
+   * Leave the intermission and start the next level
    */
-  const handlePause = useCallback(() => {
-    setGameStatus('paused');
-    gameStatusRef.current = 'paused';
-    gameLoopRef.current?.pause();
-  }, []);
+  const handleContinue = useCallback(() => {
+    setStatus('playing');
+    gameLoopRef.current?.resume();
+    showLevelIntro(gameStateRef.current.currentLevel);
+  }, [setStatus, showLevelIntro]);
 
   /**
-   * Show notification with auto-dismiss
+   * Pause the game
    */
-  const showNotification = useCallback((message: string, type: 'success' | 'error') => {
-    setNotification({ message, type });
-    setTimeout(() => setNotification(null), 3000);
-  }, []);
+  const handlePause = useCallback(() => {
+    setStatus('paused');
+    gameLoopRef.current?.pause();
+  }, [setStatus]);
 
   /**
    * Save game to localStorage
    * Requirements: 8.1, 8.2
    */
   const handleSave = useCallback(() => {
-    const gameState: GameState = {
-      status: 'playing',
-      player: playerRef.current,
-      enemies: enemiesRef.current,
-      items: itemsRef.current,
-      currentLevel: currentLevelRef.current,
-      levelMap: levelMapRef.current,
-      elapsedTime: elapsedTimeRef.current,
-    };
-    const saveData = serialize(gameState);
+    const saveData = serialize(gameStateRef.current);
     try {
-      localStorage.setItem(SAVE_KEY, saveData);
+      localStorage.setItem(campaignSaveKey, saveData);
       showNotification('💾 Game saved successfully!', 'success');
     } catch (e) {
       console.error('Failed to save game:', e);
       showNotification('❌ Failed to save game', 'error');
     }
-  }, [showNotification]);
+  }, [showNotification, campaignSaveKey]);
 
   /**
    * Load game from localStorage
@@ -430,59 +536,31 @@ export const GameContainer: React.FC<GameContainerProps> = ({
    */
   const handleLoad = useCallback(() => {
     try {
-      const saveData = localStorage.getItem(SAVE_KEY);
+      const saveData = localStorage.getItem(campaignSaveKey);
       if (!saveData) {
         showNotification('📂 No save data found', 'error');
         return;
       }
 
-      // Create a temporary state to deserialize into
-      const tempState = createDefaultGameState();
-      const loadedState = deserialize(saveData, tempState);
+      const result = deserializeSaveData(saveData);
+      const levelIndex = result.saveData?.gameState.currentLevel ?? -1;
       
-      if (loadedState) {
-        // Restore the level first
-        const levelIndex = loadedState.currentLevel;
-        if (levelIndex >= 0 && levelIndex < GAME_LEVELS.length) {
-          setLevelMap(GAME_LEVELS[levelIndex]);
-          levelMapRef.current = GAME_LEVELS[levelIndex];
-          setCurrentLevel(levelIndex);
-          currentLevelRef.current = levelIndex;
-        }
-
-        // Restore player
-        setPlayer(loadedState.player);
-        playerRef.current = loadedState.player;
-
-        // Restore enemies (re-spawn from level and apply saved state)
-        const manager = enemyManagerRef.current;
-        manager.clear();
-        manager.spawnFromLevel(GAME_LEVELS[levelIndex].enemySpawns);
-        // Apply saved enemy states
-        const savedEnemies = manager.getEnemies();
-        setEnemies(savedEnemies);
-        enemiesRef.current = savedEnemies;
-
-        // Restore items
-        const newItems = createItemsFromSpawns(GAME_LEVELS[levelIndex].items);
-        // Mark collected items
-        const collectedIds = loadedState.items
-          .filter(i => i.collected)
-          .map(i => i.id);
-        const restoredItems = newItems.map(item => ({
-          ...item,
-          collected: collectedIds.includes(item.id),
-        }));
-        setItems(restoredItems);
-        itemsRef.current = restoredItems;
-
-        // Restore elapsed time
-        setElapsedTime(loadedState.elapsedTime);
-        elapsedTimeRef.current = loadedState.elapsedTime;
-
-        // Start playing
-        setGameStatus('playing');
-        gameStatusRef.current = 'playing';
+      if (result.success && result.saveData && campaign.levels[levelIndex]) {
+        // Rebuild the saved level, then apply the saved player, enemy, item and door state
+        // Random streams are not saved, so a loaded game continues with a fresh seed
+        audioRef.current = initializeAudio(audioRef.current);
+        const seed = createSeed();
+        const restoredState = applySaveData(result.saveData, {
+          ...createLevelState(levelIndex, campaign),
+          rng: createRandomState(seed),
+        });
+        rendererRef.current?.setSeed(seed);
+        // Demos can only replay from the start of a level, so loaded games are not recorded
+        recorderRef.current = null;
+        setIsRecording(false);
+        demoPlayerRef.current = null;
+        setDemoPlayback(null);
+        commitState(restoredState);
         gameLoopRef.current?.start();
 
         showNotification('📂 Game loaded successfully!', 'success');
@@ -493,17 +571,117 @@ export const GameContainer: React.FC<GameContainerProps> = ({
       console.error('Failed to load game:', e);
       showNotification('❌ Failed to load game', 'error');
     }
+  }, [showNotification, commitState, campaignSaveKey, campaign]);
+
+
+  /**
+   * Download the demo recorded this session
+   */
+  const handleSaveDemo = useCallback(() => {
+    if (!recorderRef.current) return;
+    const blob = new Blob([serializeDemo(recorderRef.current.getDemo())], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = DEMO_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+    showNotification('🎬 Demo saved!', 'success');
   }, [showNotification]);
 
+  /**
+   * Pick a demo file and play it back
+   */
+  const handlePlayDemo = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      const result = deserializeDemo(await file.text());
+      const errors = result.demo ? validateDemoCampaign(result.demo, campaign) : [];
+      if (!result.success || !result.demo || errors.length > 0) {
+        showNotification(`❌ ${result.error ?? errors[0] ?? 'Invalid demo'}`, 'error');
+        return;
+      }
+
+      const demoPlayer = createDemoPlayer(result.demo, campaign);
+      demoPlayerRef.current = demoPlayer;
+      rendererRef.current?.setSeed(result.demo.seed);
+      recorderRef.current = null;
+      setIsRecording(false);
+      syncDemoPlayback();
+      commitState(demoPlayer.getState());
+      gameLoopRef.current?.start();
+    };
+    input.click();
+  }, [showNotification, syncDemoPlayback, commitState, campaign]);
+
+  /**
+   * Pick a campaign pack file and make it the campaign new games start
+   */
+  const handleLoadCampaign = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      try {
+        const loaded = parseCampaignFile(await file.text());
+        setCampaign(loaded);
+        showNotification(`📜 Loaded campaign: ${loaded.name}`, 'success');
+      } catch (e) {
+        console.error('Failed to load campaign:', e);
+        showNotification(`❌ ${e instanceof Error ? e.message : 'Invalid campaign'}`, 'error');
+      }
+    };
+    input.click();
+  }, [showNotification]);
+
+  /**
+   * Toggle demo playback pause
+   */
+  const handleToggleDemoPause = useCallback(() => {
+    const demoPlayer = demoPlayerRef.current;
+    if (!demoPlayer) return;
+    if (demoPlayer.isPaused) {
+      demoPlayer.resume();
+    } else {
+      demoPlayer.pause();
+    }
+    syncDemoPlayback();
+  }, [syncDemoPlayback]);
+
+  /**
+   * Change demo playback speed
+   */
+  const handleDemoSpeedChange = useCallback((speed: PlaybackSpeed) => {
+    demoPlayerRef.current?.setSpeed(speed);
+    syncDemoPlayback();
+  }, [syncDemoPlayback]);
+
+  /**
+   * Jump to a point in the demo
+   */
+  const handleDemoSeek = useCallback((tick: number) => {
+    const demoPlayer = demoPlayerRef.current;
+    if (!demoPlayer) return;
+    demoPlayer.seek(tick);
+    commitState(demoPlayer.getState());
+    syncDemoPlayback();
+  }, [commitState, syncDemoPlayback]);
 
   /**
    * Quit to main menu
    */
   const handleQuit = useCallback(() => {
     gameLoopRef.current?.stop();
-    setGameStatus('menu');
-    gameStatusRef.current = 'menu';
-  }, []);
+    setStatus('menu');
+  }, [setStatus]);
 
   /**
    * Restart the game
@@ -513,15 +691,26 @@ export const GameContainer: React.FC<GameContainerProps> = ({
     handleStartGame();
   }, [handleStartGame]);
 
+  /**
+   * Start right away when asked to, and again whenever the campaign changes
+   */
+  useEffect(() => {
+    if (autoStart) {
+      handleStartGame();
+    }
+  }, [autoStart, handleStartGame]);
+
   /**
    * Handle keyboard pause (Escape key)
    */
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
-        if (gameStatusRef.current === 'playing') {
+        if (demoPlayerRef.current) {
+          handleStopDemo();
+        } else if (gameStateRef.current.status === 'playing') {
           handlePause();
-        } else if (gameStatusRef.current === 'paused') {
+        } else if (gameStateRef.current.status === 'paused') {
           handleResume();
         }
       }
@@ -529,7 +718,7 @@ export const GameContainer: React.FC<GameContainerProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handlePause, handleResume]);
+  }, [handlePause, handleResume, handleStopDemo]);
 
   /**
    * Handle touch control actions
@@ -558,6 +747,8 @@ export const GameContainer: React.FC<GameContainerProps> = ({
         baseWidth={640}
         baseHeight={480}
         onContextReady={handleContextReady}
+        renderInWorker={renderInWorker}
+        onWorkerRendererReady={handleWorkerRendererReady}
         onRender={handleCanvasRender}
         isRunning={gameStatus === 'playing'}
         shakeIntensity={screenShake}
@@ -576,7 +767,7 @@ export const GameContainer: React.FC<GameContainerProps> = ({
             zIndex: 50,
           }}
         >
-          <WeaponSprite isFiring={weaponAnimating} weaponType="pistol" />
+          <WeaponSprite isFiring={weaponAnimating} weaponType={player.currentWeapon.id} />
         </div>
       )}
 
@@ -585,13 +776,26 @@ export const GameContainer: React.FC<GameContainerProps> = ({
         <StitchedHUD
           health={player.stats.health}
           maxHealth={player.stats.maxHealth}
-          ammunition={player.stats.ammunition}
+          ammunition={getCurrentAmmo(player)}
+          weaponName={player.currentWeapon.name}
           score={player.stats.score}
+          exitMessage={exitLock ? describeExitLock(exitLock) : undefined}
+        />
+      )}
+
+      {/* Demo playback bar - only show while a demo plays */}
+      {demoPlayback && gameStatus === 'playing' && (
+        <DemoControls
+          {...demoPlayback}
+          onTogglePause={handleToggleDemoPause}
+          onSpeedChange={handleDemoSpeedChange}
+          onSeek={handleDemoSeek}
+          onStop={handleStopDemo}
         />
       )}
 
       {/* Touch Controls - only show on touch devices when playing */}
-      {isTouchDevice && gameStatus === 'playing' && (
+      {isTouchDevice && gameStatus === 'playing' && !demoPlayback && (
         <TouchControls
           onActionStart={handleTouchActionStart}
           onActionEnd={handleTouchActionEnd}
@@ -609,6 +813,14 @@ export const GameContainer: React.FC<GameContainerProps> = ({
         onLoad={handleLoad}
         onQuit={handleQuit}
         onRestart={handleRestart}
+        onPlayDemo={handlePlayDemo}
+        onSaveDemo={isRecording ? handleSaveDemo : undefined}
+        onLoadCampaign={handleLoadCampaign}
+        campaignName={campaign.name}
+        levelName={completedLevel?.name}
+        levelSummary={completedLevel?.summary}
+        bestResult={completedLevel?.best}
+        onContinue={handleContinue}
       />
 
       {/* Notification display for save/load feedback */}
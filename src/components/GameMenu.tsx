@@ -2,12 +2,12 @@
 
 /**
  * GameMenu component for FrankenKiro game
- * Provides main menu, pause menu, game over, and victory screens
+ * Provides main menu, pause menu, intermission, game over, and victory screens
  * Requirements: 7.3, 8.1, 8.2
  */
 
 import React from 'react';
-import { GameStatus } from '@/game/types';
+import { GameStatus, LevelSummary } from '@/game/types';
 
 interface GameMenuProps {
   /** Current game status */
@@ -26,6 +26,22 @@ interface GameMenuProps {
   onQuit?: () => void;
   /** Callback when restart is clicked */
   onRestart?: () => void;
+  /** Callback when play demo is clicked */
+  onPlayDemo?: () => void;
+  /** Callback when save demo is clicked (button hidden when not provided) */
+  onSaveDemo?: () => void;
+  /** Callback when load campaign is clicked */
+  onLoadCampaign?: () => void;
+  /** Name of the campaign a new game starts */
+  campaignName?: string;
+  /** Name of the level just completed (intermission and victory screens) */
+  levelName?: string;
+  /** Statistics of the level just completed */
+  levelSummary?: LevelSummary;
+  /** Best recorded statistics for the level just completed */
+  bestResult?: LevelSummary;
+  /** Callback when continue is clicked on the intermission screen */
+  onContinue?: () => void;
 }
 
 /**
@@ -182,13 +198,90 @@ const MenuPanel: React.FC<{ children: React.ReactNode; title?: string }> = ({ ch
 );
 
 
+/**
+ * Format seconds as minutes and seconds
+ */
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format a count out of a total, with its percentage
+ */
+function formatRatio(count: number, total: number): string {
+  return total > 0 ? `${count}/${total} (${Math.round((count / total) * 100)}%)` : '—';
+}
+
+/**
+ * Table of level statistics, with the best results alongside when known
+ */
+const LevelStatsTable: React.FC<{
+  summary: LevelSummary;
+  best?: LevelSummary;
+}> = ({ summary, best }) => {
+  const rows: { label: string; value: (s: LevelSummary) => string }[] = [
+    { label: 'KILLS', value: (s) => formatRatio(s.kills, s.totalKills) },
+    { label: 'ITEMS', value: (s) => formatRatio(s.items, s.totalItems) },
+    { label: 'SECRETS', value: (s) => formatRatio(s.secrets, s.totalSecrets) },
+    { label: 'SHOTS', value: (s) => s.shotsFired.toString() },
+    { label: 'ACCURACY', value: (s) => `${Math.round(s.accuracy * 100)}%` },
+    { label: 'DAMAGE', value: (s) => Math.round(s.damageTaken).toString() },
+    { label: 'TIME', value: (s) => formatTime(s.time) },
+    { label: 'PAR', value: (s) => formatTime(s.parTime) },
+  ];
+
+  return (
+    <table
+      style={{
+        margin: '0 auto 30px',
+        borderCollapse: 'collapse',
+        fontFamily: 'monospace',
+        fontSize: '16px',
+      }}
+    >
+      {best && (
+        <thead>
+          <tr>
+            <th />
+            <th style={{ color: COLORS.bone, padding: '4px 16px', opacity: 0.7 }}>THIS RUN</th>
+            <th style={{ color: COLORS.bone, padding: '4px 16px', opacity: 0.7 }}>BEST</th>
+          </tr>
+        </thead>
+      )}
+      <tbody>
+        {rows.map(({ label, value }) => (
+          <tr key={label} style={{ borderBottom: `1px dashed ${COLORS.seamColor}` }}>
+            <td style={{ color: COLORS.purple, padding: '4px 16px', textAlign: 'left' }}>{label}</td>
+            <td
+              style={{
+                color: label === 'TIME' && summary.time <= summary.parTime ? COLORS.green : COLORS.orange,
+                padding: '4px 16px',
+                textAlign: 'right',
+              }}
+            >
+              {value(summary)}
+            </td>
+            {best && (
+              <td style={{ color: COLORS.bone, padding: '4px 16px', textAlign: 'right' }}>{value(best)}</td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
 /**
  * Main menu screen
  */
 const MainMenu: React.FC<{
   onStartGame?: () => void;
   onLoad?: () => void;
-}> = ({ onStartGame, onLoad }) => (
+  onPlayDemo?: () => void;
+  onLoadCampaign?: () => void;
+  campaignName?: string;
+}> = ({ onStartGame, onLoad, onPlayDemo, onLoadCampaign, campaignName }) => (
   <MenuPanel>
     <h1
       style={{
@@ -206,12 +299,17 @@ const MainMenu: React.FC<{
       style={{
         color: COLORS.bone,
         fontSize: '14px',
-        marginBottom: '40px',
+        marginBottom: campaignName ? '10px' : '40px',
         opacity: 0.7,
       }}
     >
       A Halloween DOOM-style Adventure
     </p>
+    {campaignName && (
+      <p style={{ color: COLORS.green, fontSize: '14px', marginBottom: '30px' }}>
+        Campaign: {campaignName}
+      </p>
+    )}
     <div style={{ display: 'flex', flexDirection: 'column', gap: '15px', alignItems: 'center' }}>
       <StitchedButton onClick={onStartGame} variant="primary">
         🎃 START GAME
@@ -219,10 +317,26 @@ const MainMenu: React.FC<{
       <StitchedButton onClick={onLoad} variant="secondary">
         📂 LOAD GAME
       </StitchedButton>
+      <StitchedButton onClick={onPlayDemo} variant="secondary">
+        🎬 PLAY DEMO
+      </StitchedButton>
+      <StitchedButton onClick={onLoadCampaign} variant="secondary">
+        📜 LOAD CAMPAIGN
+      </StitchedButton>
     </div>
   </MenuPanel>
 );
 
+/**
+ * Save demo button, only shown when there is a demo to save
+ */
+const SaveDemoButton: React.FC<{ onSaveDemo?: () => void }> = ({ onSaveDemo }) =>
+  onSaveDemo ? (
+    <StitchedButton onClick={onSaveDemo} variant="secondary">
+      🎬 SAVE DEMO
+    </StitchedButton>
+  ) : null;
+
 /**
  * Pause menu screen
  */
@@ -231,7 +345,8 @@ const PauseMenu: React.FC<{
   onSave?: () => void;
   onLoad?: () => void;
   onQuit?: () => void;
-}> = ({ onResume, onSave, onLoad, onQuit }) => (
+  onSaveDemo?: () => void;
+}> = ({ onResume, onSave, onLoad, onQuit, onSaveDemo }) => (
   <MenuPanel title="⏸ PAUSED">
     <div style={{ display: 'flex', flexDirection: 'column', gap: '15px', alignItems: 'center' }}>
       <StitchedButton onClick={onResume} variant="primary">
@@ -243,6 +358,42 @@ const PauseMenu: React.FC<{
       <StitchedButton onClick={onLoad} variant="secondary">
         📂 LOAD GAME
       </StitchedButton>
+      <SaveDemoButton onSaveDemo={onSaveDemo} />
+      <StitchedButton onClick={onQuit} variant="danger">
+        🚪 QUIT TO MENU
+      </StitchedButton>
+    </div>
+  </MenuPanel>
+);
+
+/**
+ * Intermission screen shown between levels
+ */
+const IntermissionScreen: React.FC<{
+  levelName?: string;
+  levelSummary?: LevelSummary;
+  bestResult?: LevelSummary;
+  onContinue?: () => void;
+  onQuit?: () => void;
+}> = ({ levelName, levelSummary, bestResult, onContinue, onQuit }) => (
+  <MenuPanel title="🧪 LEVEL COMPLETE">
+    {levelName && (
+      <p
+        style={{
+          color: COLORS.green,
+          fontSize: '20px',
+          fontFamily: 'monospace',
+          marginBottom: '20px',
+        }}
+      >
+        {levelName}
+      </p>
+    )}
+    {levelSummary && <LevelStatsTable summary={levelSummary} best={bestResult} />}
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '15px', alignItems: 'center' }}>
+      <StitchedButton onClick={onContinue} variant="primary">
+        ▶ CONTINUE
+      </StitchedButton>
       <StitchedButton onClick={onQuit} variant="danger">
         🚪 QUIT TO MENU
       </StitchedButton>
@@ -257,7 +408,8 @@ const GameOverScreen: React.FC<{
   score?: number;
   onRestart?: () => void;
   onQuit?: () => void;
-}> = ({ score = 0, onRestart, onQuit }) => (
+  onSaveDemo?: () => void;
+}> = ({ score = 0, onRestart, onQuit, onSaveDemo }) => (
   <MenuPanel title="💀 GAME OVER">
     <p
       style={{
@@ -283,6 +435,7 @@ const GameOverScreen: React.FC<{
       <StitchedButton onClick={onRestart} variant="primary">
         🔄 TRY AGAIN
       </StitchedButton>
+      <SaveDemoButton onSaveDemo={onSaveDemo} />
       <StitchedButton onClick={onQuit} variant="secondary">
         🚪 MAIN MENU
       </StitchedButton>
@@ -295,9 +448,12 @@ const GameOverScreen: React.FC<{
  */
 const VictoryScreen: React.FC<{
   score?: number;
+  levelSummary?: LevelSummary;
+  bestResult?: LevelSummary;
   onRestart?: () => void;
   onQuit?: () => void;
-}> = ({ score = 0, onRestart, onQuit }) => (
+  onSaveDemo?: () => void;
+}> = ({ score = 0, levelSummary, bestResult, onRestart, onQuit, onSaveDemo }) => (
   <MenuPanel title="🏆 VICTORY!">
     <p
       style={{
@@ -319,10 +475,12 @@ const VictoryScreen: React.FC<{
     >
       Final Score: <span style={{ color: COLORS.orange }}>{score.toString().padStart(6, '0')}</span>
     </p>
+    {levelSummary && <LevelStatsTable summary={levelSummary} best={bestResult} />}
     <div style={{ display: 'flex', flexDirection: 'column', gap: '15px', alignItems: 'center' }}>
       <StitchedButton onClick={onRestart} variant="primary">
         🎃 PLAY AGAIN
       </StitchedButton>
+      <SaveDemoButton onSaveDemo={onSaveDemo} />
       <StitchedButton onClick={onQuit} variant="secondary">
         🚪 MAIN MENU
       </StitchedButton>
@@ -344,10 +502,26 @@ export const GameMenu: React.FC<GameMenuProps> = ({
   onLoad,
   onQuit,
   onRestart,
+  onPlayDemo,
+  onSaveDemo,
+  onLoadCampaign,
+  campaignName,
+  levelName,
+  levelSummary,
+  bestResult,
+  onContinue,
 }) => {
   switch (status) {
     case 'menu':
-      return <MainMenu onStartGame={onStartGame} onLoad={onLoad} />;
+      return (
+        <MainMenu
+          onStartGame={onStartGame}
+          onLoad={onLoad}
+          onPlayDemo={onPlayDemo}
+          onLoadCampaign={onLoadCampaign}
+          campaignName={campaignName}
+        />
+      );
 
     case 'paused':
       return (
@@ -356,6 +530,18 @@ export const GameMenu: React.FC<GameMenuProps> = ({
           onSave={onSave}
           onLoad={onLoad}
           onQuit={onQuit}
+          onSaveDemo={onSaveDemo}
+        />
+      );
+
+    case 'intermission':
+      return (
+        <IntermissionScreen
+          levelName={levelName}
+          levelSummary={levelSummary}
+          bestResult={bestResult}
+          onContinue={onContinue}
+          onQuit={onQuit}
         />
       );
 
@@ -365,6 +551,7 @@ export const GameMenu: React.FC<GameMenuProps> = ({
           score={score}
           onRestart={onRestart}
           onQuit={onQuit}
+          onSaveDemo={onSaveDemo}
         />
       );
 
@@ -372,8 +559,11 @@ export const GameMenu: React.FC<GameMenuProps> = ({
       return (
         <VictoryScreen
           score={score}
+          levelSummary={levelSummary}
+          bestResult={bestResult}
           onRestart={onRestart}
           onQuit={onQuit}
+          onSaveDemo={onSaveDemo}
         />
       );
 
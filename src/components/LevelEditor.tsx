@@ -0,0 +1,641 @@
+'use client';
+
+/**
+ * LevelEditor component for FrankenKiro game
+ * Top-down grid editor for painting tiles, placing spawns and items,
+ * with live validation, JSON import/export and seeded level generation
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { ExitRule, ItemType, LevelMap, WeaponId } from '@/game/types';
+import { ENEMY_ARCHETYPES, DEFAULT_ENEMY_TYPE } from '@/game/enemyArchetypes';
+import { WEAPON_ORDER } from '@/game/weapons';
+import { DOOR_TILE, LOCKED_DOOR_TILES } from '@/game/door';
+import {
+  FLOOR_TILE,
+  MAX_WALL_TILE,
+  parseLevelFile,
+  serializeLevelMap,
+  setTile,
+  validateLevelMap,
+} from '@/game/level';
+import {
+  CEILING_SKY,
+  CEILING_STONE,
+  CEILING_WOOD,
+  FLOOR_ACID,
+  FLOOR_BLOOD,
+  FLOOR_HEALING,
+  FLOOR_PLAIN,
+  FLOOR_TELEPORT,
+  getCeilingType,
+  getFloorType,
+} from '@/game/floor';
+import {
+  MAX_EDITOR_SIZE,
+  MIN_EDITOR_SIZE,
+  clearSpawnsAt,
+  placeEnemySpawn,
+  placeItemSpawn,
+  placeTeleporter,
+  resizeLevel,
+  setExitPoint,
+  setCeilingType,
+  setExitRule,
+  setFloorType,
+  setPlayerSpawn,
+} from '@/game/levelEditor';
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  LevelGeneratorStyle,
+  MIN_GENERATED_SIZE,
+  generateLevel,
+} from '@/game/levelGenerator';
+import { createSeed } from '@/game/random';
+import { COLORS as RENDER_COLORS } from '@/engine/renderer';
+
+interface LevelEditorProps {
+  /** Level being edited */
+  level: LevelMap;
+  /** Display name written into exported files */
+  name: string;
+  /** Callback when the level is edited */
+  onLevelChange: (level: LevelMap) => void;
+  /** Callback when the name is edited */
+  onNameChange: (name: string) => void;
+  /** Callback when playtest is clicked (only offered for valid levels) */
+  onPlaytest?: (level: LevelMap) => void;
+}
+
+/**
+ * Editing tools
+ */
+type EditorTool =
+  | 'wall'
+  | 'floor'
+  | 'door'
+  | 'floorType'
+  | 'teleport'
+  | 'ceiling'
+  | 'spawn'
+  | 'exit'
+  | 'enemy'
+  | 'item'
+  | 'erase';
+
+/**
+ * Halloween color palette
+ */
+const COLORS = {
+  green: '#4ade80',
+  purple: '#a855f7',
+  orange: '#fb923c',
+  bone: '#fef3c7',
+  blood: '#dc2626',
+  darkBg: '#1a1a2e',
+  seamColor: '#374151',
+  floor: '#0f0f1a',
+};
+
+const TOOLS: Array<{ id: EditorTool; label: string }> = [
+  { id: 'wall', label: '🧱 Wall' },
+  { id: 'floor', label: '⬛ Floor' },
+  { id: 'door', label: '🚪 Door' },
+  { id: 'floorType', label: '🟩 Floor type' },
+  { id: 'teleport', label: '🌀 Teleport' },
+  { id: 'ceiling', label: '☁ Ceiling' },
+  { id: 'spawn', label: '🧍 Spawn' },
+  { id: 'exit', label: '🏁 Exit' },
+  { id: 'enemy', label: '🧟 Enemy' },
+  { id: 'item', label: '🎁 Item' },
+  { id: 'erase', label: '✖ Erase' },
+];
+
+/**
+ * Tools that paint continuously while the mouse is dragged
+ */
+const DRAG_TOOLS: EditorTool[] = ['wall', 'floor', 'door', 'floorType', 'ceiling', 'erase'];
+
+const ITEM_TYPES: ItemType[] = ['health', 'ammo', 'key', 'weapon', 'collectible'];
+
+/**
+ * Floor types painted with the floor type tool; teleport pads have their own tool
+ */
+const FLOOR_TYPES: Array<{ type: number; label: string }> = [
+  { type: FLOOR_PLAIN, label: 'plain' },
+  { type: FLOOR_ACID, label: 'acid' },
+  { type: FLOOR_BLOOD, label: 'blood' },
+  { type: FLOOR_HEALING, label: 'healing' },
+];
+
+const CEILING_TYPES: Array<{ type: number; label: string }> = [
+  { type: CEILING_STONE, label: 'stone' },
+  { type: CEILING_WOOD, label: 'wood' },
+  { type: CEILING_SKY, label: 'open sky' },
+];
+
+/**
+ * Editor cell colors for special floor types
+ */
+const FLOOR_TYPE_COLORS: Record<number, string> = {
+  [FLOOR_ACID]: RENDER_COLORS.floorAcid,
+  [FLOOR_BLOOD]: RENDER_COLORS.floorBlood,
+  [FLOOR_HEALING]: RENDER_COLORS.floorHealing,
+  [FLOOR_TELEPORT]: RENDER_COLORS.floorTeleport,
+};
+
+const EXIT_RULE_TYPES: ExitRule['type'][] = ['open', 'key', 'enemiesDead', 'collectibles'];
+
+const ENEMY_GLYPHS: Record<string, string> = { zombie: '🧟', skeleton: '💀', ghost: '👻' };
+const ITEM_GLYPHS: Record<ItemType, string> = { health: '❤', ammo: '▪', key: '🔑', weapon: '🗡', collectible: '🧪' };
+
+/**
+ * Get the glyph drawn over a cell, if anything is placed there
+ */
+function getCellGlyph(level: LevelMap, x: number, y: number): string {
+  const inCell = (position: { x: number; y: number }): boolean =>
+    Math.floor(position.x) === x && Math.floor(position.y) === y;
+
+  if (inCell(level.playerSpawn)) return '🧍';
+  if (inCell(level.exitPoint)) return '🏁';
+  const enemy = level.enemySpawns.find((spawn) => inCell(spawn.position));
+  if (enemy) return ENEMY_GLYPHS[enemy.enemyType] ?? '👾';
+  const item = level.items.find((spawn) => inCell(spawn.position));
+  if (item) return ITEM_GLYPHS[item.itemType];
+  if (getCeilingType(x, y, level) === CEILING_SKY) return '☁';
+  return '';
+}
+
+/**
+ * Get the background color of a tile
+ * Open floor is tinted by its floor type
+ */
+function getTileColor(tile: number, floorType: number): string {
+  if (tile === FLOOR_TILE) {
+    return FLOOR_TYPE_COLORS[floorType] ?? COLORS.floor;
+  }
+  if (tile in LOCKED_DOOR_TILES) {
+    return COLORS.orange;
+  }
+  return RENDER_COLORS.wallsLight[tile % RENDER_COLORS.wallsLight.length];
+}
+
+/**
+ * Labelled control row in the toolbar
+ */
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+    <span>{label}</span>
+    {children}
+  </label>
+);
+
+const inputStyle: React.CSSProperties = {
+  width: '90px',
+  fontFamily: 'monospace',
+  backgroundColor: COLORS.darkBg,
+  color: COLORS.bone,
+  border: `1px dashed ${COLORS.seamColor}`,
+};
+
+/**
+ * Stitched toolbar button
+ */
+const ToolButton: React.FC<{
+  onClick?: () => void;
+  active?: boolean;
+  disabled?: boolean;
+  color?: string;
+  children: React.ReactNode;
+}> = ({ onClick, active = false, disabled = false, color = COLORS.purple, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    style={{
+      padding: '6px 10px',
+      fontFamily: 'monospace',
+      fontWeight: 'bold',
+      color: active ? '#000' : color,
+      backgroundColor: active ? color : 'transparent',
+      border: `2px dashed ${color}`,
+      borderRadius: '2px',
+      cursor: disabled ? 'not-allowed' : 'pointer',
+      opacity: disabled ? 0.5 : 1,
+      textAlign: 'left',
+    }}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * LevelEditor component
+ */
+export const LevelEditor: React.FC<LevelEditorProps> = ({
+  level,
+  name,
+  onLevelChange,
+  onNameChange,
+  onPlaytest,
+}) => {
+  const [tool, setTool] = useState<EditorTool>('wall');
+  const [wallType, setWallType] = useState(1);
+  const [doorTile, setDoorTile] = useState(DOOR_TILE);
+  const [enemyType, setEnemyType] = useState(DEFAULT_ENEMY_TYPE);
+  const [itemType, setItemType] = useState<ItemType>('health');
+  const [itemValue, setItemValue] = useState(25);
+  const [weaponId, setWeaponId] = useState<WeaponId>('shotgun');
+  const [floorType, setFloorTypeChoice] = useState(FLOOR_ACID);
+  const [ceilingType, setCeilingTypeChoice] = useState(CEILING_SKY);
+  const [teleportPad, setTeleportPad] = useState<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState({ width: level.width, height: level.height });
+  const [generatorSeed, setGeneratorSeed] = useState(() => createSeed());
+  const [generatorStyle, setGeneratorStyle] = useState<LevelGeneratorStyle>(DEFAULT_GENERATOR_OPTIONS.style);
+  const [difficulty, setDifficulty] = useState(DEFAULT_GENERATOR_OPTIONS.difficulty);
+  const [isPainting, setIsPainting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const validation = useMemo(() => validateLevelMap(level), [level]);
+  const exitRule: ExitRule = level.exitRule ?? { type: 'open' };
+  const cellSize = Math.max(10, Math.min(28, Math.floor(640 / Math.max(level.width, level.height))));
+
+  /**
+   * Apply the current tool to a cell
+   */
+  const applyTool = useCallback((x: number, y: number) => {
+    switch (tool) {
+      case 'wall':
+        onLevelChange(setTile(clearSpawnsAt(level, x, y), x, y, wallType));
+        break;
+      case 'floor':
+        onLevelChange(setTile(level, x, y, FLOOR_TILE));
+        break;
+      case 'door':
+        onLevelChange(setTile(clearSpawnsAt(level, x, y), x, y, doorTile));
+        break;
+      case 'floorType':
+        onLevelChange(setFloorType(level, x, y, floorType));
+        break;
+      case 'ceiling':
+        onLevelChange(setCeilingType(level, x, y, ceilingType));
+        break;
+      case 'teleport':
+        // First click picks the pad, the second its destination
+        if (teleportPad) {
+          onLevelChange(placeTeleporter(level, teleportPad.x, teleportPad.y, { x, y }));
+          setTeleportPad(null);
+        } else {
+          setTeleportPad({ x, y });
+        }
+        break;
+      case 'spawn':
+        onLevelChange(setPlayerSpawn(level, x, y));
+        break;
+      case 'exit':
+        onLevelChange(setExitPoint(level, x, y));
+        break;
+      case 'enemy':
+        onLevelChange(placeEnemySpawn(level, x, y, enemyType));
+        break;
+      case 'item':
+        onLevelChange(placeItemSpawn(level, x, y, {
+          itemType,
+          value: itemValue,
+          ...(itemType === 'weapon' ? { weaponId } : {}),
+        }));
+        break;
+      case 'erase':
+        onLevelChange(clearSpawnsAt(level, x, y));
+        break;
+    }
+  }, [tool, level, wallType, doorTile, floorType, ceilingType, teleportPad, enemyType, itemType, itemValue, weaponId, onLevelChange]);
+
+  /**
+   * Read a level file chosen by the user
+   */
+  const handleImport = useCallback(async (file: File) => {
+    try {
+      const json = await file.text();
+      const imported = parseLevelFile(json);
+      const parsed = JSON.parse(json) as { name?: unknown };
+      onLevelChange(imported);
+      onNameChange(typeof parsed.name === 'string' ? parsed.name : file.name.replace(/\.json$/, ''));
+      setSize({ width: imported.width, height: imported.height });
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Failed to read level file');
+    }
+  }, [onLevelChange, onNameChange]);
+
+  /**
+   * Download the level as a level file
+   */
+  const handleExport = useCallback(() => {
+    const blob = new Blob([serializeLevelMap(level, name)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_') || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [level, name]);
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        gap: '20px',
+        height: '100vh',
+        boxSizing: 'border-box',
+        padding: '20px',
+        overflow: 'auto',
+        color: COLORS.bone,
+        fontFamily: 'monospace',
+        fontSize: '13px',
+      }}
+      onMouseUp={() => setIsPainting(false)}
+      onMouseLeave={() => setIsPainting(false)}
+    >
+      {/* Toolbar */}
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+          minWidth: '220px',
+          padding: '12px',
+          backgroundColor: COLORS.darkBg,
+          border: `3px double ${COLORS.seamColor}`,
+          borderRadius: '4px',
+          alignSelf: 'flex-start',
+        }}
+      >
+        <h2 style={{ color: COLORS.green, margin: '0 0 8px', letterSpacing: '3px' }}>LEVEL EDITOR</h2>
+        <Field label="Name">
+          <input value={name} onChange={(e) => onNameChange(e.target.value)} style={inputStyle} />
+        </Field>
+
+        {TOOLS.map(({ id, label }) => (
+          <ToolButton
+            key={id}
+            onClick={() => {
+              setTool(id);
+              setTeleportPad(null);
+            }}
+            active={tool === id}
+          >
+            {label}
+          </ToolButton>
+        ))}
+
+        {tool === 'wall' && (
+          <Field label="Wall type">
+            <select value={wallType} onChange={(e) => setWallType(Number(e.target.value))} style={inputStyle}>
+              {Array.from({ length: MAX_WALL_TILE }, (_, i) => i + 1).map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+        {tool === 'door' && (
+          <Field label="Door">
+            <select value={doorTile} onChange={(e) => setDoorTile(Number(e.target.value))} style={inputStyle}>
+              <option value={DOOR_TILE}>open</option>
+              {Object.entries(LOCKED_DOOR_TILES).map(([tile, keyId]) => (
+                <option key={tile} value={tile}>{keyId}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+        {tool === 'floorType' && (
+          <Field label="Floor">
+            <select value={floorType} onChange={(e) => setFloorTypeChoice(Number(e.target.value))} style={inputStyle}>
+              {FLOOR_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+        {tool === 'ceiling' && (
+          <Field label="Ceiling">
+            <select value={ceilingType} onChange={(e) => setCeilingTypeChoice(Number(e.target.value))} style={inputStyle}>
+              {CEILING_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+        {tool === 'teleport' && (
+          <div style={{ color: COLORS.bone, fontSize: '12px' }}>
+            {teleportPad
+              ? `Pad at (${teleportPad.x}, ${teleportPad.y}): click its destination`
+              : 'Click a cell for the pad'}
+          </div>
+        )}
+        {tool === 'enemy' && (
+          <Field label="Enemy">
+            <select value={enemyType} onChange={(e) => setEnemyType(e.target.value)} style={inputStyle}>
+              {Object.keys(ENEMY_ARCHETYPES).map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+        {tool === 'item' && (
+          <>
+            <Field label="Item">
+              <select value={itemType} onChange={(e) => setItemType(e.target.value as ItemType)} style={inputStyle}>
+                {ITEM_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </Field>
+            {itemType === 'weapon' && (
+              <Field label="Weapon">
+                <select value={weaponId} onChange={(e) => setWeaponId(e.target.value as WeaponId)} style={inputStyle}>
+                  {WEAPON_ORDER.map((id) => (
+                    <option key={id} value={id}>{id}</option>
+                  ))}
+                </select>
+              </Field>
+            )}
+            <Field label={itemType === 'key' ? 'Key number' : 'Value'}>
+              <input
+                type="number"
+                min={1}
+                value={itemValue}
+                onChange={(e) => setItemValue(Math.max(1, Number(e.target.value)))}
+                style={inputStyle}
+              />
+            </Field>
+          </>
+        )}
+
+        <hr style={{ width: '100%', borderColor: COLORS.seamColor }} />
+        <Field label="Width">
+          <input
+            type="number"
+            min={MIN_EDITOR_SIZE}
+            max={MAX_EDITOR_SIZE}
+            value={size.width}
+            onChange={(e) => setSize({ ...size, width: Number(e.target.value) })}
+            style={inputStyle}
+          />
+        </Field>
+        <Field label="Height">
+          <input
+            type="number"
+            min={MIN_EDITOR_SIZE}
+            max={MAX_EDITOR_SIZE}
+            value={size.height}
+            onChange={(e) => setSize({ ...size, height: Number(e.target.value) })}
+            style={inputStyle}
+          />
+        </Field>
+        <ToolButton onClick={() => onLevelChange(resizeLevel(level, size.width, size.height))}>
+          ↔ Resize
+        </ToolButton>
+
+        <hr style={{ width: '100%', borderColor: COLORS.seamColor }} />
+        <Field label="Seed">
+          <input
+            type="number"
+            min={0}
+            value={generatorSeed}
+            onChange={(e) => setGeneratorSeed(Math.max(0, Math.floor(Number(e.target.value))))}
+            style={inputStyle}
+          />
+        </Field>
+        <Field label="Style">
+          <select
+            value={generatorStyle}
+            onChange={(e) => setGeneratorStyle(e.target.value as LevelGeneratorStyle)}
+            style={inputStyle}
+          >
+            <option value="rooms">rooms</option>
+            <option value="caves">caves</option>
+          </select>
+        </Field>
+        <Field label="Difficulty">
+          <input
+            type="number"
+            min={0}
+            step={0.25}
+            value={difficulty}
+            onChange={(e) => setDifficulty(Math.max(0, Number(e.target.value)))}
+            style={inputStyle}
+          />
+        </Field>
+        <ToolButton
+          onClick={() => onLevelChange(generateLevel(generatorSeed, { ...size, style: generatorStyle, difficulty }))}
+          disabled={size.width < MIN_GENERATED_SIZE || size.height < MIN_GENERATED_SIZE}
+        >
+          🎲 Generate
+        </ToolButton>
+
+        <hr style={{ width: '100%', borderColor: COLORS.seamColor }} />
+        <Field label="Exit rule">
+          <select
+            value={exitRule.type}
+            onChange={(e) => onLevelChange(setExitRule(level, e.target.value as ExitRule['type']))}
+            style={inputStyle}
+          >
+            {EXIT_RULE_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </Field>
+        {(exitRule.type === 'key' || exitRule.type === 'collectibles') && (
+          <Field label={exitRule.type === 'key' ? 'Key number' : 'Needed'}>
+            <input
+              type="number"
+              min={1}
+              value={exitRule.type === 'key' ? exitRule.key : exitRule.count}
+              onChange={(e) => onLevelChange(setExitRule(level, exitRule.type, Math.max(1, Number(e.target.value))))}
+              style={inputStyle}
+            />
+          </Field>
+        )}
+
+        <hr style={{ width: '100%', borderColor: COLORS.seamColor }} />
+        <label style={{ color: COLORS.purple, fontWeight: 'bold' }}>
+          📂 Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+            style={{ display: 'block', marginTop: '4px', fontSize: '11px' }}
+          />
+        </label>
+        <ToolButton onClick={handleExport}>💾 Export JSON</ToolButton>
+        <ToolButton
+          onClick={() => onPlaytest?.(level)}
+          disabled={!validation.valid}
+          color={COLORS.green}
+        >
+          ▶ Playtest
+        </ToolButton>
+        {importError && <div style={{ color: COLORS.blood }}>{importError}</div>}
+      </div>
+
+      {/* Grid */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: `repeat(${level.width}, ${cellSize}px)`,
+            gridAutoRows: `${cellSize}px`,
+            border: `3px double ${COLORS.seamColor}`,
+            userSelect: 'none',
+            alignSelf: 'flex-start',
+          }}
+        >
+          {level.grid.map((row, y) =>
+            row.map((tile, x) => (
+              <div
+                key={`${x},${y}`}
+                title={`(${x}, ${y}) tile ${tile}`}
+                onMouseDown={() => {
+                  setIsPainting(DRAG_TOOLS.includes(tool));
+                  applyTool(x, y);
+                }}
+                onMouseEnter={() => {
+                  if (isPainting) applyTool(x, y);
+                }}
+                style={{
+                  backgroundColor: getTileColor(tile, getFloorType(x, y, level)),
+                  outline: `1px solid ${COLORS.darkBg}`,
+                  fontSize: `${Math.floor(cellSize * 0.7)}px`,
+                  lineHeight: `${cellSize}px`,
+                  textAlign: 'center',
+                  cursor: 'crosshair',
+                }}
+              >
+                {getCellGlyph(level, x, y)}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Validation */}
+        <div style={{ maxWidth: '640px' }}>
+          {validation.valid ? (
+            <span style={{ color: COLORS.green }}>✔ Level is valid</span>
+          ) : (
+            <ul style={{ color: COLORS.blood, margin: 0, paddingLeft: '18px' }}>
+              {validation.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
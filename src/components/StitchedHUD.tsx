@@ -13,12 +13,16 @@ interface StitchedHUDProps {
   health: number;
   /** Maximum player health */
   maxHealth: number;
-  /** Current ammunition count */
+  /** Current ammunition count for the equipped weapon */
   ammunition: number;
+  /** Name of the equipped weapon */
+  weaponName?: string;
   /** Current player score */
   score: number;
   /** Optional weapon sprite identifier */
   weaponSprite?: string;
+  /** Why the exit the player stands on is locked, if it is */
+  exitMessage?: string;
 }
 
 /**
@@ -157,7 +161,7 @@ const HealthBar: React.FC<{ health: number; maxHealth: number }> = ({ health, ma
  * Ammo counter component with mismatched panel styling
  * Requirements: 6.2
  */
-const AmmoCounter: React.FC<{ ammunition: number }> = ({ ammunition }) => {
+const AmmoCounter: React.FC<{ ammunition: number; weaponName?: string }> = ({ ammunition, weaponName }) => {
   const isLow = ammunition <= 5;
 
   return (
@@ -170,6 +174,18 @@ const AmmoCounter: React.FC<{ ammunition: number }> = ({ ammunition }) => {
     >
       <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
         <span style={{ color: COLORS.orange, fontSize: '16px' }}>🔫</span>
+        {weaponName && (
+          <span
+            style={{
+              color: COLORS.bone,
+              fontSize: '12px',
+              fontFamily: 'monospace',
+              textTransform: 'uppercase',
+            }}
+          >
+            {weaponName}
+          </span>
+        )}
         <span
           style={{
             color: isLow ? COLORS.blood : COLORS.orange,
@@ -217,6 +233,28 @@ const ScoreDisplay: React.FC<{ score: number }> = ({ score }) => (
   </div>
 );
 
+/**
+ * Locked exit notice with stitched styling
+ */
+const ExitNotice: React.FC<{ message: string }> = ({ message }) => (
+  <div
+    style={{
+      ...stitchedPanelBase,
+      ...getStitchBorder(COLORS.blood, 'dashed'),
+      position: 'absolute',
+      top: '80px',
+      left: '50%',
+      transform: 'translateX(-50%) rotate(0.5deg)',
+      color: COLORS.bone,
+      fontSize: '16px',
+      fontFamily: 'monospace',
+      whiteSpace: 'nowrap',
+    }}
+  >
+    🚪 EXIT LOCKED — {message}
+  </div>
+);
+
 /**
  * StitchedHUD component
  * Main HUD display with Frankenstein-themed styling
@@ -226,7 +264,9 @@ export const StitchedHUD: React.FC<StitchedHUDProps> = ({
   health,
   maxHealth,
   ammunition,
+  weaponName,
   score,
+  exitMessage,
 }) => {
   return (
     <>
@@ -260,7 +300,10 @@ export const StitchedHUD: React.FC<StitchedHUDProps> = ({
         <ScoreDisplay score={score} />
 
         {/* Right side - Ammo */}
-        <AmmoCounter ammunition={ammunition} />
+        <AmmoCounter ammunition={ammunition} weaponName={weaponName} />
+
+        {/* Below - locked exit explanation */}
+        {exitMessage && <ExitNotice message={exitMessage} />}
       </div>
     </>
   );
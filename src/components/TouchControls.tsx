@@ -268,6 +268,13 @@ export const TouchControls: React.FC<TouchControlsProps> = ({
           onEnd={onActionEnd}
           variant="action"
         />
+        <TouchButton
+          action="nextWeapon"
+          label="⇄"
+          onStart={onActionStart}
+          onEnd={onActionEnd}
+          variant="action"
+        />
       </div>
     </div>
   );
@@ -6,12 +6,47 @@
  */
 
 import React, { useEffect, useRef } from 'react';
+import { WeaponId } from '@/game/types';
 
 interface WeaponSpriteProps {
   /** Whether the weapon is currently firing */
   isFiring: boolean;
   /** Weapon type */
-  weaponType?: 'pistol' | 'shotgun' | 'rifle';
+  weaponType?: WeaponId;
+}
+
+/**
+ * Draw a muzzle flash centered above the given barrel tip
+ */
+function drawMuzzleFlash(
+  ctx: CanvasRenderingContext2D,
+  scale: number,
+  tipY: number,
+  width: number,
+  color: string = '#ffaa00'
+): void {
+  ctx.fillStyle = color;
+  ctx.shadowColor = '#ff6600';
+  ctx.shadowBlur = 30 * scale;
+
+  ctx.beginPath();
+  ctx.moveTo(-width * scale, tipY * scale);
+  ctx.lineTo(0, (tipY - 35) * scale);
+  ctx.lineTo(width * scale, tipY * scale);
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.beginPath();
+  ctx.moveTo(-width * 1.8 * scale, (tipY + 5) * scale);
+  ctx.lineTo(-width * 3 * scale, (tipY - 10) * scale);
+  ctx.lineTo(-width * 1.2 * scale, tipY * scale);
+  ctx.lineTo(width * 1.2 * scale, tipY * scale);
+  ctx.lineTo(width * 3 * scale, (tipY - 10) * scale);
+  ctx.lineTo(width * 1.8 * scale, (tipY + 5) * scale);
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.shadowBlur = 0;
 }
 
 /**
@@ -164,6 +199,156 @@ function drawPistol(
   ctx.restore();
 }
 
+/**
+ * Draw a pixel-art style double-barrelled shotgun
+ */
+function drawShotgun(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  isFiring: boolean
+): void {
+  const scale = Math.min(width, height) / 100;
+
+  ctx.save();
+  ctx.translate(width / 2, height);
+
+  if (isFiring) {
+    ctx.translate(0, -20 * scale);
+    ctx.rotate(-0.15);
+    drawMuzzleFlash(ctx, scale, -90, 14);
+  }
+
+  // Twin barrels
+  ctx.fillStyle = '#2a2a2a';
+  ctx.fillRect(-14 * scale, -90 * scale, 13 * scale, 55 * scale);
+  ctx.fillRect(1 * scale, -90 * scale, 13 * scale, 55 * scale);
+  ctx.fillStyle = '#6a6a6a';
+  ctx.fillRect(-14 * scale, -90 * scale, 3 * scale, 55 * scale);
+  ctx.fillRect(1 * scale, -90 * scale, 3 * scale, 55 * scale);
+
+  // Barrel band
+  ctx.fillStyle = '#4a4a4a';
+  ctx.fillRect(-16 * scale, -60 * scale, 32 * scale, 6 * scale);
+
+  // Wooden forestock and stock
+  ctx.fillStyle = '#5c3d2a';
+  ctx.fillRect(-17 * scale, -38 * scale, 34 * scale, 30 * scale);
+  ctx.fillStyle = '#3d2817';
+  ctx.beginPath();
+  ctx.moveTo(-17 * scale, -8 * scale);
+  ctx.lineTo(-22 * scale, 30 * scale);
+  ctx.lineTo(22 * scale, 30 * scale);
+  ctx.lineTo(17 * scale, -8 * scale);
+  ctx.closePath();
+  ctx.fill();
+
+  // Stitches across the stock
+  ctx.fillStyle = '#1a1a1a';
+  for (let i = 0; i < 4; i++) {
+    ctx.fillRect((-12 + i * 8) * scale, 8 * scale, 2 * scale, 8 * scale);
+  }
+  ctx.fillRect(-14 * scale, 11 * scale, 28 * scale, 2 * scale);
+
+  ctx.restore();
+}
+
+/**
+ * Draw the Stitcher - a rapid-fire sewing-needle gun
+ * The recoil kicks left and right on alternate shots
+ */
+function drawStitcher(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  isFiring: boolean,
+  shot: number
+): void {
+  const scale = Math.min(width, height) / 100;
+
+  ctx.save();
+  ctx.translate(width / 2, height);
+
+  if (isFiring) {
+    ctx.translate((shot % 2 === 0 ? -2 : 2) * scale, -8 * scale);
+    drawMuzzleFlash(ctx, scale, -95, 6, '#ccffcc');
+  }
+
+  // Needle barrel
+  ctx.fillStyle = '#c0c0c0';
+  ctx.fillRect(-3 * scale, -95 * scale, 6 * scale, 40 * scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(-3 * scale, -95 * scale, 2 * scale, 40 * scale);
+
+  // Machine body
+  ctx.fillStyle = '#2d5a4f';
+  ctx.fillRect(-18 * scale, -58 * scale, 36 * scale, 40 * scale);
+  ctx.fillStyle = '#4d7a6f';
+  ctx.fillRect(-18 * scale, -58 * scale, 6 * scale, 40 * scale);
+
+  // Thread spool
+  ctx.fillStyle = '#7a4d7a';
+  ctx.beginPath();
+  ctx.arc(12 * scale, -64 * scale, 9 * scale, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#a855f7';
+  ctx.fillRect(3 * scale, -66 * scale, 18 * scale, 4 * scale);
+
+  // Grip
+  ctx.fillStyle = '#3d2817';
+  ctx.fillRect(-10 * scale, -18 * scale, 20 * scale, 48 * scale);
+  ctx.fillStyle = '#5c3d2a';
+  for (let i = 0; i < 8; i++) {
+    ctx.fillRect(-10 * scale, (-14 + i * 5) * scale, 20 * scale, 2 * scale);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Draw the Vat Launcher - a tube that lobs glowing canisters
+ */
+function drawLauncher(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  isFiring: boolean
+): void {
+  const scale = Math.min(width, height) / 100;
+
+  ctx.save();
+  ctx.translate(width / 2, height);
+
+  if (isFiring) {
+    ctx.translate(0, -25 * scale);
+    ctx.rotate(-0.05);
+    drawMuzzleFlash(ctx, scale, -92, 18, '#88ff88');
+  }
+
+  // Launch tube
+  ctx.fillStyle = '#4a4530';
+  ctx.fillRect(-20 * scale, -92 * scale, 40 * scale, 70 * scale);
+  ctx.fillStyle = '#6a6550';
+  ctx.fillRect(-20 * scale, -92 * scale, 8 * scale, 70 * scale);
+  ctx.fillStyle = '#1a1a1a';
+  ctx.fillRect(-14 * scale, -92 * scale, 28 * scale, 6 * scale);
+
+  // Glowing vat window
+  ctx.fillStyle = '#44ff44';
+  ctx.shadowColor = '#44ff44';
+  ctx.shadowBlur = 12 * scale;
+  ctx.fillRect(-8 * scale, -70 * scale, 16 * scale, 22 * scale);
+  ctx.shadowBlur = 0;
+
+  // Grip and trigger
+  ctx.fillStyle = '#2a2a2a';
+  ctx.fillRect(-8 * scale, -22 * scale, 16 * scale, 50 * scale);
+  ctx.fillStyle = '#6a6a6a';
+  ctx.fillRect(-8 * scale, -22 * scale, 3 * scale, 50 * scale);
+
+  ctx.restore();
+}
+
 /**
  * WeaponSprite component
  */
@@ -172,8 +357,13 @@ export const WeaponSprite: React.FC<WeaponSpriteProps> = ({
   weaponType = 'pistol',
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const shotRef = useRef(0);
   
   useEffect(() => {
+    if (isFiring) {
+      shotRef.current++;
+    }
+
     const canvas = canvasRef.current;
     if (!canvas) return;
     
@@ -185,6 +375,15 @@ export const WeaponSprite: React.FC<WeaponSpriteProps> = ({
     
     // Draw weapon based on type
     switch (weaponType) {
+      case 'shotgun':
+        drawShotgun(ctx, canvas.width, canvas.height, isFiring);
+        break;
+      case 'stitcher':
+        drawStitcher(ctx, canvas.width, canvas.height, isFiring, shotRef.current);
+        break;
+      case 'launcher':
+        drawLauncher(ctx, canvas.width, canvas.height, isFiring);
+        break;
       case 'pistol':
       default:
         drawPistol(ctx, canvas.width, canvas.height, isFiring);
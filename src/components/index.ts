@@ -7,3 +7,5 @@ export { GameCanvas, calculateScaledDimensions } from './GameCanvas';
 export { StitchedHUD } from './StitchedHUD';
 export { GameMenu } from './GameMenu';
 export { GameContainer } from './GameContainer';
+export { DemoControls } from './DemoControls';
+export { LevelEditor } from './LevelEditor';
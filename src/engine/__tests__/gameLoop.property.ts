@@ -0,0 +1,191 @@
+/**
+ * Property-based tests for the fixed-step game loop
+ *
+ * **Feature: frankenkiro-game, Property 24: Fixed-Step Updates Keep Pace With Real Time**
+ *
+ * Tests that in fixed-step mode every update advances by exactly one tick,
+ * that leftover time carries over between frames and is reported to the
+ * renderer as the interpolation factor along with the real frame time, and
+ * that a frame never runs more than maxUpdatesPerFrame updates, dropping
+ * the backlog instead.
+ *
+ * **Validates: Requirements 2.4, 10.4**
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import { GameLoop, GameLoopConfig } from '../gameLoop';
+
+/**
+ * Manual stand-in for requestAnimationFrame, advanced by frame()
+ */
+function installFakeClock() {
+  let pending: FrameRequestCallback | null = null;
+  let now = 1000;
+  window.requestAnimationFrame = (callback) => {
+    pending = callback;
+    return 1;
+  };
+  window.cancelAnimationFrame = () => {
+    pending = null;
+  };
+  return {
+    /** Run the scheduled frame after the given milliseconds */
+    frame(milliseconds: number) {
+      now += milliseconds;
+      const callback = pending;
+      pending = null;
+      callback?.(now);
+    },
+  };
+}
+
+/**
+ * Start a fixed-step loop that logs each frame's updates, alpha and frame time
+ */
+function startLoop(config: Partial<GameLoopConfig>) {
+  const clock = installFakeClock();
+  const updates: number[][] = [[]];
+  const alphas: number[] = [];
+  const frameTimes: number[] = [];
+  const loop = new GameLoop({
+    targetFPS: 60,
+    fixedTimestep: true,
+    onUpdate: (deltaTime) => updates[updates.length - 1].push(deltaTime),
+    onRender: (alpha, deltaTime) => {
+      alphas.push(alpha);
+      frameTimes.push(deltaTime);
+      updates.push([]);
+    },
+    ...config,
+  });
+  loop.start();
+  // The first frame only sets the starting timestamp
+  clock.frame(0);
+  return { loop, clock, updates, alphas, frameTimes };
+}
+
+describe('Game Loop Property Tests', () => {
+  const { requestAnimationFrame, cancelAnimationFrame } = window;
+
+  afterEach(() => {
+    window.requestAnimationFrame = requestAnimationFrame;
+    window.cancelAnimationFrame = cancelAnimationFrame;
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 24: Fixed-Step Updates Keep Pace With Real Time**
+   *
+   * For any tick rate and frame times, when the update cap is never reached
+   * every update is one tick long and the updates run so far plus alpha
+   * account for all of the elapsed time.
+   *
+   * **Validates: Requirements 2.4, 10.4**
+   */
+  it('Property 24: the accumulator carries leftover time into alpha', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(30, 60, 120),
+        fc.array(fc.double({ min: 1, max: 100, noNaN: true }), { minLength: 1, maxLength: 60 }),
+        (targetFPS, frameTimes) => {
+          const step = 1 / targetFPS;
+          const { loop, clock, updates, alphas } = startLoop({ targetFPS, maxUpdatesPerFrame: 100 });
+
+          let elapsed = 0;
+          let ticks = 0;
+          for (const milliseconds of frameTimes) {
+            clock.frame(milliseconds);
+            elapsed += milliseconds / 1000;
+            const frameUpdates = updates[updates.length - 2];
+            const alpha = alphas[alphas.length - 1];
+
+            expect(frameUpdates.every((deltaTime) => deltaTime === step)).toBe(true);
+            ticks += frameUpdates.length;
+            expect(alpha).toBeGreaterThanOrEqual(0);
+            expect(alpha).toBeLessThan(1);
+            expect((ticks + alpha) * step).toBeCloseTo(elapsed, 9);
+          }
+          loop.stop();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 24: Fixed-Step Updates Keep Pace With Real Time**
+   *
+   * For any update cap and frame times, no frame runs more updates than the
+   * cap, and a frame that hits the cap with a tick still owed drops the
+   * backlog so it renders with an alpha of 0.
+   *
+   * **Validates: Requirements 10.4**
+   */
+  it('Property 24: updates per frame are capped and the backlog is dropped', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5 }),
+        fc.array(fc.double({ min: 1, max: 100, noNaN: true }), { minLength: 1, maxLength: 60 }),
+        (maxUpdatesPerFrame, frameTimes) => {
+          const step = 1 / 60;
+          const { loop, clock, updates, alphas } = startLoop({ maxUpdatesPerFrame });
+
+          let accumulator = 0;
+          for (const milliseconds of frameTimes) {
+            clock.frame(milliseconds);
+            const ran = updates[updates.length - 2].length;
+            const alpha = alphas[alphas.length - 1];
+            // Ticks owed this frame, fractional; rounding decides exact tick boundaries
+            const owed = (accumulator + milliseconds / 1000) / step;
+
+            expect(ran).toBeLessThanOrEqual(maxUpdatesPerFrame);
+            if (owed - maxUpdatesPerFrame > 1 + 1e-6) {
+              expect(ran).toBe(maxUpdatesPerFrame);
+              expect(alpha).toBe(0);
+            } else if (alpha > 0 || ran < maxUpdatesPerFrame) {
+              expect(ran + alpha).toBeCloseTo(owed, 6);
+            }
+            accumulator = alpha * step;
+          }
+          loop.stop();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('renders with the time since the previous frame in both modes', () => {
+    for (const fixedTimestep of [true, false]) {
+      const { loop, clock, frameTimes } = startLoop({ fixedTimestep });
+      clock.frame(7);
+      clock.frame(33);
+      expect(frameTimes.slice(1)).toEqual([0.007, 0.033]);
+      loop.stop();
+    }
+  });
+
+  it('drops the backlog after a long frame instead of catching up', () => {
+    const { loop, clock, updates, alphas } = startLoop({ maxUpdatesPerFrame: 2 });
+
+    // 100ms owes six 60Hz ticks; only two run and the rest are dropped
+    clock.frame(100);
+    expect(updates[1]).toHaveLength(2);
+    expect(alphas[1]).toBe(0);
+
+    // The next frame starts from an empty accumulator
+    clock.frame(10);
+    expect(updates[2]).toHaveLength(0);
+    expect(alphas[2]).toBeCloseTo(0.6);
+
+    // Pausing stops updates and rendering; resuming does not count the pause
+    loop.pause();
+    clock.frame(50);
+    expect(alphas).toHaveLength(3);
+    loop.resume();
+    clock.frame(500);
+    clock.frame(10);
+    expect(updates[3]).toHaveLength(0);
+    expect(updates[4]).toHaveLength(1);
+    loop.stop();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Property-based tests for hitscan hit detection
+ *
+ * **Feature: frankenkiro-game, Property 3: Hitscan Respects Aim and Walls**
+ *
+ * Tests that a shot only hits enemies in front of the shooter, never hits
+ * enemies hidden behind walls, and always hits the nearest enemy on the ray.
+ *
+ * **Validates: Requirements 3.1, 3.2**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { hitscan, intersectRayCircle } from '../hitscan';
+import { vec2, fromAngle } from '../vector2';
+import { LevelMap } from '@/game/types';
+
+/**
+ * Create an open walled room with an optional solid column at x = wallX
+ */
+function createRoom(width: number, height: number, wallX?: number): LevelMap {
+  const grid: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      const border = x === 0 || x === width - 1 || y === 0 || y === height - 1;
+      row.push(border || x === wallX ? 1 : 0);
+    }
+    grid.push(row);
+  }
+
+  return {
+    width,
+    height,
+    grid,
+    playerSpawn: vec2(1.5, height / 2),
+    enemySpawns: [],
+    items: [],
+    exitPoint: vec2(width - 1.5, height / 2),
+  };
+}
+
+const ENEMY_RADIUS = 0.3;
+
+describe('Hitscan Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 3: Hitscan Respects Aim and Walls**
+   *
+   * For any enemy placed behind the shooter, a shot aimed away from it misses.
+   *
+   * **Validates: Requirements 3.1**
+   */
+  it('Property 3: enemies behind the shooter are never hit', () => {
+    const level = createRoom(30, 9);
+
+    fc.assert(
+      fc.property(
+        fc.double({ min: 12, max: 18, noNaN: true }),
+        fc.double({ min: 1, max: 10, noNaN: true }),
+        (shooterX, behind) => {
+          const origin = vec2(shooterX, 4.5);
+          const enemy = { id: 'e', position: vec2(shooterX - behind, 4.5), radius: ENEMY_RADIUS };
+
+          const result = hitscan(origin, fromAngle(0), 20, level, [enemy]);
+          return result.target === null;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 3: Hitscan Respects Aim and Walls**
+   *
+   * For any enemy on the far side of a wall, the shot stops at the wall and
+   * reports the wall impact instead.
+   *
+   * **Validates: Requirements 3.2**
+   */
+  it('Property 3: enemies behind walls are never hit and the wall impact is reported', () => {
+    const level = createRoom(20, 9, 10);
+
+    fc.assert(
+      fc.property(
+        fc.double({ min: 1.5, max: 9.5, noNaN: true }),
+        fc.double({ min: 11.5, max: 18.5, noNaN: true }),
+        (shooterX, enemyX) => {
+          const origin = vec2(shooterX, 4.5);
+          const enemy = { id: 'e', position: vec2(enemyX, 4.5), radius: ENEMY_RADIUS };
+
+          const result = hitscan(origin, fromAngle(0), 30, level, [enemy]);
+
+          expect(result.target).toBeNull();
+          expect(result.wallImpact).not.toBeNull();
+          expect(result.position.x).toBeCloseTo(10, 5);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 3: Hitscan Respects Aim and Walls**
+   *
+   * For any set of enemies on the aim line, the nearest one is hit.
+   *
+   * **Validates: Requirements 3.1**
+   */
+  it('Property 3: the nearest enemy along the ray is hit', () => {
+    const level = createRoom(30, 9);
+
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.integer({ min: 3, max: 27 }), { minLength: 1, maxLength: 6 }),
+        (columns) => {
+          const origin = vec2(1.5, 4.5);
+          const enemies = columns.map((x) => ({
+            id: `e${x}`,
+            position: vec2(x + 0.5, 4.5),
+            radius: ENEMY_RADIUS,
+          }));
+
+          const result = hitscan(origin, fromAngle(0), 40, level, enemies);
+          const nearest = Math.min(...columns);
+
+          expect(result.target?.id).toBe(`e${nearest}`);
+          expect(result.distance).toBeCloseTo(nearest + 0.5 - ENEMY_RADIUS - 1.5, 5);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('intersectRayCircle misses circles to the side of the ray', () => {
+    expect(intersectRayCircle(vec2(0, 0), vec2(1, 0), vec2(5, 1), 0.5)).toBeNull();
+    expect(intersectRayCircle(vec2(0, 0), vec2(1, 0), vec2(5, 0.2), 0.5)).not.toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Property-based tests for lighting
+ *
+ * **Feature: frankenkiro-game, Property 19: Light Stops at Walls and Fades With Distance**
+ *
+ * Tests that baked lights only brighten the tiles they can reach, fading
+ * with distance, that flicker and dynamic lights last only for the frame
+ * they are composed into, that broken lights are rejected, and that dark
+ * levels are drawn dark.
+ *
+ * **Validates: Requirements 2.3, 2.5**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { bakeLighting, composeLightMap, getFlicker, sampleLight } from '../lighting';
+import { getDynamicLights, renderFloorAndCeiling } from '../renderer';
+import { vec2 } from '../vector2';
+import { Framebuffer } from '../types';
+import { createBlankLevel } from '@/game/levelEditor';
+import { setTile, validateLevelMap } from '@/game/level';
+import { createPlayer } from '@/game/player';
+import { getFireInterval } from '@/game/weapons';
+import { LIGHT_FLICKERS } from '@/game/lights';
+import { LevelMap } from '@/game/types';
+
+/**
+ * A 12x8 level split by a solid wall down column 6
+ */
+function createSplitLevel(): LevelMap {
+  let level = createBlankLevel(12, 8);
+  for (let y = 0; y < level.height; y++) {
+    level = setTile(level, 6, y, 1);
+  }
+  return level;
+}
+
+describe('Lighting Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 19: Light Stops at Walls and Fades With Distance**
+   *
+   * For any light in the western half of a split level, no tile gets less
+   * than the ambient light, the eastern half gets only the ambient light,
+   * and tiles nearer the light along a row are at least as bright.
+   *
+   * **Validates: Requirements 2.3, 2.5**
+   */
+  it('Property 19: baked lights stop at walls and fade with distance', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 1, max: 5.99, noNaN: true }),
+        fc.double({ min: 1, max: 6.99, noNaN: true }),
+        fc.double({ min: 0.5, max: 10, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        (x, y, radius, ambient) => {
+          const level: LevelMap = {
+            ...createSplitLevel(),
+            ambientLight: ambient,
+            lights: [{ position: vec2(x, y), color: '#ffffff', radius }],
+          };
+          const lightMap = composeLightMap(bakeLighting(level), 0);
+          // Light maps hold 32-bit floats
+          const unlit = Math.fround(ambient);
+
+          const row = Math.floor(y);
+          let previous = Infinity;
+          for (let tileX = Math.floor(x); tileX >= 1; tileX--) {
+            const { r } = sampleLight(lightMap, tileX + 0.5, row + 0.5);
+            expect(r).toBeLessThanOrEqual(previous + 1e-6);
+            previous = r;
+          }
+          for (let tileY = 0; tileY < level.height; tileY++) {
+            for (let tileX = 0; tileX < level.width; tileX++) {
+              const light = sampleLight(lightMap, tileX + 0.5, tileY + 0.5);
+              expect(light.r).toBeGreaterThanOrEqual(unlit);
+              if (tileX > 6) {
+                expect(light).toEqual({ r: unlit, g: unlit, b: unlit });
+              }
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 19: Light Stops at Walls and Fades With Distance**
+   *
+   * For any flicker profile and time, flicker dims a light without ever
+   * putting it out or brightening it, and composing a frame leaves nothing
+   * behind for the next one.
+   *
+   * **Validates: Requirements 2.3, 2.5**
+   */
+  it('Property 19: flicker and dynamic lights last only for their frame', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...LIGHT_FLICKERS),
+        fc.double({ min: 0, max: 1000, noNaN: true }),
+        fc.double({ min: 0, max: 10, noNaN: true }),
+        (flicker, time, phase) => {
+          const brightness = getFlicker(flicker, time, phase);
+          expect(brightness).toBeGreaterThanOrEqual(0.2);
+          expect(brightness).toBeLessThanOrEqual(1 + 1e-9);
+
+          const level: LevelMap = {
+            ...createSplitLevel(),
+            ambientLight: 0.2,
+            lights: [{ position: vec2(3.5, 3.5), color: '#ff8800', radius: 4, flicker }],
+          };
+          const baked = bakeLighting(level);
+          const steady = Array.from(composeLightMap(baked, 0).light);
+          const flash = { position: vec2(2.5, 2.5), color: '#ffffff', radius: 3, intensity: 1 };
+          const flashed = Array.from(composeLightMap(baked, time, [flash]).light);
+          expect(flashed.some((value, index) => value > steady[index])).toBe(true);
+          expect(Array.from(composeLightMap(baked, 0).light)).toEqual(steady);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('lights the muzzle flash only just after a shot and glowing projectiles in flight', () => {
+    const player = createPlayer(vec2(2.5, 2.5), 0);
+    expect(getDynamicLights(player, [])).toEqual([]);
+
+    const fired = { ...player, weaponCooldown: getFireInterval(player.currentWeapon) };
+    expect(getDynamicLights(fired, [])).toEqual([expect.objectContaining({ position: player.position })]);
+
+    const projectile = {
+      id: 'p',
+      position: vec2(4.5, 2.5),
+      velocity: vec2(1, 0),
+      owner: 'player' as const,
+      damage: 10,
+      lifetime: 1,
+      radius: 0.1,
+      splashRadius: 0,
+      spriteId: 'projectile_launcher',
+    };
+    expect(getDynamicLights(player, [projectile])).toEqual([
+      expect.objectContaining({ position: projectile.position, color: '#44ff44' }),
+    ]);
+  });
+
+  it('rejects broken lights and ambient light', () => {
+    const level = {
+      ...createBlankLevel(6, 6),
+      ambientLight: 2,
+      lights: [
+        { position: vec2(2.5, 2.5), color: '#ff9933', radius: 3, flicker: 'torch' },
+        { position: vec2(7, 2), color: 'orange', radius: 0, intensity: -1, flicker: 'strobe' },
+      ],
+    };
+    expect(validateLevelMap(level).errors).toEqual([
+      'Level map ambientLight must be a number from 0 to 1',
+      'lights[1] must have a position within level bounds',
+      'lights[1] color must be a hex color like "#ff9933"',
+      'lights[1] radius must be a positive number',
+      'lights[1] intensity must be a positive number',
+      'lights[1] has unknown flicker "strobe"',
+    ]);
+  });
+
+  it('draws unlit tiles of a dark level black and lit tiles in the light color', () => {
+    const width = 64;
+    const height = 48;
+    const draw = (level: LevelMap): Uint32Array => {
+      const frame: Framebuffer = { width, height, imageData: {} as ImageData, pixels: new Uint32Array(width * height) };
+      const lightMap = composeLightMap(bakeLighting(level), 0);
+      renderFloorAndCeiling(frame, vec2(1.5, 3.5), 0, level, Math.PI / 3, lightMap);
+      return frame.pixels;
+    };
+    // The bottom row at the screen centre shows the floor just in front of the player
+    const nearFloor = (pixels: Uint32Array): number => pixels[(height - 1) * width + width / 2];
+    const red = (pixel: number): number => pixel & 255;
+    const blue = (pixel: number): number => (pixel >>> 16) & 255;
+
+    const dark = { ...createSplitLevel(), ambientLight: 0 };
+    expect(red(nearFloor(draw(dark)))).toBe(0);
+    expect(blue(nearFloor(draw(dark)))).toBe(0);
+
+    const lit = { ...dark, lights: [{ position: vec2(2.5, 3.5), color: '#ff0000', radius: 3 }] };
+    expect(red(nearFloor(draw(lit)))).toBeGreaterThan(0);
+    expect(blue(nearFloor(draw(lit)))).toBe(0);
+  });
+});
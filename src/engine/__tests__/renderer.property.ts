@@ -0,0 +1,225 @@
+/**
+ * Property-based tests for the framebuffer renderer
+ *
+ * **Feature: frankenkiro-game, Property 26: The Framebuffer Holds Exactly the Drawn Scene**
+ *
+ * Tests that every wall column covers exactly the rows its distance gives
+ * it, that floor, ceiling and walls leave no pixel unwritten, that sprites
+ * behind walls draw nothing, that a fixed scene always renders to the
+ * same pixels and that it still looks like the canvas renderer's output.
+ *
+ * **Validates: Requirements 2.2, 2.3, 2.5**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { enemiesToSprites, renderFloorAndCeiling, renderSprites, renderWalls } from '../renderer';
+import { DEFAULT_RAYCAST_CONFIG, calculateWallHeight, castAllRays } from '../raycast';
+import { bakeLighting, composeLightMap } from '../lighting';
+import { Framebuffer, RaycastConfig } from '../types';
+import { createBlankLevel, setFloorType } from '@/game/levelEditor';
+import { setTile } from '@/game/level';
+import { createEnemy } from '@/game/enemy';
+import { FLOOR_ACID } from '@/game/floor';
+import { LevelMap } from '@/game/types';
+import { vec2 } from '../vector2';
+
+const config: RaycastConfig = { ...DEFAULT_RAYCAST_CONFIG, screenWidth: 160, screenHeight: 120 };
+
+/**
+ * 12x8 room with a pillar at (6, 3), an acid tile and a torch behind the pillar
+ */
+const scene: LevelMap = {
+  ...setFloorType(setTile(createBlankLevel(12, 8), 6, 3, 2), 4, 5, FLOOR_ACID),
+  lights: [{ position: vec2(9.5, 5.5), color: '#ff9933', radius: 5, flicker: 'torch' }],
+  ambientLight: 0.4,
+};
+
+const eye = vec2(2.5, 4.5);
+
+/**
+ * Create a framebuffer filled with transparent black, which no draw produces
+ */
+function createFrame(): Framebuffer {
+  return {
+    width: config.screenWidth,
+    height: config.screenHeight,
+    imageData: {} as ImageData,
+    pixels: new Uint32Array(config.screenWidth * config.screenHeight),
+  };
+}
+
+/**
+ * Draw the floor, ceiling and walls of the scene from a pose
+ */
+function renderView(position = eye, rotation = 0): Uint32Array {
+  const frame = createFrame();
+  const rays = castAllRays(position, rotation, config, scene);
+  renderFloorAndCeiling(frame, position, rotation, scene, config.fov);
+  renderWalls(frame, rays, rotation, config);
+  return frame.pixels;
+}
+
+/**
+ * Draw the 3D view of the scene from a pose, lit by its light map
+ */
+function renderScene(position = eye, rotation = 0): Uint32Array {
+  const frame = createFrame();
+  const rays = castAllRays(position, rotation, config, scene);
+  const lightMap = composeLightMap(bakeLighting(scene), 0);
+  renderFloorAndCeiling(frame, position, rotation, scene, config.fov, lightMap);
+  renderWalls(frame, rays, rotation, config, lightMap);
+  const enemies = [createEnemy('front', vec2(8.5, 5.5), 'zombie'), createEnemy('ghost', vec2(9.5, 6.5), 'ghost')];
+  renderSprites(frame, enemiesToSprites(enemies), rays, position, rotation, config, lightMap);
+  return frame.pixels;
+}
+
+/**
+ * FNV-1a hash of a frame's pixels
+ */
+function hashPixels(pixels: Uint32Array): number {
+  let hash = 0x811c9dc5;
+  for (const pixel of Array.from(pixels)) {
+    hash = Math.imul(hash ^ pixel, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Size of the square blocks compared against the canvas renderer
+ */
+const BLOCK_SIZE = 8;
+
+/**
+ * The floor, ceiling and walls seen from the eye as the canvas renderer
+ * drew them before the framebuffer, averaged over blocks: one string per
+ * block row, two hex digits per channel
+ */
+const CANVAS_REFERENCE = [
+  '16152b14142612122013132113132213122112121f12121f12122013132216162c15152b15142915142a15152b16162c16162c15152a131324121220',
+  '15152a15152a15152912122112112012111f12122112122112122112112015152a15152b16162c15152b15152a15152a15152b13132512112012111f',
+  '141425141426131324121222131324141425131324131325131325141425131325141425131325131324141425141426141427131324141425141325',
+  '121222121220121222121221121222141427141427141326141326141427121222121221121221121222121220131325141326141426141427131325',
+  '11112012122213132513122412122212122211112012122212122212122212122212122312122213132412122312122211112111111f121222131324',
+  '11102010101f1a22291d282b1e2a2e212d32202c31161e24100f1e100f1e111020111020111020100f1e10101e10101e11102011102010101f100f1c',
+  '1b1317161016253232344d49324a46344d49344c48253d3918141b18141b17141c18141b17131a17141b18141b1511191711171c14172419182d1f1c',
+  '291c1b271a1a2e3b3837524d354e4a38534e38534e27403c372c2b372c2b362a29382c2b352a29352a29382c2c2e2323271a1a291b1a30211e32221f',
+  '2316151e13142a343237504b354c47364e4938514c263c38261a1b251a1b26191a26191b24181a25191a261a1b2115171f13132316152b1d1a2e1f1b',
+  '24101222101123222127302d282f2c29302d2a312e222523201011200f11241012241012241012201011211011211011231012241012231012221213',
+  '2411122712132b13142912132712132712132411122712132712132712132712132712132712132a13132b2e132c3614272f12263513233112273313',
+  '2712132412122612132612132712132e13142d13142d13142c13142d1314261213251213261213261213251912294d132a57132b5a142d5e15285413',
+  '2a13132b14142a13132713132a13142b13142a13142a13142a13142b13142a13142a13132a13132a13132b13142b16142e3f15283713253113273713',
+  '3114153214153014152512132312132312132412132513142412132312133114153315153415153315153114153114153315152a1314241213231213',
+  '3315162d1414241313251313261314251313231213231212241313261313341516331515321415321415331516351516341516321415291314251313',
+];
+
+/**
+ * Average each channel of a frame over BLOCK_SIZE blocks, in the layout of CANVAS_REFERENCE
+ */
+function blockAverages(pixels: Uint32Array): number[] {
+  const averages: number[] = [];
+  for (let by = 0; by < config.screenHeight / BLOCK_SIZE; by++) {
+    for (let bx = 0; bx < config.screenWidth / BLOCK_SIZE; bx++) {
+      const sums = [0, 0, 0];
+      for (let y = by * BLOCK_SIZE; y < (by + 1) * BLOCK_SIZE; y++) {
+        for (let x = bx * BLOCK_SIZE; x < (bx + 1) * BLOCK_SIZE; x++) {
+          const pixel = pixels[y * config.screenWidth + x];
+          sums[0] += pixel & 0xff;
+          sums[1] += (pixel >>> 8) & 0xff;
+          sums[2] += (pixel >>> 16) & 0xff;
+        }
+      }
+      averages.push(...sums.map((sum) => sum / (BLOCK_SIZE * BLOCK_SIZE)));
+    }
+  }
+  return averages;
+}
+
+/**
+ * Eye positions in the open part of the room
+ */
+const poseArb = fc.record({
+  x: fc.double({ min: 1.3, max: 5.7, noNaN: true }),
+  y: fc.double({ min: 1.3, max: 6.7, noNaN: true }),
+  rotation: fc.double({ min: 0, max: Math.PI * 2, noNaN: true }),
+});
+
+describe('Renderer Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 26: The Framebuffer Holds Exactly the Drawn Scene**
+   *
+   * For any pose, each screen column's wall covers exactly the rows from
+   * the rounded top to the rounded bottom of its projected height.
+   *
+   * **Validates: Requirements 2.2**
+   */
+  it('Property 26: walls fill exactly their projected rows', () => {
+    fc.assert(
+      fc.property(poseArb, ({ x, y, rotation }) => {
+        const frame = createFrame();
+        const rays = castAllRays(vec2(x, y), rotation, config, scene);
+        renderWalls(frame, rays, rotation, config);
+
+        const halfHeight = config.screenHeight / 2;
+        rays.forEach((ray, column) => {
+          const wallHeight = calculateWallHeight(ray.distance, config.screenHeight, rotation, ray.angle);
+          const top = Math.round(Math.max(0, halfHeight - wallHeight / 2));
+          const bottom = Math.round(Math.min(config.screenHeight, halfHeight + wallHeight / 2));
+          const drawnRows: number[] = [];
+          for (let row = 0; row < config.screenHeight; row++) {
+            if (frame.pixels[row * config.screenWidth + column] !== 0) {
+              drawnRows.push(row);
+            }
+          }
+          expect(drawnRows).toEqual(Array.from({ length: bottom - top }, (_, i) => top + i));
+        });
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 26: The Framebuffer Holds Exactly the Drawn Scene**
+   *
+   * For any pose, the drawn frame has every pixel opaque and drawing the
+   * same pose again gives the same pixels.
+   *
+   * **Validates: Requirements 2.3, 2.5**
+   */
+  it('Property 26: every pixel is drawn, the same way each time', () => {
+    fc.assert(
+      fc.property(poseArb, ({ x, y, rotation }) => {
+        const pixels = renderScene(vec2(x, y), rotation);
+        expect(pixels.every((pixel) => pixel >>> 24 === 0xff)).toBe(true);
+        expect(renderScene(vec2(x, y), rotation)).toEqual(pixels);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('draws nothing for a sprite hidden behind a wall', () => {
+    const frame = createFrame();
+    const rays = castAllRays(eye, 0, config, scene);
+    renderWalls(frame, rays, 0, config);
+    const walls = frame.pixels.slice();
+
+    // The pillar at (6, 3) stands between the eye and this zombie
+    const hidden = enemiesToSprites([createEnemy('hidden', vec2(8.5, 2.5), 'zombie')]);
+    renderSprites(frame, hidden, rays, eye, 0, config);
+    expect(frame.pixels).toEqual(walls);
+  });
+
+  it('matches the canvas renderer it replaced, block by block', () => {
+    // Walls now sample a 64x64 texture instead of the continuous brick
+    // pattern, and wall edges are no longer anti-aliased. The canvas
+    // renderer had no light map, so the view is drawn without one
+    const reference = CANVAS_REFERENCE.flatMap((row) => row.match(/../g)!.map((hex) => parseInt(hex, 16)));
+    const differences = blockAverages(renderView()).map((value, i) => Math.abs(value - reference[i]));
+    expect(Math.max(...differences)).toBeLessThanOrEqual(12);
+    expect(differences.reduce((sum, d) => sum + d, 0) / differences.length).toBeLessThan(1.5);
+  });
+
+  it('renders the fixed scene to the same pixels', () => {
+    expect(hashPixels(renderScene())).toBe(2343930082);
+  });
+});
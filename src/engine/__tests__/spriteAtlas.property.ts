@@ -0,0 +1,186 @@
+/**
+ * Property-based tests for sprite atlases
+ *
+ * **Feature: frankenkiro-game, Property 17: Atlas Frames Follow Clip Time and View Direction**
+ *
+ * Tests that clips step through their frames at their frame rate, that the
+ * frame drawn depends only on which side of a sprite the camera sees, that
+ * broken atlases are rejected, that the shipped atlas is valid, and that
+ * atlas frames replace the procedural shapes only for sprites the atlas
+ * covers.
+ *
+ * **Validates: Requirements 3.3, 5.3**
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  AnimationClip,
+  SpriteAtlasFile,
+  VIEW_DIRECTIONS,
+  createSpriteAtlas,
+  getClipFrame,
+  getViewDirection,
+  validateSpriteAtlas,
+} from '../spriteAtlas';
+import { renderSprites, setSpriteAtlas } from '../renderer';
+import { DEFAULT_RAYCAST_CONFIG } from '../raycast';
+import { add, fromAngle, multiply, vec2 } from '../vector2';
+import { Framebuffer, Ray } from '../types';
+import { ENEMY_ARCHETYPES } from '@/game/enemyArchetypes';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * A clip whose frames are named after their step and view direction
+ */
+function createClip(steps: number, frameDuration: number, loop: boolean): AnimationClip {
+  return {
+    frameDuration,
+    loop,
+    frames: Array.from({ length: steps }, (_, step) =>
+      Array.from({ length: VIEW_DIRECTIONS }, (_, direction) => `${step}_${direction}`)
+    ),
+  };
+}
+
+/**
+ * An atlas with one solid 2x2 frame for the zombie
+ */
+const SOLID_ATLAS: SpriteAtlasFile = {
+  image: 'sheet.png',
+  frames: { solid: { x: 0, y: 0, width: 2, height: 2 } },
+  sprites: { enemy_zombie: { idle: { frameDuration: 1, loop: true, frames: [['solid']] } } },
+};
+
+/**
+ * An opaque pure blue sprite sheet
+ */
+const BLUE_SHEET = { width: 2, height: 2, pixels: new Uint32Array(4).fill(0xffff0000) };
+
+function createFramebuffer(width: number, height: number): Framebuffer {
+  return { width, height, imageData: {} as ImageData, pixels: new Uint32Array(width * height) };
+}
+
+describe('Sprite Atlas Property Tests', () => {
+  afterEach(() => setSpriteAtlas(null));
+
+  /**
+   * **Feature: frankenkiro-game, Property 17: Atlas Frames Follow Clip Time and View Direction**
+   *
+   * For any clip and time, looping clips cycle through their frames and
+   * other clips hold their last frame.
+   *
+   * **Validates: Requirements 3.3, 5.3**
+   */
+  it('Property 17: clips step through their frames at their frame rate', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 8 }),
+        fc.double({ min: 0.05, max: 1, noNaN: true }),
+        fc.boolean(),
+        fc.double({ min: 0, max: 50, noNaN: true }),
+        fc.integer({ min: 0, max: VIEW_DIRECTIONS - 1 }),
+        (steps, frameDuration, loop, time, direction) => {
+          const clip = createClip(steps, frameDuration, loop);
+          const step = Math.floor(time / frameDuration);
+          const expected = loop ? step % steps : Math.min(step, steps - 1);
+          expect(getClipFrame(clip, time, direction)).toBe(`${expected}_${direction}`);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 17: Atlas Frames Follow Clip Time and View Direction**
+   *
+   * For any sprite and camera, turning both around the sprite by the same
+   * angle shows the same side, and a camera straight ahead sees the front.
+   *
+   * **Validates: Requirements 3.3, 5.3**
+   */
+  it('Property 17: the view direction depends only on the side the camera sees', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -10, max: 10, noNaN: true }),
+        fc.double({ min: -Math.PI, max: Math.PI, noNaN: true }),
+        fc.integer({ min: 0, max: VIEW_DIRECTIONS - 1 }),
+        fc.double({ min: 0.5, max: 20, noNaN: true }),
+        (rotation, turn, side, distance) => {
+          const position = vec2(5, 5);
+          const viewAngle = rotation + (side * Math.PI * 2) / VIEW_DIRECTIONS;
+          const viewer = add(position, multiply(fromAngle(viewAngle), distance));
+          expect(getViewDirection(rotation, position, viewer)).toBe(side);
+
+          const turned = add(position, multiply(fromAngle(viewAngle + turn), distance));
+          expect(getViewDirection(rotation + turn, position, turned)).toBe(side);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('rejects broken atlases and frames outside the sprite sheet', () => {
+    expect(validateSpriteAtlas(SOLID_ATLAS)).toEqual([]);
+    expect(
+      validateSpriteAtlas({
+        image: 'sheet.png',
+        frames: { a: { x: 0, y: 0, width: 0, height: 2 } },
+        sprites: {
+          enemy_zombie: {
+            dance: { frameDuration: 1, loop: true, frames: [['a']] },
+            walk: { frameDuration: 0, loop: 'yes', frames: [['a', 'b']] },
+          },
+        },
+      })
+    ).toEqual([
+      'frames.a must have whole-pixel x, y, width and height',
+      'sprites.enemy_zombie has unknown clip "dance"',
+      'sprites.enemy_zombie.walk.frameDuration must be a positive number',
+      'sprites.enemy_zombie.walk.loop must be true or false',
+      'sprites.enemy_zombie.walk.frames[0] must list 1 or 8 frame names',
+    ]);
+    expect(() => createSpriteAtlas(SOLID_ATLAS, { width: 1, height: 1, pixels: new Uint32Array(1) })).toThrow(
+      'Invalid sprite atlas: frames.solid lies outside the 1x1 sprite sheet'
+    );
+  });
+
+  it('ships a valid atlas whose frames fit its sprite sheet', () => {
+    const directory = join(process.cwd(), 'public', 'sprites');
+    const data: SpriteAtlasFile = JSON.parse(readFileSync(join(directory, 'atlas.json'), 'utf8'));
+    expect(validateSpriteAtlas(data)).toEqual([]);
+
+    // Width and height are the first fields of the PNG header chunk
+    const png = readFileSync(join(directory, data.image));
+    const sheet = { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+    expect(() => createSpriteAtlas(data, { ...sheet, pixels: new Uint32Array(sheet.width * sheet.height) })).not.toThrow();
+
+    const enemySprites = Object.values(ENEMY_ARCHETYPES).map((archetype) => archetype.spriteId);
+    expect(Object.keys(data.sprites).every((spriteId) => enemySprites.includes(spriteId))).toBe(true);
+  });
+
+  it('draws atlas frames for sprites the atlas covers and procedural shapes for the rest', () => {
+    const config = { ...DEFAULT_RAYCAST_CONFIG, screenWidth: 64, screenHeight: 48 };
+    const rays: Ray[] = Array.from({ length: config.screenWidth }, () => ({
+      angle: 0,
+      distance: config.maxRenderDistance,
+      wallHit: vec2(0, 0),
+      wallType: 0,
+      side: 'horizontal',
+    }));
+    const centre = (spriteId: string): number => {
+      const frame = createFramebuffer(config.screenWidth, config.screenHeight);
+      renderSprites(frame, [{ position: vec2(4, 1), spriteId, scale: 1 }], rays, vec2(1, 1), 0, config);
+      return frame.pixels[(config.screenHeight / 2) * config.screenWidth + config.screenWidth / 2];
+    };
+    const blue = (pixel: number): boolean =>
+      ((pixel >>> 16) & 255) > (pixel & 255) && ((pixel >>> 16) & 255) > ((pixel >> 8) & 255);
+
+    expect(blue(centre('enemy_zombie'))).toBe(false);
+
+    setSpriteAtlas(createSpriteAtlas(SOLID_ATLAS, BLUE_SHEET));
+    expect(blue(centre('enemy_zombie'))).toBe(true);
+    expect(blue(centre('item_health'))).toBe(false);
+  });
+});
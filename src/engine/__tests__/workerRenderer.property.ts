@@ -0,0 +1,144 @@
+/**
+ * Property-based tests for worker rendering
+ *
+ * **Feature: frankenkiro-game, Property 16: Worker Frames Never Pile Up**
+ *
+ * Tests that the main thread keeps at most one frame in flight to the render
+ * worker, that dropped frames still count toward the animation time, that
+ * the level is only posted when it changes, and that a failed worker is
+ * stopped and reported.
+ *
+ * **Validates: Requirements 2.4, 10.4**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { RenderWorkerMessage, RenderWorkerReply, WorkerRenderer, supportsOffscreenRendering } from '../workerRenderer';
+import { nextCosmeticRandom, seedCosmeticRandom } from '../renderer';
+import { createPlayer } from '@/game/player';
+import { createBlankLevel } from '@/game/levelEditor';
+import { vec2 } from '../vector2';
+
+/**
+ * Stand-in for a render worker that records what it is posted
+ */
+function createFakeWorker() {
+  const posted: RenderWorkerMessage[] = [];
+  const listeners: Array<{ type: string; listener: (event: Event) => void }> = [];
+  let terminations = 0;
+  const worker = {
+    postMessage: (message: RenderWorkerMessage) => posted.push(message),
+    addEventListener: (type: string, listener: (event: Event) => void) => listeners.push({ type, listener }),
+    terminate: () => terminations++,
+  } as unknown as Worker;
+  const dispatch = (type: string, event: Event) =>
+    listeners.filter((entry) => entry.type === type).forEach((entry) => entry.listener(event));
+  const reply = (data: RenderWorkerReply) => dispatch('message', { data } as MessageEvent);
+  const finishFrame = () => reply({ type: 'rendered' });
+  return { worker, posted, dispatch, reply, finishFrame, terminations: () => terminations };
+}
+
+describe('Worker Renderer Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 16: Worker Frames Never Pile Up**
+   *
+   * For any interleaving of requested frames and finished frames, a frame is
+   * only posted once the previous one is drawn, and the frame time of
+   * dropped frames is carried into the next posted frame.
+   *
+   * **Validates: Requirements 2.4, 10.4**
+   */
+  it('Property 16: at most one frame is in flight and no frame time is lost', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.oneof(fc.double({ min: 0.001, max: 0.1, noNaN: true }), fc.constant('finish' as const)), {
+          maxLength: 60,
+        }),
+        (steps) => {
+          const { worker, posted, finishFrame } = createFakeWorker();
+          const renderer = new WorkerRenderer({} as OffscreenCanvas, worker);
+          const player = createPlayer(vec2(1.5, 1.5), 0);
+          const level = createBlankLevel(6, 6);
+
+          let inFlight = false;
+          let requestedTime = 0;
+          for (const step of steps) {
+            if (step === 'finish') {
+              finishFrame();
+              inFlight = false;
+              continue;
+            }
+            const before = posted.length;
+            renderer.render(player, level, [], [], step);
+            expect(posted.length - before).toBe(inFlight ? 0 : 1);
+            requestedTime += step;
+            inFlight = true;
+          }
+
+          // One more frame once the worker is free carries any dropped time
+          finishFrame();
+          renderer.render(player, level, [], [], 0);
+          const postedTime = posted.reduce(
+            (sum, message) => sum + (message.type === 'frame' ? message.snapshot.deltaTime : 0),
+            0
+          );
+          expect(postedTime).toBeCloseTo(requestedTime);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('hands the canvas to the worker and posts the level only when it changes', () => {
+    const { worker, posted, finishFrame } = createFakeWorker();
+    const canvas = {} as OffscreenCanvas;
+    const renderer = new WorkerRenderer(canvas, worker, { screenWidth: 320 });
+    expect(posted[0]).toEqual({ type: 'init', canvas, config: { screenWidth: 320 } });
+
+    const player = createPlayer(vec2(1.5, 1.5), 0);
+    const level = createBlankLevel(6, 6);
+    const levelsPosted = () =>
+      posted.filter((message) => message.type === 'frame' && message.snapshot.levelMap).length;
+
+    renderer.render(player, level);
+    finishFrame();
+    renderer.render(player, level);
+    finishFrame();
+    expect(levelsPosted()).toBe(1);
+
+    renderer.render(player, { ...level, grid: level.grid.map((row) => [...row]) });
+    expect(levelsPosted()).toBe(2);
+  });
+
+  it('reseeds the worker and the main-thread cosmetic stream together', () => {
+    const { worker, posted } = createFakeWorker();
+    const renderer = new WorkerRenderer({} as OffscreenCanvas, worker);
+    seedCosmeticRandom(9);
+    const expected = [nextCosmeticRandom(), nextCosmeticRandom()];
+
+    renderer.setSeed(9);
+    expect(posted[posted.length - 1]).toEqual({ type: 'seed', seed: 9 });
+    expect([nextCosmeticRandom(), nextCosmeticRandom()]).toEqual(expected);
+  });
+
+  it('stops a failed worker and reports the failure once', () => {
+    const failures: Array<(fake: ReturnType<typeof createFakeWorker>) => void> = [
+      (fake) => fake.dispatch('error', { message: 'Script error' } as ErrorEvent),
+      (fake) => fake.dispatch('messageerror', {} as MessageEvent),
+      (fake) => fake.reply({ type: 'failed', message: 'Render worker: Failed to get 2D context' }),
+    ];
+    for (const fail of failures) {
+      const fake = createFakeWorker();
+      const errors: string[] = [];
+      new WorkerRenderer({} as OffscreenCanvas, fake.worker, {}, (message) => errors.push(message));
+      fail(fake);
+      fail(fake);
+      expect(errors).toHaveLength(1);
+      expect(fake.terminations()).toBe(1);
+    }
+  });
+
+  it('falls back to the main thread without OffscreenCanvas', () => {
+    expect(supportsOffscreenRendering(document.createElement('canvas'))).toBe(false);
+  });
+});
@@ -6,6 +6,8 @@
 import { Vector2, CollisionResult, RaycastHit } from './types';
 import { subtract, normalize, length, multiply, add, vec2 } from './vector2';
 import { LevelMap } from '@/game/types';
+import { isDoorTile, getDoorAt, isDoorPassable } from '@/game/door';
+import { isPushWallBlocking } from '@/game/pushWall';
 
 /**
  * Entity interface for collision detection
@@ -23,17 +25,27 @@ export const DEFAULT_ENTITY_RADIUS = 0.3;
 
 /**
  * Check if a grid cell is a wall in the level map
+ * Door tiles count as walls until they are open far enough to pass, and
+ * floor tiles count while a push-wall slides through them
  * @param x - Grid x coordinate
  * @param y - Grid y coordinate
  * @param level - The level map to check against
- * @returns true if the cell is a wall (non-zero value)
+ * @returns true if the cell is a wall (non-zero value) or a closed door
  */
 export function isWall(x: number, y: number, level: LevelMap): boolean {
   // Out of bounds is considered a wall
   if (x < 0 || x >= level.width || y < 0 || y >= level.height) {
     return true;
   }
-  return level.grid[Math.floor(y)][Math.floor(x)] !== 0;
+  const tile = level.grid[Math.floor(y)][Math.floor(x)];
+  if (tile === 0) {
+    return isPushWallBlocking(x, y, level);
+  }
+  if (isDoorTile(tile)) {
+    const door = getDoorAt(x, y, level);
+    return !door || !isDoorPassable(door);
+  }
+  return true;
 }
 
 /**
@@ -1,6 +1,7 @@
 /**
  * GameLoop module for FrankenKiro
- * Manages the main game loop using requestAnimationFrame with delta time calculation
+ * Manages the main game loop using requestAnimationFrame with delta time calculation,
+ * optionally stepping updates at a fixed tick rate with interpolated rendering
  * Requirements: 2.4, 10.4
  */
 
@@ -8,12 +9,20 @@
  * Configuration for the game loop
  */
 export interface GameLoopConfig {
-  /** Target frames per second (used for delta time capping) */
+  /** Target frames per second (the update tick rate in fixed-step mode) */
   targetFPS: number;
-  /** Callback invoked each frame with delta time in seconds */
+  /** Callback invoked each frame (or each tick in fixed-step mode) with delta time in seconds */
   onUpdate: (deltaTime: number) => void;
-  /** Callback invoked each frame for rendering */
-  onRender: () => void;
+  /**
+   * Callback invoked each frame for rendering
+   * Receives how far (0-1) the frame lies between the last two updates,
+   * always 1 outside fixed-step mode, and the time since the previous frame
+   */
+  onRender: (alpha: number, deltaTime: number) => void;
+  /** Run updates at a constant 1 / targetFPS step instead of once per frame */
+  fixedTimestep?: boolean;
+  /** Most updates run in one frame before the remaining backlog is dropped */
+  maxUpdatesPerFrame?: number;
 }
 
 /**
@@ -21,6 +30,8 @@ export interface GameLoopConfig {
  */
 export const DEFAULT_GAME_LOOP_CONFIG: Partial<GameLoopConfig> = {
   targetFPS: 60,
+  fixedTimestep: false,
+  maxUpdatesPerFrame: 5,
 };
 
 /**
@@ -41,6 +52,7 @@ export class GameLoop {
   private _isRunning: boolean = false;
   private _isPaused: boolean = false;
   private accumulatedTime: number = 0;
+  private tickAccumulator: number = 0;
   private frameCount: number = 0;
   private fpsUpdateTime: number = 0;
   private _currentFPS: number = 0;
@@ -87,6 +99,7 @@ export class GameLoop {
     this._isPaused = false;
     this.lastTimestamp = 0;
     this.accumulatedTime = 0;
+    this.tickAccumulator = 0;
     this.frameCount = 0;
     this.fpsUpdateTime = 0;
 
@@ -165,11 +178,42 @@ export class GameLoop {
       return;
     }
 
-    // Call update callback with delta time
-    this.config.onUpdate(deltaTime);
+    if (!this.config.fixedTimestep) {
+      // Call update callback with delta time
+      this.config.onUpdate(deltaTime);
+
+      // Call render callback
+      this.config.onRender(1, deltaTime);
+      return;
+    }
+
+    this.config.onRender(this.runFixedUpdates(deltaTime), deltaTime);
+  }
+
+  /**
+   * Run as many fixed-size updates as the elapsed time allows
+   * Stops after maxUpdatesPerFrame and drops the backlog, so a slow update
+   * can never make the loop fall further and further behind
+   * @param deltaTime - Time elapsed since the previous frame
+   * @returns Interpolation factor between the last two updates
+   */
+  private runFixedUpdates(deltaTime: number): number {
+    const step = 1 / this.config.targetFPS;
+    const maxUpdates = this.config.maxUpdatesPerFrame ?? 1;
+
+    this.tickAccumulator += deltaTime;
+    let updates = 0;
+    while (this.tickAccumulator >= step && updates < maxUpdates) {
+      this.config.onUpdate(step);
+      this.tickAccumulator -= step;
+      updates++;
+    }
+
+    if (this.tickAccumulator >= step) {
+      this.tickAccumulator = 0;
+    }
 
-    // Call render callback
-    this.config.onRender();
+    return this.tickAccumulator / step;
   }
 
   /**
@@ -218,7 +262,7 @@ export function createGameLoop(config: GameLoopConfig): GameLoop {
  */
 export function createSimpleGameLoop(
   onUpdate: (deltaTime: number) => void,
-  onRender: () => void
+  onRender: (alpha: number, deltaTime: number) => void
 ): GameLoop {
   return new GameLoop({
     targetFPS: 60,
@@ -0,0 +1,110 @@
+/**
+ * Hitscan hit detection for FrankenKiro
+ * Traces an aim ray against entity collision circles, stopping at the first wall
+ */
+
+import { Vector2, RaycastHit } from './types';
+import { add, multiply, normalize, subtract, dot } from './vector2';
+import { CollisionEntity, raycast } from './collision';
+import { LevelMap } from '@/game/types';
+
+/**
+ * Result of a hitscan trace
+ */
+export interface HitscanResult<T extends CollisionEntity> {
+  /** Nearest entity along the ray, or null if the shot missed */
+  target: T | null;
+  /** Distance from the origin to where the shot stopped */
+  distance: number;
+  /** Point where the shot stopped (entity hit, wall impact or max range) */
+  position: Vector2;
+  /** Wall the shot struck when no entity was hit, or null if it ran out of range */
+  wallImpact: RaycastHit | null;
+}
+
+/**
+ * Intersect a ray with a circle
+ * @param origin - Start of the ray
+ * @param direction - Normalized ray direction
+ * @param center - Circle center
+ * @param radius - Circle radius
+ * @returns Distance along the ray to the first intersection, or null if the ray misses
+ */
+export function intersectRayCircle(
+  origin: Vector2,
+  direction: Vector2,
+  center: Vector2,
+  radius: number
+): number | null {
+  const toCenter = subtract(center, origin);
+  const projection = dot(toCenter, direction);
+  const distSq = dot(toCenter, toCenter) - projection * projection;
+  const radiusSq = radius * radius;
+
+  if (distSq > radiusSq) {
+    return null;
+  }
+
+  const halfChord = Math.sqrt(radiusSq - distSq);
+  const near = projection - halfChord;
+  const far = projection + halfChord;
+
+  // Circle entirely behind the origin
+  if (far < 0) {
+    return null;
+  }
+
+  // Origin inside the circle counts as an immediate hit
+  return near >= 0 ? near : 0;
+}
+
+/**
+ * Trace a shot and find the nearest entity it hits before any wall
+ * @param origin - Where the shot starts
+ * @param direction - Aim direction (normalized internally)
+ * @param maxDistance - Weapon range
+ * @param level - The level map used to clip the shot against walls
+ * @param targets - Entities that can be hit
+ * @returns HitscanResult describing what the shot struck
+ */
+export function hitscan<T extends CollisionEntity>(
+  origin: Vector2,
+  direction: Vector2,
+  maxDistance: number,
+  level: LevelMap,
+  targets: T[]
+): HitscanResult<T> {
+  const dir = normalize(direction);
+
+  // Walls clip the shot's reach (the DDA may step slightly past maxDistance)
+  const rawWallHit = raycast(origin, dir, maxDistance, level);
+  const wallHit = rawWallHit && rawWallHit.distance <= maxDistance ? rawWallHit : null;
+  const reach = wallHit ? wallHit.distance : maxDistance;
+
+  let target: T | null = null;
+  let nearest = reach;
+
+  for (const candidate of targets) {
+    const t = intersectRayCircle(origin, dir, candidate.position, candidate.radius);
+    if (t !== null && t < nearest) {
+      nearest = t;
+      target = candidate;
+    }
+  }
+
+  if (target) {
+    return {
+      target,
+      distance: nearest,
+      position: add(origin, multiply(dir, nearest)),
+      wallImpact: null,
+    };
+  }
+
+  return {
+    target: null,
+    distance: reach,
+    position: wallHit ? wallHit.position : add(origin, multiply(dir, maxDistance)),
+    wallImpact: wallHit,
+  };
+}
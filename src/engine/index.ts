@@ -5,6 +5,10 @@
 export * from './types';
 export * from './vector2';
 export * from './collision';
+export * from './hitscan';
 export * from './raycast';
 export * from './renderer';
+export * from './lighting';
 export * from './gameLoop';
+export * from './spriteAtlas';
+export * from './workerRenderer';
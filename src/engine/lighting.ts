@@ -0,0 +1,247 @@
+/**
+ * Lighting module for FrankenKiro
+ * Bakes the static lights of a level into a per-tile light map once, then
+ * each frame applies their flicker and adds short-lived dynamic lights such
+ * as muzzle flashes and glowing projectiles. Walls stop light; doors let it
+ * through.
+ * Requirements: 2.3, 2.5
+ */
+
+import { Vector2 } from './types';
+import { LevelMap, LightFlicker } from '@/game/types';
+import { isDoorTile } from '@/game/door';
+import { DEFAULT_AMBIENT_LIGHT } from '@/game/lights';
+
+/**
+ * A light for one frame, such as a muzzle flash
+ */
+export interface PointLight {
+  position: Vector2;
+  /** Light color as a hex string */
+  color: string;
+  /** Distance in tiles the light reaches */
+  radius: number;
+  /** Brightness at the light itself */
+  intensity: number;
+}
+
+/**
+ * Light multipliers for red, green and blue, where 1 shows a texture as drawn
+ */
+export interface TileLight {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Light reaching every tile of a level this frame
+ */
+export interface LightMap {
+  width: number;
+  height: number;
+  /** Red, green and blue light multipliers of each tile, at (y * width + x) * 3 */
+  light: Float32Array;
+  /** Light outside the level */
+  ambient: number;
+}
+
+/**
+ * A static light with the share of it each tile it reaches gets
+ */
+interface BakedLight {
+  /** Tiles the light reaches, as y * width + x */
+  cells: Int32Array;
+  /** Falloff at each of those tiles, times the light's color and intensity */
+  amounts: Float32Array;
+  flicker: LightFlicker;
+  /** Offset into the flicker cycle, so lights of one profile do not flicker together */
+  phase: number;
+}
+
+/**
+ * The static lighting of a level, ready to be composed into light maps
+ */
+export interface BakedLighting {
+  grid: number[][];
+  lights: BakedLight[];
+  /** Light map composed into each frame, overwritten by the next compose */
+  lightMap: LightMap;
+}
+
+/**
+ * Distance between the points sampled when checking whether a wall shades a tile
+ */
+const SHADOW_SAMPLE_STEP = 0.1;
+
+/**
+ * Check whether a tile stops light
+ */
+function blocksLight(tile: number | undefined): boolean {
+  return tile === undefined || (tile > 0 && !isDoorTile(tile));
+}
+
+/**
+ * Check whether light from a position reaches the center of a tile
+ * The light's own tile never blocks it, so lights can sit in wall brackets
+ */
+function reachesTile(grid: number[][], from: Vector2, tileX: number, tileY: number): boolean {
+  const dx = tileX + 0.5 - from.x;
+  const dy = tileY + 0.5 - from.y;
+  const steps = Math.ceil(Math.hypot(dx, dy) / SHADOW_SAMPLE_STEP);
+  const startX = Math.floor(from.x);
+  const startY = Math.floor(from.y);
+  for (let i = 1; i < steps; i++) {
+    const x = Math.floor(from.x + (dx * i) / steps);
+    const y = Math.floor(from.y + (dy * i) / steps);
+    if ((x !== startX || y !== startY) && blocksLight(grid[y]?.[x])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Visit every open tile a light reaches with the light's falloff there
+ * Light fades with the square of the distance left to the light's radius
+ */
+function forEachLitTile(
+  grid: number[][],
+  position: Vector2,
+  radius: number,
+  visit: (cell: number, falloff: number) => void
+): void {
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  const minX = Math.max(0, Math.floor(position.x - radius));
+  const maxX = Math.min(width - 1, Math.floor(position.x + radius));
+  const minY = Math.max(0, Math.floor(position.y - radius));
+  const maxY = Math.min(height - 1, Math.floor(position.y + radius));
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const distance = Math.hypot(x + 0.5 - position.x, y + 0.5 - position.y);
+      if (distance >= radius || blocksLight(grid[y][x]) || !reachesTile(grid, position, x, y)) {
+        continue;
+      }
+      visit(y * width + x, (1 - distance / radius) ** 2);
+    }
+  }
+}
+
+/**
+ * Convert a hex color and brightness to light multipliers
+ */
+function toTileLight(color: string, intensity: number): TileLight {
+  const num = parseInt(color.slice(1), 16);
+  return {
+    r: (((num >> 16) & 255) / 255) * intensity,
+    g: (((num >> 8) & 255) / 255) * intensity,
+    b: ((num & 255) / 255) * intensity,
+  };
+}
+
+/**
+ * Bake the static lights of a level
+ * Works out once which tiles each light reaches and how brightly, so each
+ * frame only scales them by their flicker
+ */
+export function bakeLighting(level: LevelMap): BakedLighting {
+  const lights = (level.lights ?? []).map((light, index): BakedLight => {
+    const rgb = toTileLight(light.color, light.intensity ?? 1);
+    const cells: number[] = [];
+    const amounts: number[] = [];
+    forEachLitTile(level.grid, light.position, light.radius, (cell, falloff) => {
+      cells.push(cell);
+      amounts.push(rgb.r * falloff, rgb.g * falloff, rgb.b * falloff);
+    });
+    return {
+      cells: Int32Array.from(cells),
+      amounts: Float32Array.from(amounts),
+      flicker: light.flicker ?? 'steady',
+      // Golden angle steps spread the phases evenly however many lights there are
+      phase: index * 2.39996,
+    };
+  });
+
+  return {
+    grid: level.grid,
+    lights,
+    lightMap: {
+      width: level.width,
+      height: level.height,
+      light: new Float32Array(level.width * level.height * 3),
+      ambient: level.ambientLight ?? DEFAULT_AMBIENT_LIGHT,
+    },
+  };
+}
+
+/**
+ * Get how bright a flickering light is at a moment
+ * @param time - Seconds of rendered time
+ * @param phase - Offset into the flicker cycle
+ * @returns Brightness multiplier, 1 for a steady light
+ */
+export function getFlicker(flicker: LightFlicker, time: number, phase: number = 0): number {
+  switch (flicker) {
+    case 'torch':
+      return 0.85 + Math.sin(time * 8 + phase) * 0.08 + Math.sin(time * 18.4 + phase * 3) * 0.05;
+    case 'pulse':
+      return 0.75 + Math.sin(time * 2 + phase) * 0.25;
+    case 'faulty': {
+      // Hash twelfths of a second so the lamp cuts out on an irregular beat
+      const tick = Math.floor(time * 12 + phase * 7);
+      const noise = Math.sin(tick * 12.9898) * 43758.5453;
+      return noise - Math.floor(noise) < 0.15 ? 0.2 : 1;
+    }
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Compose the light map for a frame
+ * @param baked - Static lighting of the level being drawn
+ * @param time - Seconds of rendered time, which drives the flicker
+ * @param dynamicLights - Lights of this frame only
+ * @returns The baked lighting's light map, valid until the next compose
+ */
+export function composeLightMap(baked: BakedLighting, time: number, dynamicLights: PointLight[] = []): LightMap {
+  const { lightMap } = baked;
+  const { light } = lightMap;
+  light.fill(lightMap.ambient);
+
+  for (const { cells, amounts, flicker, phase } of baked.lights) {
+    const brightness = getFlicker(flicker, time, phase);
+    for (let i = 0; i < cells.length; i++) {
+      const index = cells[i] * 3;
+      light[index] += amounts[i * 3] * brightness;
+      light[index + 1] += amounts[i * 3 + 1] * brightness;
+      light[index + 2] += amounts[i * 3 + 2] * brightness;
+    }
+  }
+
+  for (const { position, color, radius, intensity } of dynamicLights) {
+    const rgb = toTileLight(color, intensity);
+    forEachLitTile(baked.grid, position, radius, (cell, falloff) => {
+      light[cell * 3] += rgb.r * falloff;
+      light[cell * 3 + 1] += rgb.g * falloff;
+      light[cell * 3 + 2] += rgb.b * falloff;
+    });
+  }
+  return lightMap;
+}
+
+/**
+ * Get the light on the tile under a world position
+ * Positions outside the level get the ambient light
+ */
+export function sampleLight(lightMap: LightMap, x: number, y: number): TileLight {
+  const tileX = Math.floor(x);
+  const tileY = Math.floor(y);
+  if (tileX < 0 || tileX >= lightMap.width || tileY < 0 || tileY >= lightMap.height) {
+    return { r: lightMap.ambient, g: lightMap.ambient, b: lightMap.ambient };
+  }
+  const index = (tileY * lightMap.width + tileX) * 3;
+  return { r: lightMap.light[index], g: lightMap.light[index + 1], b: lightMap.light[index + 2] };
+}
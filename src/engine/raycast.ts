@@ -6,6 +6,7 @@
 
 import { Vector2, Ray, RaycastConfig } from './types';
 import { LevelMap } from '@/game/types';
+import { isDoorTile, getDoorAt, getDoorOrientation } from '@/game/door';
 
 /**
  * Default raycasting configuration
@@ -68,6 +69,7 @@ export function castRay(
   let hit = false;
   let side: 'horizontal' | 'vertical' = 'vertical';
   let distance = 0;
+  let textureOffset: number | undefined;
 
   while (!hit && distance < maxDistance) {
     // Jump to next map square in x or y direction
@@ -83,25 +85,45 @@ export function castRay(
       side = 'horizontal';
     }
 
-    // Check if ray has hit a wall
-    if (isWallTile(mapX, mapY, levelMap)) {
+    // Doors are thin panels through the middle of their tile
+    if (isDoorTileAt(mapX, mapY, levelMap)) {
+      const doorHit = intersectDoor(origin, rayDirX, rayDirY, mapX, mapY, levelMap);
+      if (doorHit) {
+        hit = true;
+        distance = doorHit.distance;
+        side = doorHit.side;
+        textureOffset = doorHit.textureOffset;
+      }
+    } else if (isWallTile(mapX, mapY, levelMap)) {
+      // Check if ray has hit a wall
       hit = true;
     }
   }
 
+  // Get wall type (0 if no hit)
+  let wallType = hit ? getTileValue(mapX, mapY, levelMap) : 0;
+
+  // Sliding push-walls are off the grid, so test them separately
+  const pushWallHit = intersectPushWalls(origin, rayDirX, rayDirY, levelMap);
+  if (pushWallHit && pushWallHit.distance < maxDistance && (!hit || pushWallHit.distance < distance)) {
+    hit = true;
+    distance = pushWallHit.distance;
+    side = pushWallHit.side;
+    textureOffset = pushWallHit.textureOffset;
+    wallType = pushWallHit.wallType;
+  }
+
   // Calculate exact wall hit position
   const wallHitX = origin.x + rayDirX * distance;
   const wallHitY = origin.y + rayDirY * distance;
 
-  // Get wall type (0 if no hit)
-  const wallType = hit ? getTileValue(mapX, mapY, levelMap) : 0;
-
   return {
     angle,
     distance: Math.max(distance, MIN_DISTANCE),
     wallHit: { x: wallHitX, y: wallHitY },
     wallType,
     side,
+    textureOffset,
   };
 }
 
@@ -181,6 +203,110 @@ function isWallTile(x: number, y: number, levelMap: LevelMap): boolean {
   return levelMap.grid[y][x] > 0;
 }
 
+/**
+ * Check if an in-bounds tile is a door (internal helper)
+ */
+function isDoorTileAt(x: number, y: number, levelMap: LevelMap): boolean {
+  if (x < 0 || x >= levelMap.width || y < 0 || y >= levelMap.height) {
+    return false;
+  }
+  return isDoorTile(levelMap.grid[y][x]);
+}
+
+/**
+ * Intersect a ray with the sliding panel of a door tile (internal helper)
+ * The panel sits halfway through the tile and slides along its own axis,
+ * so rays passing through the opened part continue to the next tile
+ */
+function intersectDoor(
+  origin: Vector2,
+  rayDirX: number,
+  rayDirY: number,
+  mapX: number,
+  mapY: number,
+  levelMap: LevelMap
+): { distance: number; side: 'horizontal' | 'vertical'; textureOffset: number } | null {
+  const door = getDoorAt(mapX, mapY, levelMap);
+  const openAmount = door?.openAmount ?? 0;
+  const orientation = door?.orientation ?? getDoorOrientation(mapX, mapY, levelMap);
+
+  // Distance along the ray to the door plane, and where along the door it lands
+  let t: number;
+  let along: number;
+  if (orientation === 'vertical') {
+    if (rayDirX === 0) return null;
+    t = (mapX + 0.5 - origin.x) / rayDirX;
+    along = origin.y + rayDirY * t - mapY;
+  } else {
+    if (rayDirY === 0) return null;
+    t = (mapY + 0.5 - origin.y) / rayDirY;
+    along = origin.x + rayDirX * t - mapX;
+  }
+
+  // Behind the origin, outside this tile, or through the open gap
+  if (t < 0 || along < 0 || along >= 1 || along < openAmount) {
+    return null;
+  }
+
+  return { distance: t, side: orientation, textureOffset: openAmount };
+}
+
+/**
+ * Intersect a ray with the moving push-walls of a level (internal helper)
+ * Each block is a unit box offset from its starting tile; the texture of
+ * the faces it slides along moves with it
+ */
+function intersectPushWalls(
+  origin: Vector2,
+  rayDirX: number,
+  rayDirY: number,
+  levelMap: LevelMap
+): { distance: number; side: 'horizontal' | 'vertical'; textureOffset: number; wallType: number } | null {
+  let nearest: { distance: number; side: 'horizontal' | 'vertical'; textureOffset: number; wallType: number } | null = null;
+
+  for (const pushWall of levelMap.pushWalls ?? []) {
+    if (pushWall.state !== 'moving') {
+      continue;
+    }
+    const minX = pushWall.x + pushWall.dx * pushWall.offset;
+    const minY = pushWall.y + pushWall.dy * pushWall.offset;
+
+    // Slab test: entry and exit distances for the box's x and y extents
+    const [enterX, exitX] = slab(origin.x, rayDirX, minX);
+    const [enterY, exitY] = slab(origin.y, rayDirY, minY);
+    const enter = Math.max(enterX, enterY);
+    const exit = Math.min(exitX, exitY);
+
+    // Missed, behind the origin, or the origin is inside the block
+    if (enter > exit || enter < 0) {
+      continue;
+    }
+    if (!nearest || enter < nearest.distance) {
+      const side = enterX > enterY ? 'vertical' : 'horizontal';
+      nearest = {
+        distance: enter,
+        side,
+        textureOffset: side === 'vertical' ? pushWall.dy * pushWall.offset : pushWall.dx * pushWall.offset,
+        wallType: pushWall.tile,
+      };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Distances along a ray axis where it enters and leaves a unit span (internal helper)
+ */
+function slab(origin: number, dir: number, min: number): [number, number] {
+  if (dir === 0) {
+    return origin >= min && origin < min + 1 ? [-Infinity, Infinity] : [Infinity, -Infinity];
+  }
+  const t1 = (min - origin) / dir;
+  const t2 = (min + 1 - origin) / dir;
+  return t1 < t2 ? [t1, t2] : [t2, t1];
+}
+
 /**
  * Get tile value at position (internal helper)
  */
@@ -0,0 +1,62 @@
+/**
+ * Render worker entry point for FrankenKiro
+ * Owns the game canvas as an OffscreenCanvas and draws each frame snapshot
+ * posted by WorkerRenderer on the main thread
+ * Requirements: 2.4, 10.4
+ */
+
+import { GameRenderer } from './renderer';
+import { RenderWorkerMessage, RenderWorkerReply } from './workerRenderer';
+import { LevelMap } from '@/game/types';
+
+const renderer = new GameRenderer();
+
+// The level is only posted when it changes, so keep the latest one
+let levelMap: LevelMap | null = null;
+
+function reply(message: RenderWorkerReply): void {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<RenderWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init': {
+      const ctx = message.canvas.getContext('2d');
+      if (!ctx) {
+        reply({ type: 'failed', message: 'Render worker: Failed to get 2D context' });
+        return;
+      }
+      // Disable image smoothing for crisp pixel art
+      ctx.imageSmoothingEnabled = false;
+      renderer.setConfig(message.config);
+      renderer.setContext(ctx);
+      break;
+    }
+    case 'config':
+      renderer.setConfig(message.config);
+      break;
+    case 'seed':
+      renderer.setSeed(message.seed);
+      break;
+    case 'atlas':
+      renderer.setSpriteAtlas(message.atlas);
+      break;
+    case 'frame': {
+      const { snapshot } = message;
+      levelMap = snapshot.levelMap ?? levelMap;
+      if (levelMap) {
+        renderer.render(
+          snapshot.player,
+          levelMap,
+          snapshot.enemies,
+          snapshot.items,
+          snapshot.deltaTime,
+          snapshot.projectiles
+        );
+      }
+      reply({ type: 'rendered' });
+      break;
+    }
+  }
+});
@@ -1,13 +1,32 @@
 /**
  * Canvas renderer for FrankenKiro
  * Handles wall, floor, ceiling, and sprite rendering with enhanced graphics
+ * The 3D view is drawn into a pixel framebuffer and put on the canvas once per frame
+ * Walls, floors, ceilings and sprites are shaded by the level's per-tile light map
  * Requirements: 2.3, 2.5, 3.3, 5.3
  */
 
-import { Vector2, Ray, RaycastConfig } from './types';
-import { LevelMap, Player, Enemy, GameItem } from '@/game/types';
-import { RaycastRenderer, calculateWallHeight } from './raycast';
+import { Vector2, Ray, RaycastConfig, Framebuffer, RenderContext } from './types';
+import { LevelMap, Player, Enemy, GameItem, Projectile } from '@/game/types';
+import { DEFAULT_RAYCAST_CONFIG, RaycastRenderer, calculateWallHeight } from './raycast';
 import { subtract, length } from './vector2';
+import { BakedLighting, LightMap, PointLight, TileLight, bakeLighting, composeLightMap, sampleLight } from './lighting';
+import { isDoorTile } from '@/game/door';
+import { isExitOpen } from '@/game/exit';
+import {
+  CEILING_SKY,
+  CEILING_STONE,
+  CEILING_WOOD,
+  FLOOR_ACID,
+  FLOOR_BLOOD,
+  FLOOR_HEALING,
+  FLOOR_PLAIN,
+  FLOOR_TELEPORT,
+} from '@/game/floor';
+import { RandomSource, createRandom, deriveSeed } from '@/game/random';
+import { DEATH_DURATION, PAIN_DURATION } from '@/game/enemyAnimation';
+import { getFireInterval } from '@/game/weapons';
+import { AnimationClipName, AtlasRect, SpriteAtlas, getAtlasFrame, getViewDirection } from './spriteAtlas';
 
 /**
  * Enhanced Halloween color palette with richer colors
@@ -20,6 +39,10 @@ export const COLORS = {
     '#2d5a4f', // Type 2 - mossy green
     '#5a2d5a', // Type 3 - haunted purple
     '#4a4530', // Type 4 - aged olive
+    '#5a3a1e', // Type 5 - wooden door
+    '#6a1a1a', // Type 6 - locked door (key 1)
+    '#1a3a6a', // Type 7 - locked door (key 2)
+    '#6a5a1a', // Type 8 - locked door (key 3)
   ],
   // Lighter versions for vertical walls (side lighting)
   wallsLight: [
@@ -28,6 +51,10 @@ export const COLORS = {
     '#4d7a6f',
     '#7a4d7a',
     '#6a6550',
+    '#7a5a3e',
+    '#8a3a3a',
+    '#3a5a8a',
+    '#8a7a3a',
   ],
   // Darker versions for shadows
   wallsDark: [
@@ -36,15 +63,25 @@ export const COLORS = {
     '#1d3a2f',
     '#3a1d3a',
     '#2a2510',
+    '#3a1a0a',
+    '#3a0a0a',
+    '#0a1a3a',
+    '#3a2a0a',
   ],
   // Floor colors
   floorNear: '#2a1515',
-  floorMid: '#1a0a0a',
-  floorFar: '#0a0505',
+  // Special floor tile colors
+  floorAcid: '#3a7a1a',
+  floorBlood: '#5a0606',
+  floorHealing: '#e8c860',
+  floorTeleport: '#3a6aff',
   // Ceiling colors
   ceilingNear: '#151525',
-  ceilingMid: '#0a0a1a',
-  ceilingFar: '#050510',
+  ceilingWood: '#4a3020',
+  // Open sky
+  skyTop: '#02010a',
+  skyHorizon: '#2a1238',
+  moon: '#f0e8c8',
   // Fog and atmosphere
   fog: '#0a0812',
   fogTint: '#1a0820',
@@ -57,83 +94,24 @@ export const COLORS = {
 };
 
 /**
- * Procedural texture generation for walls
+ * Cosmetic random stream for flicker, particles and grain
+ * Kept apart from the game state so visual effects can never desync replays
  */
-const TEXTURE_SIZE = 64;
-const wallTextures: Map<number, ImageData> = new Map();
-let texturesGenerated = false;
+let cosmeticRandom: RandomSource = createRandom(deriveSeed(0, 'cosmetic'));
 
 /**
- * Generate procedural wall textures
+ * Reseed the cosmetic random stream from a session seed
  */
-function generateWallTextures(ctx: CanvasRenderingContext2D): void {
-  if (texturesGenerated) return;
-  
-  for (let type = 1; type <= 4; type++) {
-    const imageData = ctx.createImageData(TEXTURE_SIZE, TEXTURE_SIZE);
-    const data = imageData.data;
-    
-    const baseColor = hexToRgb(COLORS.walls[type]);
-    const lightColor = hexToRgb(COLORS.wallsLight[type]);
-    const darkColor = hexToRgb(COLORS.wallsDark[type]);
-    
-    for (let y = 0; y < TEXTURE_SIZE; y++) {
-      for (let x = 0; x < TEXTURE_SIZE; x++) {
-        const idx = (y * TEXTURE_SIZE + x) * 4;
-        
-        // Create brick/stone pattern
-        const brickHeight = 8;
-        const brickWidth = 16;
-        const mortarSize = 1;
-        
-        const row = Math.floor(y / brickHeight);
-        const offset = (row % 2) * (brickWidth / 2);
-        const brickX = (x + offset) % brickWidth;
-        const brickY = y % brickHeight;
-        
-        // Check if we're on mortar
-        const isMortar = brickX < mortarSize || brickY < mortarSize;
-        
-        // Add noise for texture
-        const noise = (Math.sin(x * 0.5) * Math.cos(y * 0.7) + 1) * 0.5;
-        const noise2 = (Math.sin(x * 1.3 + y * 0.9) + 1) * 0.25;
-        
-        let r, g, b;
-        
-        if (isMortar) {
-          // Mortar is darker
-          r = darkColor.r * 0.7;
-          g = darkColor.g * 0.7;
-          b = darkColor.b * 0.7;
-        } else {
-          // Brick with variation
-          const variation = 0.8 + noise * 0.4 + noise2 * 0.2;
-          r = baseColor.r * variation;
-          g = baseColor.g * variation;
-          b = baseColor.b * variation;
-          
-          // Add subtle cracks
-          if (Math.random() < 0.02) {
-            r *= 0.6;
-            g *= 0.6;
-            b *= 0.6;
-          }
-        }
-        
-        // Add vertical gradient for depth
-        const vGradient = 1 - (y / TEXTURE_SIZE) * 0.2;
-        
-        data[idx] = Math.min(255, Math.max(0, r * vGradient));
-        data[idx + 1] = Math.min(255, Math.max(0, g * vGradient));
-        data[idx + 2] = Math.min(255, Math.max(0, b * vGradient));
-        data[idx + 3] = 255;
-      }
-    }
-    
-    wallTextures.set(type, imageData);
-  }
-  
-  texturesGenerated = true;
+export function seedCosmeticRandom(seed: number): void {
+  cosmeticRandom = createRandom(deriveSeed(seed, 'cosmetic'));
+}
+
+/**
+ * Draw the next value from the cosmetic random stream
+ * For visual effects outside the renderer, such as screen shake
+ */
+export function nextCosmeticRandom(): number {
+  return cosmeticRandom();
 }
 
 /**
@@ -149,7 +127,8 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } {
 }
 
 /**
- * Lighting state for dynamic effects
+ * Flicker of the ember particles and sprite glows
+ * World lighting flickers per light, see lighting.ts
  */
 let lightFlicker = 1.0;
 let flickerTime = 0;
@@ -160,7 +139,7 @@ let flickerTime = 0;
 export function updateLighting(deltaTime: number): void {
   flickerTime += deltaTime * 8;
   // Torch flicker effect
-  lightFlicker = 0.85 + Math.sin(flickerTime) * 0.08 + Math.sin(flickerTime * 2.3) * 0.05 + Math.random() * 0.02;
+  lightFlicker = 0.85 + Math.sin(flickerTime) * 0.08 + Math.sin(flickerTime * 2.3) * 0.05 + cosmeticRandom() * 0.02;
 }
 
 /**
@@ -170,370 +149,643 @@ export interface Sprite {
   position: Vector2;
   spriteId: string;
   scale: number;
+  /** Direction the sprite faces; sprites without one look the same from every side */
+  rotation?: number;
+  /** Atlas animation clip to play, idle when not set */
+  animation?: AnimationClipName;
+  /** Seconds into the clip; the renderer's own clock when not set */
+  animationTime?: number;
 }
 
 /**
- * Sample texture at given UV coordinates
+ * Sprite atlas drawn from, or null to draw the procedural sprite shapes
  */
-function sampleTexture(
-  texture: ImageData,
-  u: number,
-  v: number
-): { r: number; g: number; b: number } {
-  const texX = Math.floor(u * TEXTURE_SIZE) % TEXTURE_SIZE;
-  const texY = Math.floor(v * TEXTURE_SIZE) % TEXTURE_SIZE;
-  const idx = (texY * TEXTURE_SIZE + texX) * 4;
-  
-  return {
-    r: texture.data[idx],
-    g: texture.data[idx + 1],
-    b: texture.data[idx + 2],
-  };
+let spriteAtlas: SpriteAtlas | null = null;
+
+/**
+ * Seconds of rendered time, used to play clips of sprites without their own
+ * clip time and to flicker lights
+ */
+let renderClock = 0;
+
+/**
+ * Set the sprite atlas sprites are drawn from
+ * Sprites the atlas has no clips for, and all sprites when it is null, keep
+ * their procedural shapes
+ */
+export function setSpriteAtlas(atlas: SpriteAtlas | null): void {
+  spriteAtlas = atlas;
+}
+
+type Rgb = { r: number; g: number; b: number };
+
+/**
+ * Light of scenes drawn without a light map
+ */
+const FULL_LIGHT: TileLight = { r: 1, g: 1, b: 1 };
+
+/**
+ * Static lighting of the level last drawn, rebaked when its walls or lights change
+ */
+let bakedLighting: { source: LevelMap; baked: BakedLighting } | null = null;
+
+/**
+ * Get the static lighting of a level, baking it on first use
+ * Door and push-wall updates replace the level map but keep its grid and
+ * lights, so they do not trigger a rebake
+ */
+function getBakedLighting(levelMap: LevelMap): BakedLighting {
+  if (
+    !bakedLighting ||
+    bakedLighting.source.grid !== levelMap.grid ||
+    bakedLighting.source.lights !== levelMap.lights ||
+    bakedLighting.source.ambientLight !== levelMap.ambientLight
+  ) {
+    bakedLighting = { source: levelMap, baked: bakeLighting(levelMap) };
+  }
+  return bakedLighting.baked;
 }
 
 /**
- * Generate procedural wall texture pattern with enhanced detail
+ * Framebuffer the 3D view is drawn into, reused between frames
  */
-export function generateWallPattern(
-  wallType: number,
-  wallX: number,
-  wallY: number,
-  side: 'horizontal' | 'vertical'
-): string {
-  const baseColor = side === 'vertical' 
+let framebuffer: Framebuffer | null = null;
+
+/**
+ * Get the framebuffer for a screen size, recreating it when the size changes
+ */
+function getFramebuffer(ctx: RenderContext, width: number, height: number): Framebuffer {
+  if (!framebuffer || framebuffer.width !== width || framebuffer.height !== height) {
+    const imageData = ctx.createImageData(width, height);
+    framebuffer = { width, height, imageData, pixels: new Uint32Array(imageData.data.buffer) };
+  }
+  return framebuffer;
+}
+
+/**
+ * Pack a color for a Uint32 view of canvas image data (little-endian RGBA)
+ */
+function packRgb({ r, g, b }: Rgb): number {
+  const clamp = (value: number): number => Math.min(255, Math.max(0, Math.round(value)));
+  return ((255 << 24) | (clamp(b) << 16) | (clamp(g) << 8) | clamp(r)) >>> 0;
+}
+
+/**
+ * Light a packed texel and blend it toward the fog color
+ * Bright lights saturate each channel at full intensity
+ * @param shadeR - Red light multiplier, already reduced by the fog amount
+ * @param shadeG - Green light multiplier, already reduced by the fog amount
+ * @param shadeB - Blue light multiplier, already reduced by the fog amount
+ */
+function shadeTexel(
+  texel: number,
+  shadeR: number,
+  shadeG: number,
+  shadeB: number,
+  fogR: number,
+  fogG: number,
+  fogB: number
+): number {
+  // Clamped with comparisons, not Math.min, which is several times slower
+  // in this per-pixel loop
+  const r = (texel & 255) * shadeR + fogR;
+  const g = ((texel >> 8) & 255) * shadeG + fogG;
+  const b = ((texel >> 16) & 255) * shadeB + fogB;
+  const clampedR = r < 255 ? r | 0 : 255;
+  const clampedG = g < 255 ? g | 0 : 255;
+  const clampedB = b < 255 ? b | 0 : 255;
+  return (0xff000000 | (clampedB << 16) | (clampedG << 8) | clampedR) >>> 0;
+}
+
+/**
+ * Blend a color over a framebuffer pixel, like a translucent canvas fill
+ */
+function blendPixel(pixels: Uint32Array, index: number, color: Rgb, alpha: number): void {
+  const pixel = pixels[index];
+  const keep = 1 - alpha;
+  pixels[index] = packRgb({
+    r: (pixel & 255) * keep + color.r * alpha,
+    g: ((pixel >> 8) & 255) * keep + color.g * alpha,
+    b: ((pixel >> 16) & 255) * keep + color.b * alpha,
+  });
+}
+
+/**
+ * Procedural wall textures, keyed by wall type and side
+ * The brick and plank patterns are baked once so wall columns only sample them
+ */
+const TEXTURE_SIZE = 64;
+const wallTextures: Map<number, Uint32Array> = new Map();
+
+/**
+ * Generate the texture for a wall type seen from one side
+ * Horizontal sides use the base palette and vertical sides the lighter one
+ */
+function generateWallTexture(wallType: number, side: Ray['side']): Uint32Array {
+  const isDoor = isDoorTile(wallType);
+  const baseRgb = hexToRgb(side === 'vertical'
     ? COLORS.wallsLight[wallType % COLORS.wallsLight.length]
-    : COLORS.walls[wallType % COLORS.walls.length];
-  
-  // Enhanced brick pattern
-  const brickHeight = 0.125;
-  const brickWidth = 0.25;
-  const mortarSize = 0.02;
-  
-  const row = Math.floor(wallY / brickHeight);
-  const offset = (row % 2) * (brickWidth / 2);
-  const brickX = ((wallX + offset) % brickWidth) / brickWidth;
-  const brickY = (wallY % brickHeight) / brickHeight;
-  
-  // Check if on mortar
-  const isMortar = brickX < mortarSize * 4 || brickY < mortarSize * 8;
-  
-  // Procedural noise for texture
-  const noise = Math.sin(wallX * 20) * Math.cos(wallY * 25) * 0.15;
-  const noise2 = Math.sin(wallX * 47 + wallY * 31) * 0.1;
-  
-  let variation = isMortar ? -30 : (noise + noise2) * 40;
-  
-  // Side lighting difference
-  if (side === 'vertical') {
-    variation += 15;
+    : COLORS.walls[wallType % COLORS.walls.length]);
+  const darkRgb = hexToRgb(COLORS.wallsDark[wallType % COLORS.wallsDark.length]);
+  const texture = new Uint32Array(TEXTURE_SIZE * TEXTURE_SIZE);
+
+  for (let y = 0; y < TEXTURE_SIZE; y++) {
+    const texV = (y + 0.5) / TEXTURE_SIZE;
+    for (let x = 0; x < TEXTURE_SIZE; x++) {
+      const texU = (x + 0.5) / TEXTURE_SIZE;
+
+      let isMortar: boolean;
+      if (isDoor) {
+        // Plank pattern with iron bands for doors
+        const plankX = (texU * 5) % 1;
+        isMortar = plankX < 0.08 || Math.abs(texV - 0.2) < 0.03 || Math.abs(texV - 0.8) < 0.03;
+      } else {
+        // Brick pattern
+        const brickHeight = 0.125;
+        const brickWidth = 0.25;
+        const row = Math.floor(texV / brickHeight);
+        const offset = (row % 2) * (brickWidth / 2);
+        const brickX = ((texU + offset) % brickWidth) / brickWidth;
+        const brickY = (texV % brickHeight) / brickHeight;
+        isMortar = brickX < 0.08 || brickY < 0.12;
+      }
+
+      // Procedural noise
+      const noise = Math.sin(texU * 47 + texV * 31) * 0.15;
+      const noise2 = Math.cos(texU * 23 - texV * 17) * 0.1;
+      const color = isMortar
+        ? { r: darkRgb.r * 0.6, g: darkRgb.g * 0.6, b: darkRgb.b * 0.6 }
+        : scaleRgb(baseRgb, 1 + noise + noise2);
+
+      // Vertical gradient for depth
+      texture[y * TEXTURE_SIZE + x] = packRgb(scaleRgb(color, 0.85 + Math.sin(texV * Math.PI) * 0.15));
+    }
   }
-  
-  return adjustBrightness(baseColor, variation);
+  return texture;
 }
 
 /**
- * Adjust color brightness
+ * Get the texture for a wall type and side, generating it on first use
  */
-function adjustBrightness(hex: string, percent: number): string {
-  const num = parseInt(hex.slice(1), 16);
-  const r = Math.min(255, Math.max(0, (num >> 16) + percent));
-  const g = Math.min(255, Math.max(0, ((num >> 8) & 0x00ff) + percent));
-  const b = Math.min(255, Math.max(0, (num & 0x0000ff) + percent));
-  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+function getWallTexture(wallType: number, side: Ray['side']): Uint32Array {
+  const key = wallType * 2 + (side === 'vertical' ? 1 : 0);
+  let texture = wallTextures.get(key);
+  if (!texture) {
+    texture = generateWallTexture(wallType, side);
+    wallTextures.set(key, texture);
+  }
+  return texture;
+}
+
+/**
+ * Floor and ceiling texture size in texels (a power of two, so lookups can mask)
+ */
+const FLAT_TEXTURE_SHIFT = 6;
+const FLAT_TEXTURE_SIZE = 1 << FLAT_TEXTURE_SHIFT;
+const FLAT_TEXTURE_MASK = FLAT_TEXTURE_SIZE - 1;
+
+/**
+ * Night sky panorama size; the width wraps once around a full turn
+ */
+const SKY_WIDTH = 512;
+const SKY_HEIGHT = 128;
+
+/**
+ * Build a tileable floor or ceiling texture
+ * @param texel - Color at (u, v), both running 0 to 1 across one world tile
+ */
+function generateFlatTexture(texel: (u: number, v: number) => Rgb): Uint32Array {
+  const texture = new Uint32Array(FLAT_TEXTURE_SIZE * FLAT_TEXTURE_SIZE);
+  for (let y = 0; y < FLAT_TEXTURE_SIZE; y++) {
+    for (let x = 0; x < FLAT_TEXTURE_SIZE; x++) {
+      texture[y * FLAT_TEXTURE_SIZE + x] = packRgb(
+        texel((x + 0.5) / FLAT_TEXTURE_SIZE, (y + 0.5) / FLAT_TEXTURE_SIZE)
+      );
+    }
+  }
+  return texture;
 }
 
 /**
- * Apply enhanced fog effect with color tinting
+ * Scale a color's brightness
  */
-function applyFog(color: string, distance: number, maxDistance: number): string {
-  const fogAmount = Math.min(1, (distance / maxDistance) ** 1.5);
-  // Blend towards purple-tinted fog for spooky atmosphere
-  const foggedColor = blendColors(color, COLORS.fog, fogAmount * 0.8);
-  return blendColors(foggedColor, COLORS.fogTint, fogAmount * 0.3);
+function scaleRgb(rgb: Rgb, amount: number): Rgb {
+  return { r: rgb.r * amount, g: rgb.g * amount, b: rgb.b * amount };
 }
 
 /**
- * Apply distance-based lighting with flicker
+ * Stone flags with blood stain hints, shared by plain floor and healing circles
  */
-function applyLighting(color: string, distance: number, maxDistance: number): string {
-  // Inverse square falloff for realistic lighting
-  const lightIntensity = Math.max(0.15, 1 - (distance / maxDistance) ** 1.2) * lightFlicker;
-  
-  const rgb = hexToRgb(color);
-  const r = Math.min(255, rgb.r * lightIntensity);
-  const g = Math.min(255, rgb.g * lightIntensity);
-  const b = Math.min(255, rgb.b * lightIntensity);
-  
-  return `#${((Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b)).toString(16).padStart(6, '0')}`;
+function stoneFloorTexel(u: number, v: number): Rgb {
+  const stone = hexToRgb(COLORS.floorNear);
+  const checker = ((Math.floor(u * 2) + Math.floor(v * 2)) % 2) === 0;
+  const noise = Math.sin(u * Math.PI * 6) * Math.cos(v * Math.PI * 6) * 0.1;
+  const detail = checker ? 0.15 + noise : -0.1 + noise;
+  return { r: stone.r + detail * 30 + (checker ? 8 : 0), g: stone.g + detail * 10, b: stone.b + detail * 10 };
 }
 
 /**
- * Blend two colors
+ * Generate the floor textures, indexed by floor tile type
  */
-function blendColors(color1: string, color2: string, amount: number): string {
-  const c1 = parseInt(color1.slice(1), 16);
-  const c2 = parseInt(color2.slice(1), 16);
-  
-  const r1 = c1 >> 16, g1 = (c1 >> 8) & 0xff, b1 = c1 & 0xff;
-  const r2 = c2 >> 16, g2 = (c2 >> 8) & 0xff, b2 = c2 & 0xff;
-  
-  const r = Math.round(r1 + (r2 - r1) * amount);
-  const g = Math.round(g1 + (g2 - g1) * amount);
-  const b = Math.round(b1 + (b2 - b1) * amount);
-  
-  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+function generateFloorTextures(): Uint32Array[] {
+  const textures: Uint32Array[] = [];
+  textures[FLOOR_PLAIN] = generateFlatTexture(stoneFloorTexel);
+  textures[FLOOR_ACID] = generateFlatTexture((u, v) => {
+    // Bubbling slime
+    const bubble = Math.max(0, Math.sin(u * Math.PI * 6) * Math.sin(v * Math.PI * 6));
+    const noise = Math.sin(u * Math.PI * 14) * Math.cos(v * Math.PI * 10) * 0.1;
+    return scaleRgb(hexToRgb(COLORS.floorAcid), 0.7 + bubble * 0.6 + noise);
+  });
+  textures[FLOOR_BLOOD] = generateFlatTexture((u, v) => {
+    // Dark pools with glossy streaks
+    const streak = Math.max(0, Math.sin((u * 2 + v) * Math.PI * 2)) ** 4;
+    const noise = Math.sin(u * Math.PI * 10) * Math.cos(v * Math.PI * 8) * 0.2;
+    return scaleRgb(hexToRgb(COLORS.floorBlood), 0.8 + streak * 0.5 + noise);
+  });
+  textures[FLOOR_HEALING] = generateFlatTexture((u, v) => {
+    // Glowing ring on stone
+    const radius = Math.hypot(u - 0.5, v - 0.5);
+    const ring = Math.max(0, 1 - Math.abs(radius - 0.32) * 12);
+    const stone = stoneFloorTexel(u, v);
+    const glow = scaleRgb(hexToRgb(COLORS.floorHealing), ring);
+    return { r: stone.r + glow.r, g: stone.g + glow.g, b: stone.b + glow.b };
+  });
+  textures[FLOOR_TELEPORT] = generateFlatTexture((u, v) => {
+    // Rings around the pad's center
+    const radius = Math.hypot(u - 0.5, v - 0.5);
+    return scaleRgb(hexToRgb(COLORS.floorTeleport), 0.3 + (Math.cos(radius * 40) + 1) * 0.35);
+  });
+  return textures;
+}
+
+/**
+ * Generate the ceiling textures, indexed by ceiling tile type
+ * Open sky has no texture; it shows the sky panorama instead
+ */
+function generateCeilingTextures(): Uint32Array[] {
+  const textures: Uint32Array[] = [];
+  textures[CEILING_STONE] = generateFlatTexture((u, v) => {
+    // Vaulted blocks with cobweb hints
+    const stone = hexToRgb(COLORS.ceilingNear);
+    const checker = ((Math.floor(u * 2) + Math.floor(v * 2)) % 2) === 0;
+    const noise = Math.sin(u * Math.PI * 6) * Math.cos(v * Math.PI * 6) * 0.1;
+    const detail = checker ? 0.15 + noise : -0.1 + noise;
+    return { r: stone.r + detail * 15, g: stone.g + detail * 15, b: stone.b + detail * 25 + (checker ? 5 : 0) };
+  });
+  textures[CEILING_WOOD] = generateFlatTexture((u, v) => {
+    // Planks laid across a central beam
+    const beam = Math.abs(v - 0.5) < 0.12;
+    const seam = (u * 4) % 1 < 0.06;
+    const grain = Math.sin(u * Math.PI * 40 + Math.sin(v * Math.PI * 4) * 2) * 0.08;
+    const amount = (beam ? 0.6 : seam ? 0.45 : 0.85) + grain;
+    return scaleRgb(hexToRgb(COLORS.ceilingWood), amount);
+  });
+  return textures;
+}
+
+/**
+ * Generate the night sky panorama: a gradient down to the horizon,
+ * scattered stars and a moon
+ */
+function generateSkyTexture(): Uint32Array {
+  const sky = new Uint32Array(SKY_WIDTH * SKY_HEIGHT);
+  const top = hexToRgb(COLORS.skyTop);
+  const horizon = hexToRgb(COLORS.skyHorizon);
+  const moon = hexToRgb(COLORS.moon);
+  const moonX = SKY_WIDTH * 0.3;
+  const moonY = SKY_HEIGHT * 0.35;
+  for (let y = 0; y < SKY_HEIGHT; y++) {
+    const t = y / (SKY_HEIGHT - 1);
+    for (let x = 0; x < SKY_WIDTH; x++) {
+      let color: Rgb = {
+        r: top.r + (horizon.r - top.r) * t,
+        g: top.g + (horizon.g - top.g) * t,
+        b: top.b + (horizon.b - top.b) * t,
+      };
+      // Stars come from a fixed hash, so the sky never changes
+      const hash = Math.abs(Math.sin(x * 12.9898 + y * 78.233) * 43758.5453) % 1;
+      if (hash > 0.996 && t < 0.8) {
+        color = scaleRgb(moon, 0.5 + (hash - 0.996) * 125);
+      }
+      const moonDistance = Math.hypot(x - moonX, y - moonY);
+      if (moonDistance < 10) {
+        color = moon;
+      } else if (moonDistance < 18) {
+        const glow = (18 - moonDistance) / 8 * 0.3;
+        color = {
+          r: color.r + (moon.r - color.r) * glow,
+          g: color.g + (moon.g - color.g) * glow,
+          b: color.b + (moon.b - color.b) * glow,
+        };
+      }
+      sky[y * SKY_WIDTH + x] = packRgb(color);
+    }
+  }
+  return sky;
 }
 
 /**
- * Render enhanced floor and ceiling with perspective and texture
+ * Floor, ceiling and sky textures, generated on first use
+ */
+let flatTextures: { floor: Uint32Array[]; ceiling: Uint32Array[]; sky: Uint32Array } | null = null;
+
+function getFlatTextures(): { floor: Uint32Array[]; ceiling: Uint32Array[]; sky: Uint32Array } {
+  flatTextures ??= {
+    floor: generateFloorTextures(),
+    ceiling: generateCeilingTextures(),
+    sky: generateSkyTexture(),
+  };
+  return flatTextures;
+}
+
+/**
+ * Flattened copies of level tile layers, indexed y * width + x
+ * Layers are never edited in place, so the array identity is a safe key
+ */
+const flatLayers = new WeakMap<number[][], Uint8Array>();
+
+function getFlatLayer(layer: number[][]): Uint8Array {
+  let cells = flatLayers.get(layer);
+  if (!cells) {
+    cells = Uint8Array.from(layer.flat());
+    flatLayers.set(layer, cells);
+  }
+  return cells;
+}
+
+/**
+ * Per-column ray tables reused between frames
+ */
+interface FlatColumns {
+  columnDirX: Float32Array;
+  columnDirY: Float32Array;
+  skyColumn: Int32Array;
+}
+
+let flatColumns: FlatColumns | null = null;
+
+function getFlatColumns(screenWidth: number): FlatColumns {
+  if (!flatColumns || flatColumns.skyColumn.length !== screenWidth) {
+    flatColumns = {
+      columnDirX: new Float32Array(screenWidth),
+      columnDirY: new Float32Array(screenWidth),
+      skyColumn: new Int32Array(screenWidth),
+    };
+  }
+  return flatColumns;
+}
+
+/**
+ * Per-tile light multipliers reused between frames
+ */
+let flatLight: Float32Array | null = null;
+
+function getFlatLight(length: number): Float32Array {
+  if (!flatLight || flatLight.length !== length) {
+    flatLight = new Float32Array(length);
+  }
+  return flatLight;
+}
+
+/**
+ * Render the floor and ceiling by perspective casting
+ * Every screen row below the horizon is a line on the floor at a fixed
+ * distance, mirrored by a row on the ceiling above it. Each pixel samples
+ * the texture of the floor or ceiling tile it lands on, using the same
+ * column angles as the wall rays so floors meet walls exactly, lit by the
+ * light of that tile. Open-sky ceiling tiles show the sky panorama, which is
+ * neither fogged nor lit.
  * Requirements: 2.5
  */
 export function renderFloorAndCeiling(
-  ctx: CanvasRenderingContext2D,
-  screenWidth: number,
-  screenHeight: number,
+  frame: Framebuffer,
   playerPosition?: Vector2,
-  playerRotation?: number
+  playerRotation?: number,
+  levelMap?: LevelMap,
+  fov: number = DEFAULT_RAYCAST_CONFIG.fov,
+  lightMap?: LightMap
 ): void {
+  const { width: screenWidth, height: screenHeight, pixels } = frame;
   const halfHeight = screenHeight / 2;
-  
-  // Create image data for pixel-level rendering
-  const imageData = ctx.getImageData(0, 0, screenWidth, screenHeight);
-  const data = imageData.data;
-  
-  const floorNear = hexToRgb(COLORS.floorNear);
-  const floorMid = hexToRgb(COLORS.floorMid);
-  const floorFar = hexToRgb(COLORS.floorFar);
-  const ceilingNear = hexToRgb(COLORS.ceilingNear);
-  const ceilingMid = hexToRgb(COLORS.ceilingMid);
-  const ceilingFar = hexToRgb(COLORS.ceilingFar);
-  const fogColor = hexToRgb(COLORS.fog);
-  
-  const cosAngle = playerRotation !== undefined ? Math.cos(playerRotation) : 1;
-  const sinAngle = playerRotation !== undefined ? Math.sin(playerRotation) : 0;
+  const { columnDirX, columnDirY, skyColumn } = getFlatColumns(screenWidth);
+  const textures = getFlatTextures();
+
+  const rotation = playerRotation ?? 0;
   const posX = playerPosition?.x ?? 0;
   const posY = playerPosition?.y ?? 0;
-  
-  // Render floor and ceiling with perspective-correct texturing
-  for (let y = 0; y < screenHeight; y++) {
-    const isFloor = y > halfHeight;
-    const rowDistance = isFloor 
-      ? halfHeight / (y - halfHeight + 0.1)
-      : halfHeight / (halfHeight - y + 0.1);
-    
-    // Fog based on distance
+  const mapWidth = levelMap?.width ?? 0;
+  const mapHeight = levelMap?.height ?? 0;
+  const floorLayer = levelMap?.floor ? getFlatLayer(levelMap.floor) : null;
+  const ceilingLayer = levelMap?.ceiling ? getFlatLayer(levelMap.ceiling) : null;
+  const light = lightMap && lightMap.width === mapWidth && lightMap.height === mapHeight ? lightMap.light : null;
+  const ambient = lightMap?.ambient ?? 1;
+
+  // Column directions, scaled so a row's perpendicular distance gives the world offset
+  for (let x = 0; x < screenWidth; x++) {
+    const angleOffset = ((x / screenWidth) - 0.5) * fov;
+    const angle = rotation + angleOffset;
+    const correction = 1 / Math.cos(angleOffset);
+    columnDirX[x] = Math.cos(angle) * correction;
+    columnDirY[x] = Math.sin(angle) * correction;
+    const turn = angle / (Math.PI * 2);
+    skyColumn[x] = Math.floor((turn - Math.floor(turn)) * SKY_WIDTH) % SKY_WIDTH;
+  }
+
+  // Acid drifts and teleport pads pulse with the flicker clock
+  const floorShift = new Int32Array(textures.floor.length);
+  const floorGain = new Float32Array(textures.floor.length).fill(1);
+  floorShift[FLOOR_ACID] = Math.floor(flickerTime * 2);
+  floorGain[FLOOR_TELEPORT] = 0.7 + Math.sin(flickerTime * 0.5) * 0.3;
+
+  // Light each tile once per frame rather than per pixel: three floor
+  // multipliers with the floor's gain folded in, then three for the ceiling.
+  // The slot after the last tile holds the light outside the level
+  const outside = mapWidth * mapHeight;
+  const tileLight = getFlatLight((outside + 1) * 6);
+  for (let cell = 0; cell <= outside; cell++) {
+    const inside = cell < outside;
+    const gain = floorGain[floorLayer !== null && inside ? floorLayer[cell] : FLOOR_PLAIN];
+    for (let channel = 0; channel < 3; channel++) {
+      const amount = light !== null && inside ? light[cell * 3 + channel] : ambient;
+      tileLight[cell * 6 + channel] = amount * gain;
+      tileLight[cell * 6 + 3 + channel] = amount;
+    }
+  }
+
+  const fogColor = hexToRgb(COLORS.fog);
+  const firstFloorRow = Math.floor(halfHeight);
+
+  for (let y = firstFloorRow; y < screenHeight; y++) {
+    const ceilingY = screenHeight - 1 - y;
+    const rowDistance = halfHeight / (y + 0.5 - halfHeight);
+
+    // Fog and distance falloff are fixed per row, the light per tile
     const fogAmount = Math.min(1, (rowDistance / 15) ** 1.3);
-    const lightAmount = Math.max(0.1, 1 - fogAmount * 0.9) * lightFlicker;
-    
+    const lightAmount = Math.max(0.1, 1 - fogAmount * 0.9);
+    const shade = lightAmount * (1 - fogAmount);
+    const fogR = fogColor.r * fogAmount;
+    const fogG = fogColor.g * fogAmount;
+    const fogB = fogColor.b * fogAmount;
+    const skyRow = Math.min(SKY_HEIGHT - 1, Math.floor((ceilingY / halfHeight) * SKY_HEIGHT)) * SKY_WIDTH;
+
+    const floorRow = y * screenWidth;
+    const ceilingRow = ceilingY * screenWidth;
+
+    // Neighbouring pixels mostly land on the same tile, so its shading is
+    // only worked out again when the row crosses into another one
+    let currentCell = -1;
+    let floorType = FLOOR_PLAIN;
+    let ceilingType = CEILING_STONE;
+    let floorR = 0;
+    let floorG = 0;
+    let floorB = 0;
+    let ceilingR = 0;
+    let ceilingG = 0;
+    let ceilingB = 0;
+
     for (let x = 0; x < screenWidth; x++) {
-      const idx = (y * screenWidth + x) * 4;
-      
-      // Calculate world position for this pixel
-      const cameraX = (2 * x / screenWidth - 1);
-      const floorStepX = rowDistance * (cosAngle + cameraX * -sinAngle * 0.66);
-      const floorStepY = rowDistance * (sinAngle + cameraX * cosAngle * 0.66);
-      
-      const floorX = posX + floorStepX;
-      const floorY = posY + floorStepY;
-      
-      // Checkerboard pattern with noise
-      const tileX = Math.floor(floorX * 2);
-      const tileY = Math.floor(floorY * 2);
-      const checker = ((tileX + tileY) % 2) === 0;
-      
-      // Add procedural detail
-      const noise = Math.sin(floorX * 10) * Math.cos(floorY * 10) * 0.1;
-      const detail = checker ? 0.15 + noise : -0.1 + noise;
-      
-      let r, g, b;
-      
-      if (isFloor) {
-        // Floor gradient based on distance
-        const t = Math.min(1, rowDistance / 10);
-        if (t < 0.5) {
-          const t2 = t * 2;
-          r = floorNear.r + (floorMid.r - floorNear.r) * t2;
-          g = floorNear.g + (floorMid.g - floorNear.g) * t2;
-          b = floorNear.b + (floorMid.b - floorNear.b) * t2;
-        } else {
-          const t2 = (t - 0.5) * 2;
-          r = floorMid.r + (floorFar.r - floorMid.r) * t2;
-          g = floorMid.g + (floorFar.g - floorMid.g) * t2;
-          b = floorMid.b + (floorFar.b - floorMid.b) * t2;
-        }
-        // Add blood stain hints
-        r += detail * 30 + (checker ? 8 : 0);
-        g += detail * 10;
-        b += detail * 10;
-      } else {
-        // Ceiling gradient
-        const t = Math.min(1, rowDistance / 10);
-        if (t < 0.5) {
-          const t2 = t * 2;
-          r = ceilingNear.r + (ceilingMid.r - ceilingNear.r) * t2;
-          g = ceilingNear.g + (ceilingMid.g - ceilingNear.g) * t2;
-          b = ceilingNear.b + (ceilingMid.b - ceilingNear.b) * t2;
-        } else {
-          const t2 = (t - 0.5) * 2;
-          r = ceilingMid.r + (ceilingFar.r - ceilingMid.r) * t2;
-          g = ceilingMid.g + (ceilingFar.g - ceilingMid.g) * t2;
-          b = ceilingMid.b + (ceilingFar.b - ceilingMid.b) * t2;
-        }
-        // Add cobweb hints
-        r += detail * 15;
-        g += detail * 15;
-        b += detail * 25 + (checker ? 5 : 0);
+      // World position in texels; the high bits pick the tile, the low bits the texel
+      const texelX = ((posX + columnDirX[x] * rowDistance) * FLAT_TEXTURE_SIZE) | 0;
+      const texelY = ((posY + columnDirY[x] * rowDistance) * FLAT_TEXTURE_SIZE) | 0;
+      const tileX = texelX >> FLAT_TEXTURE_SHIFT;
+      const tileY = texelY >> FLAT_TEXTURE_SHIFT;
+      const cell = tileX >= 0 && tileX < mapWidth && tileY >= 0 && tileY < mapHeight ? tileY * mapWidth + tileX : outside;
+      if (cell !== currentCell) {
+        currentCell = cell;
+        const inside = cell < outside;
+        floorType = floorLayer !== null && inside ? floorLayer[cell] : FLOOR_PLAIN;
+        ceilingType = ceilingLayer !== null && inside ? ceilingLayer[cell] : CEILING_STONE;
+        floorR = shade * tileLight[cell * 6];
+        floorG = shade * tileLight[cell * 6 + 1];
+        floorB = shade * tileLight[cell * 6 + 2];
+        ceilingR = shade * tileLight[cell * 6 + 3];
+        ceilingG = shade * tileLight[cell * 6 + 4];
+        ceilingB = shade * tileLight[cell * 6 + 5];
       }
-      
-      // Apply lighting
-      r *= lightAmount;
-      g *= lightAmount;
-      b *= lightAmount;
-      
-      // Apply fog
-      r = r + (fogColor.r - r) * fogAmount;
-      g = g + (fogColor.g - g) * fogAmount;
-      b = b + (fogColor.b - b) * fogAmount;
-      
-      data[idx] = Math.min(255, Math.max(0, r));
-      data[idx + 1] = Math.min(255, Math.max(0, g));
-      data[idx + 2] = Math.min(255, Math.max(0, b));
-      data[idx + 3] = 255;
+      const u = texelX & FLAT_TEXTURE_MASK;
+      const texelRow = (texelY & FLAT_TEXTURE_MASK) << FLAT_TEXTURE_SHIFT;
+
+      const floorTexel = textures.floor[floorType][texelRow | ((u + floorShift[floorType]) & FLAT_TEXTURE_MASK)];
+      pixels[floorRow + x] = shadeTexel(floorTexel, floorR, floorG, floorB, fogR, fogG, fogB);
+
+      pixels[ceilingRow + x] = ceilingType === CEILING_SKY
+        ? textures.sky[skyRow + skyColumn[x]]
+        : shadeTexel(textures.ceiling[ceilingType][texelRow | u], ceilingR, ceilingG, ceilingB, fogR, fogG, fogB);
     }
   }
-  
-  ctx.putImageData(imageData, 0, 0);
 }
 
 /**
  * Render a single wall slice with enhanced texturing and lighting
+ * Samples the wall texture and folds lighting, fog, the fog tint and the
+ * side highlight into one multiply-add per pixel, darkening the ends of the
+ * slice for ambient occlusion
  * Requirements: 2.3
+ * @param light - Light on the wall face
  */
 export function renderWallSlice(
-  ctx: CanvasRenderingContext2D,
+  frame: Framebuffer,
   ray: Ray,
   screenX: number,
   wallHeight: number,
-  screenHeight: number,
-  maxDistance: number
+  maxDistance: number,
+  light: TileLight = FULL_LIGHT
 ): void {
+  const { width: screenWidth, height: screenHeight, pixels } = frame;
   const halfHeight = screenHeight / 2;
   
   // Calculate wall slice position
-  const wallTop = Math.max(0, halfHeight - wallHeight / 2);
+  const wallStart = halfHeight - wallHeight / 2;
+  const wallTop = Math.max(0, wallStart);
   const wallBottom = Math.min(screenHeight, halfHeight + wallHeight / 2);
   const actualHeight = wallBottom - wallTop;
   
   if (actualHeight <= 0) return;
   
   // Calculate texture U coordinate based on wall hit position
-  const texU = ray.side === 'vertical' 
+  // Sliding doors and push-walls shift their texture along with them
+  const slidU = (ray.side === 'vertical' 
     ? ray.wallHit.y % 1 
-    : ray.wallHit.x % 1;
-  
-  // Get base colors
-  const baseColor = ray.side === 'vertical' 
-    ? COLORS.wallsLight[ray.wallType % COLORS.wallsLight.length]
-    : COLORS.walls[ray.wallType % COLORS.walls.length];
-  const darkColor = COLORS.wallsDark[ray.wallType % COLORS.wallsDark.length];
-  
-  // Draw wall slice with vertical texture detail
-  const baseRgb = hexToRgb(baseColor);
-  const darkRgb = hexToRgb(darkColor);
-  const fogRgb = hexToRgb(COLORS.fog);
+    : ray.wallHit.x % 1) - (ray.textureOffset ?? 0);
+  const texU = ((slidU % 1) + 1) % 1;
+  const texture = getWallTexture(ray.wallType, ray.side);
+  const texColumn = Math.min(TEXTURE_SIZE - 1, Math.floor(texU * TEXTURE_SIZE));
   
   // Calculate lighting and fog
   const fogAmount = Math.min(1, (ray.distance / maxDistance) ** 1.5);
-  const lightIntensity = Math.max(0.15, 1 - (ray.distance / maxDistance) ** 1.2) * lightFlicker;
-  
-  // Draw textured wall column
-  for (let y = wallTop; y < wallBottom; y++) {
-    // Calculate texture V coordinate
-    const texV = (y - (halfHeight - wallHeight / 2)) / wallHeight;
-    
-    // Brick pattern
-    const brickHeight = 0.125;
-    const brickWidth = 0.25;
-    const row = Math.floor(texV / brickHeight);
-    const offset = (row % 2) * (brickWidth / 2);
-    const brickX = ((texU + offset) % brickWidth) / brickWidth;
-    const brickY = (texV % brickHeight) / brickHeight;
-    
-    // Mortar detection
-    const isMortar = brickX < 0.08 || brickY < 0.12;
-    
-    // Procedural noise
-    const noise = Math.sin(texU * 47 + texV * 31) * 0.15;
-    const noise2 = Math.cos(texU * 23 - texV * 17) * 0.1;
-    
-    // Calculate color
-    let r, g, b;
-    if (isMortar) {
-      r = darkRgb.r * 0.6;
-      g = darkRgb.g * 0.6;
-      b = darkRgb.b * 0.6;
-    } else {
-      const variation = 1 + noise + noise2;
-      r = baseRgb.r * variation;
-      g = baseRgb.g * variation;
-      b = baseRgb.b * variation;
-    }
-    
-    // Vertical gradient for depth
-    const vGradient = 0.85 + Math.sin(texV * Math.PI) * 0.15;
-    r *= vGradient;
-    g *= vGradient;
-    b *= vGradient;
-    
-    // Apply lighting
-    r *= lightIntensity;
-    g *= lightIntensity;
-    b *= lightIntensity;
-    
-    // Apply fog
-    r = r + (fogRgb.r - r) * fogAmount * 0.8;
-    g = g + (fogRgb.g - g) * fogAmount * 0.8;
-    b = b + (fogRgb.b - b) * fogAmount * 0.8;
-    
-    // Add purple fog tint
-    const fogTintRgb = hexToRgb(COLORS.fogTint);
-    r = r + (fogTintRgb.r - r) * fogAmount * 0.3;
-    g = g + (fogTintRgb.g - g) * fogAmount * 0.3;
-    b = b + (fogTintRgb.b - b) * fogAmount * 0.3;
-    
-    ctx.fillStyle = `rgb(${Math.min(255, Math.max(0, Math.round(r)))},${Math.min(255, Math.max(0, Math.round(g)))},${Math.min(255, Math.max(0, Math.round(b)))})`;
-    ctx.fillRect(screenX, y, 1, 1);
-  }
-  
-  // Add edge highlight for vertical walls
+  const lightIntensity = Math.max(0.15, 1 - (ray.distance / maxDistance) ** 1.2);
+  const fogRgb = hexToRgb(COLORS.fog);
+  const fogTintRgb = hexToRgb(COLORS.fogTint);
+  
+  // Fog blends 80% toward the fog color, then 30% toward the purple tint
+  const keepTint = 1 - fogAmount * 0.3;
+  const shade = lightIntensity * (1 - fogAmount * 0.8) * keepTint;
+  let shadeR = shade * light.r;
+  let shadeG = shade * light.g;
+  let shadeB = shade * light.b;
+  let addR = fogRgb.r * fogAmount * 0.8 * keepTint + fogTintRgb.r * fogAmount * 0.3;
+  let addG = fogRgb.g * fogAmount * 0.8 * keepTint + fogTintRgb.g * fogAmount * 0.3;
+  let addB = fogRgb.b * fogAmount * 0.8 * keepTint + fogTintRgb.b * fogAmount * 0.3;
+  
+  // Add edge highlight for vertical walls, as bright as the light on them
   if (ray.side === 'vertical') {
-    ctx.fillStyle = `rgba(255, 255, 255, ${0.03 * lightFlicker})`;
-    ctx.fillRect(screenX, wallTop, 1, actualHeight);
+    const highlight = 0.03;
+    shadeR *= 1 - highlight;
+    shadeG *= 1 - highlight;
+    shadeB *= 1 - highlight;
+    addR = addR * (1 - highlight) + 255 * highlight * Math.min(1, light.r);
+    addG = addG * (1 - highlight) + 255 * highlight * Math.min(1, light.g);
+    addB = addB * (1 - highlight) + 255 * highlight * Math.min(1, light.b);
   }
   
-  // Add ambient occlusion at top and bottom of walls
+  // Ambient occlusion fades in over the top and bottom of the slice
   const aoSize = Math.min(10, actualHeight * 0.15);
-  const aoGradientTop = ctx.createLinearGradient(0, wallTop, 0, wallTop + aoSize);
-  aoGradientTop.addColorStop(0, 'rgba(0, 0, 0, 0.4)');
-  aoGradientTop.addColorStop(1, 'rgba(0, 0, 0, 0)');
-  ctx.fillStyle = aoGradientTop;
-  ctx.fillRect(screenX, wallTop, 1, aoSize);
   
-  const aoGradientBottom = ctx.createLinearGradient(0, wallBottom - aoSize, 0, wallBottom);
-  aoGradientBottom.addColorStop(0, 'rgba(0, 0, 0, 0)');
-  aoGradientBottom.addColorStop(1, 'rgba(0, 0, 0, 0.4)');
-  ctx.fillStyle = aoGradientBottom;
-  ctx.fillRect(screenX, wallBottom - aoSize, 1, aoSize);
+  const firstRow = Math.round(wallTop);
+  const lastRow = Math.round(wallBottom);
+  const texStep = TEXTURE_SIZE / wallHeight;
+  let texPos = (firstRow + 0.5 - wallStart) * texStep;
+  let index = firstRow * screenWidth + screenX;
+  for (let y = firstRow; y < lastRow; y++, texPos += texStep, index += screenWidth) {
+    const texel = texture[Math.min(TEXTURE_SIZE - 1, texPos | 0) * TEXTURE_SIZE + texColumn];
+    const centerY = y + 0.5;
+    const fromTop = centerY - wallTop;
+    const fromBottom = wallBottom - centerY;
+    
+    if (fromTop >= aoSize && fromBottom >= aoSize) {
+      pixels[index] = shadeTexel(texel, shadeR, shadeG, shadeB, addR, addG, addB);
+      continue;
+    }
+    
+    let occlusion = 1;
+    if (fromTop < aoSize) {
+      occlusion *= 1 - 0.4 * (1 - fromTop / aoSize);
+    }
+    if (fromBottom < aoSize) {
+      occlusion *= 1 - 0.4 * (1 - fromBottom / aoSize);
+    }
+    pixels[index] = shadeTexel(
+      texel,
+      shadeR * occlusion,
+      shadeG * occlusion,
+      shadeB * occlusion,
+      addR * occlusion,
+      addG * occlusion,
+      addB * occlusion
+    );
+  }
 }
 
 /**
  * Render all walls from ray data
+ * Each wall face is lit by the light of the tile in front of it
  */
 export function renderWalls(
-  ctx: CanvasRenderingContext2D,
+  frame: Framebuffer,
   rays: Ray[],
   playerRotation: number,
-  config: RaycastConfig
+  config: RaycastConfig,
+  lightMap?: LightMap
 ): void {
   for (let x = 0; x < rays.length; x++) {
     const ray = rays[x];
@@ -546,13 +798,22 @@ export function renderWalls(
         ray.angle
       );
       
+      // Step back from the hit along the ray to land on the tile the face looks into
+      const light = lightMap
+        ? sampleLight(
+          lightMap,
+          ray.wallHit.x - Math.cos(ray.angle) * 0.01,
+          ray.wallHit.y - Math.sin(ray.angle) * 0.01
+        )
+        : FULL_LIGHT;
+      
       renderWallSlice(
-        ctx,
+        frame,
         ray,
         x,
         wallHeight,
-        config.screenHeight,
-        config.maxRenderDistance
+        config.maxRenderDistance,
+        light
       );
     }
   }
@@ -567,6 +828,8 @@ interface SpriteRenderData {
   distance: number;
   screenX: number;
   scale: number;
+  /** Side of the sprite facing the camera, see getViewDirection */
+  direction: number;
 }
 
 /**
@@ -582,20 +845,21 @@ function calculateSpriteRenderData(
   const dx = sprite.position.x - playerPosition.x;
   const dy = sprite.position.y - playerPosition.y;
   
-  // Transform sprite position to camera space
-  const cos = Math.cos(-playerRotation);
-  const sin = Math.sin(-playerRotation);
+  // Transform sprite position to camera space: transformY is the depth along
+  // the view direction, transformX the offset toward the right of the screen
+  const cos = Math.cos(playerRotation);
+  const sin = Math.sin(playerRotation);
   
-  const transformX = dx * cos - dy * sin;
-  const transformY = dx * sin + dy * cos;
+  const transformX = dy * cos - dx * sin;
+  const transformY = dx * cos + dy * sin;
   
   // Sprite is behind player - use smaller threshold for close sprites
   if (transformY <= 0.05) {
     return null;
   }
   
-  // Calculate screen X position
-  const screenX = (config.screenWidth / 2) * (1 + transformX / transformY);
+  // Place the sprite on the screen column whose ray points at it
+  const screenX = config.screenWidth * (0.5 + Math.atan2(transformX, transformY) / config.fov);
   
   // Calculate sprite size
   const spriteScale = config.screenHeight / Math.max(transformY, 0.1) * sprite.scale;
@@ -611,6 +875,7 @@ function calculateSpriteRenderData(
     distance: transformY,
     screenX,
     scale: spriteScale,
+    direction: sprite.rotation === undefined ? 0 : getViewDirection(sprite.rotation, sprite.position, playerPosition),
   };
 }
 
@@ -638,7 +903,7 @@ interface SpriteVisualData {
   glowIntensity: number;
   secondaryColor?: string;
   eyeColor?: string;
-  type: 'enemy' | 'item';
+  type: 'enemy' | 'item' | 'projectile' | 'exit';
 }
 
 /**
@@ -673,6 +938,12 @@ function getSpriteVisualData(spriteId: string): SpriteVisualData {
     item_health: { color: '#ff4444', glow: '#ff0000', glowIntensity: 0.8, type: 'item' },
     item_ammo: { color: '#ffaa33', glow: '#ff8800', glowIntensity: 0.6, type: 'item' },
     item_key: { color: '#ffff44', glow: '#ffff00', glowIntensity: 0.9, type: 'item' },
+    item_weapon: { color: '#88ccff', glow: '#44aaff', glowIntensity: 0.8, type: 'item' },
+    item_collectible: { color: '#66ffcc', glow: '#33ffaa', glowIntensity: 0.9, type: 'item' },
+    projectile_bone: { color: '#f0ead0', secondaryColor: '#c8c0a0', glow: '#ffeecc', glowIntensity: 0.4, type: 'projectile' },
+    projectile_launcher: { color: '#66ff66', secondaryColor: '#228822', glow: '#44ff44', glowIntensity: 0.9, type: 'projectile' },
+    exit_open: { color: '#44ff88', secondaryColor: '#4a4a5a', glow: '#44ff88', glowIntensity: 0.8, type: 'exit' },
+    exit_locked: { color: '#551111', secondaryColor: '#4a4a5a', glow: '#ff2222', glowIntensity: 0.4, type: 'exit' },
     default: { color: '#ff00ff', glow: '#ff00ff', glowIntensity: 0.5, type: 'item' },
   };
   
@@ -816,31 +1087,110 @@ function getEnemyPixelType(u: number, v: number, spriteId: string): number {
   return 0;
 }
 
+/**
+ * How an animation moves and tints a procedural sprite shape
+ * Offsets and height are fractions of the sprite's size; the shape keeps
+ * standing on the same floor line
+ */
+interface SpritePose {
+  offsetX: number;
+  offsetY: number;
+  height: number;
+  /** How far (0-1) colors blend toward flashRgb */
+  flash: number;
+  flashRgb: Rgb;
+  /** Light multiplier */
+  brightness: number;
+}
+
+const REST_POSE: SpritePose = { offsetX: 0, offsetY: 0, height: 1, flash: 0, flashRgb: { r: 0, g: 0, b: 0 }, brightness: 1 };
+
+/**
+ * Seconds per step of the procedural walk cycle, and per attack wind-up
+ */
+const WALK_STEP = 0.3;
+const ATTACK_WINDUP = 0.5;
+
+/**
+ * Get the pose of a procedural sprite partway through an animation
+ * Atlas frames carry their own animation and are drawn at rest
+ */
+function getSpritePose(animation: AnimationClipName | undefined, time: number): SpritePose {
+  switch (animation) {
+    case 'walk':
+      // Bob up on every step and sway from side to side
+      return {
+        ...REST_POSE,
+        offsetX: Math.sin((time / WALK_STEP) * Math.PI) * 0.02,
+        offsetY: -Math.abs(Math.sin((time / WALK_STEP) * Math.PI)) * 0.04,
+      };
+    case 'attack': {
+      // Crouch and redden while winding up, then spring back as the blow lands
+      const windUp = ((time / ATTACK_WINDUP) % 1) ** 2;
+      return { ...REST_POSE, height: 1 - windUp * 0.1, flash: windUp * 0.35, flashRgb: { r: 255, g: 40, b: 20 } };
+    }
+    case 'pain': {
+      // Flash white and jerk back and forth, fading over the flinch
+      const fade = Math.max(0, 1 - time / PAIN_DURATION);
+      return {
+        ...REST_POSE,
+        offsetX: (Math.floor(time * 30) % 2 === 0 ? 1 : -1) * 0.04 * fade,
+        flash: fade * 0.7,
+        flashRgb: { r: 255, g: 255, b: 255 },
+      };
+    }
+    case 'death': {
+      // Slump to the floor and darken; the last pose is the corpse
+      const progress = Math.min(1, time / DEATH_DURATION);
+      return { ...REST_POSE, height: 1 - progress * 0.8, brightness: 1 - progress * 0.45 };
+    }
+    default:
+      return REST_POSE;
+  }
+}
+
+/**
+ * Color of sprite floor shadows
+ */
+const SHADOW_RGB: Rgb = { r: 0, g: 0, b: 0 };
+
 /**
  * Render a single sprite with proper character shapes
  * Requirements: 3.3, 5.3
+ * @param light - Light on the tile the sprite stands on
  */
 export function renderSprite(
-  ctx: CanvasRenderingContext2D,
+  frame: Framebuffer,
   renderData: SpriteRenderData,
   rays: Ray[],
-  config: RaycastConfig
+  config: RaycastConfig,
+  light: TileLight = FULL_LIGHT
 ): void {
-  const { screenX, scale, sprite, distance } = renderData;
+  const { screenX, scale, sprite, distance, direction } = renderData;
+  const { width: screenWidth, pixels } = frame;
   
   // Cap the scale for very close sprites to prevent them from being too large
   const maxScale = config.screenHeight * 2;
   const cappedScale = Math.min(scale, maxScale);
   
-  const spriteWidth = cappedScale;
-  const spriteHeight = cappedScale;
+  // Atlas frames replace the procedural shape and keep their own aspect ratio
+  const atlasFrame = spriteAtlas
+    ? getAtlasFrame(spriteAtlas, sprite.spriteId, sprite.animation ?? 'idle', sprite.animationTime ?? renderClock, direction)
+    : null;
+  
+  const pose = atlasFrame ? REST_POSE : getSpritePose(sprite.animation, sprite.animationTime ?? renderClock);
   
-  const drawStartX = Math.floor(screenX - spriteWidth / 2);
-  const drawEndX = Math.floor(screenX + spriteWidth / 2);
+  const spriteWidth = atlasFrame ? cappedScale * (atlasFrame.width / atlasFrame.height) : cappedScale;
+  const spriteHeight = cappedScale * pose.height;
+  
+  const spriteX = screenX + pose.offsetX * cappedScale;
+  const drawStartX = Math.floor(spriteX - spriteWidth / 2);
+  const drawEndX = Math.floor(spriteX + spriteWidth / 2);
   
   const halfHeight = config.screenHeight / 2;
-  const drawStartY = Math.floor(halfHeight - spriteHeight / 2);
-  const drawEndY = Math.floor(halfHeight + spriteHeight / 2);
+  const floorY = halfHeight + cappedScale / 2 + pose.offsetY * cappedScale;
+  const drawStartY = Math.floor(floorY - spriteHeight);
+  const drawEndY = Math.floor(floorY);
   
   // Clamp to screen bounds
   const clampedStartX = Math.max(0, drawStartX);
@@ -859,29 +1209,30 @@ export function renderSprite(
   // Calculate lighting and fog - reduce fog for close sprites so they stay visible
   const effectiveDistance = Math.max(distance, 0.5); // Minimum distance for calculations
   const fogAmount = Math.min(0.7, (effectiveDistance / config.maxRenderDistance) ** 1.5);
-  const lightIntensity = Math.max(0.3, 1 - (effectiveDistance / config.maxRenderDistance) ** 1.2) * lightFlicker;
-  
-  // Draw glow effect first (behind sprite) - only for items or ghosts
-  if (visualData.glowIntensity > 0.3 && distance < config.maxRenderDistance * 0.7 && distance > 0.5) {
-    const glowSize = Math.min(spriteWidth * 1.5, config.screenHeight);
+  const lightIntensity =
+    Math.max(0.3, 1 - (effectiveDistance / config.maxRenderDistance) ** 1.2) * pose.brightness;
+  
+  // Draw glow effect first (behind sprite) - only for items or ghosts, and not corpses
+  // The glow fades linearly from the sprite's center to the edge of its radius
+  const glows = visualData.glowIntensity > 0.3 && sprite.animation !== 'death';
+  if (glows && distance < config.maxRenderDistance * 0.7 && distance > 0.5) {
+    const glowRadius = Math.min(spriteWidth * 1.5, config.screenHeight) / 2;
     const glowAlpha = visualData.glowIntensity * (1 - fogAmount) * 0.3 * lightFlicker;
-    const gradient = ctx.createRadialGradient(
-      screenX, halfHeight, 0,
-      screenX, halfHeight, glowSize / 2
-    );
-    gradient.addColorStop(0, `rgba(${glowRgb.r}, ${glowRgb.g}, ${glowRgb.b}, ${glowAlpha})`);
-    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(
-      Math.max(0, screenX - glowSize / 2), 
-      Math.max(0, halfHeight - glowSize / 2), 
-      Math.min(glowSize, config.screenWidth), 
-      Math.min(glowSize, config.screenHeight)
-    );
+    const glowEndX = Math.min(config.screenWidth, Math.ceil(screenX + glowRadius));
+    const glowEndY = Math.min(config.screenHeight, Math.ceil(halfHeight + glowRadius));
+    for (let y = Math.max(0, Math.floor(halfHeight - glowRadius)); y < glowEndY; y++) {
+      for (let x = Math.max(0, Math.floor(screenX - glowRadius)); x < glowEndX; x++) {
+        const glowDistance = Math.hypot(x + 0.5 - screenX, y + 0.5 - halfHeight);
+        if (glowDistance < glowRadius) {
+          blendPixel(pixels, y * screenWidth + x, glowRgb, glowAlpha * (1 - glowDistance / glowRadius));
+        }
+      }
+    }
   }
   
   // For very close sprites, use a simpler depth test
   const isVeryClose = distance < 1.5;
+  const actualFog = isVeryClose ? fogAmount * 0.3 : fogAmount * 0.7;
   
   // Draw sprite column by column (for depth testing against walls)
   for (let x = clampedStartX; x < clampedEndX; x++) {
@@ -898,6 +1249,25 @@ export function renderSprite(
     // Calculate horizontal position in sprite (0-1)
     const spriteU = (x - drawStartX) / spriteWidth;
     
+    if (atlasFrame && spriteAtlas) {
+      renderAtlasColumn(
+        frame,
+        spriteAtlas,
+        atlasFrame,
+        x,
+        spriteU,
+        clampedStartY,
+        clampedEndY,
+        drawStartY,
+        spriteHeight,
+        lightIntensity * (1 - actualFog),
+        light,
+        fogRgb,
+        actualFog
+      );
+      continue;
+    }
+    
     // Draw sprite column with vertical shading
     for (let y = clampedStartY; y < clampedEndY; y++) {
       const spriteV = (y - drawStartY) / spriteHeight;
@@ -905,7 +1275,11 @@ export function renderSprite(
       // Get pixel type from shape function
       const pixelType = visualData.type === 'enemy' 
         ? getEnemyPixelType(spriteU, spriteV, sprite.spriteId)
-        : getItemPixelType(spriteU, spriteV);
+        : visualData.type === 'projectile'
+          ? getProjectilePixelType(spriteU, spriteV)
+          : visualData.type === 'exit'
+            ? getExitPixelType(spriteU, spriteV, sprite.spriteId)
+            : getItemPixelType(spriteU, spriteV);
       
       if (pixelType === 0) continue; // Empty pixel
       
@@ -940,6 +1314,11 @@ export function renderSprite(
           b = baseRgb.b;
       }
       
+      // Flash toward the pose's tint
+      r += (pose.flashRgb.r - r) * pose.flash;
+      g += (pose.flashRgb.g - g) * pose.flash;
+      b += (pose.flashRgb.b - b) * pose.flash;
+      
       // Add shading based on position
       const vShade = 0.75 + Math.sin(spriteV * Math.PI) * 0.25;
       const hShade = 0.85 + (0.5 - Math.abs(spriteU - 0.5)) * 0.3;
@@ -949,18 +1328,16 @@ export function renderSprite(
       b *= vShade * hShade;
       
       // Apply lighting
-      r *= lightIntensity;
-      g *= lightIntensity;
-      b *= lightIntensity;
+      r *= lightIntensity * light.r;
+      g *= lightIntensity * light.g;
+      b *= lightIntensity * light.b;
       
       // Apply fog (less for close sprites)
-      const actualFog = isVeryClose ? fogAmount * 0.3 : fogAmount * 0.7;
       r = r + (fogRgb.r - r) * actualFog;
       g = g + (fogRgb.g - g) * actualFog;
       b = b + (fogRgb.b - b) * actualFog;
       
-      ctx.fillStyle = `rgb(${Math.min(255, Math.max(0, Math.round(r)))},${Math.min(255, Math.max(0, Math.round(g)))},${Math.min(255, Math.max(0, Math.round(b)))})`;
-      ctx.fillRect(x, y, 1, 1);
+      pixels[y * screenWidth + x] = packRgb({ r, g, b });
     }
   }
   
@@ -972,14 +1349,69 @@ export function renderSprite(
     const shadowAlpha = 0.25 * (1 - fogAmount);
     
     if (shadowY > 0 && shadowY < config.screenHeight) {
-      ctx.fillStyle = `rgba(0, 0, 0, ${shadowAlpha})`;
-      ctx.beginPath();
-      ctx.ellipse(screenX, shadowY, shadowWidth / 2, shadowHeight / 2, 0, 0, Math.PI * 2);
-      ctx.fill();
+      const radiusX = shadowWidth / 2;
+      const radiusY = shadowHeight / 2;
+      const shadowEndX = Math.min(config.screenWidth, Math.ceil(screenX + radiusX));
+      const shadowEndY = Math.min(config.screenHeight, Math.ceil(shadowY + radiusY));
+      for (let y = Math.max(0, Math.floor(shadowY - radiusY)); y < shadowEndY; y++) {
+        for (let x = Math.max(0, Math.floor(screenX - radiusX)); x < shadowEndX; x++) {
+          // Same depth test as the sprite's columns
+          if (x < rays.length && rays[x].distance < distance * 0.9) {
+            continue;
+          }
+          const ex = (x + 0.5 - screenX) / radiusX;
+          const ey = (y + 0.5 - shadowY) / radiusY;
+          if (ex * ex + ey * ey <= 1) {
+            blendPixel(pixels, y * screenWidth + x, SHADOW_RGB, shadowAlpha);
+          }
+        }
+      }
     }
   }
 }
 
+/**
+ * Draw one screen column of a sprite atlas frame, skipping transparent texels
+ * @param u - Horizontal position in the frame (0-1)
+ * @param shade - Light multiplier, already reduced by the fog amount
+ * @param light - Light on the sprite's tile
+ */
+function renderAtlasColumn(
+  frame: Framebuffer,
+  atlas: SpriteAtlas,
+  rect: AtlasRect,
+  x: number,
+  u: number,
+  startY: number,
+  endY: number,
+  drawStartY: number,
+  spriteHeight: number,
+  shade: number,
+  light: TileLight,
+  fogRgb: Rgb,
+  fogAmount: number
+): void {
+  const { width: screenWidth, pixels } = frame;
+  const { width: sheetWidth, pixels: sheet } = atlas.sheet;
+  const texelX = rect.x + Math.min(rect.width - 1, Math.floor(u * rect.width));
+  const texStep = rect.height / spriteHeight;
+  const fogR = fogRgb.r * fogAmount;
+  const fogG = fogRgb.g * fogAmount;
+  const fogB = fogRgb.b * fogAmount;
+  const shadeR = shade * light.r;
+  const shadeG = shade * light.g;
+  const shadeB = shade * light.b;
+  
+  let texPos = (startY + 0.5 - drawStartY) * texStep;
+  for (let y = startY; y < endY; y++, texPos += texStep) {
+    const texelY = rect.y + Math.min(rect.height - 1, texPos | 0);
+    const texel = sheet[texelY * sheetWidth + texelX];
+    // Texels less than half opaque are holes in the sprite
+    if (texel >>> 24 < 128) continue;
+    pixels[y * screenWidth + x] = shadeTexel(texel, shadeR, shadeG, shadeB, fogR, fogG, fogB);
+  }
+}
+
 /**
  * Get item pixel type (simple glowing orb)
  */
@@ -993,17 +1425,51 @@ function getItemPixelType(u: number, v: number): number {
   return 0;
 }
 
+/**
+ * Check if a pixel is part of the exit archway
+ * Returns: 0 = empty, 1 = portal, 2 = stone frame or bars
+ */
+function getExitPixelType(u: number, v: number, spriteId: string): number {
+  const x = (u - 0.5) * 2;
+  const y = (v - 0.5) * 2;
+
+  // Straight sides below the shoulder, a round top above it
+  const shoulder = -0.2;
+  const inArch = (halfWidth: number): boolean =>
+    y >= shoulder ? Math.abs(x) < halfWidth : x * x + (y - shoulder) ** 2 < halfWidth * halfWidth;
+
+  if (y > 1 || !inArch(0.7)) return 0;
+  if (!inArch(0.5)) return 2; // Frame
+  // Locked exits are barred shut
+  if (spriteId === 'exit_locked' && Math.abs(((x + 1) * 4) % 1 - 0.5) < 0.12) return 2;
+  return 1;
+}
+
+/**
+ * Check if a pixel is part of a projectile (a small spinning shard)
+ */
+function getProjectilePixelType(u: number, v: number): number {
+  const x = (u - 0.5) * 2;
+  const y = (v - 0.5) * 2;
+  const dist = Math.abs(x) + Math.abs(y);
+
+  if (dist < 0.3) return 1; // Core
+  if (dist < 0.5) return 2; // Edge
+  return 0;
+}
+
 /**
  * Render all sprites
  * Requirements: 3.3, 5.3
  */
 export function renderSprites(
-  ctx: CanvasRenderingContext2D,
+  frame: Framebuffer,
   sprites: Sprite[],
   rays: Ray[],
   playerPosition: Vector2,
   playerRotation: number,
-  config: RaycastConfig
+  config: RaycastConfig,
+  lightMap?: LightMap
 ): void {
   // Sort sprites by distance (farthest first)
   const sortedSprites = sortSpritesByDistance(sprites, playerPosition);
@@ -1026,22 +1492,26 @@ export function renderSprites(
   
   // Render sprites (farthest first for proper overlap)
   for (const renderData of renderDataList) {
-    renderSprite(ctx, renderData, rays, config);
+    const { position } = renderData.sprite;
+    const light = lightMap ? sampleLight(lightMap, position.x, position.y) : FULL_LIGHT;
+    renderSprite(frame, renderData, rays, config, light);
   }
 }
 
 
 /**
  * Convert enemies to sprites for rendering
+ * Dead enemies stay on the floor as corpses once their death sequence ends
  */
 export function enemiesToSprites(enemies: Enemy[]): Sprite[] {
-  return enemies
-    .filter(e => e.state !== 'dead')
-    .map(enemy => ({
-      position: enemy.position,
-      spriteId: enemy.spriteId,
-      scale: 1.0,
-    }));
+  return enemies.map(enemy => ({
+    position: enemy.position,
+    spriteId: enemy.spriteId,
+    scale: 1.0,
+    rotation: enemy.rotation,
+    animation: enemy.animation,
+    animationTime: enemy.animationTime,
+  }));
 }
 
 /**
@@ -1057,11 +1527,61 @@ export function itemsToSprites(items: GameItem[]): Sprite[] {
     }));
 }
 
+/**
+ * Convert projectiles in flight to sprites for rendering
+ */
+export function projectilesToSprites(projectiles: Projectile[]): Sprite[] {
+  return projectiles.map(projectile => ({
+    position: projectile.position,
+    spriteId: projectile.spriteId,
+    scale: 0.3,
+  }));
+}
+
+/**
+ * Convert the level exit to a sprite, lit green when open and barred red when locked
+ */
+export function exitToSprite(levelMap: LevelMap, open: boolean): Sprite {
+  return {
+    position: levelMap.exitPoint,
+    spriteId: open ? 'exit_open' : 'exit_locked',
+    scale: 1.0,
+  };
+}
+
+/**
+ * Seconds a muzzle flash lights the room after a shot
+ */
+const MUZZLE_FLASH_DURATION = 0.06;
+
+/**
+ * Muzzle flash light, the color of the flash drawn on the weapon
+ */
+const MUZZLE_FLASH_LIGHT = { color: '#ffaa00', radius: 4, intensity: 1.2 };
+
+/**
+ * Get the lights of this frame: the player's muzzle flash just after a shot
+ * and a light around each glowing projectile in the glow's color
+ */
+export function getDynamicLights(player: Player, projectiles: Projectile[]): PointLight[] {
+  const lights: PointLight[] = [];
+  if (getFireInterval(player.currentWeapon) - player.weaponCooldown < MUZZLE_FLASH_DURATION) {
+    lights.push({ position: player.position, ...MUZZLE_FLASH_LIGHT });
+  }
+  for (const projectile of projectiles) {
+    const { glow, glowIntensity } = getSpriteVisualData(projectile.spriteId);
+    if (glowIntensity > 0.3) {
+      lights.push({ position: projectile.position, color: glow, radius: glowIntensity * 3, intensity: glowIntensity });
+    }
+  }
+  return lights;
+}
+
 /**
  * Apply post-processing effects (vignette, scanlines, color grading)
  */
 function applyPostProcessing(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   screenWidth: number,
   screenHeight: number
 ): void {
@@ -1089,10 +1609,10 @@ function applyPostProcessing(
   ctx.globalCompositeOperation = 'source-over';
   
   // Add subtle noise for film grain effect
-  ctx.fillStyle = `rgba(255, 255, 255, ${0.01 + Math.random() * 0.01})`;
+  ctx.fillStyle = `rgba(255, 255, 255, ${0.01 + cosmeticRandom() * 0.01})`;
   for (let i = 0; i < 50; i++) {
-    const x = Math.random() * screenWidth;
-    const y = Math.random() * screenHeight;
+    const x = cosmeticRandom() * screenWidth;
+    const y = cosmeticRandom() * screenHeight;
     ctx.fillRect(x, y, 1, 1);
   }
 }
@@ -1103,21 +1623,21 @@ function applyPostProcessing(
 let particles: Array<{ x: number; y: number; vx: number; vy: number; life: number; size: number; color: string }> = [];
 
 function updateAndRenderParticles(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   screenWidth: number,
   screenHeight: number,
   deltaTime: number = 0.016
 ): void {
   // Spawn new particles occasionally
-  if (Math.random() < 0.1 && particles.length < 30) {
+  if (cosmeticRandom() < 0.1 && particles.length < 30) {
     particles.push({
-      x: Math.random() * screenWidth,
+      x: cosmeticRandom() * screenWidth,
       y: screenHeight + 10,
-      vx: (Math.random() - 0.5) * 20,
-      vy: -20 - Math.random() * 30,
-      life: 2 + Math.random() * 3,
-      size: 1 + Math.random() * 2,
-      color: Math.random() > 0.5 ? COLORS.torchOrange : COLORS.torchYellow,
+      vx: (cosmeticRandom() - 0.5) * 20,
+      vy: -20 - cosmeticRandom() * 30,
+      life: 2 + cosmeticRandom() * 3,
+      size: 1 + cosmeticRandom() * 2,
+      color: cosmeticRandom() > 0.5 ? COLORS.torchOrange : COLORS.torchYellow,
     });
   }
   
@@ -1145,29 +1665,39 @@ function updateAndRenderParticles(
  * Main render function - renders complete frame with enhanced graphics
  */
 export function render(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   player: Player,
   levelMap: LevelMap,
   enemies: Enemy[],
   items: GameItem[],
   raycastRenderer: RaycastRenderer,
-  deltaTime: number = 0.016
+  deltaTime: number = 0.016,
+  projectiles: Projectile[] = []
 ): void {
   const config = raycastRenderer.getConfig();
   
-  // Update lighting effects
+  // Update lighting effects and the sprite animation clock
   updateLighting(deltaTime);
+  renderClock += deltaTime;
   
-  // Generate textures if needed
-  generateWallTextures(ctx);
+  // Flicker the level's baked lights and add this frame's muzzle flash and projectiles
+  const lightMap = composeLightMap(
+    getBakedLighting(levelMap),
+    renderClock,
+    getDynamicLights(player, projectiles)
+  );
+  
+  // The 3D view is drawn into the framebuffer and put on the canvas once
+  const frame = getFramebuffer(ctx, config.screenWidth, config.screenHeight);
   
   // Render floor and ceiling with perspective texturing
   renderFloorAndCeiling(
-    ctx, 
-    config.screenWidth, 
-    config.screenHeight,
+    frame,
     player.position,
-    player.rotation
+    player.rotation,
+    levelMap,
+    config.fov,
+    lightMap
   );
   
   // Cast all rays
@@ -1178,37 +1708,64 @@ export function render(
   );
   
   // Render walls with enhanced texturing
-  renderWalls(ctx, rays, player.rotation, config);
+  renderWalls(frame, rays, player.rotation, config, lightMap);
   
   // Collect all sprites
   const sprites: Sprite[] = [
+    exitToSprite(levelMap, isExitOpen(levelMap, { player, enemies, items })),
     ...enemiesToSprites(enemies),
     ...itemsToSprites(items),
+    ...projectilesToSprites(projectiles),
   ];
   
   // Render sprites with enhanced effects
   renderSprites(
-    ctx,
+    frame,
     sprites,
     rays,
     player.position,
     player.rotation,
-    config
+    config,
+    lightMap
   );
   
-  // Render atmospheric particles
+  // Present the frame in one call; particles and post-processing draw over it
+  ctx.putImageData(frame.imageData, 0, 0);
+  
+  // Add atmospheric particles
   updateAndRenderParticles(ctx, config.screenWidth, config.screenHeight, deltaTime);
   
   // Apply post-processing effects
   applyPostProcessing(ctx, config.screenWidth, config.screenHeight);
 }
 
+/**
+ * Something that draws game frames, on this thread or in a render worker
+ */
+export interface FrameRenderer {
+  /** Reseed cosmetic effects from a session seed */
+  setSeed(seed: number): void;
+  /** Update renderer configuration */
+  setConfig(config: Partial<RaycastConfig>): void;
+  /** Set the sprite atlas sprites are drawn from, or null for the procedural shapes */
+  setSpriteAtlas(atlas: SpriteAtlas | null): void;
+  /** Render a complete frame */
+  render(
+    player: Player,
+    levelMap: LevelMap,
+    enemies?: Enemy[],
+    items?: GameItem[],
+    deltaTime?: number,
+    projectiles?: Projectile[]
+  ): void;
+}
+
 /**
  * GameRenderer class for managing rendering state
  */
-export class GameRenderer {
+export class GameRenderer implements FrameRenderer {
   private raycastRenderer: RaycastRenderer;
-  private ctx: CanvasRenderingContext2D | null = null;
+  private ctx: RenderContext | null = null;
 
   constructor(config: Partial<RaycastConfig> = {}) {
     this.raycastRenderer = new RaycastRenderer(config);
@@ -1217,10 +1774,24 @@ export class GameRenderer {
   /**
    * Set the canvas context
    */
-  setContext(ctx: CanvasRenderingContext2D): void {
+  setContext(ctx: RenderContext): void {
     this.ctx = ctx;
   }
 
+  /**
+   * Reseed cosmetic effects from a session seed
+   */
+  setSeed(seed: number): void {
+    seedCosmeticRandom(seed);
+  }
+
+  /**
+   * Set the sprite atlas sprites are drawn from
+   */
+  setSpriteAtlas(atlas: SpriteAtlas | null): void {
+    setSpriteAtlas(atlas);
+  }
+
   /**
    * Get the raycast renderer
    */
@@ -1243,7 +1814,8 @@ export class GameRenderer {
     levelMap: LevelMap,
     enemies: Enemy[] = [],
     items: GameItem[] = [],
-    deltaTime: number = 0.016
+    deltaTime: number = 0.016,
+    projectiles: Projectile[] = []
   ): void {
     if (!this.ctx) {
       console.warn('GameRenderer: No canvas context set');
@@ -1257,7 +1829,8 @@ export class GameRenderer {
       enemies,
       items,
       this.raycastRenderer,
-      deltaTime
+      deltaTime,
+      projectiles
     );
   }
 }
@@ -0,0 +1,274 @@
+/**
+ * Sprite atlas module for FrankenKiro
+ * Loads PNG sprite sheets described by a JSON atlas, and picks the frame to
+ * draw for a sprite from its animation clip, clip time and view direction
+ * Requirements: 3.3, 5.3
+ */
+
+import { Vector2 } from './types';
+
+/**
+ * Animation clips a sprite can have
+ * Sprites without a clip of the name asked for play their idle clip
+ */
+export const ANIMATION_CLIPS = ['idle', 'walk', 'attack', 'pain', 'death'] as const;
+
+/**
+ * Name of an animation clip
+ */
+export type AnimationClipName = (typeof ANIMATION_CLIPS)[number];
+
+/**
+ * Number of view directions of a rotating sprite, one every 45 degrees
+ */
+export const VIEW_DIRECTIONS = 8;
+
+/**
+ * Rectangle of a sprite sheet holding one frame
+ */
+export interface AtlasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A sequence of frames played at a fixed rate
+ */
+export interface AnimationClip {
+  /** Seconds each frame is shown */
+  frameDuration: number;
+  /** Start over after the last frame; otherwise the last frame is held */
+  loop: boolean;
+  /**
+   * Frame names for each step of the clip: either one name, drawn from every
+   * side, or one per view direction starting from the front
+   */
+  frames: string[][];
+}
+
+/**
+ * JSON atlas file describing a sprite sheet
+ */
+export interface SpriteAtlasFile {
+  /** Sprite sheet image, relative to the atlas file */
+  image: string;
+  /** Named frame rectangles of the sprite sheet */
+  frames: Record<string, AtlasRect>;
+  /** Animation clips of each sprite id */
+  sprites: Record<string, Partial<Record<AnimationClipName, AnimationClip>>>;
+}
+
+/**
+ * Decoded sprite sheet pixels, packed like framebuffer pixels
+ */
+export interface SpriteSheet {
+  width: number;
+  height: number;
+  pixels: Uint32Array;
+}
+
+/**
+ * A validated atlas together with its decoded sprite sheet
+ */
+export interface SpriteAtlas extends SpriteAtlasFile {
+  sheet: SpriteSheet;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an animation clip
+ * @param path - Where the clip is in the atlas, used in error messages
+ * @param frameNames - Names of the frames the atlas defines
+ */
+function validateClip(path: string, clip: unknown, frameNames: Set<string>): string[] {
+  if (!isRecord(clip)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (typeof clip.frameDuration !== 'number' || !(clip.frameDuration > 0)) {
+    errors.push(`${path}.frameDuration must be a positive number`);
+  }
+  if (typeof clip.loop !== 'boolean') {
+    errors.push(`${path}.loop must be true or false`);
+  }
+  if (!Array.isArray(clip.frames) || clip.frames.length === 0) {
+    return [...errors, `${path}.frames must be a non-empty array`];
+  }
+
+  clip.frames.forEach((step: unknown, index) => {
+    if (!Array.isArray(step) || (step.length !== 1 && step.length !== VIEW_DIRECTIONS)) {
+      errors.push(`${path}.frames[${index}] must list 1 or ${VIEW_DIRECTIONS} frame names`);
+      return;
+    }
+    step.forEach((name: unknown) => {
+      if (typeof name !== 'string' || !frameNames.has(name)) {
+        errors.push(`${path}.frames[${index}] uses unknown frame ${JSON.stringify(name)}`);
+      }
+    });
+  });
+  return errors;
+}
+
+/**
+ * Validate the shape of a sprite atlas file
+ * @param data - Parsed atlas JSON
+ * @returns Error messages, empty when the atlas is valid
+ */
+export function validateSpriteAtlas(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ['Sprite atlas must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof data.image !== 'string' || data.image === '') {
+    errors.push('Sprite atlas image must be a file name');
+  }
+  if (!isRecord(data.frames)) {
+    return [...errors, 'Sprite atlas frames must be an object'];
+  }
+  if (!isRecord(data.sprites)) {
+    return [...errors, 'Sprite atlas sprites must be an object'];
+  }
+
+  for (const [name, rect] of Object.entries(data.frames)) {
+    const r = (isRecord(rect) ? rect : {}) as Record<string, unknown>;
+    const valid =
+      [r.x, r.y].every((value) => Number.isInteger(value) && (value as number) >= 0) &&
+      [r.width, r.height].every((value) => Number.isInteger(value) && (value as number) > 0);
+    if (!valid) {
+      errors.push(`frames.${name} must have whole-pixel x, y, width and height`);
+    }
+  }
+
+  const frameNames = new Set(Object.keys(data.frames));
+  for (const [spriteId, clips] of Object.entries(data.sprites)) {
+    if (!isRecord(clips)) {
+      errors.push(`sprites.${spriteId} must be an object`);
+      continue;
+    }
+    for (const [clipName, clip] of Object.entries(clips)) {
+      if (!(ANIMATION_CLIPS as readonly string[]).includes(clipName)) {
+        errors.push(`sprites.${spriteId} has unknown clip "${clipName}"`);
+        continue;
+      }
+      errors.push(...validateClip(`sprites.${spriteId}.${clipName}`, clip, frameNames));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Create a sprite atlas from atlas data and its decoded sprite sheet
+ * Throws an error if the atlas is invalid or a frame lies outside the sheet
+ */
+export function createSpriteAtlas(data: unknown, sheet: SpriteSheet): SpriteAtlas {
+  const errors = validateSpriteAtlas(data);
+  if (errors.length === 0) {
+    for (const [name, rect] of Object.entries((data as SpriteAtlasFile).frames)) {
+      if (rect.x + rect.width > sheet.width || rect.y + rect.height > sheet.height) {
+        errors.push(`frames.${name} lies outside the ${sheet.width}x${sheet.height} sprite sheet`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid sprite atlas: ${errors.join(', ')}`);
+  }
+  return { ...(data as SpriteAtlasFile), sheet };
+}
+
+/**
+ * Work out which side of a sprite the viewer sees
+ * @param rotation - Direction the sprite faces, in radians
+ * @param position - Sprite position
+ * @param viewer - Camera position
+ * @returns View direction from 0 (seen from the front) to 7, counting in the
+ * direction of increasing angle
+ */
+export function getViewDirection(rotation: number, position: Vector2, viewer: Vector2): number {
+  const toViewer = Math.atan2(viewer.y - position.y, viewer.x - position.x);
+  const turns = (toViewer - rotation) / (Math.PI * 2);
+  const direction = Math.round((turns - Math.floor(turns)) * VIEW_DIRECTIONS);
+  return direction % VIEW_DIRECTIONS;
+}
+
+/**
+ * Get the frame name of a clip at a point in its playback
+ * @param time - Seconds since the clip started
+ * @param direction - View direction from getViewDirection
+ */
+export function getClipFrame(clip: AnimationClip, time: number, direction: number): string {
+  const step = Math.max(0, Math.floor(time / clip.frameDuration));
+  const frames = clip.frames[clip.loop ? step % clip.frames.length : Math.min(step, clip.frames.length - 1)];
+  return frames.length === VIEW_DIRECTIONS ? frames[direction] : frames[0];
+}
+
+/**
+ * Find the sheet rectangle to draw for a sprite
+ * @returns The frame, or null when the atlas has no clip for the sprite
+ */
+export function getAtlasFrame(
+  atlas: SpriteAtlas,
+  spriteId: string,
+  clipName: AnimationClipName,
+  time: number,
+  direction: number
+): AtlasRect | null {
+  const clips = atlas.sprites[spriteId];
+  const clip = clips?.[clipName] ?? clips?.idle;
+  return clip ? atlas.frames[getClipFrame(clip, time, direction)] : null;
+}
+
+/**
+ * Decode a PNG sprite sheet into packed pixels
+ * Works on the main thread and in the render worker
+ */
+async function decodeSpriteSheet(blob: Blob): Promise<SpriteSheet> {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Failed to get a 2D context to decode the sprite sheet');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { width, height, pixels: new Uint32Array(data.buffer) };
+}
+
+/**
+ * Load a sprite atlas and its sprite sheet
+ * Throws an error if either file cannot be fetched or the atlas is invalid
+ * @param url - URL of the JSON atlas file
+ */
+export async function loadSpriteAtlas(url: string): Promise<SpriteAtlas> {
+  const atlasUrl = new URL(url, globalThis.location?.href);
+  const atlasResponse = await fetch(atlasUrl);
+  if (!atlasResponse.ok) {
+    throw new Error(`Failed to load sprite atlas ${url}: ${atlasResponse.status}`);
+  }
+  const data: unknown = await atlasResponse.json();
+  const errors = validateSpriteAtlas(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid sprite atlas: ${errors.join(', ')}`);
+  }
+
+  const { image } = data as SpriteAtlasFile;
+  const imageResponse = await fetch(new URL(image, atlasUrl));
+  if (!imageResponse.ok) {
+    throw new Error(`Failed to load sprite sheet ${image}: ${imageResponse.status}`);
+  }
+  return createSpriteAtlas(data, await decodeSpriteSheet(await imageResponse.blob()));
+}
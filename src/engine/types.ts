@@ -28,6 +28,8 @@ export interface Ray {
   wallHit: Vector2;
   wallType: number;
   side: 'horizontal' | 'vertical';
+  /** Texture shift for sliding doors (how far the door panel has opened) */
+  textureOffset?: number;
 }
 
 /**
@@ -39,6 +41,23 @@ export interface RaycastHit {
   normal: Vector2;
 }
 
+/**
+ * 2D context the renderer draws into: a page canvas, or an OffscreenCanvas
+ * when rendering runs in a worker
+ */
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Pixels of a frame drawn by the software renderer
+ * pixels is a Uint32 view of imageData: one little-endian RGBA value per pixel
+ */
+export interface Framebuffer {
+  width: number;
+  height: number;
+  imageData: ImageData;
+  pixels: Uint32Array;
+}
+
 /**
  * Configuration for the raycasting renderer
  */
@@ -109,3 +109,14 @@ export function clamp(v: Vector2, min: Vector2, max: Vector2): Vector2 {
     y: Math.max(min.y, Math.min(max.y, v.y)),
   };
 }
+
+/**
+ * Linearly interpolate between two vectors
+ * @param t - 0 returns a, 1 returns b
+ */
+export function lerp(a: Vector2, b: Vector2, t: number): Vector2 {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  };
+}
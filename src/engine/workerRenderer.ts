@@ -0,0 +1,171 @@
+/**
+ * Worker renderer for FrankenKiro
+ * Runs raycasting and drawing in a Web Worker that owns the game canvas as an
+ * OffscreenCanvas, so React work on the main thread does not delay frames.
+ * The main thread posts a snapshot of what to draw each frame.
+ * Requirements: 2.4, 10.4
+ */
+
+import { RaycastConfig } from './types';
+import { FrameRenderer, seedCosmeticRandom } from './renderer';
+import { SpriteAtlas } from './spriteAtlas';
+import { LevelMap, Player, Enemy, GameItem, Projectile } from '@/game/types';
+
+/**
+ * Everything the worker needs to draw one frame
+ */
+export interface RenderSnapshot {
+  player: Player;
+  /** Only sent when the level changed since the last posted frame */
+  levelMap?: LevelMap;
+  enemies: Enemy[];
+  items: GameItem[];
+  projectiles: Projectile[];
+  deltaTime: number;
+}
+
+/**
+ * Messages posted from the main thread to the render worker
+ */
+export type RenderWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; config: Partial<RaycastConfig> }
+  | { type: 'config'; config: Partial<RaycastConfig> }
+  | { type: 'seed'; seed: number }
+  | { type: 'atlas'; atlas: SpriteAtlas | null }
+  | { type: 'frame'; snapshot: RenderSnapshot };
+
+/**
+ * Messages posted from the render worker back to the main thread
+ */
+export type RenderWorkerReply = { type: 'rendered' } | { type: 'failed'; message: string };
+
+/**
+ * Check whether a canvas can hand its drawing over to a worker
+ * When this is false, rendering stays on the main thread
+ */
+export function supportsOffscreenRendering(canvas: HTMLCanvasElement): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof canvas.transferControlToOffscreen === 'function'
+  );
+}
+
+/**
+ * Main-thread side of worker rendering
+ * Keeps at most one frame in flight: frames requested while the worker is
+ * still drawing are dropped rather than queued, so a slow worker falls
+ * behind in frame rate instead of in latency.
+ * If the worker fails it is stopped and onError is called, so the page can
+ * go back to drawing on the main thread
+ */
+export class WorkerRenderer implements FrameRenderer {
+  private worker: Worker;
+  private frameInFlight = false;
+  private postedLevelMap: LevelMap | null = null;
+  /** Frame time of dropped frames, added to the next posted frame */
+  private droppedTime = 0;
+  private failed = false;
+
+  /**
+   * @param canvas - Canvas transferred from the page; it moves to the worker
+   * @param worker - Worker running the render worker script
+   * @param config - Initial raycast configuration
+   * @param onError - Called once if the worker fails, after it is stopped
+   */
+  constructor(
+    canvas: OffscreenCanvas,
+    worker: Worker,
+    config: Partial<RaycastConfig> = {},
+    onError?: (message: string) => void
+  ) {
+    this.worker = worker;
+    const fail = (message: string) => {
+      if (this.failed) return;
+      this.failed = true;
+      this.dispose();
+      onError?.(message);
+    };
+    this.worker.addEventListener('message', (event: MessageEvent<RenderWorkerReply>) => {
+      if (event.data.type === 'rendered') {
+        this.frameInFlight = false;
+      } else if (event.data.type === 'failed') {
+        fail(event.data.message);
+      }
+    });
+    this.worker.addEventListener('error', (event: ErrorEvent) => {
+      fail(event.message || 'Render worker error');
+    });
+    this.worker.addEventListener('messageerror', () => {
+      fail('Render worker could not read a message');
+    });
+    this.post({ type: 'init', canvas, config }, [canvas]);
+  }
+
+  /**
+   * Reseed cosmetic effects from a session seed
+   * The main thread's stream is reseeded too, since screen shake draws from it
+   */
+  setSeed(seed: number): void {
+    seedCosmeticRandom(seed);
+    this.post({ type: 'seed', seed });
+  }
+
+  /**
+   * Update renderer configuration
+   */
+  setConfig(config: Partial<RaycastConfig>): void {
+    this.post({ type: 'config', config });
+  }
+
+  /**
+   * Set the sprite atlas sprites are drawn from
+   * The worker gets its own copy of the sprite sheet
+   */
+  setSpriteAtlas(atlas: SpriteAtlas | null): void {
+    this.post({ type: 'atlas', atlas });
+  }
+
+  /**
+   * Post a frame to the worker, unless it is still drawing the last one
+   */
+  render(
+    player: Player,
+    levelMap: LevelMap,
+    enemies: Enemy[] = [],
+    items: GameItem[] = [],
+    deltaTime: number = 0.016,
+    projectiles: Projectile[] = []
+  ): void {
+    if (this.frameInFlight) {
+      this.droppedTime += deltaTime;
+      return;
+    }
+
+    const snapshot: RenderSnapshot = {
+      player,
+      enemies,
+      items,
+      projectiles,
+      deltaTime: deltaTime + this.droppedTime,
+    };
+    if (levelMap !== this.postedLevelMap) {
+      snapshot.levelMap = levelMap;
+      this.postedLevelMap = levelMap;
+    }
+    this.droppedTime = 0;
+    this.frameInFlight = true;
+    this.post({ type: 'frame', snapshot });
+  }
+
+  /**
+   * Stop the worker; the canvas it owns stops updating
+   */
+  dispose(): void {
+    this.worker.terminate();
+  }
+
+  private post(message: RenderWorkerMessage, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Property-based tests for campaign manifests
+ *
+ * **Feature: frankenkiro-game, Property 10: Campaign Links Always Lead to an Ending**
+ *
+ * Tests that following next-level links from the first level of a valid
+ * campaign visits each level at most once and ends, that the level manager
+ * agrees with the links, and that campaign files round-trip through JSON.
+ *
+ * **Validates: Requirements 4.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  createCampaignLevelManager,
+  getNextLevelIndex,
+  parseCampaignFile,
+  validateCampaign,
+} from '../campaign';
+import { hasNextLevel } from '../level';
+import { createBlankLevel } from '../levelEditor';
+import { DEFAULT_CAMPAIGN } from '../levels';
+import { Campaign } from '../types';
+
+/**
+ * Arbitrary for campaigns whose next links point anywhere (or nowhere)
+ */
+const campaignArb: fc.Arbitrary<Campaign> = fc
+  .integer({ min: 1, max: 6 })
+  .chain((count) =>
+    fc.array(fc.option(fc.oneof(fc.constant(null), fc.integer({ min: 0, max: count - 1 })), { nil: undefined }), {
+      minLength: count,
+      maxLength: count,
+    })
+  )
+  .map((links) => ({
+    id: 'pack',
+    name: 'Pack',
+    levels: links.map((link, index) => ({
+      id: `level_${index}`,
+      name: `Level ${index}`,
+      intro: '',
+      parTime: 60,
+      theme: 'lab' as const,
+      next: typeof link === 'number' ? `level_${link}` : link,
+      level: createBlankLevel(5, 5),
+    })),
+  }));
+
+describe('Campaign Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 10: Campaign Links Always Lead to an Ending**
+   *
+   * For any campaign that passes validation, following the links from the
+   * first level never revisits a level.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 10: valid campaigns always end', () => {
+    fc.assert(
+      fc.property(campaignArb, (campaign) => {
+        const validation = validateCampaign(campaign);
+        const visited = new Set<number>();
+        let levelIndex: number | null = 0;
+        while (levelIndex !== null && !visited.has(levelIndex)) {
+          visited.add(levelIndex);
+          levelIndex = getNextLevelIndex(campaign, levelIndex);
+        }
+        expect(validation.valid).toBe(levelIndex === null);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 10: Campaign Links Always Lead to an Ending**
+   *
+   * For any campaign level, the level manager reports a next level exactly
+   * when the links lead somewhere.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 10: the level manager follows next-level links', () => {
+    fc.assert(
+      fc.property(campaignArb, (campaign) => {
+        campaign.levels.forEach((_, index) => {
+          const manager = createCampaignLevelManager(campaign, index);
+          const next = getNextLevelIndex(campaign, index);
+          expect(hasNextLevel(manager)).toBe(next !== null);
+          expect(manager.nextLevel).toBe(next);
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('round-trips campaign files through JSON', () => {
+    const loaded = parseCampaignFile(JSON.stringify({ version: 1, ...DEFAULT_CAMPAIGN }));
+    expect(loaded).toEqual(DEFAULT_CAMPAIGN);
+  });
+
+  it('reports broken links and invalid levels', () => {
+    const [first] = DEFAULT_CAMPAIGN.levels;
+    const broken = {
+      ...DEFAULT_CAMPAIGN,
+      levels: [{ ...first, next: 'attic', level: { ...first.level, width: 0 } }],
+    };
+    const { errors } = validateCampaign(broken);
+    expect(errors).toContain('Level "lab" links to unknown level "attic"');
+    expect(errors.some((error) => error.startsWith('Level "lab": Invalid level map'))).toBe(true);
+  });
+
+  it('rejects unsupported campaign file versions', () => {
+    expect(() => parseCampaignFile(JSON.stringify({ ...DEFAULT_CAMPAIGN, version: 99 }))).toThrow(
+      'Unsupported campaign format version: 99'
+    );
+  });
+
+  it('ships a valid built-in campaign', () => {
+    expect(validateCampaign(DEFAULT_CAMPAIGN).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Property-based tests for sliding doors
+ *
+ * **Feature: frankenkiro-game, Property 20: Doors Open Only When Unlocked and Block Until Passable**
+ *
+ * Tests that a door opens for the player unless it is locked and they lack
+ * its key, that it stays solid until it is open far enough to pass, that it
+ * closes again when used a second time, and that a closing door reopens
+ * rather than shut on something standing in the doorway.
+ *
+ * **Validates: Requirements 4.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  DOOR_PASSABLE_AMOUNT,
+  DOOR_SLIDE_SPEED,
+  DOOR_TILE,
+  LOCKED_DOOR_TILES,
+  getDoorAt,
+  initializeDoors,
+  interactWithDoor,
+  updateDoors,
+} from '../door';
+import { createEmptyLevelMap } from '../level';
+import { addKey, createPlayer } from '../player';
+import { LevelMap } from '../types';
+import { CollisionEntity, isWall } from '@/engine/collision';
+import { vec2 } from '@/engine/vector2';
+
+/**
+ * 8x5 level split by a wall down column 4 with a door tile at (4, 2)
+ */
+function createDoorLevel(doorTile: number): LevelMap {
+  const level = createEmptyLevelMap(8, 5);
+  const grid = level.grid.map((row, y) =>
+    row.map((_, x) => {
+      if (x === 0 || y === 0 || x === level.width - 1 || y === level.height - 1) return 1;
+      if (x === 4) return y === 2 ? doorTile : 1;
+      return 0;
+    })
+  );
+  return initializeDoors({ ...level, grid });
+}
+
+/**
+ * Player a tile west of the door, facing it
+ */
+const facingDoor = createPlayer(vec2(3.5, 2.5), 0);
+
+/**
+ * Run a level's doors through a series of steps
+ */
+function runDoors(level: LevelMap, steps: number[], occupants: CollisionEntity[] = []): LevelMap {
+  return steps.reduce((current, deltaTime) => updateDoors(current, deltaTime, occupants), level);
+}
+
+describe('Door Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 20: Doors Open Only When Unlocked and Block Until Passable**
+   *
+   * For any door tile and any keys the player holds, using the door starts
+   * it opening exactly when it is unlocked or the player holds its key;
+   * otherwise it reports locked and leaves the level as it was.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 20: locked doors open only for the matching key', () => {
+    const doorTiles = [DOOR_TILE, ...Object.keys(LOCKED_DOOR_TILES).map(Number)];
+    const keyIds = Object.values(LOCKED_DOOR_TILES);
+    fc.assert(
+      fc.property(fc.constantFrom(...doorTiles), fc.subarray(keyIds), (tile, keys) => {
+        const level = createDoorLevel(tile);
+        const player = keys.reduce(addKey, facingDoor);
+        const keyId = LOCKED_DOOR_TILES[tile];
+        const result = interactWithDoor(player, level);
+
+        if (keyId === undefined || keys.includes(keyId)) {
+          expect(result.outcome).toBe('opening');
+          expect(getDoorAt(4, 2, result.level)?.state).toBe('opening');
+        } else {
+          expect(result.outcome).toBe('locked');
+          expect(result.level).toBe(level);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 20: Doors Open Only When Unlocked and Block Until Passable**
+   *
+   * For any split of time into steps, an opening door is a wall until it
+   * is DOOR_PASSABLE_AMOUNT open and passable from then on, and is fully
+   * open once 1 / DOOR_SLIDE_SPEED seconds have passed.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 20: doors are solid until open far enough to pass', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.double({ min: 0.001, max: 0.2, noNaN: true }), { minLength: 1, maxLength: 60 }),
+        (steps) => {
+          let level = interactWithDoor(facingDoor, createDoorLevel(DOOR_TILE)).level;
+          let elapsed = 0;
+          for (const deltaTime of steps) {
+            level = updateDoors(level, deltaTime);
+            elapsed += deltaTime;
+            const door = getDoorAt(4, 2, level)!;
+            expect(door.openAmount).toBeCloseTo(Math.min(1, elapsed * DOOR_SLIDE_SPEED));
+            expect(isWall(4.5, 2.5, level)).toBe(door.openAmount < DOOR_PASSABLE_AMOUNT);
+            expect(door.state).toBe(door.openAmount >= 1 ? 'open' : 'opening');
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('closes when used again and reopens while the doorway is occupied', () => {
+    const fullyOpen = runDoors(interactWithDoor(facingDoor, createDoorLevel(DOOR_TILE)).level, [1]);
+    expect(getDoorAt(4, 2, fullyOpen)?.state).toBe('open');
+
+    const closing = interactWithDoor(facingDoor, fullyOpen);
+    expect(closing.outcome).toBe('closing');
+
+    const blocked = runDoors(closing.level, [0.1], [{ position: vec2(4.5, 2.5), radius: 0.3 }]);
+    expect(getDoorAt(4, 2, blocked)).toMatchObject({ state: 'opening', openAmount: 1 });
+
+    const closed = runDoors(closing.level, [0.5, 0.5]);
+    expect(getDoorAt(4, 2, closed)).toMatchObject({ state: 'closed', openAmount: 0 });
+    expect(isWall(4.5, 2.5, closed)).toBe(true);
+  });
+
+  it('does nothing when the player is not facing a door', () => {
+    const level = createDoorLevel(DOOR_TILE);
+    const result = interactWithDoor(createPlayer(vec2(3.5, 2.5), Math.PI), level);
+    expect(result).toEqual({ outcome: 'none', level });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Property-based tests for enemy animation
+ *
+ * **Feature: frankenkiro-game, Property 18: Enemy Animations Follow Their State**
+ *
+ * Tests that a hit makes an enemy flinch for a fixed time before it goes
+ * back to the animation of its AI state, that killed enemies play their
+ * death sequence and stay as corpses, and that the animation clock survives
+ * save/load.
+ *
+ * **Validates: Requirements 4.5, 8.2**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { DEATH_DURATION, PAIN_DURATION, getStateAnimation, updateEnemyAnimation } from '../enemyAnimation';
+import { createEnemy, takeDamage } from '../enemy';
+import { createBlankLevel, placeEnemySpawn } from '../levelEditor';
+import { createLevelState, createNewGame, stepGame } from '../simulation';
+import { createCampaignFromLevels } from '../campaign';
+import { applySaveData, deserializeSaveData, serialize } from '../gameStateManager';
+import { EnemyState } from '../types';
+import { enemiesToSprites } from '@/engine/renderer';
+import { GameAction } from '@/input/types';
+import { vec2 } from '@/engine/vector2';
+
+const idle = { activeActions: new Set<GameAction>(), mousePosition: vec2(0, 0) };
+
+describe('Enemy Animation Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 18: Enemy Animations Follow Their State**
+   *
+   * For any AI state and split of time into steps, a hurt enemy flinches
+   * until PAIN_DURATION has passed and then plays its state's animation,
+   * whose clock starts from zero.
+   *
+   * **Validates: Requirements 4.5**
+   */
+  it('Property 18: a flinch plays out before the state animation resumes', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<EnemyState>('idle', 'pursuing', 'attacking', 'searching'),
+        fc.array(fc.double({ min: 0.001, max: 0.1, noNaN: true }), { minLength: 1, maxLength: 40 }),
+        (state, steps) => {
+          let enemy = takeDamage({ ...createEnemy('e', vec2(2.5, 2.5)), state }, 1);
+          expect(enemy.animation).toBe('pain');
+
+          let painTime = 0;
+          let stateTime: number | null = null;
+          for (const deltaTime of steps) {
+            enemy = updateEnemyAnimation(enemy, deltaTime);
+            if (stateTime === null && painTime < PAIN_DURATION) {
+              painTime += deltaTime;
+              expect(enemy.animation).toBe('pain');
+              expect(enemy.animationTime).toBeCloseTo(painTime);
+            } else {
+              stateTime = stateTime === null ? 0 : stateTime + deltaTime;
+              expect(enemy.animation).toBe(getStateAnimation(state));
+              expect(enemy.animationTime).toBeCloseTo(stateTime);
+            }
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('leaves a corpse that keeps its death sequence through save/load', () => {
+    const level = placeEnemySpawn(createBlankLevel(10, 10), 7, 7, 'zombie');
+    const campaign = createCampaignFromLevels('test', 'Test', [level]);
+    const start = createNewGame(1, campaign);
+    const killed = { ...start, enemies: start.enemies.map((enemy) => takeDamage(enemy, enemy.health)) };
+    expect(killed.enemies[0].animation).toBe('death');
+
+    let state = killed;
+    for (let i = 0; i < 30; i++) {
+      state = stepGame(state, idle, 1 / 60, { campaign }).state;
+    }
+    const [corpse] = state.enemies;
+    expect(corpse.state).toBe('dead');
+    expect(corpse.animation).toBe('death');
+    expect(corpse.animationTime).toBeCloseTo(0.5);
+    expect(enemiesToSprites(state.enemies)).toEqual([
+      expect.objectContaining({ spriteId: corpse.spriteId, animation: 'death', animationTime: corpse.animationTime }),
+    ]);
+
+    const saved = deserializeSaveData(serialize(state));
+    expect(saved.success).toBe(true);
+    const restored = applySaveData(saved.saveData!, createLevelState(0, campaign));
+    expect(restored.enemies[0].animation).toBe('death');
+    expect(restored.enemies[0].animationTime).toBeCloseTo(corpse.animationTime);
+
+    // Saves from before animations were kept show dead enemies as corpses
+    const { animation: _animation, animationTime: _animationTime, ...oldSave } = saved.saveData!.gameState.enemies[0];
+    const old = applySaveData(
+      { ...saved.saveData!, gameState: { ...saved.saveData!.gameState, enemies: [oldSave] } },
+      createLevelState(0, campaign)
+    );
+    expect(old.enemies[0]).toMatchObject({ animation: 'death', animationTime: DEATH_DURATION });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Property-based tests for the enemy archetype registry
+ *
+ * **Feature: frankenkiro-game, Property 22: Only Known Enemy Types Spawn**
+ *
+ * Tests that every registered type spawns with its archetype's stats and
+ * that unknown types are rejected everywhere an enemy type comes in: when
+ * spawning, in level files and in save data.
+ *
+ * **Validates: Requirements 4.1, 8.2**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { ENEMY_ARCHETYPES, getEnemyArchetype, isEnemyType } from '../enemyArchetypes';
+import { createEnemy } from '../enemy';
+import { createEnemyManager } from '../enemyManager';
+import { createBlankLevel, placeEnemySpawn } from '../levelEditor';
+import { validateLevelMap } from '../level';
+import { createCampaignFromLevels } from '../campaign';
+import { createNewGame } from '../simulation';
+import { deserializeSaveData, serialize } from '../gameStateManager';
+import { vec2 } from '@/engine/vector2';
+
+const knownTypeArb = fc.constantFrom(...Object.keys(ENEMY_ARCHETYPES));
+
+/**
+ * Strings that are not enemy types, including names inherited from Object
+ */
+const unknownTypeArb = fc
+  .oneof(fc.string(), fc.constantFrom('toString', 'constructor', '__proto__', 'Zombie', ''))
+  .filter((value) => !Object.prototype.hasOwnProperty.call(ENEMY_ARCHETYPES, value));
+
+describe('Enemy Archetype Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 22: Only Known Enemy Types Spawn**
+   *
+   * For any registered enemy type, a spawned enemy carries the type and
+   * the stats of its archetype.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 22: known types spawn with their archetype stats', () => {
+    fc.assert(
+      fc.property(knownTypeArb, (enemyType) => {
+        const archetype = getEnemyArchetype(enemyType);
+        const enemy = createEnemy('e', vec2(2.5, 2.5), enemyType);
+        expect(isEnemyType(enemyType)).toBe(true);
+        expect(enemy).toMatchObject({
+          enemyType,
+          health: archetype.health,
+          speed: archetype.speed,
+          damage: archetype.damage,
+          radius: archetype.radius,
+          spriteId: archetype.spriteId,
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 22: Only Known Enemy Types Spawn**
+   *
+   * For any string that is not a registered type, spawning throws, a level
+   * spawning it fails validation and a save holding it is rejected.
+   *
+   * **Validates: Requirements 4.1, 8.2**
+   */
+  it('Property 22: unknown types are rejected', () => {
+    const level = placeEnemySpawn(createBlankLevel(10, 10), 7, 7, 'zombie');
+    const saved = JSON.parse(serialize(createNewGame(1, createCampaignFromLevels('test', 'Test', [level]))));
+
+    fc.assert(
+      fc.property(unknownTypeArb, (enemyType) => {
+        expect(isEnemyType(enemyType)).toBe(false);
+        expect(() => getEnemyArchetype(enemyType)).toThrow(`Unknown enemy type: ${enemyType}`);
+        expect(() => createEnemy('e', vec2(2.5, 2.5), enemyType)).toThrow();
+        expect(() => createEnemyManager().spawnEnemy(vec2(2.5, 2.5), enemyType)).toThrow();
+
+        const badLevel = { ...level, enemySpawns: [{ ...level.enemySpawns[0], enemyType }] };
+        expect(validateLevelMap(badLevel).errors).toContain(
+          `enemySpawns[0] has unknown enemy type "${enemyType}"`
+        );
+
+        const badSave = {
+          ...saved,
+          gameState: {
+            ...saved.gameState,
+            enemies: [{ ...saved.gameState.enemies[0], enemyType }],
+          },
+        };
+        expect(deserializeSaveData(JSON.stringify(badSave)).success).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
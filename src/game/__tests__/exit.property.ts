@@ -0,0 +1,113 @@
+/**
+ * Property-based tests for level exit rules
+ *
+ * **Feature: frankenkiro-game, Property 14: Exits Open Only When Their Rule Is Met**
+ *
+ * Tests that an exit reports exactly what still locks it, that the
+ * simulation only ends a level through an open exit, and that levels whose
+ * exit rule cannot be met are rejected.
+ *
+ * **Validates: Requirements 4.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { describeExitLock, getExitLock, isExitOpen } from '../exit';
+import { createCollectibleItem } from '../item';
+import { createEnemy } from '../enemy';
+import { createPlayer, addKey } from '../player';
+import { createBlankLevel, placeItemSpawn, setExitRule } from '../levelEditor';
+import { validateLevelMap } from '../level';
+import { createNewGame, stepGame } from '../simulation';
+import { createCampaignFromLevels } from '../campaign';
+import { ExitRule, LevelMap } from '../types';
+import { vec2 } from '@/engine/vector2';
+
+/**
+ * Arbitrary for exit rules
+ */
+const ruleArb: fc.Arbitrary<ExitRule> = fc.oneof(
+  fc.constant({ type: 'open' as const }),
+  fc.integer({ min: 1, max: 3 }).map((key) => ({ type: 'key' as const, key })),
+  fc.constant({ type: 'enemiesDead' as const }),
+  fc.integer({ min: 1, max: 5 }).map((count) => ({ type: 'collectibles' as const, count }))
+);
+
+/**
+ * Arbitrary for what the player has done so far
+ */
+const progressArb = fc.record({
+  keys: fc.subarray([1, 2, 3]),
+  enemiesAlive: fc.array(fc.boolean(), { maxLength: 5 }),
+  collected: fc.array(fc.boolean(), { maxLength: 6 }),
+});
+
+describe('Exit Rule Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 14: Exits Open Only When Their Rule Is Met**
+   *
+   * For any rule and progress, the exit is open exactly when the rule's
+   * condition holds, and a locked exit always has something left to do.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 14: exits open exactly when their rule is met', () => {
+    fc.assert(
+      fc.property(ruleArb, progressArb, (exitRule, { keys, enemiesAlive, collected }) => {
+        const level: LevelMap = { ...createBlankLevel(8, 8), exitRule };
+        const player = keys.reduce((p, key) => addKey(p, `key_${key}`), createPlayer(vec2(1.5, 1.5), 0));
+        const enemies = enemiesAlive.map((alive, index) => ({
+          ...createEnemy(`enemy_${index}`, vec2(4.5, 4.5), 'zombie'),
+          ...(alive ? {} : { state: 'dead' as const }),
+        }));
+        const items = collected.map((taken) => ({ ...createCollectibleItem(vec2(2.5, 2.5)), collected: taken }));
+
+        const expected =
+          exitRule.type === 'open' ||
+          (exitRule.type === 'key' && keys.includes(exitRule.key)) ||
+          (exitRule.type === 'enemiesDead' && !enemiesAlive.includes(true)) ||
+          (exitRule.type === 'collectibles' && collected.filter(Boolean).length >= exitRule.count);
+
+        const context = { player, enemies, items };
+        expect(isExitOpen(level, context)).toBe(expected);
+        const lock = getExitLock(level, context);
+        if (lock) {
+          expect(lock.remaining).toBeGreaterThan(0);
+          expect(describeExitLock(lock)).not.toBe('');
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('keeps the player in the level until the exit opens', () => {
+    let level = setExitRule({ ...createBlankLevel(8, 8), exitPoint: vec2(6.5, 6.5) }, 'key', 1);
+    level = placeItemSpawn(level, 3, 3, { itemType: 'key', value: 1 });
+    const campaign = createCampaignFromLevels('test', 'Test', [level]);
+    const start = createNewGame(1, campaign);
+    const idle = { activeActions: new Set<never>(), mousePosition: vec2(0, 0) };
+    const atExit = { ...start, player: { ...start.player, position: vec2(6.5, 6.5) } };
+
+    const locked = stepGame(atExit, idle, 1 / 60, { campaign });
+    expect(locked.state.status).toBe('playing');
+    expect(locked.events.some((event) => event.type === 'levelComplete')).toBe(false);
+
+    const withKey = { ...atExit, player: addKey(atExit.player, 'key_1') };
+    const open = stepGame(withKey, idle, 1 / 60, { campaign });
+    expect(open.state.status).toBe('victory');
+  });
+
+  it('rejects exit rules that cannot be met', () => {
+    const level = placeItemSpawn(createBlankLevel(8, 8), 2, 2, { itemType: 'collectible', value: 100 });
+    expect(validateLevelMap(setExitRule(level, 'key', 2)).errors).toEqual([
+      'exitRule needs key 2, but no reachable item gives it',
+    ]);
+    expect(validateLevelMap(setExitRule(level, 'collectibles', 2)).errors).toEqual([
+      'exitRule needs 2 collectibles, but only 1 can be reached',
+    ]);
+    expect(validateLevelMap(setExitRule(level, 'collectibles', 1)).errors).toEqual([]);
+    expect(validateLevelMap({ ...level, exitRule: { type: 'portal' } }).errors).toEqual([
+      'exitRule has unknown type "portal"',
+    ]);
+  });
+});
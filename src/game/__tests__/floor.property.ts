@@ -0,0 +1,167 @@
+/**
+ * Property-based tests for the floor layer
+ *
+ * **Feature: frankenkiro-game, Property 15: Floor Effects Follow Level Time**
+ *
+ * Tests that acid and healing circles act at a fixed rate however the game
+ * is stepped, that blood slows the player, that teleport pads fire only as
+ * they are stepped onto, and that broken floor layers are rejected.
+ *
+ * **Validates: Requirements 4.3, 5.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  ACID_DAMAGE,
+  CEILING_SKY,
+  BLOOD_SPEED_FACTOR,
+  FLOOR_ACID,
+  FLOOR_BLOOD,
+  FLOOR_EFFECT_INTERVAL,
+  FLOOR_HEALING,
+  FLOOR_PLAIN,
+  FLOOR_TELEPORT,
+  HEALING_AMOUNT,
+  getFloorEffect,
+} from '../floor';
+import { createBlankLevel, placeTeleporter, resizeLevel, setCeilingType, setFloorType } from '../levelEditor';
+import { validateLevelMap } from '../level';
+import { createNewGame, stepGame } from '../simulation';
+import { createCampaignFromLevels } from '../campaign';
+import { LEVEL_DUNGEON, LEVEL_TOWER } from '../levels';
+import { GameAction } from '@/input/types';
+import { vec2 } from '@/engine/vector2';
+
+const idle = { activeActions: new Set<GameAction>(), mousePosition: vec2(0, 0) };
+
+describe('Floor Layer Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 15: Floor Effects Follow Level Time**
+   *
+   * For any split of a stretch of time into steps, standing on acid or a
+   * healing circle adds up to one tick per interval.
+   *
+   * **Validates: Requirements 4.3, 5.1**
+   */
+  it('Property 15: damage and healing do not depend on the step size', () => {
+    const level = setFloorType(setFloorType(createBlankLevel(6, 6), 1, 1, FLOOR_ACID), 2, 1, FLOOR_HEALING);
+    fc.assert(
+      fc.property(
+        fc.array(fc.double({ min: 0.001, max: 0.3, noNaN: true }), { minLength: 1, maxLength: 40 }),
+        fc.double({ min: 0, max: 10, noNaN: true }),
+        (steps, startTime) => {
+          let time = startTime;
+          let damage = 0;
+          let healing = 0;
+          for (const deltaTime of steps) {
+            damage += getFloorEffect(vec2(1.5, 1.5), vec2(1.5, 1.5), level, time, deltaTime).damage;
+            healing += getFloorEffect(vec2(2.5, 1.5), vec2(2.5, 1.5), level, time, deltaTime).healing;
+            time += deltaTime;
+          }
+          const ticks = Math.floor(time / FLOOR_EFFECT_INTERVAL) - Math.floor(startTime / FLOOR_EFFECT_INTERVAL);
+          expect(damage).toBe(ticks * ACID_DAMAGE);
+          expect(healing).toBe(ticks * HEALING_AMOUNT);
+          expect(getFloorEffect(vec2(3.5, 3.5), vec2(3.5, 3.5), level, startTime, time - startTime)).toEqual({
+            damage: 0,
+            healing: 0,
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 15: Floor Effects Follow Level Time**
+   *
+   * For any level size, resizing keeps the floor and ceiling layers the size
+   * of the grid and only keeps teleporters that still fit.
+   *
+   * **Validates: Requirements 4.3**
+   */
+  it('Property 15: resizing keeps the floor and ceiling layers in step with the grid', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 3, max: 20 }), fc.integer({ min: 3, max: 20 }), (width, height) => {
+        const level = placeTeleporter(
+          setCeilingType(setFloorType(createBlankLevel(10, 10), 2, 2, FLOOR_BLOOD), 2, 2, CEILING_SKY),
+          1,
+          1,
+          vec2(8, 8)
+        );
+        const resized = resizeLevel(level, width, height);
+        expect(resized.floor).toHaveLength(height);
+        resized.floor?.forEach((row) => expect(row).toHaveLength(width));
+        expect(resized.ceiling).toHaveLength(height);
+        resized.ceiling?.forEach((row) => expect(row).toHaveLength(width));
+        expect(validateLevelMap(resized).errors.filter((error) => /Floor|Ceiling/.test(error))).toEqual([]);
+        expect(resized.teleporters).toHaveLength(width > 8 && height > 8 ? 1 : 0);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('slows the player down on blood', () => {
+    const plain = createBlankLevel(12, 5);
+    const bloody = plain.grid.reduce(
+      (level, row, y) => row.reduce((acc, _, x) => setFloorType(acc, x, y, FLOOR_BLOOD), level),
+      plain
+    );
+    const forward = { activeActions: new Set<GameAction>(['moveForward']), mousePosition: vec2(0, 0) };
+    const distance = (level: typeof plain): number => {
+      const campaign = createCampaignFromLevels('test', 'Test', [level]);
+      const start = createNewGame(1, campaign);
+      const { state } = stepGame(start, forward, 0.1, { campaign });
+      return state.player.position.x - start.player.position.x;
+    };
+    expect(distance(bloody)).toBeCloseTo(distance(plain) * BLOOD_SPEED_FACTOR);
+  });
+
+  it('teleports the player only as they step onto a pad', () => {
+    const level = placeTeleporter(createBlankLevel(8, 8), 2, 1, vec2(6, 6));
+    const campaign = createCampaignFromLevels('test', 'Test', [level]);
+    const start = createNewGame(1, campaign);
+    const nearPad = { ...start, player: { ...start.player, position: vec2(1.95, 1.5) } };
+    const forward = { activeActions: new Set<GameAction>(['moveForward']), mousePosition: vec2(0, 0) };
+
+    const { state, events } = stepGame(nearPad, forward, 0.1, { campaign });
+    expect(state.player.position).toEqual(vec2(6.5, 6.5));
+    expect(events).toContainEqual({ type: 'teleported', position: vec2(6.5, 6.5) });
+
+    const onPad = { ...start, player: { ...start.player, position: vec2(2.5, 1.5) } };
+    const standing = stepGame(onPad, idle, 0.1, { campaign });
+    expect(standing.state.player.position).toEqual(vec2(2.5, 1.5));
+    expect(standing.events.some((event) => event.type === 'teleported')).toBe(false);
+  });
+
+  it('counts areas behind teleporters as reachable', () => {
+    // A sealed room holding the exit, only reachable through the pad
+    let level = createBlankLevel(9, 5);
+    level = { ...level, grid: level.grid.map((row) => row.map((tile, x) => (x === 4 ? 1 : tile))) };
+    expect(validateLevelMap(level).errors).toEqual(['exitPoint at tile (7, 3) cannot be reached from playerSpawn']);
+    expect(validateLevelMap(placeTeleporter(level, 2, 2, vec2(6, 2))).errors).toEqual([]);
+  });
+
+  it('rejects broken floor and ceiling layers and teleporters', () => {
+    const level = createBlankLevel(6, 6);
+    expect(validateLevelMap(LEVEL_DUNGEON).valid).toBe(true);
+    expect(validateLevelMap(LEVEL_TOWER).valid).toBe(true);
+    expect(validateLevelMap(setCeilingType(level, 1, 4, 7)).errors).toEqual(['Ceiling tile (1, 4) has unknown type 7']);
+    expect(validateLevelMap({ ...level, ceiling: level.grid.slice(1) }).errors).toEqual([
+      'Ceiling height (5) does not match level height (6)',
+    ]);
+    expect(validateLevelMap({ ...level, floor: [[FLOOR_PLAIN]] }).errors).toEqual([
+      'Floor height (1) does not match level height (6)',
+    ]);
+    expect(validateLevelMap(setFloorType(level, 2, 2, 9)).errors).toEqual(['Floor tile (2, 2) has unknown type 9']);
+    expect(validateLevelMap(setFloorType(level, 2, 2, FLOOR_TELEPORT)).errors).toEqual([
+      'Teleport pad at tile (2, 2) has no teleporter',
+    ]);
+    expect(validateLevelMap(placeTeleporter(level, 2, 2, vec2(0, 0))).errors).toEqual([
+      'teleporters[0] destination at tile (0, 0) is not on open floor',
+    ]);
+    expect(validateLevelMap({ ...level, teleporters: [{ x: 2, y: 2, destination: vec2(3.5, 3.5) }] }).errors).toEqual([
+      'teleporters[0] at tile (2, 2) is not on a teleport pad',
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Property-based tests for level loading and validation
+ *
+ * **Feature: frankenkiro-game, Property 7: Level Validation Matches Reachability**
+ *
+ * Tests that the flood fill used by level validation agrees with pathfinding
+ * about whether the exit can be reached, that locked doors only open once
+ * their key is reachable, and that level files round-trip through JSON.
+ *
+ * **Validates: Requirements 4.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  findReachableTiles,
+  loadLevelMap,
+  parseLevelFile,
+  serializeLevelMap,
+  validateLevelMap,
+} from '../level';
+import { findPath } from '../pathfinding';
+import { GAME_LEVELS } from '../levels';
+import { LevelMap } from '../types';
+import { levelArb } from './levelFixtures';
+import { vec2 } from '@/engine/vector2';
+
+/**
+ * Corridor level with the exit behind a locked door (tile 6, key_1)
+ */
+function createLockedLevel(keyX: number): LevelMap {
+  return {
+    width: 7,
+    height: 3,
+    grid: [
+      [1, 1, 1, 1, 1, 1, 1],
+      [1, 0, 0, 6, 0, 0, 1],
+      [1, 1, 1, 1, 1, 1, 1],
+    ],
+    playerSpawn: vec2(1.5, 1.5),
+    enemySpawns: [],
+    items: [{ position: vec2(keyX, 1.5), itemType: 'key', value: 1 }],
+    exitPoint: vec2(5.5, 1.5),
+  };
+}
+
+describe('Level Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 7: Level Validation Matches Reachability**
+   *
+   * For any level without doors, validation accepts it exactly when A* can
+   * find a path from the spawn to the exit.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 7: the exit is reported unreachable exactly when no path exists', () => {
+    fc.assert(
+      fc.property(levelArb, (level) => {
+        const pathExists = findPath(level, level.playerSpawn, level.exitPoint) !== null;
+        const result = validateLevelMap(level);
+
+        expect(result.valid).toBe(pathExists);
+        if (!pathExists) {
+          expect(result.errors).toContain(
+            `exitPoint at tile (${level.width - 2}, ${level.height - 2}) cannot be reached from playerSpawn`
+          );
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 7: Level Validation Matches Reachability**
+   *
+   * For any level, a file written by serializeLevelMap loads back unchanged.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 7: level files round-trip through JSON', () => {
+    fc.assert(
+      fc.property(levelArb, (level) => {
+        fc.pre(validateLevelMap(level).valid);
+        expect(parseLevelFile(serializeLevelMap(level, 'Test'))).toEqual(level);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('opens locked doors only when the key can be reached first', () => {
+    expect(validateLevelMap(createLockedLevel(2.5)).valid).toBe(true);
+
+    const keyBehindDoor = createLockedLevel(4.5);
+    expect(findReachableTiles(keyBehindDoor)[1][4]).toBe(false);
+    expect(validateLevelMap(keyBehindDoor).errors).toEqual([
+      'exitPoint at tile (5, 1) cannot be reached from playerSpawn',
+    ]);
+  });
+
+  it('reports unknown tiles and blocked spawns with their coordinates', () => {
+    const level = createLockedLevel(2.5);
+    expect(validateLevelMap({ ...level, grid: [level.grid[0], [1, 0, 9, 6, 0, 0, 1], level.grid[2]] }).errors)
+      .toEqual(['Tile (2, 1) has unknown id 9']);
+    expect(validateLevelMap({ ...level, playerSpawn: vec2(0.5, 1.5) }).errors)
+      .toContain('playerSpawn at tile (0, 1) is not on open floor');
+  });
+
+  it('rejects unsupported level file versions', () => {
+    expect(() => loadLevelMap({ ...createLockedLevel(2.5), version: 99 })).toThrow(
+      'Unsupported level format version: 99'
+    );
+  });
+
+  it('ships only valid built-in levels', () => {
+    GAME_LEVELS.forEach((level) => expect(validateLevelMap(level).errors).toEqual([]));
+  });
+});
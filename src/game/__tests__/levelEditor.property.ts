@@ -0,0 +1,160 @@
+/**
+ * Property-based tests for the level editor edits
+ *
+ * **Feature: frankenkiro-game, Property 9: Editor Edits Keep Levels Well-Formed**
+ *
+ * Tests that resizing and placing spawns always leaves a level whose grid
+ * matches its dimensions and whose spawns and triggers lie inside the grid.
+ *
+ * **Validates: Requirements 4.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  MAX_EDITOR_SIZE,
+  MIN_EDITOR_SIZE,
+  createBlankLevel,
+  placeEnemySpawn,
+  placeItemSpawn,
+  resizeLevel,
+} from '../levelEditor';
+import { validateLevelMap } from '../level';
+import { validateTriggers } from '../trigger';
+import { LevelMap } from '../types';
+import { vec2 } from '@/engine/vector2';
+
+const sizeArb = fc.integer({ min: 1, max: MAX_EDITOR_SIZE + 10 });
+
+/**
+ * Check that every position in a level lies inside its grid
+ */
+function expectInBounds(level: LevelMap): void {
+  const positions = [
+    level.playerSpawn,
+    level.exitPoint,
+    ...level.enemySpawns.map((spawn) => spawn.position),
+    ...level.items.map((item) => item.position),
+  ];
+  for (const { x, y } of positions) {
+    expect(x).toBeGreaterThanOrEqual(0);
+    expect(y).toBeGreaterThanOrEqual(0);
+    expect(x).toBeLessThan(level.width);
+    expect(y).toBeLessThan(level.height);
+  }
+}
+
+/**
+ * Check that every trigger region and action lies inside a level's grid
+ */
+function expectTriggersInBounds(level: LevelMap): void {
+  const triggers = level.triggers ?? [];
+  expect(validateTriggers(triggers, level.width, level.height)).toEqual([]);
+  for (const { condition } of triggers) {
+    if ((condition.type === 'enter' || condition.type === 'exit') && condition.region.shape === 'rect') {
+      expect(condition.region.width).toBeGreaterThan(0);
+      expect(condition.region.height).toBeGreaterThan(0);
+      expect(condition.region.x + condition.region.width).toBeLessThanOrEqual(level.width);
+      expect(condition.region.y + condition.region.height).toBeLessThanOrEqual(level.height);
+    }
+  }
+}
+
+/**
+ * Blank level with triggers reaching into every corner of the grid
+ */
+function createTriggeredLevel(): LevelMap {
+  return {
+    ...createBlankLevel(16, 16),
+    triggers: [
+      {
+        id: 'far-corner',
+        condition: { type: 'enter', region: { shape: 'rect', x: 6, y: 9, width: 8, height: 5 } },
+        actions: [
+          { type: 'setTile', x: 14, y: 14, tile: 2 },
+          { type: 'spawnEnemy', position: vec2(4.5, 12.5), enemyType: 'zombie' },
+          { type: 'message', text: 'Behind you' },
+        ],
+      },
+      {
+        id: 'east-room',
+        condition: { type: 'exit', region: { shape: 'radius', center: vec2(12.5, 3.5), radius: 2 } },
+        actions: [{ type: 'setTile', x: 2, y: 2, tile: 1 }],
+      },
+      { id: 'cleared', condition: { type: 'enemiesDead' }, actions: [{ type: 'setTile', x: 9, y: 1, tile: 0 }] },
+    ],
+  };
+}
+
+describe('Level Editor Property Tests', () => {
+  it('creates blank levels that pass validation', () => {
+    expect(validateLevelMap(createBlankLevel(16, 16))).toEqual({ valid: true, errors: [] });
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 9: Editor Edits Keep Levels Well-Formed**
+   *
+   * For any sequence of sizes, the resized grid matches the clamped
+   * dimensions and nothing is left outside it: triggers are cut to the new
+   * edge and dropped once their region falls off the grid.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 9: resizing keeps the grid, spawns and triggers in bounds', () => {
+    fc.assert(
+      fc.property(fc.array(fc.tuple(sizeArb, sizeArb), { minLength: 1, maxLength: 5 }), (sizes) => {
+        let level = placeItemSpawn(
+          placeEnemySpawn(createTriggeredLevel(), 10, 12, 'zombie'),
+          14,
+          3,
+          { itemType: 'health', value: 25 }
+        );
+        for (const [width, height] of sizes) {
+          level = resizeLevel(level, width, height);
+          expect(level.width).toBeGreaterThanOrEqual(MIN_EDITOR_SIZE);
+          expect(level.width).toBeLessThanOrEqual(MAX_EDITOR_SIZE);
+          expect(level.grid).toHaveLength(level.height);
+          level.grid.forEach((row) => expect(row).toHaveLength(level.width));
+          expectInBounds(level);
+          expectTriggersInBounds(level);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('clips trigger regions and drops what falls off a shrunk level', () => {
+    const level = resizeLevel(createTriggeredLevel(), 10, 10);
+    expect(level.triggers).toEqual([
+      {
+        id: 'far-corner',
+        condition: { type: 'enter', region: { shape: 'rect', x: 6, y: 9, width: 4, height: 1 } },
+        actions: [{ type: 'message', text: 'Behind you' }],
+      },
+      { id: 'cleared', condition: { type: 'enemiesDead' }, actions: [{ type: 'setTile', x: 9, y: 1, tile: 0 }] },
+    ]);
+    expect(resizeLevel(createBlankLevel(16, 16), 10, 10)).not.toHaveProperty('triggers');
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 9: Editor Edits Keep Levels Well-Formed**
+   *
+   * For any cell, placing a spawn replaces whatever already spawned there.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 9: a cell holds at most one enemy or item', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 14 }), fc.integer({ min: 1, max: 14 }), (x, y) => {
+        const level = placeItemSpawn(
+          placeEnemySpawn(createBlankLevel(16, 16), x, y, 'ghost'),
+          x,
+          y,
+          { itemType: 'ammo', value: 10 }
+        );
+        expect(level.enemySpawns).toHaveLength(0);
+        expect(level.items).toEqual([{ itemType: 'ammo', value: 10, position: { x: x + 0.5, y: y + 0.5 } }]);
+      })
+    );
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Shared level fixtures for the game property tests
+ */
+
+import * as fc from 'fast-check';
+import { LevelMap } from '../types';
+import { vec2 } from '@/engine/vector2';
+
+/**
+ * Build a bordered level from a seeded list of interior wall cells
+ */
+export function createLevel(width: number, height: number, walls: boolean[]): LevelMap {
+  const grid: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      const border = x === 0 || x === width - 1 || y === 0 || y === height - 1;
+      row.push(border || walls[(y * width + x) % walls.length] ? 1 : 0);
+    }
+    grid.push(row);
+  }
+
+  // Keep the spawn and exit corners open
+  grid[1][1] = 0;
+  grid[height - 2][width - 2] = 0;
+
+  return {
+    width,
+    height,
+    grid,
+    playerSpawn: vec2(1.5, 1.5),
+    enemySpawns: [],
+    items: [],
+    exitPoint: vec2(width - 1.5, height - 1.5),
+  };
+}
+
+/**
+ * Arbitrary for small levels with scattered walls
+ */
+export const levelArb = fc
+  .record({
+    width: fc.integer({ min: 5, max: 16 }),
+    height: fc.integer({ min: 5, max: 16 }),
+    walls: fc.array(fc.boolean(), { minLength: 7, maxLength: 40 }),
+  })
+  .map(({ width, height, walls }) => createLevel(width, height, walls));
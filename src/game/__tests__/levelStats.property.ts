@@ -0,0 +1,143 @@
+/**
+ * Property-based tests for level statistics
+ *
+ * **Feature: frankenkiro-game, Property 13: Level Statistics Stay Within Their Totals**
+ *
+ * Tests that the statistics tracked while playing never exceed their totals,
+ * that best results only ever improve, and that stored best results
+ * round-trip and shrug off bad data.
+ *
+ * **Validates: Requirements 4.1, 8.2**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  deserializeBestResults,
+  getBestResultKey,
+  mergeBestResult,
+  recordBestResult,
+  serializeBestResults,
+  summarizeLevel,
+} from '../levelStats';
+import { createNewGame, stepGame } from '../simulation';
+import { createBlankLevel } from '../levelEditor';
+import { createCampaignFromLevels } from '../campaign';
+import { DEFAULT_CAMPAIGN } from '../levels';
+import { LevelSummary } from '../types';
+import { GameAction } from '@/input/types';
+import { vec2 } from '@/engine/vector2';
+
+const ACTIONS: GameAction[] = ['moveForward', 'turnLeft', 'turnRight', 'fire', 'interact'];
+
+/**
+ * Arbitrary for a level summary
+ */
+const summaryArb: fc.Arbitrary<LevelSummary> = fc
+  .record({
+    totalKills: fc.integer({ min: 0, max: 20 }),
+    totalItems: fc.integer({ min: 0, max: 20 }),
+    totalSecrets: fc.integer({ min: 0, max: 5 }),
+    shotsFired: fc.integer({ min: 0, max: 200 }),
+    accuracy: fc.double({ min: 0, max: 1, noNaN: true }),
+    damageTaken: fc.integer({ min: 0, max: 500 }),
+    time: fc.double({ min: 0, max: 600, noNaN: true }),
+  })
+  .chain((totals) =>
+    fc.record({
+      kills: fc.integer({ min: 0, max: totals.totalKills }),
+      items: fc.integer({ min: 0, max: totals.totalItems }),
+      secrets: fc.integer({ min: 0, max: totals.totalSecrets }),
+    }).map((counts) => ({ levelId: 'lab', parTime: 90, ...totals, ...counts }))
+  );
+
+describe('Level Statistics Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 13: Level Statistics Stay Within Their Totals**
+   *
+   * For any input sequence, the running level summary never counts more
+   * kills, items or secrets than the level has, and accuracy stays a fraction.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 13: summaries never exceed their totals', () => {
+    const [entry] = DEFAULT_CAMPAIGN.levels;
+    fc.assert(
+      fc.property(fc.array(fc.subarray(ACTIONS), { minLength: 1, maxLength: 60 }), (sequence) => {
+        let state = createNewGame(7, DEFAULT_CAMPAIGN);
+        for (const actions of sequence) {
+          state = stepGame(state, { activeActions: new Set(actions), mousePosition: vec2(0, 0) }, 1 / 30).state;
+          const summary = summarizeLevel(state, entry);
+          expect(summary.kills).toBeLessThanOrEqual(summary.totalKills);
+          expect(summary.items).toBeLessThanOrEqual(summary.totalItems);
+          expect(summary.secrets).toBeLessThanOrEqual(summary.totalSecrets);
+          expect(state.levelStats.shotsHit).toBeLessThanOrEqual(state.levelStats.shotsFired);
+          expect(summary.accuracy).toBeGreaterThanOrEqual(0);
+          expect(summary.accuracy).toBeLessThanOrEqual(1);
+          expect(summary.time).toBeCloseTo(state.elapsedTime);
+        }
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 13: Level Statistics Stay Within Their Totals**
+   *
+   * For any runs of a level, merging a run into the best result never makes
+   * any stat worse.
+   *
+   * **Validates: Requirements 8.2**
+   */
+  it('Property 13: best results only improve', () => {
+    fc.assert(
+      fc.property(fc.array(summaryArb, { minLength: 1, maxLength: 10 }), (runs) => {
+        let best: LevelSummary | undefined;
+        for (const run of runs) {
+          const merged = mergeBestResult(best, run);
+          const previous = best ?? run;
+          expect(merged.kills).toBeGreaterThanOrEqual(Math.max(previous.kills, run.kills));
+          expect(merged.items).toBeGreaterThanOrEqual(Math.max(previous.items, run.items));
+          expect(merged.secrets).toBeGreaterThanOrEqual(Math.max(previous.secrets, run.secrets));
+          expect(merged.accuracy).toBeGreaterThanOrEqual(Math.max(previous.accuracy, run.accuracy));
+          expect(merged.damageTaken).toBeLessThanOrEqual(Math.min(previous.damageTaken, run.damageTaken));
+          expect(merged.time).toBeLessThanOrEqual(Math.min(previous.time, run.time));
+          best = merged;
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('reports the summary of a level when the player reaches its exit', () => {
+    const level = { ...createBlankLevel(8, 8), exitPoint: vec2(6.5, 6.5) };
+    const campaign = createCampaignFromLevels('test', 'Test', [level, level]);
+    const start = createNewGame(1, campaign);
+    const atExit = { ...start, elapsedTime: 12, player: { ...start.player, position: vec2(6.5, 6.5) } };
+    const idle = { activeActions: new Set<never>(), mousePosition: vec2(0, 0) };
+
+    const { state, events } = stepGame(atExit, idle, 0.5, { campaign });
+    const complete = events.find((event) => event.type === 'levelComplete');
+    expect(complete).toEqual({
+      type: 'levelComplete',
+      levelIndex: 0,
+      summary: expect.objectContaining({ levelId: 'level_1', time: 12.5, parTime: campaign.levels[0].parTime }),
+    });
+    expect(state.currentLevel).toBe(1);
+    expect(state.levelStats).toEqual({ startTime: 12.5, shotsFired: 0, shotsHit: 0, damageTaken: 0 });
+  });
+
+  it('round-trips best results and drops invalid entries', () => {
+    fc.assert(
+      fc.property(summaryArb, (summary) => {
+        const results = recordBestResult({}, 'main', summary);
+        expect(deserializeBestResults(serializeBestResults(results))).toEqual(results);
+        expect(results[getBestResultKey('main', 'lab')]).toEqual(summary);
+      }),
+      { numRuns: 50 }
+    );
+    expect(deserializeBestResults('not json')).toEqual({});
+    expect(deserializeBestResults(null)).toEqual({});
+    expect(deserializeBestResults(JSON.stringify({ 'main:lab': { levelId: 'lab', kills: -1 } }))).toEqual({});
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Property-based tests for grid pathfinding
+ *
+ * **Feature: frankenkiro-game, Property 4: Paths Stay Walkable and Agree With the Flow Field**
+ *
+ * Tests that A* paths only step between adjacent walkable cells without cutting
+ * wall corners, that their cost matches the flow field distance, and that
+ * following the flow field always reaches the target.
+ *
+ * **Validates: Requirements 4.1**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  createFlowField,
+  findPath,
+  getFlowDistance,
+  getFlowDirection,
+  isWalkable,
+  toGridCell,
+  cellCenter,
+} from '../pathfinding';
+import { createLevel, levelArb } from './levelFixtures';
+import { vec2 } from '@/engine/vector2';
+import { Vector2 } from '@/engine/types';
+
+describe('Pathfinding Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 4: Paths Stay Walkable and Agree With the Flow Field**
+   *
+   * For any level, every step of an A* path is a walkable neighbour of the
+   * previous cell, diagonal steps never cut wall corners, and the path cost
+   * equals the flow field distance from the start.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 4: A* paths are walkable and as short as the flow field distance', () => {
+    fc.assert(
+      fc.property(levelArb, (level) => {
+        const start = vec2(1.5, 1.5);
+        const goal = vec2(level.width - 1.5, level.height - 1.5);
+        const field = createFlowField(level, goal);
+        const path = findPath(level, start, goal);
+
+        if (getFlowDistance(field, start) === Infinity) {
+          expect(path).toBeNull();
+          return;
+        }
+
+        expect(path).not.toBeNull();
+        let previous = toGridCell(start);
+        let cost = 0;
+        for (const waypoint of path!) {
+          const cell = toGridCell(waypoint);
+          const dx = cell.x - previous.x;
+          const dy = cell.y - previous.y;
+
+          expect(Math.max(Math.abs(dx), Math.abs(dy))).toBe(1);
+          expect(isWalkable(cell.x, cell.y, level)).toBe(true);
+          if (dx !== 0 && dy !== 0) {
+            expect(isWalkable(previous.x + dx, previous.y, level)).toBe(true);
+            expect(isWalkable(previous.x, previous.y + dy, level)).toBe(true);
+          }
+
+          cost += dx !== 0 && dy !== 0 ? Math.SQRT2 : 1;
+          previous = cell;
+        }
+
+        expect(previous).toEqual(toGridCell(goal));
+        expect(cost).toBeCloseTo(getFlowDistance(field, start), 6);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 4: Paths Stay Walkable and Agree With the Flow Field**
+   *
+   * For any reachable start cell, repeatedly stepping along the flow direction
+   * strictly decreases the distance and arrives at the target cell.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 4: following the flow field reaches the target', () => {
+    fc.assert(
+      fc.property(levelArb, (level) => {
+        const target = vec2(1.5, 1.5);
+        const field = createFlowField(level, target);
+        let position: Vector2 = vec2(level.width - 1.5, level.height - 1.5);
+
+        if (getFlowDistance(field, position) === Infinity) {
+          expect(getFlowDirection(field, position)).toBeNull();
+          return;
+        }
+
+        for (let step = 0; step < level.width * level.height; step++) {
+          const direction = getFlowDirection(field, position);
+          if (!direction) {
+            break;
+          }
+          const before = getFlowDistance(field, position);
+          const cell = toGridCell(position);
+          position = cellCenter({
+            x: cell.x + Math.round(direction.x),
+            y: cell.y + Math.round(direction.y),
+          });
+          expect(getFlowDistance(field, position)).toBeLessThan(before);
+        }
+
+        expect(toGridCell(position)).toEqual(toGridCell(target));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('returns null when the goal is inside a wall', () => {
+    const level = createLevel(6, 6, [false]);
+    expect(findPath(level, vec2(1.5, 1.5), vec2(0.5, 0.5))).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Property-based tests for projectiles
+ *
+ * **Feature: frankenkiro-game, Property 23: Projectiles Stop at the First Thing They Hit**
+ *
+ * Tests that projectiles fly until a wall, the player or an enemy stops
+ * them, that only the side they were not fired by can be hurt, and that
+ * splash damage reaches every enemy near the impact.
+ *
+ * **Validates: Requirements 3.2, 3.3, 4.2**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { PLAYER_HIT_RADIUS, createProjectile, updateProjectiles } from '../projectile';
+import { createEnemy } from '../enemy';
+import { createPlayer } from '../player';
+import { createEmptyLevelMap } from '../level';
+import { Enemy, ProjectileOwner } from '../types';
+import { CollisionSystem } from '@/engine/collision';
+import { add, distance, multiply, vec2 } from '@/engine/vector2';
+
+/**
+ * Open 20x5 corridor with a wall across column 15
+ */
+const emptyLevel = createEmptyLevelMap(20, 5);
+const level = {
+  ...emptyLevel,
+  grid: emptyLevel.grid.map((row, y) =>
+    row.map((_, x) => (x === 0 || y === 0 || x === 19 || y === 4 || x === 15 ? 1 : 0))
+  ),
+};
+const collision = new CollisionSystem(level);
+
+/**
+ * Player far from the corridor's line of fire
+ */
+const bystander = createPlayer(vec2(1.5, 3.5), 0);
+
+/**
+ * Fire a projectile east along y = 2.5 and advance it until it stops
+ * @returns The last update and the point where the projectile stopped
+ */
+function flyEast(
+  startX: number,
+  owner: ProjectileOwner,
+  enemies: Enemy[],
+  splashRadius: number = 0,
+  player = bystander
+) {
+  let projectiles = [
+    createProjectile('p', vec2(startX, 2.5), vec2(1, 0), {
+      owner,
+      damage: 20,
+      speed: 5,
+      spriteId: 'projectile_bone',
+      splashRadius,
+    }),
+  ];
+  for (let tick = 0; tick < 300; tick++) {
+    const [inFlight] = projectiles;
+    const result = updateProjectiles(projectiles, collision, player, enemies, 1 / 60);
+    projectiles = result.projectiles;
+    if (projectiles.length === 0) {
+      return { ...result, impact: add(inFlight.position, multiply(inFlight.velocity, 1 / 60)) };
+    }
+  }
+  throw new Error('Projectile never stopped');
+}
+
+describe('Projectile Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 23: Projectiles Stop at the First Thing They Hit**
+   *
+   * For any starting point and either owner, a projectile with nothing in
+   * its way flies on until it is inside the wall and stops there, hurting
+   * no one.
+   *
+   * **Validates: Requirements 3.2, 4.2**
+   */
+  it('Property 23: walls stop projectiles', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 1.5, max: 14, noNaN: true }),
+        fc.constantFrom<ProjectileOwner>('player', 'enemy'),
+        (startX, owner) => {
+          const result = flyEast(startX, owner, []);
+          expect(Math.floor(result.impact.x)).toBe(15);
+          expect(result.damageToPlayer).toBe(0);
+          expect(result.enemyHits).toEqual([]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 23: Projectiles Stop at the First Thing They Hit**
+   *
+   * For any enemy position along the line of fire, a player projectile
+   * stops at the enemy and damages it once, while an enemy projectile
+   * passes through it and flies on to the wall.
+   *
+   * **Validates: Requirements 3.2**
+   */
+  it('Property 23: player projectiles hit enemies, enemy projectiles pass them', () => {
+    fc.assert(
+      fc.property(fc.double({ min: 4, max: 13, noNaN: true }), (enemyX) => {
+        const enemy = createEnemy('target', vec2(enemyX, 2.5), 'zombie');
+
+        const fromPlayer = flyEast(2, 'player', [enemy]);
+        expect(fromPlayer.enemyHits).toEqual([{ projectileId: 'p', enemyId: 'target', damage: 20 }]);
+        expect(distance(fromPlayer.impact, enemy.position)).toBeLessThan(enemy.radius + 0.1);
+
+        const fromEnemy = flyEast(2, 'enemy', [enemy]);
+        expect(fromEnemy.enemyHits).toEqual([]);
+        expect(Math.floor(fromEnemy.impact.x)).toBe(15);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 23: Projectiles Stop at the First Thing They Hit**
+   *
+   * For any player position along the line of fire, an enemy projectile
+   * stops at the player and deals its damage.
+   *
+   * **Validates: Requirements 4.2**
+   */
+  it('Property 23: enemy projectiles hit the player', () => {
+    fc.assert(
+      fc.property(fc.double({ min: 4, max: 13, noNaN: true }), (playerX) => {
+        const player = createPlayer(vec2(playerX, 2.5), Math.PI);
+        const result = flyEast(2, 'enemy', [], 0, player);
+        expect(result.damageToPlayer).toBe(20);
+        expect(distance(result.impact, player.position)).toBeLessThan(PLAYER_HIT_RADIUS + 0.1);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 23: Projectiles Stop at the First Thing They Hit**
+   *
+   * For any enemies around the wall, a splashing player projectile that
+   * hits the wall damages exactly the enemies whose edge is within the
+   * splash radius of the impact.
+   *
+   * **Validates: Requirements 3.3**
+   */
+  it('Property 23: splash damages every enemy near the impact', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            x: fc.double({ min: 12, max: 14.9, noNaN: true }),
+            y: fc.constantFrom(1.5, 3.5),
+          }),
+          { minLength: 1, maxLength: 5 }
+        ),
+        (positions) => {
+          const enemies = positions.map((p, i) => createEnemy(`enemy_${i}`, vec2(p.x, p.y), 'zombie'));
+          const result = flyEast(2, 'player', enemies, 1.5);
+          const { impact } = result;
+          expect(Math.floor(impact.x)).toBe(15);
+
+          const expected = enemies
+            .filter((enemy) => distance(enemy.position, impact) <= 1.5 + enemy.radius)
+            .map((enemy) => enemy.id);
+          expect(result.enemyHits.map((hit) => hit.enemyId)).toEqual(expected);
+          expect(result.enemyHits.every((hit) => hit.damage === 20)).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('expires projectiles at the end of their lifetime without hitting anything', () => {
+    const projectile = createProjectile('p', vec2(2, 2.5), vec2(1, 0), {
+      owner: 'enemy',
+      damage: 20,
+      speed: 1,
+      spriteId: 'projectile_bone',
+      lifetime: 0.5,
+    });
+    const flying = updateProjectiles([projectile], collision, bystander, [], 0.4);
+    expect(flying.projectiles).toHaveLength(1);
+    const expired = updateProjectiles(flying.projectiles, collision, bystander, [], 0.2);
+    expect(expired).toEqual({ projectiles: [], damageToPlayer: 0, enemyHits: [] });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Property-based tests for secret push-walls
+ *
+ * **Feature: frankenkiro-game, Property 12: Push-Walls Slide a Whole Number of Tiles**
+ *
+ * Tests that a pushed secret wall always comes to rest exactly its travel
+ * distance away, that it blocks the tiles it passes through, that it never
+ * slides into anyone standing in its path, that secret areas count once,
+ * and that both survive saving and loading.
+ *
+ * **Validates: Requirements 4.1, 8.2**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import {
+  PUSH_WALL_DISTANCE,
+  findNewSecrets,
+  getPushWallCells,
+  initializePushWalls,
+  pushFacingWall,
+  updatePushWalls,
+} from '../pushWall';
+import { createBlankLevel } from '../levelEditor';
+import { isTileOccupied, setTile, validateLevelMap } from '../level';
+import { createPlayer } from '../player';
+import { createEnemy } from '../enemy';
+import { createNewGame, createLevelState, stepGame } from '../simulation';
+import { applySaveData, deserializeSaveData, serialize } from '../gameStateManager';
+import { createCampaignFromLevels } from '../campaign';
+import { LevelMap } from '../types';
+import { isWall } from '@/engine/collision';
+import { castRay } from '@/engine/raycast';
+import { vec2 } from '@/engine/vector2';
+
+/**
+ * Open 12x12 level with a secret wall at (5, 5) and a secret area behind it
+ * An optional blocking wall limits how far the secret wall can slide east
+ */
+function createSecretLevel(blockerX?: number): LevelMap {
+  let level = setTile(createBlankLevel(12, 12), 5, 5, 2);
+  if (blockerX !== undefined) {
+    level = setTile(level, blockerX, 5, 3);
+  }
+  return {
+    ...level,
+    secretWalls: [{ x: 5, y: 5 }],
+    secrets: [{ x: 6, y: 4, width: 3, height: 3 }],
+  };
+}
+
+describe('Push-Wall Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 12: Push-Walls Slide a Whole Number of Tiles**
+   *
+   * For any slide speed split into any steps, a wall pushed east stops
+   * exactly at the first obstacle or PUSH_WALL_DISTANCE tiles away, and the
+   * tiles it overlaps are solid while it moves.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 12: pushed walls come to rest a whole number of tiles away', () => {
+    fc.assert(
+      fc.property(
+        fc.option(fc.integer({ min: 6, max: 9 }), { nil: undefined }),
+        fc.array(fc.double({ min: 0.01, max: 0.5, noNaN: true }), { minLength: 1, maxLength: 60 }),
+        (blockerX, steps) => {
+          const expected = blockerX === undefined ? PUSH_WALL_DISTANCE : Math.min(PUSH_WALL_DISTANCE, blockerX - 6);
+          const player = createPlayer(vec2(4.5, 5.5), 0);
+          const push = pushFacingWall(player, initializePushWalls(createSecretLevel(blockerX)));
+          expect(push.pushed).toBe(expected > 0);
+          if (!push.pushed) {
+            return;
+          }
+
+          let level = push.level;
+          for (const deltaTime of [...steps, expected]) {
+            const [pushWall] = level.pushWalls!;
+            if (pushWall.state === 'moving') {
+              for (const cell of getPushWallCells(pushWall)) {
+                expect(isWall(cell.x + 0.5, cell.y + 0.5, level)).toBe(true);
+              }
+            }
+            level = updatePushWalls(level, deltaTime);
+          }
+
+          const [pushWall] = level.pushWalls!;
+          expect(pushWall.state).toBe('done');
+          expect(pushWall.offset).toBe(expected);
+          expect(level.grid[5][5 + expected]).toBe(2);
+          for (let x = 5; x < 5 + expected; x++) {
+            expect(level.grid[5][x]).toBe(0);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 27: Push-Walls Never Crush Occupants**
+   *
+   * For any enemy standing in or wandering into a wall's slide path, the
+   * wall stops short of the enemy's tile when pushed, holds still while the
+   * enemy is in the next tile, and never overlaps or comes to rest on it.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 27: pushed walls never slide into an occupant', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 5.7, max: 8.3, noNaN: true }),
+        fc.boolean(),
+        fc.array(fc.double({ min: 0.01, max: 0.5, noNaN: true }), { minLength: 1, maxLength: 60 }),
+        (enemyX, presentAtPush, steps) => {
+          const enemy = createEnemy('blocker', vec2(enemyX, 5.5), 'zombie');
+          const player = createPlayer(vec2(4.5, 5.5), 0);
+          const push = pushFacingWall(player, initializePushWalls(createSecretLevel()), presentAtPush ? [enemy] : []);
+          if (presentAtPush) {
+            const clear = Array.from({ length: PUSH_WALL_DISTANCE }, (_, i) => 6 + i).findIndex((x) =>
+              isTileOccupied(x, 5, [enemy])
+            );
+            expect(push.pushWall?.distance ?? 0).toBe(clear === -1 ? PUSH_WALL_DISTANCE : clear);
+          }
+          if (!push.pushed) {
+            return;
+          }
+
+          let level = push.level;
+          for (const deltaTime of steps) {
+            level = updatePushWalls(level, deltaTime, [enemy]);
+            const [pushWall] = level.pushWalls!;
+            if (pushWall.state === 'moving') {
+              for (const cell of getPushWallCells(pushWall)) {
+                if (cell.x !== 5) {
+                  expect(isTileOccupied(cell.x, cell.y, [enemy])).toBe(false);
+                }
+              }
+            }
+          }
+          level.grid.forEach((row, y) =>
+            row.forEach((tile, x) => {
+              if (x !== 5 || y !== 5) {
+                expect(tile === 0 || !isTileOccupied(x, y, [enemy])).toBe(true);
+              }
+            })
+          );
+
+          // Once the enemy moves on the wall finishes its slide
+          level = updatePushWalls(level, PUSH_WALL_DISTANCE);
+          expect(level.pushWalls![0].state).toBe('done');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 12: Push-Walls Slide a Whole Number of Tiles**
+   *
+   * For any walk, each secret area is counted the first time the player
+   * steps into it and never again.
+   *
+   * **Validates: Requirements 4.1**
+   */
+  it('Property 12: secret areas are found at most once', () => {
+    const level = createSecretLevel();
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({ x: fc.double({ min: 1, max: 11, noNaN: true }), y: fc.double({ min: 1, max: 11, noNaN: true }) }),
+          { maxLength: 40 }
+        ),
+        (walk) => {
+          let found: number[] = [];
+          for (const position of walk) {
+            found = [...found, ...findNewSecrets(position, level, found)];
+          }
+          const entered = walk.some(
+            (position) => position.x >= 6 && position.x < 9 && position.y >= 4 && position.y < 7
+          );
+          expect(found).toEqual(entered ? [0] : []);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('draws a sliding wall where it currently is', () => {
+    const player = createPlayer(vec2(2.5, 5.5), 0);
+    const { level } = pushFacingWall({ ...player, position: vec2(4.5, 5.5) }, initializePushWalls(createSecretLevel()));
+    const halfway = updatePushWalls(level, 0.5);
+    const ray = castRay(player.position, 0, halfway);
+    expect(ray.wallType).toBe(2);
+    expect(ray.distance).toBeCloseTo(3);
+    expect(ray.side).toBe('vertical');
+  });
+
+  it('pushes secret walls in the simulation and keeps them across save and load', () => {
+    const level = createSecretLevel();
+    const campaign = createCampaignFromLevels('test', 'Test', [level]);
+    const start = createNewGame(1, campaign);
+    const facing = { ...start, player: { ...start.player, position: vec2(4.5, 5.5), rotation: 0 } };
+    const idle = { activeActions: new Set<never>(), mousePosition: vec2(0, 0) };
+    const interact = { activeActions: new Set(['interact' as const]), mousePosition: vec2(0, 0) };
+
+    const pushed = stepGame(facing, interact, 1 / 60, { campaign });
+    expect(pushed.events).toContainEqual({ type: 'pushWallMoved', x: 5, y: 5 });
+
+    let state = pushed.state;
+    for (let i = 0; i < 180; i++) {
+      state = stepGame(state, idle, 1 / 60, { campaign }).state;
+    }
+    expect(state.levelMap.pushWalls?.[0].state).toBe('done');
+
+    const inside = { ...state, player: { ...state.player, position: vec2(6.5, 5.5) } };
+    const { state: found, events } = stepGame(inside, idle, 1 / 60, { campaign });
+    expect(events).toContainEqual({ type: 'secretFound', found: 1, total: 1 });
+    expect(found.foundSecrets).toEqual([0]);
+
+    const saved = deserializeSaveData(serialize(found));
+    expect(saved.success).toBe(true);
+    const restored = applySaveData(saved.saveData!, createLevelState(0, campaign));
+    expect(restored.levelMap.grid).toEqual(found.levelMap.grid);
+    expect(restored.levelMap.pushWalls).toEqual(found.levelMap.pushWalls);
+    expect(restored.foundSecrets).toEqual([0]);
+  });
+
+  it('rejects secret walls that are not plain walls', () => {
+    const level: LevelMap = {
+      ...createBlankLevel(8, 8),
+      secretWalls: [{ x: 3, y: 3 }],
+      secrets: [{ x: 6, y: 6, width: 4, height: 1 }],
+    };
+    expect(validateLevelMap(level).errors).toEqual([
+      'secrets[0] must be a tile rectangle within level bounds',
+    ]);
+    expect(validateLevelMap({ ...level, secrets: [] }).errors).toEqual([
+      'secretWalls[0] at tile (3, 3) is not a plain wall',
+    ]);
+  });
+});
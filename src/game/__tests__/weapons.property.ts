@@ -0,0 +1,187 @@
+/**
+ * Property-based tests for the weapon arsenal
+ *
+ * **Feature: frankenkiro-game, Property 21: Weapons Switch, Cycle and Fire From Their Own Ammo**
+ *
+ * Tests that only owned weapons can be equipped, that cycling visits the
+ * owned weapons in slot order, that a shot starts the weapon's cooldown and
+ * that each weapon draws on and is refilled from its own ammunition pool.
+ *
+ * **Validates: Requirements 3.1, 3.4, 3.5**
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fc from 'fast-check';
+import { WEAPON_ORDER, getFireInterval } from '../weapons';
+import {
+  addAmmunition,
+  canFire,
+  createPlayer,
+  cycleWeapon,
+  fire,
+  getCurrentAmmo,
+  giveWeapon,
+  switchWeapon,
+  updateWeaponCooldown,
+} from '../player';
+import { Player, WeaponId } from '../types';
+import { createInputHandler } from '@/input/inputHandler';
+import { GameAction } from '@/input/types';
+
+const weaponIdArb = fc.constantFrom(...WEAPON_ORDER);
+
+/**
+ * Player owning the pistol plus the given weapons, each with some ammunition
+ */
+function createArmedPlayer(weapons: WeaponId[]): Player {
+  return weapons.reduce((player, id) => giveWeapon(player, id, 10), createPlayer());
+}
+
+describe('Weapon Property Tests', () => {
+  /**
+   * **Feature: frankenkiro-game, Property 21: Weapons Switch, Cycle and Fire From Their Own Ammo**
+   *
+   * For any set of owned weapons and any weapon to switch to, the switch
+   * succeeds exactly when the weapon is owned.
+   *
+   * **Validates: Requirements 3.4**
+   */
+  it('Property 21: only owned weapons can be equipped', () => {
+    fc.assert(
+      fc.property(fc.subarray([...WEAPON_ORDER]), weaponIdArb, (owned, target) => {
+        const player = switchWeapon(createArmedPlayer(owned), 'pistol');
+        const switched = switchWeapon(player, target);
+        expect(switched.currentWeapon.id).toBe(player.weapons.includes(target) ? target : 'pistol');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 21: Weapons Switch, Cycle and Fire From Their Own Ammo**
+   *
+   * For any set of owned weapons, cycling forward visits them in slot order,
+   * skipping the ones not owned, and wraps back to the start; cycling back
+   * undoes each step.
+   *
+   * **Validates: Requirements 3.4**
+   */
+  it('Property 21: cycling visits owned weapons in slot order', () => {
+    fc.assert(
+      fc.property(fc.subarray([...WEAPON_ORDER]), (extra) => {
+        let player = switchWeapon(createArmedPlayer(extra), 'pistol');
+        const owned = WEAPON_ORDER.filter((id) => player.weapons.includes(id));
+        for (let i = 1; i <= owned.length; i++) {
+          const next = cycleWeapon(player, 1);
+          expect(next.currentWeapon.id).toBe(owned[i % owned.length]);
+          expect(cycleWeapon(next, -1).currentWeapon.id).toBe(player.currentWeapon.id);
+          player = next;
+        }
+        expect(player.currentWeapon.id).toBe('pistol');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 21: Weapons Switch, Cycle and Fire From Their Own Ammo**
+   *
+   * For any weapon and split of time into steps, a shot blocks the next
+   * one until the weapon's fire interval has passed.
+   *
+   * **Validates: Requirements 3.1**
+   */
+  it('Property 21: a shot starts the weapon fire cooldown', () => {
+    fc.assert(
+      fc.property(
+        weaponIdArb,
+        fc.array(fc.double({ min: 0.001, max: 0.2, noNaN: true }), { minLength: 1, maxLength: 40 }),
+        (weaponId, steps) => {
+          const { success, player: fired } = fire(createArmedPlayer([weaponId]));
+          expect(success).toBe(true);
+
+          const interval = getFireInterval(fired.currentWeapon);
+          expect(fired.weaponCooldown).toBe(interval);
+
+          let player = fired;
+          let elapsed = 0;
+          for (const deltaTime of steps) {
+            player = updateWeaponCooldown(player, deltaTime);
+            elapsed += deltaTime;
+            expect(player.weaponCooldown).toBeCloseTo(Math.max(0, interval - elapsed));
+            expect(canFire(player)).toBe(player.weaponCooldown <= 0);
+            expect(fire(player).success).toBe(canFire(player));
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: frankenkiro-game, Property 21: Weapons Switch, Cycle and Fire From Their Own Ammo**
+   *
+   * For any equipped weapon and any ammunition pickup, firing spends only
+   * that weapon's ammunition and pickups fill only their own pool, up to
+   * its maximum.
+   *
+   * **Validates: Requirements 3.5**
+   */
+  it('Property 21: each weapon has its own ammunition pool', () => {
+    fc.assert(
+      fc.property(weaponIdArb, weaponIdArb, fc.integer({ min: 0, max: 300 }), (equipped, pickup, amount) => {
+        const player = createArmedPlayer([...WEAPON_ORDER]);
+        const armed = switchWeapon(player, equipped);
+        const { player: fired } = fire(armed);
+        for (const id of WEAPON_ORDER) {
+          const spent = id === equipped ? armed.currentWeapon.ammoCost : 0;
+          expect(fired.stats.ammo[id]).toBe(armed.stats.ammo[id] - spent);
+        }
+        expect(getCurrentAmmo(fired)).toBe(fired.stats.ammo[equipped]);
+
+        const refilled = addAmmunition(fired, amount, pickup);
+        for (const id of WEAPON_ORDER) {
+          const expected = id === pickup
+            ? Math.min(fired.stats.maxAmmo[id], fired.stats.ammo[id] + amount)
+            : fired.stats.ammo[id];
+          expect(refilled.stats.ammo[id]).toBe(expected);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('cannot fire a weapon whose pool is empty', () => {
+    const player = switchWeapon(giveWeapon(createPlayer(), 'shotgun', 0), 'shotgun');
+    expect(getCurrentAmmo(player)).toBe(0);
+    expect(fire(player)).toEqual({ success: false, player });
+    expect(fire(switchWeapon(player, 'pistol')).success).toBe(true);
+  });
+
+  it('switches one weapon per wheel notch, even on consecutive reads', () => {
+    const input = createInputHandler();
+    input.initialize();
+    let player = switchWeapon(createArmedPlayer([...WEAPON_ORDER]), 'pistol');
+
+    // Cycle on the frame an action starts, as the game does
+    let held = new Set<GameAction>();
+    const readInput = (reads: number) => {
+      for (let i = 0; i < reads; i++) {
+        const { activeActions } = input.getInputState();
+        if (activeActions.has('nextWeapon') && !held.has('nextWeapon')) player = cycleWeapon(player, 1);
+        if (activeActions.has('previousWeapon') && !held.has('previousWeapon')) player = cycleWeapon(player, -1);
+        held = activeActions;
+      }
+    };
+
+    window.dispatchEvent(new WheelEvent('wheel', { deltaY: 100 }));
+    window.dispatchEvent(new WheelEvent('wheel', { deltaY: 100 }));
+    readInput(6);
+    expect(player.currentWeapon.id).toBe('stitcher');
+
+    window.dispatchEvent(new WheelEvent('wheel', { deltaY: -100 }));
+    readInput(2);
+    expect(player.currentWeapon.id).toBe('shotgun');
+    input.destroy();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Campaign module for FrankenKiro
+ * Handles campaign manifests: level order, per-level metadata, next-level
+ * links and loading campaign packs from JSON
+ */
+
+import { Campaign, CampaignFile, CampaignLevel, LevelMap, LevelTheme } from './types';
+import {
+  LevelManagerState,
+  LevelValidationResult,
+  createLevelManagerState,
+  loadLevelMap,
+} from './level';
+
+/**
+ * Current campaign file format version
+ */
+export const CAMPAIGN_FORMAT_VERSION = 1;
+
+/**
+ * Known level themes
+ */
+export const LEVEL_THEMES: readonly LevelTheme[] = ['lab', 'dungeon', 'tower'];
+
+/**
+ * Par time in seconds for levels that do not set one
+ */
+export const DEFAULT_PAR_TIME = 120;
+
+/**
+ * Check if a value is a known level theme
+ */
+export function isLevelTheme(value: unknown): value is LevelTheme {
+  return LEVEL_THEMES.includes(value as LevelTheme);
+}
+
+/**
+ * Get the index of the level the exit of a level leads to
+ * @param campaign - The campaign being played
+ * @param levelIndex - Index of the level being left
+ * @returns The next level index, or null when the campaign ends there
+ */
+export function getNextLevelIndex(campaign: Campaign, levelIndex: number): number | null {
+  const entry = campaign.levels[levelIndex];
+  if (!entry || entry.next === null) {
+    return null;
+  }
+  if (entry.next === undefined) {
+    return levelIndex + 1 < campaign.levels.length ? levelIndex + 1 : null;
+  }
+  const nextIndex = campaign.levels.findIndex((level) => level.id === entry.next);
+  return nextIndex >= 0 ? nextIndex : null;
+}
+
+/**
+ * Create a level manager positioned on a campaign level
+ * Throws an error for an unknown level index
+ */
+export function createCampaignLevelManager(campaign: Campaign, levelIndex: number): LevelManagerState {
+  const entry = campaign.levels[levelIndex];
+  if (!entry) {
+    throw new Error(`Unknown level index: ${levelIndex}`);
+  }
+  return createLevelManagerState(
+    levelIndex,
+    entry.level,
+    campaign.levels.length,
+    getNextLevelIndex(campaign, levelIndex)
+  );
+}
+
+/**
+ * Wrap plain levels in a campaign played in list order
+ * Used for single levels such as editor playtests
+ */
+export function createCampaignFromLevels(id: string, name: string, levels: LevelMap[]): Campaign {
+  return {
+    id,
+    name,
+    levels: levels.map((level, index) => ({
+      id: `level_${index + 1}`,
+      name: levels.length === 1 ? name : `${name} ${index + 1}`,
+      intro: '',
+      parTime: DEFAULT_PAR_TIME,
+      theme: LEVEL_THEMES[0],
+      level,
+    })),
+  };
+}
+
+/**
+ * Validates the metadata of one campaign level entry
+ */
+function validateCampaignLevel(entry: unknown, index: number, ids: string[]): string[] {
+  if (typeof entry !== 'object' || entry === null) {
+    return [`levels[${index}] must be an object`];
+  }
+  const level = entry as Record<string, unknown>;
+  const label = typeof level.id === 'string' && level.id ? `Level "${level.id}"` : `levels[${index}]`;
+  const errors: string[] = [];
+
+  if (typeof level.id !== 'string' || !level.id) {
+    errors.push(`levels[${index}] must have an id`);
+  } else if (ids.indexOf(level.id) !== index) {
+    errors.push(`${label} is defined more than once`);
+  }
+  if (typeof level.name !== 'string') {
+    errors.push(`${label} must have a name`);
+  }
+  if (typeof level.intro !== 'string') {
+    errors.push(`${label} must have intro text`);
+  }
+  if (typeof level.parTime !== 'number' || !isFinite(level.parTime) || level.parTime <= 0) {
+    errors.push(`${label} must have a positive parTime`);
+  }
+  if (!isLevelTheme(level.theme)) {
+    errors.push(`${label} has unknown theme "${String(level.theme)}"`);
+  }
+  if (level.next !== undefined && level.next !== null && !ids.includes(level.next as string)) {
+    errors.push(`${label} links to unknown level "${String(level.next)}"`);
+  }
+  try {
+    loadLevelMap(level.level);
+  } catch (e) {
+    errors.push(`${label}: ${e instanceof Error ? e.message : 'Invalid level'}`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a campaign structure
+ * Checks every level's metadata and map, that next-level links resolve,
+ * and that following the links from the first level always ends
+ */
+export function validateCampaign(data: unknown): LevelValidationResult {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Campaign must be an object'] };
+  }
+  const campaign = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof campaign.id !== 'string' || !campaign.id) {
+    errors.push('Campaign must have an id');
+  }
+  if (typeof campaign.name !== 'string') {
+    errors.push('Campaign must have a name');
+  }
+  if (!Array.isArray(campaign.levels) || campaign.levels.length === 0) {
+    errors.push('Campaign must have at least one level');
+    return { valid: false, errors };
+  }
+
+  const entries = campaign.levels as unknown[];
+  const ids = entries.map((entry) =>
+    typeof entry === 'object' && entry !== null ? (entry as Record<string, unknown>).id as string : ''
+  );
+  entries.forEach((entry, index) => errors.push(...validateCampaignLevel(entry, index, ids)));
+
+  // Only follow the links once every level is sound
+  if (errors.length === 0) {
+    const visited = new Set<number>();
+    let levelIndex: number | null = 0;
+    while (levelIndex !== null) {
+      if (visited.has(levelIndex)) {
+        errors.push(`Campaign never ends: level "${ids[levelIndex]}" is reached twice`);
+        break;
+      }
+      visited.add(levelIndex);
+      levelIndex = getNextLevelIndex(data as Campaign, levelIndex);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Loads and validates a campaign from data
+ * Accepts a bare campaign or a versioned campaign file
+ * Throws an error if validation fails or the file version is unsupported
+ */
+export function loadCampaign(data: unknown): Campaign {
+  let campaign = data;
+  if (typeof data === 'object' && data !== null && 'version' in data) {
+    const { version, ...rest } = data as CampaignFile;
+    if (version !== CAMPAIGN_FORMAT_VERSION) {
+      throw new Error(`Unsupported campaign format version: ${String(version)}`);
+    }
+    campaign = rest;
+  }
+
+  const validation = validateCampaign(campaign);
+  if (!validation.valid) {
+    throw new Error(`Invalid campaign: ${validation.errors.join(', ')}`);
+  }
+
+  const { levels, ...manifest } = campaign as Campaign;
+  return {
+    ...manifest,
+    levels: levels.map((entry): CampaignLevel => ({ ...entry, level: loadLevelMap(entry.level) })),
+  };
+}
+
+/**
+ * Parse and validate a campaign pack from the JSON campaign file format
+ * Throws an error if the JSON is malformed or the campaign is invalid
+ */
+export function parseCampaignFile(json: string): Campaign {
+  return loadCampaign(JSON.parse(json));
+}
@@ -0,0 +1,407 @@
+/**
+ * Demo module for FrankenKiro
+ * Records play sessions as compact per-tick input logs and replays them
+ * through the simulation. Playback is exact as long as the engine version
+ * that recorded the demo matches the one playing it and the demo is played
+ * in the campaign it was recorded in.
+ */
+
+import { vec2 } from '@/engine/vector2';
+import { GameAction, InputState } from '@/input/types';
+import { Campaign, GameState } from './types';
+import { GameEvent, createNewGame, stepGame } from './simulation';
+import { DEFAULT_CAMPAIGN } from './levels';
+
+/**
+ * Current demo file format version
+ */
+export const DEMO_VERSION = 3;
+
+/**
+ * Version of the simulation rules
+ * Bump whenever a change to stepGame would make existing demos play back differently
+ */
+export const ENGINE_VERSION = 6;
+
+/**
+ * Actions in bit order for the recorded action masks
+ * Only append to this list - reordering breaks existing demos
+ */
+export const DEMO_ACTIONS: readonly GameAction[] = [
+  'moveForward',
+  'moveBackward',
+  'turnLeft',
+  'turnRight',
+  'fire',
+  'interact',
+  'nextWeapon',
+  'previousWeapon',
+  'weapon1',
+  'weapon2',
+  'weapon3',
+  'weapon4',
+];
+
+/**
+ * A run of identical ticks in a demo
+ */
+export interface DemoFrame {
+  /** Held actions as a bit mask over DEMO_ACTIONS */
+  actions: number;
+  /** Number of consecutive ticks with this input */
+  count: number;
+}
+
+/**
+ * A recorded play session
+ */
+export interface Demo {
+  version: number;
+  engineVersion: number;
+  /** Id of the campaign the demo was recorded in */
+  campaignId: string;
+  /** Campaign level the recording started on */
+  levelIndex: number;
+  seed: number;
+  /** Simulation ticks per second */
+  tickRate: number;
+  frames: DemoFrame[];
+}
+
+/**
+ * Result of reading a demo file
+ */
+export interface DemoLoadResult {
+  success: boolean;
+  demo?: Demo;
+  error?: string;
+}
+
+/**
+ * Playback speed multipliers
+ */
+export type PlaybackSpeed = 1 | 2 | 4;
+
+/**
+ * Pack held actions into a bit mask
+ */
+export function encodeActions(actions: Iterable<GameAction>): number {
+  let mask = 0;
+  for (const action of Array.from(actions)) {
+    const bit = DEMO_ACTIONS.indexOf(action);
+    if (bit >= 0) {
+      mask |= 1 << bit;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Unpack a bit mask into held actions
+ */
+export function decodeActions(mask: number): Set<GameAction> {
+  return new Set(DEMO_ACTIONS.filter((_, bit) => (mask & (1 << bit)) !== 0));
+}
+
+/**
+ * Get the number of ticks recorded in a demo
+ */
+export function getDemoTickCount(demo: Demo): number {
+  return demo.frames.reduce((total, frame) => total + frame.count, 0);
+}
+
+/**
+ * Expand a demo into one input state per tick
+ * The simulation does not read the mouse, so it is not recorded and stays at the origin
+ */
+export function expandDemoInputs(demo: Demo): InputState[] {
+  const inputs: InputState[] = [];
+  for (const frame of demo.frames) {
+    for (let i = 0; i < frame.count; i++) {
+      inputs.push({ activeActions: decodeActions(frame.actions), mousePosition: vec2(0, 0) });
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Check that a demo can be played in a campaign
+ * @returns Error messages, empty when the demo was recorded in this campaign
+ */
+export function validateDemoCampaign(demo: Demo, campaign: Campaign): string[] {
+  if (demo.campaignId !== campaign.id) {
+    return [`Demo was recorded in campaign "${demo.campaignId}", not "${campaign.id}"`];
+  }
+  if (!campaign.levels[demo.levelIndex]) {
+    return [`Demo starts on level ${demo.levelIndex}, which campaign "${campaign.id}" does not have`];
+  }
+  return [];
+}
+
+/**
+ * DemoRecorder class for logging the input of each simulation tick
+ */
+export class DemoRecorder {
+  private demo: Demo;
+
+  constructor(campaignId: string, levelIndex: number, seed: number, tickRate: number) {
+    this.demo = {
+      version: DEMO_VERSION,
+      engineVersion: ENGINE_VERSION,
+      campaignId,
+      levelIndex,
+      seed,
+      tickRate,
+      frames: [],
+    };
+  }
+
+  /**
+   * Record the input used for one tick
+   */
+  record(input: InputState): void {
+    const actions = encodeActions(input.activeActions);
+
+    // Extend the current run when nothing changed
+    const last = this.demo.frames[this.demo.frames.length - 1];
+    if (last && last.actions === actions) {
+      last.count++;
+      return;
+    }
+    this.demo.frames.push({ actions, count: 1 });
+  }
+
+  /**
+   * Get a copy of the demo recorded so far
+   */
+  getDemo(): Demo {
+    return { ...this.demo, frames: this.demo.frames.map((frame) => ({ ...frame })) };
+  }
+}
+
+/**
+ * Create a new DemoRecorder instance
+ */
+export function createDemoRecorder(
+  campaignId: string,
+  levelIndex: number,
+  seed: number,
+  tickRate: number
+): DemoRecorder {
+  return new DemoRecorder(campaignId, levelIndex, seed, tickRate);
+}
+
+/**
+ * Serialize a demo to a JSON string
+ */
+export function serializeDemo(demo: Demo): string {
+  return JSON.stringify(demo);
+}
+
+/**
+ * Validate that an object is a well-formed demo
+ */
+export function validateDemo(data: unknown): data is Demo {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const demo = data as Record<string, unknown>;
+  if (
+    typeof demo.version !== 'number' ||
+    typeof demo.engineVersion !== 'number' ||
+    typeof demo.campaignId !== 'string' ||
+    typeof demo.levelIndex !== 'number' ||
+    typeof demo.seed !== 'number' ||
+    typeof demo.tickRate !== 'number' ||
+    demo.tickRate <= 0 ||
+    !Array.isArray(demo.frames)
+  ) {
+    return false;
+  }
+  return demo.frames.every((frame: unknown) => {
+    if (typeof frame !== 'object' || frame === null) {
+      return false;
+    }
+    const f = frame as Record<string, unknown>;
+    return typeof f.actions === 'number' && typeof f.count === 'number' && f.count > 0;
+  });
+}
+
+/**
+ * Deserialize a JSON string to a demo
+ * Demos recorded by a different engine version are rejected, since they
+ * would not play back the same way
+ * @param json - The JSON string to deserialize
+ * @returns DemoLoadResult with the parsed demo or error
+ */
+export function deserializeDemo(json: string): DemoLoadResult {
+  try {
+    const parsed = JSON.parse(json);
+
+    if (!validateDemo(parsed)) {
+      return { success: false, error: 'Invalid demo structure' };
+    }
+    if (parsed.version !== DEMO_VERSION) {
+      return { success: false, error: `Unsupported demo version: ${parsed.version}` };
+    }
+    if (parsed.engineVersion !== ENGINE_VERSION) {
+      return {
+        success: false,
+        error: `Demo was recorded with engine version ${parsed.engineVersion}`,
+      };
+    }
+
+    return { success: true, demo: parsed };
+  } catch (e) {
+    return {
+      success: false,
+      error: e instanceof Error ? e.message : 'Failed to parse JSON',
+    };
+  }
+}
+
+/**
+ * DemoPlayer class for replaying a demo through the simulation
+ * Supports pausing, faster playback and seeking; seeking backward
+ * re-simulates from the start of the demo
+ * Throws an error for demos recorded in a different campaign
+ */
+export class DemoPlayer {
+  private demo: Demo;
+  private campaign: Campaign;
+  private inputs: InputState[];
+  private state!: GameState;
+  private _tick: number = 0;
+  private _isPaused: boolean = false;
+  private _speed: PlaybackSpeed = 1;
+
+  constructor(demo: Demo, campaign: Campaign = DEFAULT_CAMPAIGN) {
+    const errors = validateDemoCampaign(demo, campaign);
+    if (errors.length > 0) {
+      throw new Error(`Invalid demo: ${errors.join(', ')}`);
+    }
+    this.demo = demo;
+    this.campaign = campaign;
+    this.inputs = expandDemoInputs(demo);
+    this.reset();
+  }
+
+  /**
+   * Number of ticks played so far
+   */
+  get tick(): number {
+    return this._tick;
+  }
+
+  /**
+   * Total number of recorded ticks
+   */
+  get tickCount(): number {
+    return this.inputs.length;
+  }
+
+  /**
+   * Check if playback is paused
+   */
+  get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  /**
+   * Current playback speed
+   */
+  get speed(): PlaybackSpeed {
+    return this._speed;
+  }
+
+  /**
+   * Check if every recorded tick has been played or the game ended
+   */
+  get isFinished(): boolean {
+    return this._tick >= this.inputs.length || this.state.status !== 'playing';
+  }
+
+  /**
+   * Get the current game state
+   */
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Pause playback
+   */
+  pause(): void {
+    this._isPaused = true;
+  }
+
+  /**
+   * Resume playback
+   */
+  resume(): void {
+    this._isPaused = false;
+  }
+
+  /**
+   * Set the number of ticks played per update
+   */
+  setSpeed(speed: PlaybackSpeed): void {
+    this._speed = speed;
+  }
+
+  /**
+   * Advance playback by one update
+   * Plays as many ticks as the playback speed, or none while paused
+   * @returns Events from the ticks that were played
+   */
+  update(): GameEvent[] {
+    if (this._isPaused) {
+      return [];
+    }
+    const events: GameEvent[] = [];
+    for (let i = 0; i < this._speed && !this.isFinished; i++) {
+      events.push(...this.step());
+    }
+    return events;
+  }
+
+  /**
+   * Jump to a tick by re-simulating the demo up to it
+   */
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(Math.floor(tick), this.inputs.length));
+    if (target < this._tick) {
+      this.reset();
+    }
+    while (this._tick < target && !this.isFinished) {
+      this.step();
+    }
+  }
+
+  /**
+   * Restart from the demo's initial state
+   */
+  private reset(): void {
+    this.state = createNewGame(this.demo.seed, this.campaign, this.demo.levelIndex);
+    this._tick = 0;
+  }
+
+  /**
+   * Play a single recorded tick
+   */
+  private step(): GameEvent[] {
+    const result = stepGame(this.state, this.inputs[this._tick], 1 / this.demo.tickRate, {
+      campaign: this.campaign,
+    });
+    this.state = result.state;
+    this._tick++;
+    return result.events;
+  }
+}
+
+/**
+ * Create a new DemoPlayer instance
+ */
+export function createDemoPlayer(demo: Demo, campaign: Campaign = DEFAULT_CAMPAIGN): DemoPlayer {
+  return new DemoPlayer(demo, campaign);
+}
@@ -0,0 +1,244 @@
+/**
+ * Door module for FrankenKiro
+ * Handles sliding door tiles, key-locked variants and door animation state
+ */
+
+import { Vector2 } from '@/engine/types';
+import { Door, DoorState, LevelMap, Player } from './types';
+import { hasKey } from './player';
+import { isTileOccupied } from './level';
+
+/**
+ * Tile value for a regular sliding door
+ */
+export const DOOR_TILE = 5;
+
+/**
+ * Tile values for key-locked doors mapped to the key they require
+ * Key ids match the inventory entries added by item collection (`key_${value}`)
+ */
+export const LOCKED_DOOR_TILES: Readonly<Record<number, string>> = {
+  6: 'key_1',
+  7: 'key_2',
+  8: 'key_3',
+};
+
+/**
+ * Door slide speed (fraction of the tile per second)
+ */
+export const DOOR_SLIDE_SPEED = 1.5;
+
+/**
+ * Open amount at which entities can pass through a door
+ */
+export const DOOR_PASSABLE_AMOUNT = 0.9;
+
+/**
+ * Maximum distance from the player to a door tile center for interaction
+ */
+export const DOOR_INTERACT_RANGE = 1.5;
+
+/**
+ * Check if a tile value is any kind of door
+ */
+export function isDoorTile(tile: number): boolean {
+  return tile === DOOR_TILE || tile in LOCKED_DOOR_TILES;
+}
+
+/**
+ * Get the key required to open a door tile, if any
+ */
+export function getDoorKeyId(tile: number): string | undefined {
+  return LOCKED_DOOR_TILES[tile];
+}
+
+/**
+ * Work out which way a door panel runs from its neighbouring tiles
+ * A door with solid tiles to its left and right spans the x axis
+ */
+export function getDoorOrientation(
+  x: number,
+  y: number,
+  level: LevelMap
+): 'horizontal' | 'vertical' {
+  const isSolid = (tx: number, ty: number): boolean => {
+    if (tx < 0 || tx >= level.width || ty < 0 || ty >= level.height) {
+      return true;
+    }
+    const tile = level.grid[ty][tx];
+    return tile !== 0 && !isDoorTile(tile);
+  };
+
+  return isSolid(x - 1, y) && isSolid(x + 1, y) ? 'horizontal' : 'vertical';
+}
+
+/**
+ * Create closed door state for every door tile in a level
+ */
+export function createDoorsFromLevel(level: LevelMap): Door[] {
+  const doors: Door[] = [];
+
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      const tile = level.grid[y][x];
+      if (isDoorTile(tile)) {
+        doors.push({
+          x,
+          y,
+          orientation: getDoorOrientation(x, y, level),
+          keyId: getDoorKeyId(tile),
+          openAmount: 0,
+          state: 'closed',
+        });
+      }
+    }
+  }
+
+  return doors;
+}
+
+/**
+ * Attach fresh door state to a level map (used when loading levels)
+ */
+export function initializeDoors(level: LevelMap): LevelMap {
+  return {
+    ...level,
+    doors: createDoorsFromLevel(level),
+  };
+}
+
+/**
+ * Get the door at a grid position, if there is one
+ */
+export function getDoorAt(x: number, y: number, level: LevelMap): Door | undefined {
+  if (!level.doors) {
+    return undefined;
+  }
+  const gridX = Math.floor(x);
+  const gridY = Math.floor(y);
+  return level.doors.find((door) => door.x === gridX && door.y === gridY);
+}
+
+/**
+ * Check if a door is open far enough for entities to pass
+ */
+export function isDoorPassable(door: Door): boolean {
+  return door.openAmount >= DOOR_PASSABLE_AMOUNT;
+}
+
+/**
+ * Outcome of a door interaction attempt
+ */
+export type DoorInteractionOutcome = 'opening' | 'closing' | 'locked' | 'none';
+
+/**
+ * Result of a door interaction attempt
+ */
+export interface DoorInteractionResult {
+  outcome: DoorInteractionOutcome;
+  level: LevelMap;
+  door?: Door;
+}
+
+/**
+ * Find the door the player is facing within interaction range
+ */
+export function findFacingDoor(player: Player, level: LevelMap): Door | undefined {
+  if (!level.doors || level.doors.length === 0) {
+    return undefined;
+  }
+
+  const dirX = Math.cos(player.rotation);
+  const dirY = Math.sin(player.rotation);
+
+  // Step along the view direction and return the first door tile we reach
+  const steps = Math.ceil(DOOR_INTERACT_RANGE / 0.25);
+  for (let i = 1; i <= steps; i++) {
+    const probeX = player.position.x + dirX * i * 0.25;
+    const probeY = player.position.y + dirY * i * 0.25;
+    const door = getDoorAt(probeX, probeY, level);
+    if (door) {
+      return door;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Toggle the door the player is facing
+ * Locked doors only open when the player holds the matching key
+ */
+export function interactWithDoor(player: Player, level: LevelMap): DoorInteractionResult {
+  const door = findFacingDoor(player, level);
+  if (!door) {
+    return { outcome: 'none', level };
+  }
+
+  let state: DoorState;
+  if (door.state === 'closed' || door.state === 'closing') {
+    if (door.keyId && !hasKey(player, door.keyId)) {
+      return { outcome: 'locked', level, door };
+    }
+    state = 'opening';
+  } else {
+    state = 'closing';
+  }
+
+  const updatedDoor: Door = { ...door, state };
+  return {
+    outcome: state,
+    level: replaceDoor(level, updatedDoor),
+    door: updatedDoor,
+  };
+}
+
+/**
+ * Advance door animations
+ * Closing doors reopen if anything is standing in the doorway
+ * @param level - The level map with door state
+ * @param deltaTime - Time since last update
+ * @param occupants - Entities that block a door from closing
+ * @returns The level with updated doors (same object if nothing changed)
+ */
+export function updateDoors(
+  level: LevelMap,
+  deltaTime: number,
+  occupants: { position: Vector2; radius: number }[] = []
+): LevelMap {
+  if (!level.doors || !level.doors.some((d) => d.state === 'opening' || d.state === 'closing')) {
+    return level;
+  }
+
+  const step = DOOR_SLIDE_SPEED * deltaTime;
+  const doors = level.doors.map((door): Door => {
+    if (door.state === 'opening') {
+      const openAmount = Math.min(1, door.openAmount + step);
+      return { ...door, openAmount, state: openAmount >= 1 ? 'open' : 'opening' };
+    }
+
+    if (door.state === 'closing') {
+      if (isTileOccupied(door.x, door.y, occupants)) {
+        return { ...door, state: 'opening' };
+      }
+      const openAmount = Math.max(0, door.openAmount - step);
+      return { ...door, openAmount, state: openAmount <= 0 ? 'closed' : 'closing' };
+    }
+
+    return door;
+  });
+
+  return { ...level, doors };
+}
+
+/**
+ * Replace a single door in the level's door list
+ */
+function replaceDoor(level: LevelMap, updated: Door): LevelMap {
+  return {
+    ...level,
+    doors: (level.doors ?? []).map((door) =>
+      door.x === updated.x && door.y === updated.y ? updated : door
+    ),
+  };
+}
@@ -8,20 +8,47 @@ import { Vector2 } from '@/engine/types';
 import { Enemy, EnemyState, LevelMap, Player } from './types';
 import { subtract, normalize, distance, add, multiply } from '@/engine/vector2';
 import { raycast, moveWithCollision } from '@/engine/collision';
+import { FlowField, findPath, getFlowDirection } from './pathfinding';
+import { DEFAULT_ENEMY_TYPE, getEnemyArchetype } from './enemyArchetypes';
+import { ProjectileLaunch } from './projectile';
+import { startAnimation } from './enemyAnimation';
+import { RandomSource } from './random';
 
 /**
- * Default enemy configuration
+ * Per-enemy stat overrides accepted by createEnemy
  */
-export const DEFAULT_ENEMY_CONFIG = {
-  health: 50,
-  maxHealth: 50,
-  damage: 10,
-  speed: 1.5,
-  attackRange: 1.5,
-  detectionRange: 8.0,
-  pointValue: 100,
-  radius: 0.3,
-};
+export interface EnemyConfig {
+  health: number;
+  maxHealth: number;
+  damage: number;
+  speed: number;
+  attackRange: number;
+  detectionRange: number;
+  pointValue: number;
+  radius: number;
+}
+
+/**
+ * Build the full stat block for an enemy type
+ */
+export function getEnemyConfig(enemyType: string): EnemyConfig {
+  const archetype = getEnemyArchetype(enemyType);
+  return {
+    health: archetype.health,
+    maxHealth: archetype.health,
+    damage: archetype.damage,
+    speed: archetype.speed,
+    attackRange: archetype.attackRange,
+    detectionRange: archetype.detectionRange,
+    pointValue: archetype.pointValue,
+    radius: archetype.radius,
+  };
+}
+
+/**
+ * Default enemy configuration (the default archetype's stats)
+ */
+export const DEFAULT_ENEMY_CONFIG: Readonly<EnemyConfig> = getEnemyConfig(DEFAULT_ENEMY_TYPE);
 
 /**
  * Attack cooldown in seconds
@@ -29,17 +56,31 @@ export const DEFAULT_ENEMY_CONFIG = {
 export const ATTACK_COOLDOWN = 1.0;
 
 /**
- * Create a new enemy with default values
+ * Share of ATTACK_COOLDOWN a ranged enemy's wait between throws can vary by,
+ * so a group of them does not throw in step
+ */
+export const ATTACK_COOLDOWN_VARIANCE = 0.25;
+
+/**
+ * How close a searching enemy must get to a waypoint before moving on
+ */
+export const WAYPOINT_REACHED_DISTANCE = 0.2;
+
+/**
+ * Create a new enemy from its type's archetype
+ * Throws an error for unknown enemy types
  */
 export function createEnemy(
   id: string,
   position: Vector2,
-  spriteId: string = 'zombie',
-  config: Partial<typeof DEFAULT_ENEMY_CONFIG> = {}
+  enemyType: string = DEFAULT_ENEMY_TYPE,
+  config: Partial<EnemyConfig> = {}
 ): Enemy {
-  const mergedConfig = { ...DEFAULT_ENEMY_CONFIG, ...config };
+  const archetype = getEnemyArchetype(enemyType);
+  const mergedConfig = { ...getEnemyConfig(enemyType), ...config };
   return {
     id,
+    enemyType,
     position: { ...position },
     rotation: 0,
     health: mergedConfig.health,
@@ -49,8 +90,12 @@ export function createEnemy(
     attackRange: mergedConfig.attackRange,
     detectionRange: mergedConfig.detectionRange,
     state: 'idle',
-    spriteId,
+    spriteId: archetype.spriteId,
     pointValue: mergedConfig.pointValue,
+    radius: mergedConfig.radius,
+    attackCooldown: 0,
+    animation: 'idle',
+    animationTime: 0,
   };
 }
 
@@ -137,32 +182,75 @@ export function determineNextState(
     return 'pursuing';
   }
 
-  // If enemy can't see player, go idle
+  // Lost sight of the player - search where they were last seen
+  if (enemy.state !== 'idle' && enemy.lastKnownPlayerPosition) {
+    return 'searching';
+  }
+
   return 'idle';
 }
 
 
 /**
- * Move enemy toward the player (simple pathfinding)
+ * Move enemy toward the player
+ * Follows the shared flow field when one is given so enemies route around
+ * corridor walls, and heads straight for the player once in the same tile
  * Requirements: 4.1
  * @param enemy - The enemy to move
  * @param player - The player to move toward
  * @param deltaTime - Time since last update
  * @param level - The level map for collision
+ * @param flowField - Optional flow field toward the player
  * @returns Updated enemy with new position
  */
 export function moveTowardPlayer(
   enemy: Enemy,
   player: Player,
   deltaTime: number,
-  level: LevelMap
+  level: LevelMap,
+  flowField?: FlowField
 ): Enemy {
   // Dead enemies don't move
   if (enemy.state === 'dead') {
     return enemy;
   }
 
-  const direction = getDirectionToPlayer(enemy, player);
+  // The flow field has no direction in the player's own tile, so go straight there
+  const direction =
+    (flowField && getFlowDirection(flowField, enemy.position)) ??
+    getDirectionToPlayer(enemy, player);
+  return moveInDirection(enemy, direction, deltaTime, level);
+}
+
+/**
+ * Move enemy toward a world position in a straight line
+ * @param enemy - The enemy to move
+ * @param target - The position to move toward
+ * @param deltaTime - Time since last update
+ * @param level - The level map for collision
+ * @returns Updated enemy with new position
+ */
+export function moveTowardPosition(
+  enemy: Enemy,
+  target: Vector2,
+  deltaTime: number,
+  level: LevelMap
+): Enemy {
+  if (enemy.state === 'dead') {
+    return enemy;
+  }
+  return moveInDirection(enemy, normalize(subtract(target, enemy.position)), deltaTime, level);
+}
+
+/**
+ * Move enemy along a direction with wall collision (internal helper)
+ */
+function moveInDirection(
+  enemy: Enemy,
+  direction: Vector2,
+  deltaTime: number,
+  level: LevelMap
+): Enemy {
   const movement = multiply(direction, enemy.speed * deltaTime);
   const desiredPosition = add(enemy.position, movement);
 
@@ -170,11 +258,11 @@ export function moveTowardPlayer(
   const newPosition = moveWithCollision(
     enemy.position,
     desiredPosition,
-    DEFAULT_ENEMY_CONFIG.radius,
+    enemy.radius,
     level
   );
 
-  // Update rotation to face player
+  // Update rotation to face the direction of travel
   const newRotation = Math.atan2(direction.y, direction.x);
 
   return {
@@ -198,12 +286,13 @@ export function takeDamage(enemy: Enemy, amount: number): Enemy {
 
   const newHealth = Math.max(0, enemy.health - amount);
   const newState: EnemyState = newHealth <= 0 ? 'dead' : enemy.state;
+  const damaged = { ...enemy, health: newHealth, state: newState };
 
-  return {
-    ...enemy,
-    health: newHealth,
-    state: newState,
-  };
+  // Hits make the enemy flinch, and a killing blow starts the death sequence
+  if (newState === 'dead') {
+    return startAnimation(damaged, 'death');
+  }
+  return amount > 0 ? startAnimation(damaged, 'pain') : damaged;
 }
 
 /**
@@ -224,10 +313,12 @@ export function isInAttackRange(enemy: Enemy, player: Player): boolean {
 
 /**
  * Result of an enemy attack
+ * Ranged attacks deal no direct damage; they launch a projectile instead
  */
 export interface AttackResult {
   attacked: boolean;
   damage: number;
+  projectile?: ProjectileLaunch;
 }
 
 /**
@@ -248,12 +339,82 @@ export function performAttack(enemy: Enemy, player: Player): AttackResult {
     return { attacked: false, damage: 0 };
   }
 
+  const ranged = getEnemyArchetype(enemy.enemyType).projectile;
+  if (ranged) {
+    if (enemy.attackCooldown > 0) {
+      return { attacked: false, damage: 0 };
+    }
+    return {
+      attacked: true,
+      damage: 0,
+      projectile: {
+        position: { ...enemy.position },
+        direction: getDirectionToPlayer(enemy, player),
+        options: {
+          owner: 'enemy',
+          damage: enemy.damage,
+          speed: ranged.speed,
+          spriteId: ranged.spriteId,
+        },
+      },
+    };
+  }
+
   return {
     attacked: true,
     damage: enemy.damage,
   };
 }
 
+/**
+ * Walk a searching enemy toward the player's last known position
+ * Plans an A* path on the first step and gives up (goes idle) once the
+ * position is reached or turns out to be unreachable
+ * @param enemy - The searching enemy
+ * @param deltaTime - Time since last update
+ * @param level - The level map
+ * @returns Updated enemy
+ */
+export function searchForPlayer(enemy: Enemy, deltaTime: number, level: LevelMap): Enemy {
+  const target = enemy.lastKnownPlayerPosition;
+  if (!target) {
+    return stopSearching(enemy);
+  }
+
+  let path = enemy.path;
+  if (!path) {
+    const planned = findPath(level, enemy.position, target);
+    if (!planned) {
+      return stopSearching(enemy);
+    }
+    // The final waypoint is the exact last known position rather than its tile center
+    path = [...planned.slice(0, -1), target];
+  }
+
+  // Drop waypoints we've already reached
+  while (path.length > 0 && distance(enemy.position, path[0]) <= WAYPOINT_REACHED_DISTANCE) {
+    path = path.slice(1);
+  }
+  if (path.length === 0) {
+    return stopSearching(enemy);
+  }
+
+  const moved = moveTowardPosition(enemy, path[0], deltaTime, level);
+  return { ...moved, path };
+}
+
+/**
+ * Clear search data and return the enemy to idle (internal helper)
+ */
+function stopSearching(enemy: Enemy): Enemy {
+  return {
+    ...enemy,
+    state: 'idle',
+    lastKnownPlayerPosition: undefined,
+    path: undefined,
+  };
+}
+
 /**
  * Update a single enemy's state and position
  * Requirements: 4.1, 4.2
@@ -261,13 +422,15 @@ export function performAttack(enemy: Enemy, player: Player): AttackResult {
  * @param player - The player
  * @param level - The level map
  * @param deltaTime - Time since last update
+ * @param flowField - Optional shared flow field toward the player
  * @returns Updated enemy
  */
 export function updateEnemy(
   enemy: Enemy,
   player: Player,
   level: LevelMap,
-  deltaTime: number
+  deltaTime: number,
+  flowField?: FlowField
 ): Enemy {
   // Dead enemies don't update
   if (enemy.state === 'dead' || enemy.health <= 0) {
@@ -276,11 +439,26 @@ export function updateEnemy(
 
   // Determine new state based on player position and visibility
   const newState = determineNextState(enemy, player, level);
-  let updatedEnemy = { ...enemy, state: newState };
+  let updatedEnemy: Enemy = {
+    ...enemy,
+    state: newState,
+    attackCooldown: Math.max(0, enemy.attackCooldown - deltaTime),
+  };
+
+  // Remember where the player was seen; a fresh sighting invalidates any search path
+  if (newState === 'pursuing' || newState === 'attacking') {
+    updatedEnemy = {
+      ...updatedEnemy,
+      lastKnownPlayerPosition: { ...player.position },
+      path: undefined,
+    };
+  }
 
   // If pursuing, move toward player
   if (newState === 'pursuing') {
-    updatedEnemy = moveTowardPlayer(updatedEnemy, player, deltaTime, level);
+    updatedEnemy = moveTowardPlayer(updatedEnemy, player, deltaTime, level, flowField);
+  } else if (newState === 'searching') {
+    updatedEnemy = searchForPlayer(updatedEnemy, deltaTime, level);
   } else if (newState === 'attacking') {
     // Face the player when attacking
     const direction = getDirectionToPlayer(enemy, player);
@@ -307,17 +485,27 @@ export interface EnemyUpdateResult {
  * @param player - The player
  * @param level - The level map
  * @param deltaTime - Time since last update
+ * @param flowField - Optional shared flow field toward the player
+ * @param random - Source for AI decisions; the default always picks the middle option
  * @returns Updated enemy and attack result
  */
 export function updateEnemyWithAttack(
   enemy: Enemy,
   player: Player,
   level: LevelMap,
-  deltaTime: number
+  deltaTime: number,
+  flowField?: FlowField,
+  random: RandomSource = () => 0.5
 ): EnemyUpdateResult {
-  const updatedEnemy = updateEnemy(enemy, player, level, deltaTime);
+  let updatedEnemy = updateEnemy(enemy, player, level, deltaTime, flowField);
   const attack = performAttack(updatedEnemy, player);
 
+  // Ranged enemies wait a varying time between throws
+  if (attack.projectile) {
+    const variance = (random() * 2 - 1) * ATTACK_COOLDOWN_VARIANCE;
+    updatedEnemy = { ...updatedEnemy, attackCooldown: ATTACK_COOLDOWN * (1 + variance) };
+  }
+
   return {
     enemy: updatedEnemy,
     attack,
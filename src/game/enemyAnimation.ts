@@ -0,0 +1,60 @@
+/**
+ * Enemy animation module for FrankenKiro
+ * Tracks which animation each enemy plays and how far into it they are.
+ * The clock lives on the enemy, so animations carry on after save/load and
+ * play back identically in demos.
+ */
+
+import { Enemy, EnemyAnimation, EnemyState } from './types';
+
+/**
+ * Seconds an enemy flinches after being hurt
+ */
+export const PAIN_DURATION = 0.25;
+
+/**
+ * Seconds the death sequence takes before the enemy lies still as a corpse
+ */
+export const DEATH_DURATION = 0.6;
+
+/**
+ * Get the animation that shows an AI state
+ */
+export function getStateAnimation(state: EnemyState): EnemyAnimation {
+  switch (state) {
+    case 'pursuing':
+    case 'searching':
+      return 'walk';
+    case 'attacking':
+      return 'attack';
+    case 'dead':
+      return 'death';
+    default:
+      return 'idle';
+  }
+}
+
+/**
+ * Start an animation from its first frame
+ */
+export function startAnimation(enemy: Enemy, animation: EnemyAnimation): Enemy {
+  return { ...enemy, animation, animationTime: 0 };
+}
+
+/**
+ * Advance an enemy's animation by a step
+ * A pain flinch plays out before the enemy goes back to the animation of its
+ * state; any other change of state starts the new animation from the top
+ * @param enemy - Enemy after its AI update
+ * @param deltaTime - Length of the step
+ */
+export function updateEnemyAnimation(enemy: Enemy, deltaTime: number): Enemy {
+  const stateAnimation = getStateAnimation(enemy.state);
+  const flinching = enemy.animation === 'pain' && enemy.animationTime < PAIN_DURATION && enemy.state !== 'dead';
+
+  if (flinching || enemy.animation === stateAnimation) {
+    return { ...enemy, animationTime: enemy.animationTime + deltaTime };
+  }
+  return startAnimation(enemy, stateAnimation);
+}
+
@@ -0,0 +1,69 @@
+/**
+ * Enemy archetype registry for FrankenKiro
+ * Per-type stats for every monster, keyed by the enemyType used in level spawns
+ */
+
+import { EnemyArchetype } from './types';
+
+/**
+ * Enemy type used when none is specified
+ */
+export const DEFAULT_ENEMY_TYPE = 'zombie';
+
+/**
+ * All enemy archetypes, keyed by type name
+ */
+export const ENEMY_ARCHETYPES: Readonly<Record<string, EnemyArchetype>> = {
+  zombie: {
+    health: 50,
+    speed: 1.5,
+    damage: 10,
+    attackRange: 1.5,
+    detectionRange: 8.0,
+    pointValue: 100,
+    radius: 0.3,
+    spriteId: 'enemy_zombie',
+  },
+  skeleton: {
+    health: 35,
+    speed: 2.2,
+    damage: 8,
+    attackRange: 6.0,
+    detectionRange: 10.0,
+    pointValue: 150,
+    radius: 0.25,
+    spriteId: 'enemy_skeleton',
+    projectile: {
+      speed: 5,
+      spriteId: 'projectile_bone',
+    },
+  },
+  ghost: {
+    health: 30,
+    speed: 1.2,
+    damage: 15,
+    attackRange: 1.2,
+    detectionRange: 12.0,
+    pointValue: 200,
+    radius: 0.35,
+    spriteId: 'enemy_ghost',
+  },
+};
+
+/**
+ * Check if a value is a known enemy type
+ */
+export function isEnemyType(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENEMY_ARCHETYPES, value);
+}
+
+/**
+ * Get the archetype for an enemy type
+ * Throws an error for unknown types
+ */
+export function getEnemyArchetype(enemyType: string): EnemyArchetype {
+  if (!isEnemyType(enemyType)) {
+    throw new Error(`Unknown enemy type: ${enemyType}`);
+  }
+  return ENEMY_ARCHETYPES[enemyType];
+}
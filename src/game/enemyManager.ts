@@ -12,8 +12,13 @@ import {
   isDead,
   EnemyUpdateResult,
   AttackResult,
-  DEFAULT_ENEMY_CONFIG,
+  EnemyConfig,
 } from './enemy';
+import { DEFAULT_ENEMY_TYPE } from './enemyArchetypes';
+import { ProjectileLaunch } from './projectile';
+import { FlowField, getFlowField } from './pathfinding';
+import { updateEnemyAnimation } from './enemyAnimation';
+import { RandomSource } from './random';
 import { Vector2 } from '@/engine/types';
 import { distance } from '@/engine/vector2';
 
@@ -25,6 +30,8 @@ export interface EnemyManagerUpdateResult {
   totalDamageToPlayer: number;
   totalScoreIncrease: number;
   defeatedEnemyIds: string[];
+  /** Projectiles thrown by ranged enemies this update */
+  projectileLaunches: ProjectileLaunch[];
 }
 
 /**
@@ -85,15 +92,20 @@ export class EnemyManager {
   }
 
   /**
-   * Create and add a new enemy at position
+   * Create and add a new enemy of the given type at position
+   * Ids skip any already taken, so enemies can be spawned after setEnemies
+   * Throws an error for unknown enemy types
    */
   spawnEnemy(
     position: Vector2,
-    spriteId: string = 'zombie',
-    config: Partial<typeof DEFAULT_ENEMY_CONFIG> = {}
+    enemyType: string = DEFAULT_ENEMY_TYPE,
+    config: Partial<EnemyConfig> = {}
   ): Enemy {
-    const id = `enemy_${this.nextEnemyId++}`;
-    const enemy = createEnemy(id, position, spriteId, config);
+    while (this.getEnemy(`enemy_${this.nextEnemyId}`)) {
+      this.nextEnemyId++;
+    }
+    const enemy = createEnemy(`enemy_${this.nextEnemyId}`, position, enemyType, config);
+    this.nextEnemyId++;
     this.addEnemy(enemy);
     return enemy;
   }
@@ -135,6 +147,13 @@ export class EnemyManager {
     this.enemies = [];
   }
 
+  /**
+   * Replace all enemies (used when driving the manager from a game state)
+   */
+  setEnemies(enemies: Enemy[]): void {
+    this.enemies = [...enemies];
+  }
+
 
   /**
    * Update all enemies independently
@@ -143,34 +162,43 @@ export class EnemyManager {
    * @param player - The player
    * @param level - The level map
    * @param deltaTime - Time since last update
+   * @param random - Source for AI decisions, drawn from in enemy order
    * @returns Update result with all enemies and accumulated damage/score
    */
   update(
     player: Player,
     level: LevelMap,
-    deltaTime: number
+    deltaTime: number,
+    random?: RandomSource
   ): EnemyManagerUpdateResult {
     let totalDamageToPlayer = 0;
     let totalScoreIncrease = 0;
     const defeatedEnemyIds: string[] = [];
+    const projectileLaunches: ProjectileLaunch[] = [];
+
+    // Share one flow field toward the player, rebuilt when they change tile or doors move
+    const flowField = this.getFlowField(player, level);
 
     // Update each enemy independently
     // Important: We iterate over a copy to ensure independence
     const updatedEnemies = this.enemies.map((enemy) => {
-      // Skip dead enemies
+      // Dead enemies only play out their death sequence
       if (isDead(enemy)) {
-        return enemy;
+        return updateEnemyAnimation(enemy, deltaTime);
       }
 
       // Update this enemy (independent of others)
-      const result = updateEnemyWithAttack(enemy, player, level, deltaTime);
+      const result = updateEnemyWithAttack(enemy, player, level, deltaTime, flowField, random);
 
       // Accumulate damage to player
       if (result.attack.attacked) {
         totalDamageToPlayer += result.attack.damage;
       }
+      if (result.attack.projectile) {
+        projectileLaunches.push(result.attack.projectile);
+      }
 
-      return result.enemy;
+      return updateEnemyAnimation(result.enemy, deltaTime);
     });
 
     this.enemies = updatedEnemies;
@@ -180,9 +208,17 @@ export class EnemyManager {
       totalDamageToPlayer,
       totalScoreIncrease,
       defeatedEnemyIds,
+      projectileLaunches,
     };
   }
 
+  /**
+   * Get the flow field toward the player, rebuilding it if it is out of date
+   */
+  getFlowField(player: Player, level: LevelMap): FlowField {
+    return getFlowField(level, player.position);
+  }
+
   /**
    * Apply damage to an enemy by ID
    * @param enemyId - ID of the enemy to damage
@@ -0,0 +1,101 @@
+/**
+ * Exit module for FrankenKiro
+ * Handles level exit rules: deciding whether the exit is open and
+ * explaining what still keeps it locked
+ */
+
+import { Enemy, ExitRule, GameItem, LevelMap, Player } from './types';
+import { hasKey } from './player';
+
+/**
+ * What an exit rule can observe
+ */
+export interface ExitContext {
+  player: Player;
+  enemies: Enemy[];
+  items: GameItem[];
+}
+
+/**
+ * Why an exit is locked
+ */
+export interface ExitLock {
+  rule: ExitRule;
+  /** How many more keys, kills or collectibles are needed */
+  remaining: number;
+}
+
+/**
+ * Work out what still keeps a level's exit locked
+ * @param level - The level whose exit rule applies
+ * @param context - Player, enemies and items of the running game
+ * @returns The lock, or null when the exit is open
+ */
+export function getExitLock(level: LevelMap, context: ExitContext): ExitLock | null {
+  const rule = level.exitRule ?? { type: 'open' };
+  let remaining = 0;
+  switch (rule.type) {
+    case 'open':
+      break;
+    case 'key':
+      remaining = hasKey(context.player, `key_${rule.key}`) ? 0 : 1;
+      break;
+    case 'enemiesDead':
+      remaining = context.enemies.filter((enemy) => enemy.state !== 'dead').length;
+      break;
+    case 'collectibles': {
+      const collected = context.items.filter((item) => item.type === 'collectible' && item.collected).length;
+      remaining = Math.max(0, rule.count - collected);
+      break;
+    }
+  }
+  return remaining > 0 ? { rule, remaining } : null;
+}
+
+/**
+ * Check if a level's exit lets the player leave
+ */
+export function isExitOpen(level: LevelMap, context: ExitContext): boolean {
+  return getExitLock(level, context) === null;
+}
+
+/**
+ * Explain an exit lock to the player
+ */
+export function describeExitLock(lock: ExitLock): string {
+  switch (lock.rule.type) {
+    case 'key':
+      return `🔑 The exit needs key ${lock.rule.key}`;
+    case 'enemiesDead':
+      return `💀 Defeat ${lock.remaining} more ${lock.remaining === 1 ? 'enemy' : 'enemies'} to open the exit`;
+    case 'collectibles':
+      return `🧪 Collect ${lock.remaining} more ${lock.remaining === 1 ? 'specimen' : 'specimens'} to open the exit`;
+    case 'open':
+      return '';
+  }
+}
+
+/**
+ * Validate the shape of a level's exit rule
+ * @param rule - The exitRule value from a level map
+ * @returns Error messages, empty when the rule is valid
+ */
+export function validateExitRule(rule: unknown): string[] {
+  if (typeof rule !== 'object' || rule === null) {
+    return ['exitRule must be an object'];
+  }
+  const r = rule as Record<string, unknown>;
+  switch (r.type) {
+    case 'open':
+    case 'enemiesDead':
+      return [];
+    case 'key':
+      return Number.isInteger(r.key) && (r.key as number) > 0 ? [] : ['exitRule must name a positive key number'];
+    case 'collectibles':
+      return Number.isInteger(r.count) && (r.count as number) > 0
+        ? []
+        : ['exitRule must need a positive number of collectibles'];
+    default:
+      return [`exitRule has unknown type "${String(r.type)}"`];
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Floor module for FrankenKiro
+ * Handles the floor layer: hazardous and special floor tiles that act on the
+ * player while they stand on them, and the ceiling layer drawn above them
+ */
+
+import { Vector2 } from '@/engine/types';
+import { LevelMap, Teleporter } from './types';
+
+/**
+ * Floor layer tile types
+ */
+export const FLOOR_PLAIN = 0;
+/** Acid and slime: hurts the player over time */
+export const FLOOR_ACID = 1;
+/** Blood: slows the player down */
+export const FLOOR_BLOOD = 2;
+/** Healing circle: heals the player over time */
+export const FLOOR_HEALING = 3;
+/** Teleport pad: sends the player to the pad's destination */
+export const FLOOR_TELEPORT = 4;
+
+/**
+ * Highest floor tile type
+ */
+export const MAX_FLOOR_TYPE = FLOOR_TELEPORT;
+
+/**
+ * Ceiling layer tile types
+ */
+export const CEILING_STONE = 0;
+/** Wooden beams */
+export const CEILING_WOOD = 1;
+/** Open sky: no ceiling, the night sky shows through */
+export const CEILING_SKY = 2;
+
+/**
+ * Highest ceiling tile type
+ */
+export const MAX_CEILING_TYPE = CEILING_SKY;
+
+/**
+ * Seconds of level time between damage or healing ticks
+ */
+export const FLOOR_EFFECT_INTERVAL = 0.5;
+
+/**
+ * Damage dealt by acid on each tick
+ */
+export const ACID_DAMAGE = 5;
+
+/**
+ * Health restored by a healing circle on each tick
+ */
+export const HEALING_AMOUNT = 3;
+
+/**
+ * Movement speed multiplier while wading through blood
+ */
+export const BLOOD_SPEED_FACTOR = 0.5;
+
+/**
+ * What the floor does to the player during a step
+ */
+export interface FloorEffect {
+  damage: number;
+  healing: number;
+  /** Where the player is sent, when they stepped onto a teleport pad */
+  teleport?: Vector2;
+}
+
+/**
+ * Get the floor tile type under a world position
+ * Levels without a floor layer, and positions outside it, are plain floor
+ */
+export function getFloorType(x: number, y: number, level: LevelMap): number {
+  return level.floor?.[Math.floor(y)]?.[Math.floor(x)] ?? FLOOR_PLAIN;
+}
+
+/**
+ * Get the ceiling tile type above a world position
+ * Levels without a ceiling layer, and positions outside it, have a stone ceiling
+ */
+export function getCeilingType(x: number, y: number, level: LevelMap): number {
+  return level.ceiling?.[Math.floor(y)]?.[Math.floor(x)] ?? CEILING_STONE;
+}
+
+/**
+ * Get the movement speed multiplier for the floor under a position
+ */
+export function getFloorSpeedFactor(position: Vector2, level: LevelMap): number {
+  return getFloorType(position.x, position.y, level) === FLOOR_BLOOD ? BLOOD_SPEED_FACTOR : 1;
+}
+
+/**
+ * Find the teleporter whose pad is on a tile
+ */
+export function findTeleporter(x: number, y: number, level: LevelMap): Teleporter | undefined {
+  return level.teleporters?.find((teleporter) => teleporter.x === Math.floor(x) && teleporter.y === Math.floor(y));
+}
+
+/**
+ * Count the effect ticks that fall within a step
+ * Ticks run on level time, so standing still and stepping on and off a
+ * tile both deal the same damage per second
+ */
+export function countFloorTicks(elapsedTime: number, deltaTime: number): number {
+  return (
+    Math.floor((elapsedTime + deltaTime) / FLOOR_EFFECT_INTERVAL) -
+    Math.floor(elapsedTime / FLOOR_EFFECT_INTERVAL)
+  );
+}
+
+/**
+ * Work out what the floor does to the player during a step
+ * Teleport pads fire only as the player steps onto them, so arriving on
+ * another pad does not bounce them straight back
+ * @param from - Player position at the start of the step
+ * @param to - Player position after moving
+ * @param level - Level whose floor layer applies
+ * @param elapsedTime - Level time at the start of the step
+ * @param deltaTime - Length of the step
+ */
+export function getFloorEffect(
+  from: Vector2,
+  to: Vector2,
+  level: LevelMap,
+  elapsedTime: number,
+  deltaTime: number
+): FloorEffect {
+  const type = getFloorType(to.x, to.y, level);
+  const ticks = countFloorTicks(elapsedTime, deltaTime);
+  const effect: FloorEffect = {
+    damage: type === FLOOR_ACID ? ticks * ACID_DAMAGE : 0,
+    healing: type === FLOOR_HEALING ? ticks * HEALING_AMOUNT : 0,
+  };
+
+  const changedTile = Math.floor(from.x) !== Math.floor(to.x) || Math.floor(from.y) !== Math.floor(to.y);
+  if (type === FLOOR_TELEPORT && changedTile) {
+    const teleporter = findTeleporter(to.x, to.y, level);
+    if (teleporter) {
+      effect.teleport = teleporter.destination;
+    }
+  }
+  return effect;
+}
+
+/**
+ * Validate a tile layer laid over the level grid
+ * @param name - Layer name used in error messages
+ */
+function validateTileLayer(name: string, layer: unknown, width: number, height: number, maxType: number): string[] {
+  if (!Array.isArray(layer)) {
+    return [`Level map ${name.toLowerCase()} must be an array`];
+  }
+  if (layer.length !== height) {
+    return [`${name} height (${layer.length}) does not match level height (${height})`];
+  }
+
+  const errors: string[] = [];
+  layer.forEach((row: unknown, y) => {
+    if (!Array.isArray(row) || row.length !== width) {
+      errors.push(`${name} row ${y} must have ${width} tiles`);
+      return;
+    }
+    row.forEach((type: unknown, x) => {
+      if (!Number.isInteger(type) || (type as number) < 0 || (type as number) > maxType) {
+        errors.push(`${name} tile (${x}, ${y}) has unknown type ${String(type)}`);
+      }
+    });
+  });
+  return errors;
+}
+
+/**
+ * Validate the shape of a level's floor layer
+ * @param floor - The floor value from a level map
+ * @param width - Level width in tiles
+ * @param height - Level height in tiles
+ * @returns Error messages, empty when the layer is valid
+ */
+export function validateFloorLayer(floor: unknown, width: number, height: number): string[] {
+  return validateTileLayer('Floor', floor, width, height, MAX_FLOOR_TYPE);
+}
+
+/**
+ * Validate the shape of a level's ceiling layer
+ * @param ceiling - The ceiling value from a level map
+ * @param width - Level width in tiles
+ * @param height - Level height in tiles
+ * @returns Error messages, empty when the layer is valid
+ */
+export function validateCeilingLayer(ceiling: unknown, width: number, height: number): string[] {
+  return validateTileLayer('Ceiling', ceiling, width, height, MAX_CEILING_TYPE);
+}
+
+/**
+ * Validate the shape of a level's teleporters
+ * @param teleporters - The teleporters value from a level map
+ * @param width - Level width in tiles
+ * @param height - Level height in tiles
+ * @returns Error messages, empty when every teleporter is valid
+ */
+export function validateTeleporters(teleporters: unknown, width: number, height: number): string[] {
+  if (!Array.isArray(teleporters)) {
+    return ['Level map teleporters must be an array'];
+  }
+
+  const errors: string[] = [];
+  teleporters.forEach((value: unknown, index) => {
+    const t = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    if (
+      !Number.isInteger(t.x) || !Number.isInteger(t.y) ||
+      (t.x as number) < 0 || (t.x as number) >= width || (t.y as number) < 0 || (t.y as number) >= height
+    ) {
+      errors.push(`teleporters[${index}] must be on a tile within level bounds`);
+    }
+    const d = (typeof t.destination === 'object' && t.destination !== null
+      ? t.destination
+      : {}) as Record<string, unknown>;
+    if (
+      typeof d.x !== 'number' || typeof d.y !== 'number' ||
+      d.x < 0 || d.x >= width || d.y < 0 || d.y >= height
+    ) {
+      errors.push(`teleporters[${index}] must have a destination within level bounds`);
+    }
+  });
+  return errors;
+}
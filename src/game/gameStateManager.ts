@@ -10,15 +10,28 @@ import {
   Player,
   PlayerStats,
   EnemyState,
+  EnemyAnimation,
   SaveData,
+  Door,
+  PushWall,
+  LevelStats,
+  WeaponId,
 } from './types';
 import { createPlayer } from './player';
+import { createEnemy } from './enemy';
+import { DEATH_DURATION, getStateAnimation } from './enemyAnimation';
+import { isEnemyType } from './enemyArchetypes';
+import { isValidTriggerState } from './trigger';
 import { createEmptyLevelMap } from './level';
+import { createRandomState } from './random';
+import { createLevelStats } from './levelStats';
+import { WEAPON_ORDER, WEAPON_MAX_AMMO, getWeapon, isWeaponId } from './weapons';
 
 /**
  * Current save data version
+ * 1.1.0 replaced the single ammunition pool with per-weapon pools
  */
-export const SAVE_DATA_VERSION = '1.0.0';
+export const SAVE_DATA_VERSION = '1.1.0';
 
 /**
  * Create a default game state
@@ -32,6 +45,14 @@ export function createDefaultGameState(): GameState {
     currentLevel: 0,
     levelMap: createEmptyLevelMap(10, 10),
     elapsedTime: 0,
+    projectiles: [],
+    nextProjectileId: 0,
+    enemyAttackCooldown: 0,
+    heldActions: [],
+    rng: createRandomState(0),
+    triggers: [],
+    foundSecrets: [],
+    levelStats: createLevelStats(),
   };
 }
 
@@ -49,8 +70,14 @@ export function serialize(gameState: GameState): string {
       player: {
         position: { ...gameState.player.position },
         rotation: gameState.player.rotation,
-        stats: { ...gameState.player.stats },
+        stats: {
+          ...gameState.player.stats,
+          ammo: { ...gameState.player.stats.ammo },
+          maxAmmo: { ...gameState.player.stats.maxAmmo },
+        },
         inventory: [...gameState.player.inventory],
+        weapons: [...gameState.player.weapons],
+        currentWeaponId: gameState.player.currentWeapon.id,
       },
       currentLevel: gameState.currentLevel,
       enemies: gameState.enemies.map((enemy) => ({
@@ -58,11 +85,20 @@ export function serialize(gameState: GameState): string {
         position: { ...enemy.position },
         health: enemy.health,
         state: enemy.state,
+        enemyType: enemy.enemyType,
+        animation: enemy.animation,
+        animationTime: enemy.animationTime,
       })),
       collectedItems: gameState.items
         .filter((item) => item.collected)
         .map((item) => item.id),
       elapsedTime: gameState.elapsedTime,
+      doors: gameState.levelMap.doors?.map((door) => ({ ...door })),
+      triggers: gameState.triggers.map((trigger) => ({ ...trigger })),
+      pushWalls: gameState.levelMap.pushWalls?.map((pushWall) => ({ ...pushWall })),
+      foundSecrets: [...gameState.foundSecrets],
+      levelStats: { ...gameState.levelStats },
+      grid: gameState.levelMap.grid.map((row) => [...row]),
     },
   };
 
@@ -82,6 +118,17 @@ function isValidVector2(value: unknown): value is Vector2 {
          isFinite(v.x) && isFinite(v.y);
 }
 
+/**
+ * Type guard to check if a value is a per-weapon ammunition record
+ */
+function isValidAmmoRecord(value: unknown): value is Record<WeaponId, number> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const a = value as Record<string, unknown>;
+  return WEAPON_ORDER.every((id) => typeof a[id] === 'number' && isFinite(a[id] as number));
+}
+
 /**
  * Type guard to check if a value is a valid PlayerStats
  */
@@ -93,8 +140,8 @@ function isValidPlayerStats(value: unknown): value is PlayerStats {
   return (
     typeof s.health === 'number' && isFinite(s.health) &&
     typeof s.maxHealth === 'number' && isFinite(s.maxHealth) &&
-    typeof s.ammunition === 'number' && isFinite(s.ammunition) &&
-    typeof s.maxAmmunition === 'number' && isFinite(s.maxAmmunition) &&
+    isValidAmmoRecord(s.ammo) &&
+    isValidAmmoRecord(s.maxAmmo) &&
     typeof s.score === 'number' && isFinite(s.score)
   );
 }
@@ -103,7 +150,26 @@ function isValidPlayerStats(value: unknown): value is PlayerStats {
  * Type guard to check if a value is a valid EnemyState
  */
 function isValidEnemyState(value: unknown): value is EnemyState {
-  return value === 'idle' || value === 'pursuing' || value === 'attacking' || value === 'dead';
+  return (
+    value === 'idle' ||
+    value === 'pursuing' ||
+    value === 'attacking' ||
+    value === 'searching' ||
+    value === 'dead'
+  );
+}
+
+/**
+ * Type guard to check if a value is a valid EnemyAnimation
+ */
+function isValidEnemyAnimation(value: unknown): value is EnemyAnimation {
+  return (
+    value === 'idle' ||
+    value === 'walk' ||
+    value === 'attack' ||
+    value === 'pain' ||
+    value === 'death'
+  );
 }
 
 /**
@@ -118,7 +184,63 @@ function isValidEnemySaveData(value: unknown): boolean {
     typeof e.id === 'string' &&
     isValidVector2(e.position) &&
     typeof e.health === 'number' && isFinite(e.health) &&
-    isValidEnemyState(e.state)
+    isValidEnemyState(e.state) &&
+    (e.enemyType === undefined || isEnemyType(e.enemyType)) &&
+    (e.animation === undefined || isValidEnemyAnimation(e.animation)) &&
+    (e.animationTime === undefined || (typeof e.animationTime === 'number' && isFinite(e.animationTime)))
+  );
+}
+
+/**
+ * Type guard to check if a value is a valid door save data entry
+ */
+function isValidDoorSaveData(value: unknown): value is Door {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const d = value as Record<string, unknown>;
+  return (
+    typeof d.x === 'number' && Number.isInteger(d.x) &&
+    typeof d.y === 'number' && Number.isInteger(d.y) &&
+    (d.orientation === 'horizontal' || d.orientation === 'vertical') &&
+    (d.keyId === undefined || typeof d.keyId === 'string') &&
+    typeof d.openAmount === 'number' && isFinite(d.openAmount) &&
+    (d.state === 'closed' || d.state === 'opening' || d.state === 'open' || d.state === 'closing')
+  );
+}
+
+/**
+ * Type guard to check if a value is valid saved push-wall state
+ */
+function isValidPushWallSaveData(value: unknown): value is PushWall {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.x === 'number' && Number.isInteger(p.x) &&
+    typeof p.y === 'number' && Number.isInteger(p.y) &&
+    typeof p.tile === 'number' && Number.isInteger(p.tile) &&
+    typeof p.dx === 'number' && typeof p.dy === 'number' &&
+    typeof p.offset === 'number' && isFinite(p.offset) &&
+    typeof p.distance === 'number' && Number.isInteger(p.distance) &&
+    (p.state === 'hidden' || p.state === 'moving' || p.state === 'done')
+  );
+}
+
+/**
+ * Type guard to check if a value is valid saved level statistics
+ */
+function isValidLevelStatsSaveData(value: unknown): value is LevelStats {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const s = value as Record<string, unknown>;
+  return (
+    typeof s.startTime === 'number' && isFinite(s.startTime) &&
+    typeof s.shotsFired === 'number' && isFinite(s.shotsFired) &&
+    typeof s.shotsHit === 'number' && isFinite(s.shotsHit) &&
+    typeof s.damageTaken === 'number' && isFinite(s.damageTaken)
   );
 }
 
@@ -170,6 +292,12 @@ export function validateSaveData(data: unknown): data is SaveData {
   if (!Array.isArray(player.inventory) || !player.inventory.every((i) => typeof i === 'string')) {
     return false;
   }
+  if (player.weapons !== undefined && (!Array.isArray(player.weapons) || !player.weapons.every(isWeaponId))) {
+    return false;
+  }
+  if (player.currentWeaponId !== undefined && !isWeaponId(player.currentWeaponId)) {
+    return false;
+  }
 
   // Check currentLevel
   if (typeof gs.currentLevel !== 'number' || !isFinite(gs.currentLevel) || gs.currentLevel < 0) {
@@ -191,6 +319,43 @@ export function validateSaveData(data: unknown): data is SaveData {
     return false;
   }
 
+  // Check doors array (optional, older saves have none)
+  if (gs.doors !== undefined && (!Array.isArray(gs.doors) || !gs.doors.every(isValidDoorSaveData))) {
+    return false;
+  }
+
+  // Check triggers array (optional, older saves have none)
+  if (gs.triggers !== undefined && (!Array.isArray(gs.triggers) || !gs.triggers.every(isValidTriggerState))) {
+    return false;
+  }
+
+  // Check push-walls array (optional, older saves have none)
+  if (gs.pushWalls !== undefined && (!Array.isArray(gs.pushWalls) || !gs.pushWalls.every(isValidPushWallSaveData))) {
+    return false;
+  }
+
+  // Check found secrets (optional, older saves have none)
+  if (
+    gs.foundSecrets !== undefined &&
+    (!Array.isArray(gs.foundSecrets) || !gs.foundSecrets.every((i) => typeof i === 'number' && Number.isInteger(i)))
+  ) {
+    return false;
+  }
+
+  // Check level stats (optional, older saves have none)
+  if (gs.levelStats !== undefined && !isValidLevelStatsSaveData(gs.levelStats)) {
+    return false;
+  }
+
+  // Check grid (optional, older saves have none)
+  if (
+    gs.grid !== undefined &&
+    (!Array.isArray(gs.grid) ||
+      !gs.grid.every((row) => Array.isArray(row) && row.every((tile) => typeof tile === 'number')))
+  ) {
+    return false;
+  }
+
   return true;
 }
 
@@ -204,6 +369,47 @@ export interface DeserializeResult {
   error?: string;
 }
 
+/**
+ * Upgrade save data written by older versions to the current shape
+ * 1.0.0 saves kept a single ammunition pool, which becomes the pistol's pool
+ */
+function migrateSaveData(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+  const d = data as Record<string, unknown>;
+  if (d.version !== '1.0.0' || typeof d.gameState !== 'object' || d.gameState === null) {
+    return data;
+  }
+
+  const gs = d.gameState as Record<string, unknown>;
+  const player = gs.player as Record<string, unknown> | null;
+  const stats = player?.stats as Record<string, unknown> | undefined;
+  if (!player || !stats || typeof stats.ammunition !== 'number') {
+    return data;
+  }
+
+  const { ammunition, maxAmmunition, ...rest } = stats;
+  return {
+    ...d,
+    version: SAVE_DATA_VERSION,
+    gameState: {
+      ...gs,
+      player: {
+        ...player,
+        stats: {
+          ...rest,
+          ammo: { pistol: ammunition, shotgun: 0, stitcher: 0, launcher: 0 },
+          maxAmmo: {
+            ...WEAPON_MAX_AMMO,
+            pistol: typeof maxAmmunition === 'number' ? maxAmmunition : WEAPON_MAX_AMMO.pistol,
+          },
+        },
+      },
+    },
+  };
+}
+
 /**
  * Deserialize a JSON string to SaveData
  * Requirements: 8.2, 8.4
@@ -212,7 +418,7 @@ export interface DeserializeResult {
  */
 export function deserializeSaveData(json: string): DeserializeResult {
   try {
-    const parsed = JSON.parse(json);
+    const parsed = migrateSaveData(JSON.parse(json));
     
     if (!validateSaveData(parsed)) {
       return {
@@ -233,6 +439,22 @@ export function deserializeSaveData(json: string): DeserializeResult {
   }
 }
 
+/**
+ * Restore an enemy's animation from its save data
+ * Saves from before animations were kept show the enemy at rest: standing,
+ * or lying as a corpse when dead
+ */
+function restoreEnemyAnimation(
+  saved: SaveData['gameState']['enemies'][number]
+): { animation: EnemyAnimation; animationTime: number } {
+  if (saved.animation !== undefined) {
+    return { animation: saved.animation, animationTime: saved.animationTime ?? 0 };
+  }
+  return saved.state === 'dead'
+    ? { animation: 'death', animationTime: DEATH_DURATION }
+    : { animation: getStateAnimation(saved.state), animationTime: 0 };
+}
+
 /**
  * Apply save data to restore a game state
  * This requires the current game state (with level map and full enemy/item data)
@@ -246,12 +468,22 @@ export function applySaveData(saveData: SaveData, currentState: GameState): Game
   const { gameState: saved } = saveData;
 
   // Restore player state
+  const weapons = saved.player.weapons ?? currentState.player.weapons;
   const restoredPlayer: Player = {
     ...currentState.player,
     position: { ...saved.player.position },
     rotation: saved.player.rotation,
-    stats: { ...saved.player.stats },
+    stats: {
+      ...saved.player.stats,
+      ammo: { ...saved.player.stats.ammo },
+      maxAmmo: { ...saved.player.stats.maxAmmo },
+    },
     inventory: [...saved.player.inventory],
+    weapons: [...weapons],
+    currentWeapon: saved.player.currentWeaponId && weapons.includes(saved.player.currentWeaponId)
+      ? getWeapon(saved.player.currentWeaponId)
+      : currentState.player.currentWeapon,
+    weaponCooldown: 0,
   };
 
   // Restore enemy states (match by ID)
@@ -263,17 +495,48 @@ export function applySaveData(saveData: SaveData, currentState: GameState): Game
         position: { ...savedEnemy.position },
         health: savedEnemy.health,
         state: savedEnemy.state,
+        ...restoreEnemyAnimation(savedEnemy),
       };
     }
     return enemy;
   });
 
+  // Recreate enemies spawned during play, such as by triggers
+  for (const savedEnemy of saved.enemies) {
+    if (savedEnemy.enemyType && !restoredEnemies.some((enemy) => enemy.id === savedEnemy.id)) {
+      restoredEnemies.push({
+        ...createEnemy(savedEnemy.id, savedEnemy.position, savedEnemy.enemyType),
+        health: savedEnemy.health,
+        state: savedEnemy.state,
+        ...restoreEnemyAnimation(savedEnemy),
+      });
+    }
+  }
+
   // Mark collected items
   const restoredItems = currentState.items.map((item) => ({
     ...item,
     collected: saved.collectedItems.includes(item.id),
   }));
 
+  // Restore door and push-wall state, and tiles changed during play if the grid still fits the level
+  let restoredLevelMap = saved.doors
+    ? { ...currentState.levelMap, doors: saved.doors.map((door) => ({ ...door })) }
+    : currentState.levelMap;
+  if (saved.pushWalls) {
+    restoredLevelMap = { ...restoredLevelMap, pushWalls: saved.pushWalls.map((pushWall) => ({ ...pushWall })) };
+  }
+  const { width, height } = restoredLevelMap;
+  if (saved.grid && saved.grid.length === height && saved.grid.every((row) => row.length === width)) {
+    restoredLevelMap = { ...restoredLevelMap, grid: saved.grid.map((row) => [...row]) };
+  }
+
+  // Restore trigger state (match by ID)
+  const restoredTriggers = currentState.triggers.map((trigger) => {
+    const savedTrigger = saved.triggers?.find((t) => t.id === trigger.id);
+    return savedTrigger ? { ...savedTrigger } : trigger;
+  });
+
   return {
     ...currentState,
     status: 'playing',
@@ -281,7 +544,12 @@ export function applySaveData(saveData: SaveData, currentState: GameState): Game
     enemies: restoredEnemies,
     items: restoredItems,
     currentLevel: saved.currentLevel,
+    levelMap: restoredLevelMap,
     elapsedTime: saved.elapsedTime,
+    triggers: restoredTriggers,
+    foundSecrets: saved.foundSecrets ? [...saved.foundSecrets] : [],
+    // Older saves start counting from the saved time
+    levelStats: saved.levelStats ? { ...saved.levelStats } : createLevelStats(saved.elapsedTime),
   };
 }
 
@@ -25,6 +25,12 @@ export {
   fire,
   addAmmunition,
   canFire,
+  getCurrentAmmo,
+  updateWeaponCooldown,
+  hasWeapon,
+  switchWeapon,
+  cycleWeapon,
+  giveWeapon,
   addKey,
   hasKey,
   setPosition,
@@ -35,11 +41,15 @@ export {
 export {
   DEFAULT_ENEMY_CONFIG,
   ATTACK_COOLDOWN,
+  getEnemyConfig,
+  WAYPOINT_REACHED_DISTANCE,
   createEnemy,
   canSeePlayer,
   getDirectionToPlayer,
   determineNextState,
   moveTowardPlayer,
+  moveTowardPosition,
+  searchForPlayer,
   takeDamage as enemyTakeDamage,
   isDead as enemyIsDead,
   isInAttackRange,
@@ -51,9 +61,30 @@ export {
   type AttackResult,
   type EnemyUpdateResult,
   type DefeatResult,
+  type EnemyConfig,
 } from './enemy';
 
+export * from './enemyArchetypes';
+export * from './enemyAnimation';
+
+export * from './weapons';
 export * from './enemyManager';
+export * from './projectile';
 export * from './item';
 export * from './level';
+export * from './levelGenerator';
+export * from './door';
+export * from './pathfinding';
 export * from './gameStateManager';
+export * from './simulation';
+export * from './interpolation';
+export * from './random';
+export * from './demo';
+export * from './levelEditor';
+export * from './campaign';
+export * from './trigger';
+export * from './pushWall';
+export * from './levelStats';
+export * from './exit';
+export * from './floor';
+export * from './lights';
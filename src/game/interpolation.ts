@@ -0,0 +1,64 @@
+/**
+ * Interpolation module for FrankenKiro
+ * Blends the last two simulation states so fixed-step updates render smoothly
+ * at any display refresh rate
+ */
+
+import { lerp } from '@/engine/vector2';
+import { GameState } from './types';
+import { normalizeAngle } from './player';
+
+/**
+ * Interpolate between two angles along the shorter way around the circle
+ */
+export function lerpAngle(from: number, to: number, t: number): number {
+  const difference = Math.atan2(Math.sin(to - from), Math.cos(to - from));
+  return normalizeAngle(from + difference * t);
+}
+
+/**
+ * Blend entity positions between the previous and current state
+ * Everything except the player, enemy and projectile positions comes from the
+ * current state. Entities that did not exist in the previous state, and
+ * everything after a level change, are shown where they are now.
+ * @param previous - State before the latest update
+ * @param current - State after the latest update
+ * @param alpha - How far to blend toward the current state (0-1)
+ * @returns A state for rendering only
+ */
+export function interpolateState(previous: GameState, current: GameState, alpha: number): GameState {
+  if (alpha >= 1 || previous.currentLevel !== current.currentLevel) {
+    return current;
+  }
+
+  const previousEnemies = new Map(previous.enemies.map((enemy) => [enemy.id, enemy]));
+  const previousProjectiles = new Map(
+    previous.projectiles.map((projectile) => [projectile.id, projectile])
+  );
+
+  return {
+    ...current,
+    player: {
+      ...current.player,
+      position: lerp(previous.player.position, current.player.position, alpha),
+      rotation: lerpAngle(previous.player.rotation, current.player.rotation, alpha),
+    },
+    enemies: current.enemies.map((enemy) => {
+      const before = previousEnemies.get(enemy.id);
+      if (!before) {
+        return enemy;
+      }
+      return {
+        ...enemy,
+        position: lerp(before.position, enemy.position, alpha),
+        rotation: lerpAngle(before.rotation, enemy.rotation, alpha),
+      };
+    }),
+    projectiles: current.projectiles.map((projectile) => {
+      const before = previousProjectiles.get(projectile.id);
+      return before
+        ? { ...projectile, position: lerp(before.position, projectile.position, alpha) }
+        : projectile;
+    }),
+  };
+}
@@ -6,8 +6,9 @@
 
 import { Vector2 } from '@/engine/types';
 import { distance } from '@/engine/vector2';
-import { GameItem, ItemType, Player } from './types';
-import { heal, addAmmunition, addKey } from './player';
+import { GameItem, ItemType, Player, WeaponId } from './types';
+import { heal, addAmmunition, addKey, addScore, giveWeapon } from './player';
+import { WEAPON_PICKUP_AMMO } from './weapons';
 
 /**
  * Collection radius - how close the player needs to be to collect an item
@@ -36,16 +37,22 @@ export function createItem(
   type: ItemType,
   position: Vector2,
   value: number,
-  spriteId?: string
+  spriteId?: string,
+  weaponId?: WeaponId,
+  id: string = generateItemId()
 ): GameItem {
-  return {
-    id: generateItemId(),
+  const item: GameItem = {
+    id,
     type,
     position: { ...position },
     value,
     collected: false,
     spriteId: spriteId ?? getDefaultSpriteId(type),
   };
+  if (weaponId) {
+    item.weaponId = weaponId;
+  }
+  return item;
 }
 
 /**
@@ -72,6 +79,26 @@ export function createKeyItem(position: Vector2, keyId: number = 1): GameItem {
   return createItem('key', position, keyId, `key_${keyId}`);
 }
 
+/**
+ * Create a collectible specimen
+ * The item value is the score it is worth
+ */
+export function createCollectibleItem(position: Vector2, points: number = 100): GameItem {
+  return createItem('collectible', position, points, 'specimen_jar');
+}
+
+/**
+ * Create a weapon pickup
+ * The item value is the ammunition that comes with the weapon
+ */
+export function createWeaponItem(
+  position: Vector2,
+  weaponId: WeaponId,
+  ammoAmount: number = WEAPON_PICKUP_AMMO[weaponId]
+): GameItem {
+  return createItem('weapon', position, ammoAmount, `weapon_${weaponId}`, weaponId);
+}
+
 
 /**
  * Get the default sprite ID for an item type
@@ -84,6 +111,10 @@ export function getDefaultSpriteId(type: ItemType): string {
       return 'ammo_box';
     case 'key':
       return 'key_default';
+    case 'weapon':
+      return 'weapon_default';
+    case 'collectible':
+      return 'specimen_jar';
   }
 }
 
@@ -134,11 +165,15 @@ export function applyItemEffect(player: Player, item: GameItem): Player {
       // Requirements: 5.1 - increase player health up to maximum value
       return heal(player, item.value);
     case 'ammo':
-      // Requirements: 5.2 - increase ammunition count
-      return addAmmunition(player, item.value);
+      // Requirements: 5.2 - increase ammunition count (current weapon unless the item names one)
+      return addAmmunition(player, item.value, item.weaponId);
     case 'key':
       // Requirements: 5.4 - add key to player inventory
       return addKey(player, `key_${item.value}`);
+    case 'weapon':
+      return giveWeapon(player, item.weaponId ?? 'pistol', item.value);
+    case 'collectible':
+      return addScore(player, item.value);
   }
 }
 
@@ -266,9 +301,12 @@ export function findNearestItem(
 
 /**
  * Create items from spawn data (used when loading levels)
+ * Ids follow spawn order, so the same level always yields the same ids
  */
 export function createItemsFromSpawns(
-  spawns: Array<{ position: Vector2; itemType: ItemType; value: number }>
+  spawns: Array<{ position: Vector2; itemType: ItemType; value: number; weaponId?: WeaponId }>
 ): GameItem[] {
-  return spawns.map((spawn) => createItem(spawn.itemType, spawn.position, spawn.value));
+  return spawns.map((spawn, index) =>
+    createItem(spawn.itemType, spawn.position, spawn.value, undefined, spawn.weaponId, `item_${index + 1}`)
+  );
 }
@@ -4,7 +4,37 @@
  */
 
 import { Vector2 } from '@/engine/types';
-import { LevelMap, EnemySpawn, ItemSpawn } from './types';
+import { LevelMap, LevelFile, EnemySpawn, ItemSpawn } from './types';
+import { isEnemyType } from './enemyArchetypes';
+import { DOOR_TILE, getDoorKeyId, isDoorTile } from './door';
+import { validateTriggers } from './trigger';
+import { validateExitRule } from './exit';
+import {
+  FLOOR_TELEPORT,
+  findTeleporter,
+  getFloorType,
+  validateCeilingLayer,
+  validateFloorLayer,
+  validateTeleporters,
+} from './floor';
+import { validateAmbientLight, validateLights } from './lights';
+
+/**
+ * Current level file format version
+ */
+export const LEVEL_FORMAT_VERSION = 1;
+
+/**
+ * Tile value for open floor
+ */
+export const FLOOR_TILE = 0;
+
+/**
+ * Highest tile value for a solid wall (walls are 1 to MAX_WALL_TILE)
+ */
+export const MAX_WALL_TILE = 4;
+
+const ITEM_TYPES = ['health', 'ammo', 'key', 'weapon', 'collectible'];
 
 /**
  * Validation result for level maps
@@ -56,6 +86,41 @@ export function getTile(x: number, y: number, level: LevelMap): number {
   return level.grid[gridY][gridX];
 }
 
+/**
+ * Set the tile at a grid cell
+ * Returns the same level when the cell is out of bounds or already holds the tile
+ */
+export function setTile(level: LevelMap, x: number, y: number, tile: number): LevelMap {
+  if (level.grid[y]?.[x] === undefined || level.grid[y][x] === tile) {
+    return level;
+  }
+  return {
+    ...level,
+    grid: level.grid.map((row, rowY) =>
+      rowY === y ? row.map((value, rowX) => (rowX === x ? tile : value)) : row
+    ),
+  };
+}
+
+/**
+ * Check if any circular entity overlaps a grid cell
+ * @param x - Grid x coordinate
+ * @param y - Grid y coordinate
+ * @param occupants - Entities to test against the cell
+ */
+export function isTileOccupied(
+  x: number,
+  y: number,
+  occupants: { position: Vector2; radius: number }[]
+): boolean {
+  return occupants.some(({ position, radius }) => {
+    const closestX = Math.max(x, Math.min(position.x, x + 1));
+    const closestY = Math.max(y, Math.min(position.y, y + 1));
+    const dx = position.x - closestX;
+    const dy = position.y - closestY;
+    return dx * dx + dy * dy < radius * radius;
+  });
+}
 
 /**
  * Checks if a tile at the specified coordinates is a wall
@@ -139,11 +204,102 @@ export function validateLevelMap(level: unknown): LevelValidationResult {
   // Validate enemySpawns array
   if (!Array.isArray(map.enemySpawns)) {
     errors.push('Level map must have an enemySpawns array');
+  } else {
+    (map.enemySpawns as unknown[]).forEach((spawn, index) => {
+      const s = (typeof spawn === 'object' && spawn !== null ? spawn : {}) as Record<string, unknown>;
+      if (!isValidVector2(s.position)) {
+        errors.push(`enemySpawns[${index}] must have a valid position`);
+      }
+      if (!isEnemyType(s.enemyType)) {
+        errors.push(`enemySpawns[${index}] has unknown enemy type "${String(s.enemyType)}"`);
+      }
+    });
   }
   
   // Validate items array
   if (!Array.isArray(map.items)) {
     errors.push('Level map must have an items array');
+  } else {
+    (map.items as unknown[]).forEach((item, index) => {
+      const i = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+      if (!isValidVector2(i.position)) {
+        errors.push(`items[${index}] must have a valid position`);
+      }
+      if (!ITEM_TYPES.includes(i.itemType as string)) {
+        errors.push(`items[${index}] has unknown item type "${String(i.itemType)}"`);
+      }
+    });
+  }
+
+  // Validate exit rule (optional)
+  if (map.exitRule !== undefined) {
+    errors.push(...validateExitRule(map.exitRule));
+  }
+
+  // Validate triggers (optional)
+  if (map.triggers !== undefined && typeof map.width === 'number' && typeof map.height === 'number') {
+    errors.push(...validateTriggers(map.triggers, map.width, map.height));
+  }
+
+  // Validate ambient light (optional)
+  if (map.ambientLight !== undefined) {
+    errors.push(...validateAmbientLight(map.ambientLight));
+  }
+
+  // Validate secret walls and areas, floor and ceiling layers, teleporters and lights (optional)
+  if (typeof map.width === 'number' && typeof map.height === 'number') {
+    const width = map.width;
+    const height = map.height;
+    if (map.floor !== undefined) {
+      errors.push(...validateFloorLayer(map.floor, width, height));
+    }
+    if (map.ceiling !== undefined) {
+      errors.push(...validateCeilingLayer(map.ceiling, width, height));
+    }
+    if (map.teleporters !== undefined) {
+      errors.push(...validateTeleporters(map.teleporters, width, height));
+    }
+    if (map.lights !== undefined) {
+      errors.push(...validateLights(map.lights, width, height));
+    }
+    if (map.secretWalls !== undefined) {
+      if (!Array.isArray(map.secretWalls)) {
+        errors.push('Level map secretWalls must be an array');
+      } else {
+        (map.secretWalls as unknown[]).forEach((wall, index) => {
+          const w = (typeof wall === 'object' && wall !== null ? wall : {}) as Record<string, unknown>;
+          if (
+            !Number.isInteger(w.x) || !Number.isInteger(w.y) ||
+            (w.x as number) < 0 || (w.x as number) >= width || (w.y as number) < 0 || (w.y as number) >= height
+          ) {
+            errors.push(`secretWalls[${index}] must be a tile within level bounds`);
+          }
+        });
+      }
+    }
+    if (map.secrets !== undefined) {
+      if (!Array.isArray(map.secrets)) {
+        errors.push('Level map secrets must be an array');
+      } else {
+        (map.secrets as unknown[]).forEach((area, index) => {
+          const a = (typeof area === 'object' && area !== null ? area : {}) as Record<string, unknown>;
+          if (
+            !Number.isInteger(a.x) || !Number.isInteger(a.y) ||
+            !Number.isInteger(a.width) || !Number.isInteger(a.height) ||
+            (a.width as number) <= 0 || (a.height as number) <= 0 ||
+            (a.x as number) < 0 || (a.x as number) + (a.width as number) > width ||
+            (a.y as number) < 0 || (a.y as number) + (a.height as number) > height
+          ) {
+            errors.push(`secrets[${index}] must be a tile rectangle within level bounds`);
+          }
+        });
+      }
+    }
+  }
+
+  // Only check the layout once the structure is sound
+  if (errors.length === 0) {
+    errors.push(...validateLevelLayout(map as unknown as LevelMap));
   }
   
   return {
@@ -152,6 +308,173 @@ export function validateLevelMap(level: unknown): LevelValidationResult {
   };
 }
 
+/**
+ * Check if a value is a known tile id
+ */
+export function isValidTile(tile: unknown): boolean {
+  return (
+    typeof tile === 'number' &&
+    Number.isInteger(tile) &&
+    ((tile >= FLOOR_TILE && tile <= MAX_WALL_TILE) || isDoorTile(tile))
+  );
+}
+
+/**
+ * Format a position as the tile coordinates used in validation errors
+ */
+function formatTile(position: Vector2): string {
+  return `(${Math.floor(position.x)}, ${Math.floor(position.y)})`;
+}
+
+/**
+ * Check if the tile under a position is open floor
+ */
+function isFloorAt(position: Vector2, level: LevelMap): boolean {
+  return getTile(position.x, position.y, level) === FLOOR_TILE;
+}
+
+/**
+ * Find every tile the player can reach from the spawn point
+ * Floods through floor and door tiles and along teleporters; a locked door
+ * only counts as passable once its key has been found somewhere already reachable
+ * @returns Grid of reachable tiles, indexed [y][x]
+ */
+export function findReachableTiles(level: LevelMap): boolean[][] {
+  const reachable = level.grid.map((row) => row.map(() => false));
+  const keys = new Set<string>();
+
+  const isPassable = (tile: number): boolean => {
+    if (tile === FLOOR_TILE || tile === DOOR_TILE) {
+      return true;
+    }
+    const keyId = getDoorKeyId(tile);
+    return keyId !== undefined && keys.has(keyId);
+  };
+
+  // Each pass may pick up new keys, which can open more of the level
+  let foundNewKey = true;
+  while (foundNewKey) {
+    const start = { x: Math.floor(level.playerSpawn.x), y: Math.floor(level.playerSpawn.y) };
+    const open = isPassable(getTile(start.x, start.y, level)) ? [start] : [];
+    const visited = new Set<number>(open.map(({ x, y }) => y * level.width + x));
+
+    while (open.length > 0) {
+      const { x, y } = open.pop()!;
+      reachable[y][x] = true;
+      const neighbours = [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]];
+      const teleporter = getFloorType(x, y, level) === FLOOR_TELEPORT ? findTeleporter(x, y, level) : undefined;
+      if (teleporter) {
+        neighbours.push([Math.floor(teleporter.destination.x), Math.floor(teleporter.destination.y)]);
+      }
+      for (const [nx, ny] of neighbours) {
+        if (!visited.has(ny * level.width + nx) && isPassable(getTile(nx, ny, level))) {
+          visited.add(ny * level.width + nx);
+          open.push({ x: nx, y: ny });
+        }
+      }
+    }
+
+    foundNewKey = false;
+    for (const item of level.items) {
+      const keyId = `key_${item.value}`;
+      const onReachableTile = reachable[Math.floor(item.position.y)]?.[Math.floor(item.position.x)];
+      if (item.itemType === 'key' && !keys.has(keyId) && onReachableTile) {
+        keys.add(keyId);
+        foundNewKey = true;
+      }
+    }
+  }
+
+  return reachable;
+}
+
+/**
+ * Check that a structurally valid level is playable
+ * Every tile id must be known, spawns and the exit must sit on open floor,
+ * secret walls must be plain walls, every teleport pad needs exactly one
+ * teleporter landing on open floor, the exit must be reachable from the
+ * player spawn, and its exit rule must be satisfiable
+ * @returns Errors naming the offending tile coordinates
+ */
+export function validateLevelLayout(level: LevelMap): string[] {
+  const errors: string[] = [];
+
+  level.grid.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if (!isValidTile(tile)) {
+        errors.push(`Tile (${x}, ${y}) has unknown id ${String(tile)}`);
+      }
+    });
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (!isFloorAt(level.playerSpawn, level)) {
+    errors.push(`playerSpawn at tile ${formatTile(level.playerSpawn)} is not on open floor`);
+  }
+  if (!isFloorAt(level.exitPoint, level)) {
+    errors.push(`exitPoint at tile ${formatTile(level.exitPoint)} is not on open floor`);
+  }
+  level.enemySpawns.forEach((spawn, index) => {
+    if (!isFloorAt(spawn.position, level)) {
+      errors.push(`enemySpawns[${index}] at tile ${formatTile(spawn.position)} is not on open floor`);
+    }
+  });
+  level.items.forEach((item, index) => {
+    if (!isFloorAt(item.position, level)) {
+      errors.push(`items[${index}] at tile ${formatTile(item.position)} is not on open floor`);
+    }
+  });
+  level.secretWalls?.forEach((wall, index) => {
+    const tile = level.grid[wall.y][wall.x];
+    if (tile <= FLOOR_TILE || tile > MAX_WALL_TILE) {
+      errors.push(`secretWalls[${index}] at tile ${formatTile(wall)} is not a plain wall`);
+    }
+  });
+  level.floor?.forEach((row, y) => {
+    row.forEach((type, x) => {
+      if (type === FLOOR_TELEPORT && !findTeleporter(x, y, level)) {
+        errors.push(`Teleport pad at tile (${x}, ${y}) has no teleporter`);
+      }
+    });
+  });
+  level.teleporters?.forEach((teleporter, index) => {
+    if (getFloorType(teleporter.x, teleporter.y, level) !== FLOOR_TELEPORT) {
+      errors.push(`teleporters[${index}] at tile ${formatTile(teleporter)} is not on a teleport pad`);
+    } else if (findTeleporter(teleporter.x, teleporter.y, level) !== teleporter) {
+      errors.push(`teleporters[${index}] at tile ${formatTile(teleporter)} shares its pad with another teleporter`);
+    }
+    if (!isFloorAt(teleporter.destination, level)) {
+      errors.push(`teleporters[${index}] destination at tile ${formatTile(teleporter.destination)} is not on open floor`);
+    }
+  });
+
+  if (errors.length === 0) {
+    const reachable = findReachableTiles(level);
+    if (!reachable[Math.floor(level.exitPoint.y)][Math.floor(level.exitPoint.x)]) {
+      errors.push(`exitPoint at tile ${formatTile(level.exitPoint)} cannot be reached from playerSpawn`);
+    }
+
+    // The exit rule must be satisfiable with what the player can reach
+    const reachableItems = level.items.filter(
+      (item) => reachable[Math.floor(item.position.y)][Math.floor(item.position.x)]
+    );
+    const rule = level.exitRule;
+    if (rule?.type === 'key' && !reachableItems.some((item) => item.itemType === 'key' && item.value === rule.key)) {
+      errors.push(`exitRule needs key ${rule.key}, but no reachable item gives it`);
+    }
+    if (rule?.type === 'collectibles') {
+      const available = reachableItems.filter((item) => item.itemType === 'collectible').length;
+      if (available < rule.count) {
+        errors.push(`exitRule needs ${rule.count} collectibles, but only ${available} can be reached`);
+      }
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Helper to check if a value is a valid Vector2
  */
@@ -165,16 +488,44 @@ function isValidVector2(value: unknown): value is Vector2 {
 
 /**
  * Loads and validates a level map from data
- * Throws an error if validation fails
+ * Accepts a bare level map or a versioned level file
+ * Throws an error if validation fails or the file version is unsupported
  */
 export function loadLevelMap(data: unknown): LevelMap {
-  const validation = validateLevelMap(data);
+  let map = data;
+  if (typeof data === 'object' && data !== null && 'version' in data) {
+    const { version, name: _name, ...level } = data as LevelFile;
+    if (version !== LEVEL_FORMAT_VERSION) {
+      throw new Error(`Unsupported level format version: ${String(version)}`);
+    }
+    map = level;
+  }
+
+  const validation = validateLevelMap(map);
   
   if (!validation.valid) {
     throw new Error(`Invalid level map: ${validation.errors.join(', ')}`);
   }
   
-  return data as LevelMap;
+  return map as LevelMap;
+}
+
+/**
+ * Parse and validate a level from the JSON level file format
+ * Throws an error if the JSON is malformed or the level is invalid
+ */
+export function parseLevelFile(json: string): LevelMap {
+  return loadLevelMap(JSON.parse(json));
+}
+
+/**
+ * Serialize a level map to the JSON level file format
+ * Runtime door and push-wall state is left out
+ */
+export function serializeLevelMap(level: LevelMap, name?: string): string {
+  const { doors: _doors, pushWalls: _pushWalls, ...map } = level;
+  const file: LevelFile = { version: LEVEL_FORMAT_VERSION, ...(name ? { name } : {}), ...map };
+  return JSON.stringify(file, null, 2);
 }
 
 /**
@@ -256,48 +607,65 @@ export interface LevelManagerState {
   currentLevel: number;
   levelMap: LevelMap;
   totalLevels: number;
+  /** Index of the level the exit leads to, or null when this level ends the game */
+  nextLevel: number | null;
+}
+
+/**
+ * Get the level that follows in a linear level list
+ */
+function getLinearNextLevel(levelIndex: number, totalLevels: number): number | null {
+  return levelIndex < totalLevels - 1 ? levelIndex + 1 : null;
 }
 
 /**
  * Creates a new level manager state
+ * Without a next level, levels are played in list order
  */
 export function createLevelManagerState(
   initialLevel: number,
   levelMap: LevelMap,
-  totalLevels: number
+  totalLevels: number,
+  nextLevel: number | null = getLinearNextLevel(initialLevel, totalLevels)
 ): LevelManagerState {
   return {
     currentLevel: initialLevel,
     levelMap,
     totalLevels,
+    nextLevel,
   };
 }
 
 /**
  * Checks if there are more levels after the current one
  */
-export function hasNextLevel(state: LevelManagerState): boolean {
-  return state.currentLevel < state.totalLevels - 1;
+export function hasNextLevel(
+  state: LevelManagerState
+): state is LevelManagerState & { nextLevel: number } {
+  return state.nextLevel !== null;
 }
 
 /**
  * Checks if the current level is the final level
  */
 export function isFinalLevel(state: LevelManagerState): boolean {
-  return state.currentLevel >= state.totalLevels - 1;
+  return state.nextLevel === null;
 }
 
 /**
  * Updates the level manager state with a new level
+ * Without a next level, levels are played in list order
  */
 export function setCurrentLevel(
   state: LevelManagerState,
   levelIndex: number,
-  levelMap: LevelMap
+  levelMap: LevelMap,
+  nextLevel: number | null = getLinearNextLevel(levelIndex, state.totalLevels)
 ): LevelManagerState {
   return {
     ...state,
     currentLevel: levelIndex,
     levelMap,
+    nextLevel,
   };
 }
@@ -0,0 +1,259 @@
+/**
+ * Level editor module for FrankenKiro
+ * Pure edits on LevelMaps used by the in-browser level editor
+ */
+
+import { Vector2 } from '@/engine/types';
+import { ExitRule, ItemSpawn, LevelMap, LevelTrigger, TriggerAction } from './types';
+import { FLOOR_TILE } from './level';
+import { CEILING_STONE, FLOOR_PLAIN, FLOOR_TELEPORT } from './floor';
+
+/**
+ * Editor size limits
+ */
+export const MIN_EDITOR_SIZE = 3;
+export const MAX_EDITOR_SIZE = 64;
+
+/**
+ * Check if a position lies in a grid cell
+ */
+function isInCell(position: Vector2, x: number, y: number): boolean {
+  return Math.floor(position.x) === x && Math.floor(position.y) === y;
+}
+
+/**
+ * Get the center of a grid cell
+ */
+function cellCenter(x: number, y: number): Vector2 {
+  return { x: x + 0.5, y: y + 0.5 };
+}
+
+/**
+ * Fit a trigger inside new level bounds
+ * Regions are cut at the edge of the grid and actions aimed outside it are
+ * dropped; returns null once the region no longer overlaps the level
+ */
+function clipTrigger(trigger: LevelTrigger, width: number, height: number): LevelTrigger | null {
+  const inside = (x: number, y: number): boolean => x < width && y < height;
+  const keepAction = (action: TriggerAction): boolean => {
+    switch (action.type) {
+      case 'setTile':
+        return inside(action.x, action.y);
+      case 'spawnEnemy':
+        return inside(action.position.x, action.position.y);
+      default:
+        return true;
+    }
+  };
+
+  let { condition } = trigger;
+  if (condition.type === 'enter' || condition.type === 'exit') {
+    const { region } = condition;
+    if (region.shape === 'rect') {
+      if (!inside(region.x, region.y)) {
+        return null;
+      }
+      condition = {
+        ...condition,
+        region: {
+          ...region,
+          width: Math.min(region.width, width - region.x),
+          height: Math.min(region.height, height - region.y),
+        },
+      };
+    } else if (!inside(region.center.x, region.center.y)) {
+      return null;
+    }
+  }
+
+  return { ...trigger, condition, actions: trigger.actions.filter(keepAction) };
+}
+
+/**
+ * Create an empty level enclosed by an outer wall
+ */
+export function createBlankLevel(width: number, height: number): LevelMap {
+  const grid: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      const border = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+      row.push(border ? 1 : FLOOR_TILE);
+    }
+    grid.push(row);
+  }
+
+  return {
+    width,
+    height,
+    grid,
+    playerSpawn: cellCenter(1, 1),
+    enemySpawns: [],
+    items: [],
+    exitPoint: cellCenter(width - 2, height - 2),
+  };
+}
+
+/**
+ * Resize a level, keeping the tiles that still fit
+ * New tiles are walls on plain floor under stone; spawns, items, secrets,
+ * teleporters and lights outside the new bounds are dropped, triggers are
+ * clipped to them, and the player spawn and exit are pulled back inside
+ */
+export function resizeLevel(level: LevelMap, width: number, height: number): LevelMap {
+  const clampedWidth = Math.max(MIN_EDITOR_SIZE, Math.min(MAX_EDITOR_SIZE, Math.floor(width)));
+  const clampedHeight = Math.max(MIN_EDITOR_SIZE, Math.min(MAX_EDITOR_SIZE, Math.floor(height)));
+  const inside = (position: Vector2): boolean =>
+    position.x < clampedWidth && position.y < clampedHeight;
+  const clamp = (position: Vector2): Vector2 => ({
+    x: Math.min(position.x, clampedWidth - 0.5),
+    y: Math.min(position.y, clampedHeight - 0.5),
+  });
+
+  const grid: number[][] = [];
+  for (let y = 0; y < clampedHeight; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < clampedWidth; x++) {
+      row.push(level.grid[y]?.[x] ?? 1);
+    }
+    grid.push(row);
+  }
+  const floor = level.floor && grid.map((row, y) => row.map((_, x) => level.floor?.[y]?.[x] ?? FLOOR_PLAIN));
+  const ceiling = level.ceiling && grid.map((row, y) => row.map((_, x) => level.ceiling?.[y]?.[x] ?? CEILING_STONE));
+
+  return {
+    ...level,
+    width: clampedWidth,
+    height: clampedHeight,
+    grid,
+    playerSpawn: clamp(level.playerSpawn),
+    exitPoint: clamp(level.exitPoint),
+    enemySpawns: level.enemySpawns.filter((spawn) => inside(spawn.position)),
+    items: level.items.filter((item) => inside(item.position)),
+    secretWalls: level.secretWalls?.filter(inside),
+    secrets: level.secrets?.filter(
+      (area) => area.x + area.width <= clampedWidth && area.y + area.height <= clampedHeight
+    ),
+    floor,
+    ceiling,
+    teleporters: level.teleporters?.filter(
+      (teleporter) => inside(teleporter) && inside(teleporter.destination)
+    ),
+    lights: level.lights?.filter((light) => inside(light.position)),
+    ...(level.triggers && {
+      triggers: level.triggers.flatMap((trigger) => clipTrigger(trigger, clampedWidth, clampedHeight) ?? []),
+    }),
+  };
+}
+
+/**
+ * Remove every enemy and item spawn in a grid cell
+ */
+export function clearSpawnsAt(level: LevelMap, x: number, y: number): LevelMap {
+  return {
+    ...level,
+    enemySpawns: level.enemySpawns.filter((spawn) => !isInCell(spawn.position, x, y)),
+    items: level.items.filter((item) => !isInCell(item.position, x, y)),
+  };
+}
+
+/**
+ * Place an enemy spawn in a grid cell, replacing whatever spawned there
+ */
+export function placeEnemySpawn(level: LevelMap, x: number, y: number, enemyType: string): LevelMap {
+  const cleared = clearSpawnsAt(level, x, y);
+  return {
+    ...cleared,
+    enemySpawns: [...cleared.enemySpawns, { position: cellCenter(x, y), enemyType }],
+  };
+}
+
+/**
+ * Place an item spawn in a grid cell, replacing whatever spawned there
+ */
+export function placeItemSpawn(
+  level: LevelMap,
+  x: number,
+  y: number,
+  item: Omit<ItemSpawn, 'position'>
+): LevelMap {
+  const cleared = clearSpawnsAt(level, x, y);
+  return {
+    ...cleared,
+    items: [...cleared.items, { ...item, position: cellCenter(x, y) }],
+  };
+}
+
+/**
+ * Set the floor type of a grid cell, creating the floor layer if needed
+ * Painting over a teleport pad removes its teleporter
+ */
+export function setFloorType(level: LevelMap, x: number, y: number, type: number): LevelMap {
+  const floor = level.floor
+    ? level.floor.map((row) => [...row])
+    : level.grid.map((row) => row.map(() => FLOOR_PLAIN));
+  floor[y][x] = type;
+  return {
+    ...level,
+    floor,
+    teleporters: level.teleporters?.filter((teleporter) => teleporter.x !== x || teleporter.y !== y),
+  };
+}
+
+/**
+ * Set the ceiling type of a grid cell, creating the ceiling layer if needed
+ */
+export function setCeilingType(level: LevelMap, x: number, y: number, type: number): LevelMap {
+  const ceiling = level.ceiling
+    ? level.ceiling.map((row) => [...row])
+    : level.grid.map((row) => row.map(() => CEILING_STONE));
+  ceiling[y][x] = type;
+  return { ...level, ceiling };
+}
+
+/**
+ * Turn a grid cell into a teleport pad sending the player to another cell
+ */
+export function placeTeleporter(level: LevelMap, x: number, y: number, destination: Vector2): LevelMap {
+  const withPad = setFloorType(level, x, y, FLOOR_TELEPORT);
+  return {
+    ...withPad,
+    teleporters: [
+      ...(withPad.teleporters ?? []),
+      { x, y, destination: cellCenter(Math.floor(destination.x), Math.floor(destination.y)) },
+    ],
+  };
+}
+
+/**
+ * Move the player spawn to a grid cell
+ */
+export function setPlayerSpawn(level: LevelMap, x: number, y: number): LevelMap {
+  return { ...level, playerSpawn: cellCenter(x, y) };
+}
+
+/**
+ * Move the exit to a grid cell
+ */
+export function setExitPoint(level: LevelMap, x: number, y: number): LevelMap {
+  return { ...level, exitPoint: cellCenter(x, y) };
+}
+
+/**
+ * Set what opens the exit
+ * @param type - Rule type; 'open' removes the rule
+ * @param amount - Key number for key rules, collectibles needed for collectible rules
+ */
+export function setExitRule(level: LevelMap, type: ExitRule['type'], amount: number = 1): LevelMap {
+  const { exitRule: _exitRule, ...rest } = level;
+  switch (type) {
+    case 'open':
+      return rest;
+    case 'key':
+      return { ...rest, exitRule: { type, key: amount } };
+    case 'collectibles':
+      return { ...rest, exitRule: { type, count: amount } };
+    case 'enemiesDead':
+      return { ...rest, exitRule: { type } };
+  }
+}
@@ -0,0 +1,492 @@
+/**
+ * Level generator module for FrankenKiro
+ * Builds seeded LevelMaps from BSP rooms and corridors or cellular-automata
+ * caves, then places the spawn, exit, enemies and items
+ */
+
+import { Vector2 } from '@/engine/types';
+import { EnemySpawn, ItemSpawn, LevelMap, WeaponId } from './types';
+import { ENEMY_ARCHETYPES } from './enemyArchetypes';
+import { FLOOR_TILE, MAX_WALL_TILE } from './level';
+import { RandomSource, createRandom } from './random';
+
+/**
+ * Layout styles the generator can build
+ * - rooms: rectangular rooms split by BSP and joined by corridors
+ * - caves: organic caverns grown with cellular automata
+ */
+export type LevelGeneratorStyle = 'rooms' | 'caves';
+
+/**
+ * Options for level generation
+ */
+export interface LevelGeneratorOptions {
+  width: number;
+  height: number;
+  style: LevelGeneratorStyle;
+  /** Scales the enemy budget; 1 is normal */
+  difficulty: number;
+}
+
+/**
+ * Default level generator options
+ */
+export const DEFAULT_GENERATOR_OPTIONS: LevelGeneratorOptions = {
+  width: 24,
+  height: 24,
+  style: 'rooms',
+  difficulty: 1,
+};
+
+/**
+ * Smallest level the generator will build
+ */
+export const MIN_GENERATED_SIZE = 12;
+
+/**
+ * Tiles from the spawn within which no enemies are placed, measured in a
+ * straight line so enemies just behind a thin wall are kept away too
+ */
+export const SAFE_SPAWN_DISTANCE = 5;
+
+/**
+ * Enemy budget per open floor tile at difficulty 1
+ */
+const ENEMY_BUDGET_PER_TILE = 1 / 25;
+
+/**
+ * Smallest BSP partition; rooms are carved inside partitions
+ */
+const MIN_PARTITION_SIZE = 6;
+
+/**
+ * Cave generation: initial wall chance and smoothing passes
+ */
+const CAVE_FILL_CHANCE = 0.45;
+const CAVE_SMOOTHING_PASSES = 4;
+const CAVE_MIN_OPEN_FRACTION = 0.3;
+const CAVE_MAX_ATTEMPTS = 10;
+
+/**
+ * Weapon pickups and the ammo they hold
+ */
+const WEAPON_PICKUPS: ReadonlyArray<{ weaponId: WeaponId; value: number }> = [
+  { weaponId: 'shotgun', value: 10 },
+  { weaponId: 'stitcher', value: 60 },
+  { weaponId: 'launcher', value: 5 },
+];
+
+/**
+ * Rectangle of grid cells
+ */
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Grid cell with its walking distance from the spawn
+ */
+interface FloorCell {
+  x: number;
+  y: number;
+  distance: number;
+}
+
+/**
+ * Pick a random integer in [min, max]
+ */
+function randomInt(random: RandomSource, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Create a grid filled with solid wall
+ */
+function createSolidGrid(width: number, height: number): number[][] {
+  return Array.from({ length: height }, () => new Array(width).fill(1));
+}
+
+/**
+ * Check if a cell lies inside the level's outer wall
+ */
+function isInterior(x: number, y: number, width: number, height: number): boolean {
+  return x > 0 && y > 0 && x < width - 1 && y < height - 1;
+}
+
+/**
+ * Get the center cell of a rectangle
+ */
+function rectCenter(rect: Rect): { x: number; y: number } {
+  return {
+    x: rect.x + Math.floor(rect.width / 2),
+    y: rect.y + Math.floor(rect.height / 2),
+  };
+}
+
+/**
+ * Split a partition recursively and carve a room in every leaf
+ * Sibling subtrees are joined by a corridor, so every room is connected
+ * @returns The rooms carved inside the partition
+ */
+function carveBspRooms(grid: number[][], area: Rect, random: RandomSource): Rect[] {
+  const canSplitX = area.width >= MIN_PARTITION_SIZE * 2;
+  const canSplitY = area.height >= MIN_PARTITION_SIZE * 2;
+
+  if (!canSplitX && !canSplitY) {
+    const width = randomInt(random, Math.min(3, area.width - 2), area.width - 2);
+    const height = randomInt(random, Math.min(3, area.height - 2), area.height - 2);
+    const room: Rect = {
+      x: area.x + randomInt(random, 1, area.width - width - 1),
+      y: area.y + randomInt(random, 1, area.height - height - 1),
+      width,
+      height,
+    };
+    for (let y = room.y; y < room.y + room.height; y++) {
+      for (let x = room.x; x < room.x + room.width; x++) {
+        grid[y][x] = FLOOR_TILE;
+      }
+    }
+    return [room];
+  }
+
+  // Split across the longer side when both are possible
+  const splitX =
+    canSplitX &&
+    (!canSplitY || area.width > area.height || (area.width === area.height && random() < 0.5));
+  let first: Rect;
+  let second: Rect;
+  if (splitX) {
+    const cut = randomInt(random, MIN_PARTITION_SIZE, area.width - MIN_PARTITION_SIZE);
+    first = { ...area, width: cut };
+    second = { ...area, x: area.x + cut, width: area.width - cut };
+  } else {
+    const cut = randomInt(random, MIN_PARTITION_SIZE, area.height - MIN_PARTITION_SIZE);
+    first = { ...area, height: cut };
+    second = { ...area, y: area.y + cut, height: area.height - cut };
+  }
+
+  const firstRooms = carveBspRooms(grid, first, random);
+  const secondRooms = carveBspRooms(grid, second, random);
+  carveCorridor(
+    grid,
+    rectCenter(firstRooms[Math.floor(random() * firstRooms.length)]),
+    rectCenter(secondRooms[Math.floor(random() * secondRooms.length)]),
+    random
+  );
+  return [...firstRooms, ...secondRooms];
+}
+
+/**
+ * Carve an L-shaped corridor between two cells
+ */
+function carveCorridor(
+  grid: number[][],
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  random: RandomSource
+): void {
+  const horizontalFirst = random() < 0.5;
+  const corner = horizontalFirst ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+  for (const [start, end] of [[from, corner], [corner, to]]) {
+    for (let x = Math.min(start.x, end.x); x <= Math.max(start.x, end.x); x++) {
+      grid[start.y][x] = FLOOR_TILE;
+    }
+    for (let y = Math.min(start.y, end.y); y <= Math.max(start.y, end.y); y++) {
+      grid[y][start.x] = FLOOR_TILE;
+    }
+  }
+}
+
+/**
+ * Build a rooms-and-corridors layout
+ */
+function generateRooms(width: number, height: number, random: RandomSource): number[][] {
+  const grid = createSolidGrid(width, height);
+  carveBspRooms(grid, { x: 0, y: 0, width, height }, random);
+  return grid;
+}
+
+/**
+ * Count the wall tiles around a cell (out of bounds counts as wall)
+ */
+function countWallNeighbours(grid: number[][], x: number, y: number): number {
+  let count = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if ((dx !== 0 || dy !== 0) && (grid[y + dy]?.[x + dx] ?? 1) !== FLOOR_TILE) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Label the 4-connected open regions of a grid
+ * @returns The cells of each region
+ */
+function findOpenRegions(grid: number[][]): Array<Array<{ x: number; y: number }>> {
+  const seen = grid.map((row) => row.map(() => false));
+  const regions: Array<Array<{ x: number; y: number }>> = [];
+
+  grid.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if (tile !== FLOOR_TILE || seen[y][x]) {
+        return;
+      }
+      const region: Array<{ x: number; y: number }> = [];
+      const open = [{ x, y }];
+      seen[y][x] = true;
+      while (open.length > 0) {
+        const cell = open.pop()!;
+        region.push(cell);
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const nx = cell.x + dx;
+          const ny = cell.y + dy;
+          if (grid[ny]?.[nx] === FLOOR_TILE && !seen[ny][nx]) {
+            seen[ny][nx] = true;
+            open.push({ x: nx, y: ny });
+          }
+        }
+      }
+      regions.push(region);
+    });
+  });
+
+  return regions;
+}
+
+/**
+ * Build a cave layout, keeping only its largest connected cavern
+ * Falls back to rooms when no attempt opens up enough of the level
+ */
+function generateCaves(width: number, height: number, random: RandomSource): number[][] {
+  const interiorArea = (width - 2) * (height - 2);
+
+  for (let attempt = 0; attempt < CAVE_MAX_ATTEMPTS; attempt++) {
+    let grid = createSolidGrid(width, height).map((row, y) =>
+      row.map((_, x) => (isInterior(x, y, width, height) && random() >= CAVE_FILL_CHANCE ? FLOOR_TILE : 1))
+    );
+
+    // 4-5 rule: crowded cells fill in, lonely walls crumble, the rest stay put
+    for (let pass = 0; pass < CAVE_SMOOTHING_PASSES; pass++) {
+      grid = grid.map((row, y) =>
+        row.map((tile, x) => {
+          if (!isInterior(x, y, width, height)) {
+            return 1;
+          }
+          const walls = countWallNeighbours(grid, x, y);
+          return walls >= 5 ? 1 : walls <= 3 ? FLOOR_TILE : tile;
+        })
+      );
+    }
+
+    const regions = findOpenRegions(grid);
+    const largest = regions.reduce((best, region) => (region.length > best.length ? region : best), []);
+    if (largest.length < interiorArea * CAVE_MIN_OPEN_FRACTION) {
+      continue;
+    }
+
+    const cavern = createSolidGrid(width, height);
+    largest.forEach(({ x, y }) => {
+      cavern[y][x] = FLOOR_TILE;
+    });
+    return cavern;
+  }
+
+  return generateRooms(width, height, random);
+}
+
+/**
+ * Give walls visual variety
+ * Scatters a few theme points and paints each wall with the type of the nearest one
+ */
+function paintWalls(grid: number[][], random: RandomSource): void {
+  const themes = Array.from({ length: randomInt(random, 3, 6) }, () => ({
+    x: random() * grid[0].length,
+    y: random() * grid.length,
+    type: randomInt(random, 1, MAX_WALL_TILE),
+  }));
+
+  grid.forEach((row, y) => {
+    row.forEach((tile, x) => {
+      if (tile === FLOOR_TILE) {
+        return;
+      }
+      let nearest = themes[0];
+      for (const theme of themes) {
+        if (Math.hypot(theme.x - x, theme.y - y) < Math.hypot(nearest.x - x, nearest.y - y)) {
+          nearest = theme;
+        }
+      }
+      row[x] = nearest.type;
+    });
+  });
+}
+
+/**
+ * Measure the walking distance of every open cell from a start cell
+ * @returns Open cells reachable from the start, nearest first
+ */
+function measureFloor(grid: number[][], start: { x: number; y: number }): FloorCell[] {
+  const cells: FloorCell[] = [{ ...start, distance: 0 }];
+  const seen = new Set<string>([`${start.x},${start.y}`]);
+
+  // Breadth-first, so cells are appended in order of distance
+  for (let i = 0; i < cells.length; i++) {
+    const cell = cells[i];
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const nx = cell.x + dx;
+      const ny = cell.y + dy;
+      const key = `${nx},${ny}`;
+      if (grid[ny]?.[nx] === FLOOR_TILE && !seen.has(key)) {
+        seen.add(key);
+        cells.push({ x: nx, y: ny, distance: cell.distance + 1 });
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Get the world position at a cell's center
+ */
+function toPosition(cell: { x: number; y: number }): Vector2 {
+  return { x: cell.x + 0.5, y: cell.y + 0.5 };
+}
+
+/**
+ * Place enemies by spending a difficulty budget
+ * Each enemy costs its point value / 100; tougher enemies only appear
+ * further from the spawn
+ */
+function placeEnemies(
+  candidates: FloorCell[],
+  maxDistance: number,
+  floorCount: number,
+  difficulty: number,
+  random: RandomSource
+): EnemySpawn[] {
+  const spawns: EnemySpawn[] = [];
+  const types = Object.keys(ENEMY_ARCHETYPES).sort(
+    (a, b) => ENEMY_ARCHETYPES[a].pointValue - ENEMY_ARCHETYPES[b].pointValue
+  );
+  const cost = (enemyType: string): number => ENEMY_ARCHETYPES[enemyType].pointValue / 100;
+  let budget = floorCount * ENEMY_BUDGET_PER_TILE * difficulty;
+
+  const pool = [...candidates];
+  while (pool.length > 0) {
+    const cell = pool.splice(Math.floor(random() * pool.length), 1)[0];
+
+    // The n-th toughest type needs the cell to be that far along the level
+    const depth = cell.distance / Math.max(1, maxDistance);
+    const allowed = types.filter(
+      (enemyType, rank) => cost(enemyType) <= budget && depth >= rank / (types.length + 1)
+    );
+    if (allowed.length === 0) {
+      if (budget < cost(types[0])) {
+        break;
+      }
+      continue;
+    }
+
+    const enemyType = allowed[Math.floor(random() * allowed.length)];
+    budget -= cost(enemyType);
+    spawns.push({ position: toPosition(cell), enemyType });
+  }
+
+  return spawns;
+}
+
+/**
+ * Place health, ammo and one weapon pickup
+ * Supplies scale with the number of enemies; the weapon sits mid-level
+ */
+function placeItems(candidates: FloorCell[], enemyCount: number, random: RandomSource): ItemSpawn[] {
+  const pool = [...candidates];
+  const take = (): FloorCell | undefined => pool.splice(Math.floor(random() * pool.length), 1)[0];
+  const items: ItemSpawn[] = [];
+  if (pool.length === 0) {
+    return items;
+  }
+
+  const midLevel = pool.filter((cell) => cell.distance >= pool[pool.length - 1].distance / 3);
+  const weaponCell = midLevel[Math.floor(random() * midLevel.length)];
+  if (weaponCell) {
+    pool.splice(pool.indexOf(weaponCell), 1);
+    const pickup = WEAPON_PICKUPS[Math.floor(random() * WEAPON_PICKUPS.length)];
+    items.push({ position: toPosition(weaponCell), itemType: 'weapon', ...pickup });
+  }
+
+  const ammoCount = Math.ceil(enemyCount / 3) + 1;
+  const healthCount = Math.ceil(enemyCount / 4) + 1;
+  for (let i = 0; i < ammoCount + healthCount; i++) {
+    const cell = take();
+    if (!cell) {
+      break;
+    }
+    items.push(
+      i < ammoCount
+        ? { position: toPosition(cell), itemType: 'ammo', value: 10 }
+        : { position: toPosition(cell), itemType: 'health', value: 25 }
+    );
+  }
+
+  return items;
+}
+
+/**
+ * Generate a level from a seed
+ * The same seed and options always produce the same level, and the result
+ * always passes validateLevelMap: every placed entity sits on open floor in
+ * one connected area that contains both the spawn and the exit
+ * @param seed - Seed for the layout and placement
+ * @param options - Size, style and difficulty
+ * @returns A playable level map
+ */
+export function generateLevel(seed: number, options: Partial<LevelGeneratorOptions> = {}): LevelMap {
+  const { width, height, style, difficulty } = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  if (width < MIN_GENERATED_SIZE || height < MIN_GENERATED_SIZE) {
+    throw new Error(`Generated levels must be at least ${MIN_GENERATED_SIZE}x${MIN_GENERATED_SIZE}`);
+  }
+
+  const random = createRandom(seed);
+  const grid =
+    style === 'caves' ? generateCaves(width, height, random) : generateRooms(width, height, random);
+
+  // Spawn on a random open cell, exit on the cell furthest from it
+  const open = findOpenRegions(grid)[0];
+  const spawnCell = open[Math.floor(random() * open.length)];
+  const floor = measureFloor(grid, spawnCell);
+  const exitCell = floor[floor.length - 1];
+  const maxDistance = exitCell.distance;
+
+  const candidates = floor.filter(
+    (cell) => Math.hypot(cell.x - spawnCell.x, cell.y - spawnCell.y) >= SAFE_SPAWN_DISTANCE && cell !== exitCell
+  );
+  const enemySpawns = placeEnemies(candidates, maxDistance, floor.length, difficulty, random);
+
+  const occupied = new Set(
+    enemySpawns.map(({ position }) => `${Math.floor(position.x)},${Math.floor(position.y)}`)
+  );
+  const itemCandidates = floor.filter(
+    (cell) => cell.distance > 0 && cell !== exitCell && !occupied.has(`${cell.x},${cell.y}`)
+  );
+  const items = placeItems(itemCandidates, enemySpawns.length, random);
+
+  paintWalls(grid, random);
+
+  return {
+    width,
+    height,
+    grid,
+    playerSpawn: toPosition(spawnCell),
+    enemySpawns,
+    items,
+    exitPoint: toPosition(exitCell),
+  };
+}
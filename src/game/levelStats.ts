@@ -0,0 +1,152 @@
+/**
+ * Level statistics module for FrankenKiro
+ * Handles per-level stat tracking, end-of-level summaries and the best
+ * results kept for each campaign level
+ */
+
+import { CampaignLevel, GameState, LevelStats, LevelSummary } from './types';
+
+/**
+ * Best result per campaign level, keyed by getBestResultKey
+ */
+export type BestResults = Record<string, LevelSummary>;
+
+/**
+ * Create fresh statistics for a level
+ * @param startTime - Game elapsed time when the level starts
+ */
+export function createLevelStats(startTime: number = 0): LevelStats {
+  return {
+    startTime,
+    shotsFired: 0,
+    shotsHit: 0,
+    damageTaken: 0,
+  };
+}
+
+/**
+ * Fraction of shots that hit, 0 when nothing was fired
+ */
+export function calculateAccuracy(stats: LevelStats): number {
+  return stats.shotsFired > 0 ? stats.shotsHit / stats.shotsFired : 0;
+}
+
+/**
+ * Summarize the level a game state is on
+ * @param state - Game state at the moment the level ends
+ * @param entry - Campaign entry of the level, for its id and par time
+ * @returns Final statistics for the intermission screen
+ */
+export function summarizeLevel(state: GameState, entry: CampaignLevel): LevelSummary {
+  const { levelStats } = state;
+  return {
+    levelId: entry.id,
+    kills: state.enemies.filter((enemy) => enemy.state === 'dead').length,
+    totalKills: state.enemies.length,
+    items: state.items.filter((item) => item.collected).length,
+    totalItems: state.items.length,
+    secrets: state.foundSecrets.length,
+    totalSecrets: state.levelMap.secrets?.length ?? 0,
+    shotsFired: levelStats.shotsFired,
+    accuracy: calculateAccuracy(levelStats),
+    damageTaken: levelStats.damageTaken,
+    time: state.elapsedTime - levelStats.startTime,
+    parTime: entry.parTime,
+  };
+}
+
+/**
+ * Key of a campaign level in the best results
+ */
+export function getBestResultKey(campaignId: string, levelId: string): string {
+  return `${campaignId}:${levelId}`;
+}
+
+/**
+ * Merge a new summary into the best result for its level
+ * Each stat keeps its own best, so one record can combine several runs
+ * @param best - The best result so far, if any
+ * @param summary - The summary of the run just finished
+ * @returns The new best result
+ */
+export function mergeBestResult(best: LevelSummary | undefined, summary: LevelSummary): LevelSummary {
+  if (!best) {
+    return { ...summary };
+  }
+  const moreAccurate = summary.accuracy > best.accuracy;
+  return {
+    ...summary,
+    kills: Math.max(best.kills, summary.kills),
+    items: Math.max(best.items, summary.items),
+    secrets: Math.max(best.secrets, summary.secrets),
+    shotsFired: moreAccurate ? summary.shotsFired : best.shotsFired,
+    accuracy: Math.max(best.accuracy, summary.accuracy),
+    damageTaken: Math.min(best.damageTaken, summary.damageTaken),
+    time: Math.min(best.time, summary.time),
+  };
+}
+
+/**
+ * Record a finished level in the best results
+ * @returns New best results, with the level's entry merged
+ */
+export function recordBestResult(
+  results: BestResults,
+  campaignId: string,
+  summary: LevelSummary
+): BestResults {
+  const key = getBestResultKey(campaignId, summary.levelId);
+  return { ...results, [key]: mergeBestResult(results[key], summary) };
+}
+
+/**
+ * Check that a stored level summary has the right shape
+ */
+export function isValidLevelSummary(value: unknown): value is LevelSummary {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const s = value as Record<string, unknown>;
+  const counts = [
+    'kills', 'totalKills', 'items', 'totalItems', 'secrets', 'totalSecrets',
+    'shotsFired', 'accuracy', 'damageTaken', 'time', 'parTime',
+  ];
+  return (
+    typeof s.levelId === 'string' &&
+    counts.every((key) => typeof s[key] === 'number' && isFinite(s[key] as number) && (s[key] as number) >= 0)
+  );
+}
+
+/**
+ * Serialize best results to JSON for local storage
+ */
+export function serializeBestResults(results: BestResults): string {
+  return JSON.stringify(results);
+}
+
+/**
+ * Parse best results from local storage
+ * Malformed data gives empty results and invalid entries are dropped,
+ * so a bad record never blocks play
+ */
+export function deserializeBestResults(json: string | null): BestResults {
+  if (!json) {
+    return {};
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return {};
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return {};
+  }
+  const results: BestResults = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (isValidLevelSummary(value)) {
+      results[key] = value;
+    }
+  }
+  return results;
+}
@@ -1,95 +1,77 @@
 /**
  * Game levels for FrankenKiro
  * Three procedurally-themed levels: Lab, Dungeon, Tower
+ * Level layouts live in JSON level files and are validated when loaded
  */
 
-import { LevelMap } from '../types';
+import { Campaign, LevelMap } from '../types';
+import { loadLevelMap } from '../level';
+import labLevel from './lab.json';
+import dungeonLevel from './dungeon.json';
+import towerLevel from './tower.json';
 
 /**
  * Level 1: The Laboratory
  * Dr. Frankenstein's abandoned lab where the experiments began
  * Relatively open layout with scattered equipment
+ * Lab lamps, one of them faulty, light the room and two vats glow green
  */
-export const LEVEL_LAB: LevelMap = {
-  width: 16,
-  height: 16,
-  grid: [
-    [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 2, 2, 0, 0, 0, 0, 0, 0, 2, 2, 0, 0, 1],
-    [1, 0, 0, 2, 2, 0, 0, 0, 0, 0, 0, 2, 2, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 3, 3, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 3, 3, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 2, 2, 0, 0, 0, 0, 0, 0, 2, 2, 0, 0, 1],
-    [1, 0, 0, 2, 2, 0, 0, 0, 0, 0, 0, 2, 2, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-  ],
-  playerSpawn: { x: 2.5, y: 2.5 },
-  enemySpawns: [
-    { position: { x: 6.5, y: 6.5 }, enemyType: 'zombie' },
-    { position: { x: 10.5, y: 6.5 }, enemyType: 'zombie' },
-    { position: { x: 8.5, y: 12.5 }, enemyType: 'zombie' },
-  ],
-  items: [
-    { position: { x: 5.5, y: 2.5 }, itemType: 'ammo', value: 10 },
-    { position: { x: 13.5, y: 2.5 }, itemType: 'health', value: 25 },
-    { position: { x: 2.5, y: 13.5 }, itemType: 'ammo', value: 10 },
-  ],
-  exitPoint: { x: 13.5, y: 13.5 },
-};
-
+export const LEVEL_LAB: LevelMap = loadLevelMap(labLevel);
 
 /**
  * Level 2: The Dungeon
  * Underground catacombs with narrow corridors and hidden chambers
  * More maze-like with tighter spaces
+ * The exit chamber is sealed by a locked door (tile 6) opened with key_1
+ * The floor layer adds an acid pool, a blood-soaked pen, a healing circle
+ * and a teleport pad into the far corner room
+ * Wall torches light the halls; the chamber in the middle is left dark
  */
-export const LEVEL_DUNGEON: LevelMap = {
-  width: 20,
-  height: 20,
-  grid: [
-    [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-    [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-    [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-    [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 1, 1, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 1, 1, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 1, 1, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 1, 1, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 1],
-    [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-    [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-    [1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1],
-    [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-  ],
-  playerSpawn: { x: 1.5, y: 1.5 },
-  enemySpawns: [
-    { position: { x: 9.5, y: 5.5 }, enemyType: 'zombie' },
-    { position: { x: 10.5, y: 5.5 }, enemyType: 'zombie' },
-    { position: { x: 5.5, y: 9.5 }, enemyType: 'skeleton' },
-    { position: { x: 14.5, y: 9.5 }, enemyType: 'skeleton' },
-    { position: { x: 9.5, y: 14.5 }, enemyType: 'zombie' },
-  ],
-  items: [
-    { position: { x: 17.5, y: 1.5 }, itemType: 'health', value: 25 },
-    { position: { x: 1.5, y: 9.5 }, itemType: 'ammo', value: 15 },
-    { position: { x: 18.5, y: 9.5 }, itemType: 'ammo', value: 15 },
-    { position: { x: 9.5, y: 9.5 }, itemType: 'key', value: 1 },
-    { position: { x: 1.5, y: 17.5 }, itemType: 'health', value: 50 },
+export const LEVEL_DUNGEON: LevelMap = loadLevelMap(dungeonLevel);
+
+/**
+ * Level 3: The Tower
+ * The castle keep where the creature waits
+ * Rooms strung along long halls; the exit lies just below the spawn but a long way round
+ * The battlements in the north-east are open to the sky and the southern hall is timbered
+ */
+export const LEVEL_TOWER: LevelMap = loadLevelMap(towerLevel);
+
+/**
+ * The built-in campaign
+ */
+export const DEFAULT_CAMPAIGN: Campaign = {
+  id: 'frankenkiro',
+  name: 'FrankenKiro',
+  levels: [
+    {
+      id: 'lab',
+      name: 'The Laboratory',
+      intro: 'The experiments have broken loose. Find the way down to the catacombs.',
+      parTime: 60,
+      theme: 'lab',
+      level: LEVEL_LAB,
+    },
+    {
+      id: 'dungeon',
+      name: 'The Dungeon',
+      intro: 'Something stitched the dead back together down here. Find the key to the sealed chamber.',
+      parTime: 150,
+      theme: 'dungeon',
+      level: LEVEL_DUNGEON,
+    },
+    {
+      id: 'tower',
+      name: 'The Tower',
+      intro: 'The creature waits at the top of the keep. The way out stays sealed until nothing here moves.',
+      parTime: 180,
+      theme: 'tower',
+      level: LEVEL_TOWER,
+    },
   ],
-  exitPoint: { x: 18.5, y: 18.5 },
 };
+
+/**
+ * Level maps of the built-in campaign, in campaign order
+ */
+export const GAME_LEVELS: LevelMap[] = DEFAULT_CAMPAIGN.levels.map((entry) => entry.level);
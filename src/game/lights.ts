@@ -0,0 +1,72 @@
+/**
+ * Lights module for FrankenKiro
+ * Handles the static lights placed in a level and the level's ambient light
+ * level; the renderer bakes them into a per-tile light map
+ */
+
+import { LightFlicker } from './types';
+
+/**
+ * Flicker profiles a level light can have
+ */
+export const LIGHT_FLICKERS: readonly LightFlicker[] = ['steady', 'torch', 'pulse', 'faulty'];
+
+/**
+ * Ambient light of levels that do not set one: every tile fully lit
+ */
+export const DEFAULT_AMBIENT_LIGHT = 1;
+
+/**
+ * Check if a value is a known flicker profile
+ */
+export function isLightFlicker(value: unknown): value is LightFlicker {
+  return LIGHT_FLICKERS.includes(value as LightFlicker);
+}
+
+/**
+ * Validate the shape of a level's lights
+ * @param lights - The lights value from a level map
+ * @param width - Level width in tiles
+ * @param height - Level height in tiles
+ * @returns Error messages, empty when every light is valid
+ */
+export function validateLights(lights: unknown, width: number, height: number): string[] {
+  if (!Array.isArray(lights)) {
+    return ['Level map lights must be an array'];
+  }
+
+  const errors: string[] = [];
+  lights.forEach((value: unknown, index) => {
+    const l = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    const p = (typeof l.position === 'object' && l.position !== null ? l.position : {}) as Record<string, unknown>;
+    if (
+      typeof p.x !== 'number' || typeof p.y !== 'number' ||
+      p.x < 0 || p.x >= width || p.y < 0 || p.y >= height
+    ) {
+      errors.push(`lights[${index}] must have a position within level bounds`);
+    }
+    if (typeof l.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(l.color)) {
+      errors.push(`lights[${index}] color must be a hex color like "#ff9933"`);
+    }
+    if (typeof l.radius !== 'number' || !(l.radius > 0)) {
+      errors.push(`lights[${index}] radius must be a positive number`);
+    }
+    if (l.intensity !== undefined && (typeof l.intensity !== 'number' || !(l.intensity > 0))) {
+      errors.push(`lights[${index}] intensity must be a positive number`);
+    }
+    if (l.flicker !== undefined && !isLightFlicker(l.flicker)) {
+      errors.push(`lights[${index}] has unknown flicker "${String(l.flicker)}"`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Validate a level's ambient light
+ * @returns Error messages, empty when the value is valid
+ */
+export function validateAmbientLight(ambientLight: unknown): string[] {
+  return typeof ambientLight === 'number' && ambientLight >= 0 && ambientLight <= 1
+    ? []
+    : ['Level map ambientLight must be a number from 0 to 1'];
+}
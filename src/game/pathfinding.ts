@@ -0,0 +1,282 @@
+/**
+ * Pathfinding module for FrankenKiro
+ * Grid navigation over LevelMap.grid: a shared flow field toward the player
+ * and A* for individual targets
+ */
+
+import { Vector2 } from '@/engine/types';
+import { normalize, subtract } from '@/engine/vector2';
+import { isWall } from '@/engine/collision';
+import { LevelMap } from './types';
+
+/**
+ * Grid cell coordinates
+ */
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
+/**
+ * Flow field of step distances toward a target cell
+ * Unreachable and solid cells hold Infinity
+ */
+export interface FlowField {
+  target: GridCell;
+  distances: number[][];
+  /** Level the field was built from, so it can be rebuilt when doors change */
+  level: LevelMap;
+}
+
+/**
+ * Neighbour offsets: the four straight moves first, then diagonals
+ */
+const NEIGHBOURS: ReadonlyArray<{ dx: number; dy: number; cost: number }> = [
+  { dx: 1, dy: 0, cost: 1 },
+  { dx: -1, dy: 0, cost: 1 },
+  { dx: 0, dy: 1, cost: 1 },
+  { dx: 0, dy: -1, cost: 1 },
+  { dx: 1, dy: 1, cost: Math.SQRT2 },
+  { dx: 1, dy: -1, cost: Math.SQRT2 },
+  { dx: -1, dy: 1, cost: Math.SQRT2 },
+  { dx: -1, dy: -1, cost: Math.SQRT2 },
+];
+
+/**
+ * Get the grid cell containing a world position
+ */
+export function toGridCell(position: Vector2): GridCell {
+  return { x: Math.floor(position.x), y: Math.floor(position.y) };
+}
+
+/**
+ * Get the world position of a cell's center
+ */
+export function cellCenter(cell: GridCell): Vector2 {
+  return { x: cell.x + 0.5, y: cell.y + 0.5 };
+}
+
+/**
+ * Check if entities can walk through a cell
+ * Closed doors block movement just like walls
+ */
+export function isWalkable(x: number, y: number, level: LevelMap): boolean {
+  return !isWall(x, y, level);
+}
+
+/**
+ * Check if a move between neighbouring cells is allowed
+ * Diagonal moves may not cut across wall corners
+ */
+function canStep(from: GridCell, dx: number, dy: number, level: LevelMap): boolean {
+  if (!isWalkable(from.x + dx, from.y + dy, level)) {
+    return false;
+  }
+  if (dx !== 0 && dy !== 0) {
+    return isWalkable(from.x + dx, from.y, level) && isWalkable(from.x, from.y + dy, level);
+  }
+  return true;
+}
+
+/**
+ * Build a flow field toward a target position
+ * Uses Dijkstra over the 8-connected grid, so every walkable cell knows its
+ * path distance to the target
+ */
+export function createFlowField(level: LevelMap, target: Vector2): FlowField {
+  const targetCell = toGridCell(target);
+  const distances: number[][] = [];
+  for (let y = 0; y < level.height; y++) {
+    distances.push(new Array(level.width).fill(Infinity));
+  }
+
+  if (!isWalkable(targetCell.x, targetCell.y, level)) {
+    return { target: targetCell, distances, level };
+  }
+
+  distances[targetCell.y][targetCell.x] = 0;
+  const open: GridCell[] = [targetCell];
+
+  while (open.length > 0) {
+    // Grids are small, so a linear scan for the cheapest cell is fast enough
+    let bestIndex = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (distances[open[i].y][open[i].x] < distances[open[bestIndex].y][open[bestIndex].x]) {
+        bestIndex = i;
+      }
+    }
+    const current = open.splice(bestIndex, 1)[0];
+    const currentDistance = distances[current.y][current.x];
+
+    for (const { dx, dy, cost } of NEIGHBOURS) {
+      if (!canStep(current, dx, dy, level)) {
+        continue;
+      }
+      const nx = current.x + dx;
+      const ny = current.y + dy;
+      const nextDistance = currentDistance + cost;
+      if (nextDistance < distances[ny][nx]) {
+        if (distances[ny][nx] === Infinity) {
+          open.push({ x: nx, y: ny });
+        }
+        distances[ny][nx] = nextDistance;
+      }
+    }
+  }
+
+  return { target: targetCell, distances, level };
+}
+
+/**
+ * Check if a flow field needs rebuilding for a new target position or level state
+ */
+export function isFlowFieldStale(
+  field: FlowField | null,
+  target: Vector2,
+  level: LevelMap
+): boolean {
+  if (!field || field.level !== level) {
+    return true;
+  }
+  const cell = toGridCell(target);
+  return cell.x !== field.target.x || cell.y !== field.target.y;
+}
+
+/**
+ * Most recent flow field built for each level state
+ */
+const flowFieldCache = new WeakMap<LevelMap, FlowField>();
+
+/**
+ * Get a flow field toward a target position
+ * Reuses the last field built for the same level state and target cell
+ */
+export function getFlowField(level: LevelMap, target: Vector2): FlowField {
+  const cached = flowFieldCache.get(level) ?? null;
+  if (cached && !isFlowFieldStale(cached, target, level)) {
+    return cached;
+  }
+  const field = createFlowField(level, target);
+  flowFieldCache.set(level, field);
+  return field;
+}
+
+/**
+ * Get the path distance from a position to the flow field target
+ */
+export function getFlowDistance(field: FlowField, position: Vector2): number {
+  const cell = toGridCell(position);
+  return field.distances[cell.y]?.[cell.x] ?? Infinity;
+}
+
+/**
+ * Get the direction to move from a position to follow the flow field
+ * @returns Normalized direction toward the next cell, or null if the position
+ * is in the target cell or cannot reach it
+ */
+export function getFlowDirection(field: FlowField, position: Vector2): Vector2 | null {
+  const cell = toGridCell(position);
+  const current = getFlowDistance(field, position);
+  if (current === 0 || current === Infinity) {
+    return null;
+  }
+
+  let best: GridCell | null = null;
+  let bestDistance = current;
+  for (const { dx, dy } of NEIGHBOURS) {
+    if (!canStep(cell, dx, dy, field.level)) {
+      continue;
+    }
+    const distance = field.distances[cell.y + dy][cell.x + dx];
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { x: cell.x + dx, y: cell.y + dy };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  return normalize(subtract(cellCenter(best), position));
+}
+
+/**
+ * Octile distance heuristic for 8-connected grids
+ */
+function octileDistance(a: GridCell, b: GridCell): number {
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+}
+
+/**
+ * Find a path between two positions with A*
+ * @param level - The level map
+ * @param start - Starting world position
+ * @param goal - Goal world position
+ * @returns Waypoints (cell centers) after the start cell, ending at the goal cell,
+ * or null if the goal cannot be reached
+ */
+export function findPath(level: LevelMap, start: Vector2, goal: Vector2): Vector2[] | null {
+  const startCell = toGridCell(start);
+  const goalCell = toGridCell(goal);
+
+  if (!isWalkable(goalCell.x, goalCell.y, level)) {
+    return null;
+  }
+
+  const key = (cell: GridCell): number => cell.y * level.width + cell.x;
+  const gScore = new Map<number, number>([[key(startCell), 0]]);
+  const fScore = new Map<number, number>([[key(startCell), octileDistance(startCell, goalCell)]]);
+  const cameFrom = new Map<number, GridCell>();
+  const closed = new Set<number>();
+  const open: GridCell[] = [startCell];
+
+  while (open.length > 0) {
+    let bestIndex = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (fScore.get(key(open[i]))! < fScore.get(key(open[bestIndex]))!) {
+        bestIndex = i;
+      }
+    }
+    const current = open.splice(bestIndex, 1)[0];
+    const currentKey = key(current);
+
+    if (current.x === goalCell.x && current.y === goalCell.y) {
+      // Walk back to the start to rebuild the path
+      const path: Vector2[] = [];
+      let cell: GridCell | undefined = current;
+      while (cell && key(cell) !== key(startCell)) {
+        path.unshift(cellCenter(cell));
+        cell = cameFrom.get(key(cell));
+      }
+      return path;
+    }
+
+    closed.add(currentKey);
+
+    for (const { dx, dy, cost } of NEIGHBOURS) {
+      if (!canStep(current, dx, dy, level)) {
+        continue;
+      }
+      const neighbour = { x: current.x + dx, y: current.y + dy };
+      const neighbourKey = key(neighbour);
+      if (closed.has(neighbourKey)) {
+        continue;
+      }
+
+      const tentative = gScore.get(currentKey)! + cost;
+      const known = gScore.get(neighbourKey);
+      if (known === undefined || tentative < known) {
+        if (known === undefined) {
+          open.push(neighbour);
+        }
+        cameFrom.set(neighbourKey, current);
+        gScore.set(neighbourKey, tentative);
+        fScore.set(neighbourKey, tentative + octileDistance(neighbour, goalCell));
+      }
+    }
+  }
+
+  return null;
+}
@@ -5,20 +5,13 @@
 
 import { Vector2 } from '@/engine/types';
 import { add, multiply, fromAngle } from '@/engine/vector2';
-import { Player, PlayerStats, Weapon } from './types';
+import { Player, PlayerStats, Weapon, WeaponId } from './types';
+import { WEAPONS, WEAPON_ORDER, WEAPON_MAX_AMMO, getWeapon, getFireInterval } from './weapons';
 
 /**
  * Default weapon configuration
  */
-export const DEFAULT_WEAPON: Weapon = {
-  name: 'Pistol',
-  damage: 10,
-  fireRate: 2,
-  ammoCost: 1,
-  range: 10,
-  spriteSheet: 'pistol',
-  soundEffect: 'pistol_fire',
-};
+export const DEFAULT_WEAPON: Weapon = WEAPONS.pistol;
 
 /**
  * Default player stats
@@ -26,8 +19,13 @@ export const DEFAULT_WEAPON: Weapon = {
 export const DEFAULT_STATS: PlayerStats = {
   health: 100,
   maxHealth: 100,
-  ammunition: 50,
-  maxAmmunition: 100,
+  ammo: {
+    pistol: 50,
+    shotgun: 0,
+    stitcher: 0,
+    launcher: 0,
+  },
+  maxAmmo: { ...WEAPON_MAX_AMMO },
   score: 0,
 };
 
@@ -51,9 +49,15 @@ export function createPlayer(
   return {
     position: { ...position },
     rotation: normalizeAngle(rotation),
-    stats: { ...DEFAULT_STATS },
+    stats: {
+      ...DEFAULT_STATS,
+      ammo: { ...DEFAULT_STATS.ammo },
+      maxAmmo: { ...DEFAULT_STATS.maxAmmo },
+    },
     inventory: [],
+    weapons: [DEFAULT_WEAPON.id],
     currentWeapon: { ...DEFAULT_WEAPON },
+    weaponCooldown: 0,
   };
 }
 
@@ -237,51 +241,67 @@ export interface FireResult {
 
 /**
  * Attempt to fire the player's weapon
- * Returns success=false if not enough ammunition
+ * Returns success=false if not enough ammunition or the weapon is cooling down
  * Requirements: 3.1, 3.4, 3.5
  */
 export function fire(player: Player): FireResult {
-  const ammoCost = player.currentWeapon.ammoCost;
-  
-  // Check if player has enough ammunition
-  if (player.stats.ammunition < ammoCost) {
+  if (!canFire(player)) {
     return {
       success: false,
       player,
     };
   }
   
-  // Consume ammunition
-  const newAmmunition = player.stats.ammunition - ammoCost;
+  // Consume ammunition from the current weapon's pool and start the cooldown
+  const weapon = player.currentWeapon;
   return {
     success: true,
     player: {
       ...player,
       stats: {
         ...player.stats,
-        ammunition: newAmmunition,
+        ammo: {
+          ...player.stats.ammo,
+          [weapon.id]: player.stats.ammo[weapon.id] - weapon.ammoCost,
+        },
       },
+      weaponCooldown: getFireInterval(weapon),
     },
   };
 }
 
+/**
+ * Get the ammunition left for the current weapon
+ */
+export function getCurrentAmmo(player: Player): number {
+  return player.stats.ammo[player.currentWeapon.id];
+}
+
 /**
  * Add ammunition to the player
- * Ammunition is capped at maxAmmunition
+ * Ammunition goes to the given weapon's pool (the current weapon by default)
+ * and is capped at that pool's maximum
  */
-export function addAmmunition(player: Player, amount: number): Player {
+export function addAmmunition(
+  player: Player,
+  amount: number,
+  weaponId: WeaponId = player.currentWeapon.id
+): Player {
   if (amount < 0) {
     return player; // Ignore negative ammo
   }
   const newAmmunition = Math.min(
-    player.stats.maxAmmunition,
-    player.stats.ammunition + amount
+    player.stats.maxAmmo[weaponId],
+    player.stats.ammo[weaponId] + amount
   );
   return {
     ...player,
     stats: {
       ...player.stats,
-      ammunition: newAmmunition,
+      ammo: {
+        ...player.stats.ammo,
+        [weaponId]: newAmmunition,
+      },
     },
   };
 }
@@ -290,7 +310,72 @@ export function addAmmunition(player: Player, amount: number): Player {
  * Check if the player can fire their weapon
  */
 export function canFire(player: Player): boolean {
-  return player.stats.ammunition >= player.currentWeapon.ammoCost;
+  return player.weaponCooldown <= 0 && getCurrentAmmo(player) >= player.currentWeapon.ammoCost;
+}
+
+/**
+ * Count down the weapon fire cooldown
+ */
+export function updateWeaponCooldown(player: Player, deltaTime: number): Player {
+  if (player.weaponCooldown <= 0) {
+    return player;
+  }
+  return {
+    ...player,
+    weaponCooldown: Math.max(0, player.weaponCooldown - deltaTime),
+  };
+}
+
+/**
+ * Check if the player owns a weapon
+ */
+export function hasWeapon(player: Player, weaponId: WeaponId): boolean {
+  return player.weapons.includes(weaponId);
+}
+
+/**
+ * Equip an owned weapon
+ * Returns the player unchanged if the weapon isn't owned or already equipped
+ */
+export function switchWeapon(player: Player, weaponId: WeaponId): Player {
+  if (!hasWeapon(player, weaponId) || player.currentWeapon.id === weaponId) {
+    return player;
+  }
+  return {
+    ...player,
+    currentWeapon: getWeapon(weaponId),
+  };
+}
+
+/**
+ * Cycle to the next (1) or previous (-1) owned weapon
+ */
+export function cycleWeapon(player: Player, direction: 1 | -1): Player {
+  const owned = WEAPON_ORDER.filter((id) => hasWeapon(player, id));
+  if (owned.length <= 1) {
+    return player;
+  }
+  const index = owned.indexOf(player.currentWeapon.id);
+  const nextIndex = (index + direction + owned.length) % owned.length;
+  return switchWeapon(player, owned[nextIndex]);
+}
+
+/**
+ * Give the player a weapon along with some ammunition for it
+ * Newly acquired weapons are equipped immediately
+ */
+export function giveWeapon(player: Player, weaponId: WeaponId, ammo: number): Player {
+  const withAmmo = addAmmunition(player, ammo, weaponId);
+  if (hasWeapon(player, weaponId)) {
+    return withAmmo;
+  }
+  return switchWeapon(
+    {
+      ...withAmmo,
+      weapons: [...withAmmo.weapons, weaponId],
+    },
+    weaponId
+  );
 }
 
 /**
@@ -0,0 +1,156 @@
+/**
+ * Projectile module for FrankenKiro
+ * Moves projectiles each tick and resolves hits against walls, the player and enemies
+ */
+
+import { Vector2 } from '@/engine/types';
+import { add, distance, multiply, normalize } from '@/engine/vector2';
+import { CollisionSystem, checkEntityCollision } from '@/engine/collision';
+import { Enemy, Player, Projectile, ProjectileOwner } from './types';
+
+/**
+ * Default projectile configuration
+ */
+export const DEFAULT_PROJECTILE_CONFIG = {
+  radius: 0.1,
+  lifetime: 3.0,
+  splashRadius: 0,
+};
+
+/**
+ * Collision radius used for the player when testing projectile hits
+ */
+export const PLAYER_HIT_RADIUS = 0.25;
+
+/**
+ * Options for creating a projectile
+ */
+export interface ProjectileOptions {
+  owner: ProjectileOwner;
+  damage: number;
+  speed: number;
+  spriteId: string;
+  radius?: number;
+  lifetime?: number;
+  splashRadius?: number;
+}
+
+/**
+ * Request to launch a projectile (returned by attacks, spawned by the simulation)
+ */
+export interface ProjectileLaunch {
+  position: Vector2;
+  direction: Vector2;
+  options: ProjectileOptions;
+}
+
+/**
+ * Create a projectile travelling in a direction
+ */
+export function createProjectile(
+  id: string,
+  position: Vector2,
+  direction: Vector2,
+  options: ProjectileOptions
+): Projectile {
+  return {
+    id,
+    position: { ...position },
+    velocity: multiply(normalize(direction), options.speed),
+    owner: options.owner,
+    damage: options.damage,
+    lifetime: options.lifetime ?? DEFAULT_PROJECTILE_CONFIG.lifetime,
+    radius: options.radius ?? DEFAULT_PROJECTILE_CONFIG.radius,
+    splashRadius: options.splashRadius ?? DEFAULT_PROJECTILE_CONFIG.splashRadius,
+    spriteId: options.spriteId,
+  };
+}
+
+/**
+ * Damage dealt to a single enemy by a projectile
+ */
+export interface ProjectileEnemyHit {
+  projectileId: string;
+  enemyId: string;
+  damage: number;
+}
+
+/**
+ * Result of advancing all projectiles
+ */
+export interface ProjectileUpdateResult {
+  projectiles: Projectile[];
+  damageToPlayer: number;
+  enemyHits: ProjectileEnemyHit[];
+}
+
+/**
+ * Move every projectile and resolve collisions
+ * Player projectiles hit enemies, enemy projectiles hit the player,
+ * and walls stop both
+ * @param projectiles - Projectiles in flight
+ * @param collision - Collision system for the current level
+ * @param player - The player
+ * @param enemies - Active enemies that player projectiles can hit
+ * @param deltaTime - Time since last update
+ * @returns Remaining projectiles and damage to apply
+ */
+export function updateProjectiles(
+  projectiles: Projectile[],
+  collision: CollisionSystem,
+  player: Player,
+  enemies: Enemy[],
+  deltaTime: number
+): ProjectileUpdateResult {
+  let damageToPlayer = 0;
+  const enemyHits: ProjectileEnemyHit[] = [];
+
+  const remaining: Projectile[] = [];
+  for (const projectile of projectiles) {
+    const moved: Projectile = {
+      ...projectile,
+      position: add(projectile.position, multiply(projectile.velocity, deltaTime)),
+      lifetime: projectile.lifetime - deltaTime,
+    };
+
+    if (moved.lifetime <= 0) {
+      continue;
+    }
+
+    let hitEnemy: Enemy | undefined;
+    let hitPlayer = false;
+    if (moved.owner === 'player') {
+      hitEnemy = enemies.find((enemy) => checkEntityCollision(moved, enemy).collided);
+    } else {
+      hitPlayer = checkEntityCollision(moved, {
+        position: player.position,
+        radius: PLAYER_HIT_RADIUS,
+      }).collided;
+    }
+    const hitWall = collision.isWall(moved.position.x, moved.position.y);
+
+    if (!hitEnemy && !hitPlayer && !hitWall) {
+      remaining.push(moved);
+      continue;
+    }
+
+    if (hitPlayer) {
+      damageToPlayer += moved.damage;
+    } else if (moved.owner === 'player' && moved.splashRadius > 0) {
+      // Splash damages every enemy near the impact, even when a wall was hit
+      for (const enemy of enemies) {
+        if (distance(enemy.position, moved.position) <= moved.splashRadius + enemy.radius) {
+          enemyHits.push({ projectileId: moved.id, enemyId: enemy.id, damage: moved.damage });
+        }
+      }
+    } else if (hitEnemy) {
+      enemyHits.push({ projectileId: moved.id, enemyId: hitEnemy.id, damage: moved.damage });
+    }
+  }
+
+  return {
+    projectiles: remaining,
+    damageToPlayer,
+    enemyHits,
+  };
+}
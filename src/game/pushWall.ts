@@ -0,0 +1,238 @@
+/**
+ * Push-wall module for FrankenKiro
+ * Handles secret walls that slide back when pushed, and secret area tracking
+ */
+
+import { Vector2 } from '@/engine/types';
+import { LevelMap, Player, PushWall, TileRect } from './types';
+import { isTileOccupied, setTile } from './level';
+
+/**
+ * Tiles a pushed wall slides back
+ */
+export const PUSH_WALL_DISTANCE = 2;
+
+/**
+ * Push-wall slide speed (tiles per second)
+ */
+export const PUSH_WALL_SPEED = 1;
+
+/**
+ * Maximum distance from the player to a secret wall for pushing
+ */
+export const PUSH_WALL_INTERACT_RANGE = 1.5;
+
+/**
+ * Create hidden push-wall state for every secret wall in a level
+ */
+export function createPushWallsFromLevel(level: LevelMap): PushWall[] {
+  return (level.secretWalls ?? []).map(({ x, y }) => ({
+    x,
+    y,
+    tile: level.grid[y][x],
+    dx: 0,
+    dy: 0,
+    offset: 0,
+    distance: 0,
+    state: 'hidden',
+  }));
+}
+
+/**
+ * Attach fresh push-wall state to a level map (used when loading levels)
+ */
+export function initializePushWalls(level: LevelMap): LevelMap {
+  return {
+    ...level,
+    pushWalls: createPushWallsFromLevel(level),
+  };
+}
+
+/**
+ * Get the tiles a moving push-wall block overlaps
+ */
+export function getPushWallCells(pushWall: PushWall): Vector2[] {
+  const back = Math.floor(pushWall.offset);
+  const front = Math.ceil(pushWall.offset);
+  const cells = [{ x: pushWall.x + pushWall.dx * back, y: pushWall.y + pushWall.dy * back }];
+  if (front !== back) {
+    cells.push({ x: pushWall.x + pushWall.dx * front, y: pushWall.y + pushWall.dy * front });
+  }
+  return cells;
+}
+
+/**
+ * Check if a moving push-wall is passing through a grid position
+ */
+export function isPushWallBlocking(x: number, y: number, level: LevelMap): boolean {
+  if (!level.pushWalls) {
+    return false;
+  }
+  const gridX = Math.floor(x);
+  const gridY = Math.floor(y);
+  return level.pushWalls.some(
+    (pushWall) =>
+      pushWall.state === 'moving' &&
+      getPushWallCells(pushWall).some((cell) => cell.x === gridX && cell.y === gridY)
+  );
+}
+
+/**
+ * Find the hidden push-wall the player is facing within interaction range
+ */
+export function findFacingPushWall(player: Player, level: LevelMap): PushWall | undefined {
+  if (!level.pushWalls || level.pushWalls.length === 0) {
+    return undefined;
+  }
+
+  const dirX = Math.cos(player.rotation);
+  const dirY = Math.sin(player.rotation);
+
+  // Step along the view direction and stop at the first solid tile
+  const steps = Math.ceil(PUSH_WALL_INTERACT_RANGE / 0.25);
+  for (let i = 1; i <= steps; i++) {
+    const probeX = Math.floor(player.position.x + dirX * i * 0.25);
+    const probeY = Math.floor(player.position.y + dirY * i * 0.25);
+    if (level.grid[probeY]?.[probeX] !== 0) {
+      return level.pushWalls.find(
+        (pushWall) => pushWall.state === 'hidden' && pushWall.x === probeX && pushWall.y === probeY
+      );
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Result of a push attempt
+ */
+export interface PushResult {
+  pushed: boolean;
+  level: LevelMap;
+  pushWall?: PushWall;
+}
+
+/**
+ * Push the secret wall the player is facing
+ * The wall slides away from the player along the nearest axis, up to
+ * PUSH_WALL_DISTANCE tiles, stopping early at anything solid or occupied
+ * @param player - The pushing player
+ * @param level - The level map with push-wall state
+ * @param occupants - Entities the wall must not slide into
+ */
+export function pushFacingWall(
+  player: Player,
+  level: LevelMap,
+  occupants: { position: Vector2; radius: number }[] = []
+): PushResult {
+  const pushWall = findFacingPushWall(player, level);
+  if (!pushWall) {
+    return { pushed: false, level };
+  }
+
+  const cos = Math.cos(player.rotation);
+  const sin = Math.sin(player.rotation);
+  const dx = Math.abs(cos) >= Math.abs(sin) ? Math.sign(cos) : 0;
+  const dy = dx === 0 ? Math.sign(sin) : 0;
+
+  let distance = 0;
+  while (distance < PUSH_WALL_DISTANCE) {
+    const x = pushWall.x + dx * (distance + 1);
+    const y = pushWall.y + dy * (distance + 1);
+    if (level.grid[y]?.[x] !== 0 || isPushWallBlocking(x, y, level) || isTileOccupied(x, y, occupants)) {
+      break;
+    }
+    distance++;
+  }
+  if (distance === 0) {
+    return { pushed: false, level };
+  }
+
+  // The block leaves the grid while it moves and is written back where it stops
+  const moving: PushWall = { ...pushWall, dx, dy, distance, state: 'moving' };
+  return {
+    pushed: true,
+    level: {
+      ...setTile(level, pushWall.x, pushWall.y, 0),
+      pushWalls: replacePushWall(level, moving),
+    },
+    pushWall: moving,
+  };
+}
+
+/**
+ * Advance push-wall slides
+ * A wall holds at the edge of any tile of its slide that something stands in
+ * @param level - The level map with push-wall state
+ * @param deltaTime - Time since last update
+ * @param occupants - Entities that block a sliding wall
+ * @returns The level with updated push-walls (same object if nothing moved)
+ */
+export function updatePushWalls(
+  level: LevelMap,
+  deltaTime: number,
+  occupants: { position: Vector2; radius: number }[] = []
+): LevelMap {
+  if (!level.pushWalls || !level.pushWalls.some((pushWall) => pushWall.state === 'moving')) {
+    return level;
+  }
+
+  let updated = level;
+  const pushWalls = level.pushWalls.map((pushWall): PushWall => {
+    if (pushWall.state !== 'moving') {
+      return pushWall;
+    }
+    let offset = Math.min(pushWall.distance, pushWall.offset + PUSH_WALL_SPEED * deltaTime);
+    // Stop short of the first occupied tile this step would slide into
+    for (let cell = Math.floor(pushWall.offset) + 1; cell <= Math.ceil(offset); cell++) {
+      if (isTileOccupied(pushWall.x + pushWall.dx * cell, pushWall.y + pushWall.dy * cell, occupants)) {
+        offset = Math.max(pushWall.offset, cell - 1);
+        break;
+      }
+    }
+    if (offset < pushWall.distance) {
+      return { ...pushWall, offset };
+    }
+    updated = setTile(
+      updated,
+      pushWall.x + pushWall.dx * pushWall.distance,
+      pushWall.y + pushWall.dy * pushWall.distance,
+      pushWall.tile
+    );
+    return { ...pushWall, offset, state: 'done' };
+  });
+
+  return { ...updated, pushWalls };
+}
+
+/**
+ * Find the secret areas a position has just discovered
+ * @param position - Player position
+ * @param level - The level declaring secret areas
+ * @param foundSecrets - Indices of secret areas already found
+ * @returns Indices of newly found secret areas
+ */
+export function findNewSecrets(position: Vector2, level: LevelMap, foundSecrets: number[]): number[] {
+  const tileX = Math.floor(position.x);
+  const tileY = Math.floor(position.y);
+  const found: number[] = [];
+  (level.secrets ?? []).forEach((area: TileRect, index) => {
+    if (
+      !foundSecrets.includes(index) &&
+      tileX >= area.x && tileX < area.x + area.width &&
+      tileY >= area.y && tileY < area.y + area.height
+    ) {
+      found.push(index);
+    }
+  });
+  return found;
+}
+
+/**
+ * Replace a single push-wall in the level's push-wall list
+ */
+function replacePushWall(level: LevelMap, updated: PushWall): PushWall[] {
+  return (level.pushWalls ?? []).map((pushWall) =>
+    pushWall.x === updated.x && pushWall.y === updated.y ? updated : pushWall
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Random module for FrankenKiro
+ * Seeded pseudo-random numbers split into named streams, so gameplay can be
+ * reproduced exactly while cosmetic effects draw as often as they like
+ */
+
+import { RandomState } from './types';
+
+/**
+ * Source of random numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Named random streams
+ * - gameplay: weapon spread, loot and other rules that affect the outcome
+ * - ai: enemy decisions
+ * - cosmetic: visual effects only, never stored in the game state
+ */
+export type RandomStream = 'gameplay' | 'ai' | 'cosmetic';
+
+/**
+ * Salts that separate the streams derived from one seed
+ */
+const STREAM_SALTS: Record<RandomStream, number> = {
+  gameplay: 0x9e3779b9,
+  ai: 0x85ebca6b,
+  cosmetic: 0xc2b2ae35,
+};
+
+/**
+ * Advance a mulberry32 generator by one draw
+ * @param state - 32-bit generator state
+ * @returns The drawn value in [0, 1) and the next state
+ */
+function mulberry32(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 0x100000000, state: next };
+}
+
+/**
+ * Pick a new seed for a play session
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Derive the seed of one stream from a session seed
+ */
+export function deriveSeed(seed: number, stream: RandomStream): number {
+  return Math.floor(mulberry32((seed ^ STREAM_SALTS[stream]) >>> 0).value * 0x100000000);
+}
+
+/**
+ * Create the simulation stream state for a session seed
+ */
+export function createRandomState(seed: number): RandomState {
+  return {
+    gameplay: deriveSeed(seed, 'gameplay'),
+    ai: deriveSeed(seed, 'ai'),
+  };
+}
+
+/**
+ * Draw a number from a simulation stream
+ * @param rng - Current stream state
+ * @param stream - Stream to draw from
+ * @returns The drawn value in [0, 1) and the updated stream state
+ */
+export function nextRandom(
+  rng: RandomState,
+  stream: keyof RandomState
+): { value: number; rng: RandomState } {
+  const { value, state } = mulberry32(rng[stream]);
+  return { value, rng: { ...rng, [stream]: state } };
+}
+
+/**
+ * Create a seeded random source
+ * The same seed always yields the same sequence
+ * @param seed - 32-bit seed
+ * @returns A random source producing numbers in [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    const draw = mulberry32(state);
+    state = draw.state;
+    return draw.value;
+  };
+}
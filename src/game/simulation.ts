@@ -0,0 +1,499 @@
+/**
+ * Simulation module for FrankenKiro
+ * Pure, headless game step covering movement, floor effects, collision, firing,
+ * enemies, items, death and level exit. Rendering and UI react to the returned events.
+ */
+
+import { Vector2 } from '@/engine/types';
+import { fromAngle } from '@/engine/vector2';
+import { CollisionSystem, moveWithCollision } from '@/engine/collision';
+import { hitscan } from '@/engine/hitscan';
+import { GameAction, InputState } from '@/input/types';
+import { SoundEffectType } from '@/audio/types';
+import { Campaign, GameState, ItemType, LevelSummary, Projectile, WeaponId } from './types';
+import {
+  createPlayer,
+  PLAYER_MOVE_SPEED,
+  moveForward,
+  moveBackward,
+  rotateLeft,
+  rotateRight,
+  takeDamage,
+  heal,
+  fire,
+  addScore,
+  setPosition,
+  isDead as isPlayerDead,
+  updateWeaponCooldown,
+  switchWeapon,
+  cycleWeapon,
+} from './player';
+import { ATTACK_COOLDOWN } from './enemy';
+import { createEnemyManager } from './enemyManager';
+import { ProjectileLaunch, createProjectile, updateProjectiles } from './projectile';
+import { initializeDoors, interactWithDoor, updateDoors } from './door';
+import { initializePushWalls, pushFacingWall, updatePushWalls, findNewSecrets } from './pushWall';
+import { processItems, createItemsFromSpawns } from './item';
+import { hasNextLevel, isAtExitPoint, isTileOccupied, setTile } from './level';
+import { createTriggerStates, updateTriggers } from './trigger';
+import { getWeaponForSlot } from './weapons';
+import { DEFAULT_CAMPAIGN } from './levels';
+import { createCampaignLevelManager } from './campaign';
+import { createRandomState, nextRandom } from './random';
+import { createLevelStats, summarizeLevel } from './levelStats';
+import { isExitOpen } from './exit';
+import { getFloorEffect, getFloorSpeedFactor } from './floor';
+
+/**
+ * Player collision radius
+ */
+export const PLAYER_RADIUS = 0.3;
+
+/**
+ * Something noteworthy that happened during a step
+ * The simulation never touches the UI; the shell turns these into feedback
+ */
+export type GameEvent =
+  | { type: 'weaponFired'; weaponId: WeaponId }
+  | { type: 'playerDamaged'; amount: number }
+  | { type: 'enemyKilled'; enemyId: string; points: number }
+  | { type: 'itemCollected'; itemId: string; itemType: ItemType }
+  | { type: 'doorLocked'; keyId: string }
+  | { type: 'pushWallMoved'; x: number; y: number }
+  | { type: 'secretFound'; found: number; total: number }
+  | { type: 'teleported'; position: Vector2 }
+  | { type: 'triggerFired'; triggerId: string }
+  | { type: 'message'; text: string }
+  | { type: 'sound'; sound: SoundEffectType }
+  | { type: 'levelComplete'; levelIndex: number; summary: LevelSummary }
+  | { type: 'playerDied' }
+  | { type: 'victory' };
+
+/**
+ * Result of advancing the simulation by one step
+ */
+export interface StepResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+/**
+ * Options for the simulation step
+ */
+export interface StepOptions {
+  /** Campaign being played, used when the player reaches an exit */
+  campaign: Campaign;
+}
+
+/**
+ * Default step options
+ */
+export const DEFAULT_STEP_OPTIONS: StepOptions = {
+  campaign: DEFAULT_CAMPAIGN,
+};
+
+/**
+ * Build a fresh game state for a level
+ * When a previous state is given, score, loadout, elapsed time and the random
+ * streams carry over
+ * Throws an error for an unknown level index
+ * @param levelIndex - Index into the campaign's level list
+ * @param campaign - Campaign being played
+ * @param previous - State of the level being left, if any
+ * @returns A playing game state at the level's spawn point
+ */
+export function createLevelState(
+  levelIndex: number,
+  campaign: Campaign = DEFAULT_CAMPAIGN,
+  previous?: GameState
+): GameState {
+  const level = initializePushWalls(
+    initializeDoors(createCampaignLevelManager(campaign, levelIndex).levelMap)
+  );
+
+  let player = createPlayer(level.playerSpawn, 0);
+  if (previous) {
+    player = {
+      ...player,
+      stats: {
+        ...player.stats,
+        score: previous.player.stats.score,
+        ammo: { ...previous.player.stats.ammo },
+      },
+      weapons: [...previous.player.weapons],
+      currentWeapon: previous.player.currentWeapon,
+    };
+  }
+
+  const enemyManager = createEnemyManager();
+  enemyManager.spawnFromLevel(level.enemySpawns);
+
+  return {
+    status: 'playing',
+    player,
+    enemies: enemyManager.getEnemies(),
+    items: createItemsFromSpawns(level.items),
+    currentLevel: levelIndex,
+    levelMap: level,
+    elapsedTime: previous?.elapsedTime ?? 0,
+    projectiles: [],
+    nextProjectileId: 0,
+    enemyAttackCooldown: 0,
+    heldActions: [],
+    rng: previous?.rng ?? createRandomState(0),
+    triggers: createTriggerStates(level),
+    foundSecrets: [],
+    levelStats: createLevelStats(previous?.elapsedTime ?? 0),
+  };
+}
+
+/**
+ * Start a new game from a session seed
+ * @param seed - Seed for the game's random streams
+ * @param campaign - Campaign to play
+ * @param levelIndex - Level to start on
+ * @returns A playing game state whose randomness is fully determined by the seed
+ */
+export function createNewGame(
+  seed: number,
+  campaign: Campaign = DEFAULT_CAMPAIGN,
+  levelIndex: number = 0
+): GameState {
+  return { ...createLevelState(levelIndex, campaign), rng: createRandomState(seed) };
+}
+
+/**
+ * Advance the game by one step
+ * Does nothing unless the game is playing
+ * @param state - The current game state
+ * @param input - Input held during this step
+ * @param deltaTime - Time since last step
+ * @param options - Campaign being played
+ * @returns The next state and the events that happened
+ */
+export function stepGame(
+  state: GameState,
+  input: InputState,
+  deltaTime: number,
+  options: Partial<StepOptions> = {}
+): StepResult {
+  if (state.status !== 'playing') {
+    return { state, events: [] };
+  }
+
+  const { campaign } = { ...DEFAULT_STEP_OPTIONS, ...options };
+  const events: GameEvent[] = [];
+  const actions = input.activeActions;
+  let player = state.player;
+  let level = state.levelMap;
+  let nextProjectileId = state.nextProjectileId;
+  let projectiles: Projectile[] = [...state.projectiles];
+  let rng = state.rng;
+  let levelStats = state.levelStats;
+
+  // Gameplay and AI randomness come from the seeded streams in the state
+  const random = (): number => {
+    const draw = nextRandom(rng, 'gameplay');
+    rng = draw.rng;
+    return draw.value;
+  };
+  const aiRandom = (): number => {
+    const draw = nextRandom(rng, 'ai');
+    rng = draw.rng;
+    return draw.value;
+  };
+
+  const enemyManager = createEnemyManager();
+  enemyManager.setEnemies(state.enemies);
+
+  const launch = ({ position, direction, options: launchOptions }: ProjectileLaunch): void => {
+    projectiles.push(
+      createProjectile(`projectile_${nextProjectileId++}`, position, direction, launchOptions)
+    );
+  };
+
+  const damageEnemy = (enemyId: string, damage: number): number => {
+    const points = enemyManager.damageEnemy(enemyId, damage);
+    if (points > 0) {
+      events.push({ type: 'enemyKilled', enemyId, points });
+    }
+    return points;
+  };
+
+  const hurtPlayer = (amount: number): void => {
+    player = takeDamage(player, amount);
+    levelStats = { ...levelStats, damageTaken: levelStats.damageTaken + amount };
+    events.push({ type: 'playerDamaged', amount });
+  };
+
+  // Edge-triggered actions fire once per press, not every step they are held
+  const justPressed = (action: GameAction): boolean =>
+    actions.has(action) && !state.heldActions.includes(action);
+
+  // Handle door interaction, falling back to pushing a secret wall
+  if (justPressed('interact')) {
+    const interaction = interactWithDoor(player, level);
+    level = interaction.level;
+    if (interaction.outcome === 'locked' && interaction.door?.keyId) {
+      events.push({ type: 'doorLocked', keyId: interaction.door.keyId });
+    }
+    if (interaction.outcome === 'none') {
+      const push = pushFacingWall(player, level, enemyManager.getActiveEnemies());
+      level = push.level;
+      if (push.pushWall) {
+        events.push({ type: 'pushWallMoved', x: push.pushWall.x, y: push.pushWall.y });
+      }
+    }
+  }
+
+  // Handle weapon switching
+  const slotActions: GameAction[] = ['weapon1', 'weapon2', 'weapon3', 'weapon4'];
+  slotActions.forEach((action, index) => {
+    const weaponId = getWeaponForSlot(index + 1);
+    if (weaponId && justPressed(action)) {
+      player = switchWeapon(player, weaponId);
+    }
+  });
+  if (justPressed('nextWeapon')) {
+    player = cycleWeapon(player, 1);
+  }
+  if (justPressed('previousWeapon')) {
+    player = cycleWeapon(player, -1);
+  }
+
+  // Animate doors and push-walls - anything standing in the way holds them back
+  const occupants = [{ position: player.position, radius: PLAYER_RADIUS }, ...enemyManager.getActiveEnemies()];
+  level = updateDoors(level, deltaTime, occupants);
+  level = updatePushWalls(level, deltaTime, occupants);
+
+  // Handle player movement - blood on the floor slows the player down
+  const startPosition: Vector2 = player.position;
+  const moveSpeed = PLAYER_MOVE_SPEED * getFloorSpeedFactor(startPosition, level);
+  if (actions.has('moveForward')) {
+    player = moveForward(player, deltaTime, moveSpeed);
+  }
+  if (actions.has('moveBackward')) {
+    player = moveBackward(player, deltaTime, moveSpeed);
+  }
+  if (actions.has('turnLeft')) {
+    player = rotateLeft(player, deltaTime);
+  }
+  if (actions.has('turnRight')) {
+    player = rotateRight(player, deltaTime);
+  }
+
+  // Apply collision detection to player movement
+  player = setPosition(
+    player,
+    moveWithCollision(startPosition, player.position, PLAYER_RADIUS, level)
+  );
+
+  // Apply the floor under the player: acid, healing circles and teleport pads
+  const floorEffect = getFloorEffect(startPosition, player.position, level, state.elapsedTime, deltaTime);
+  if (floorEffect.damage > 0) {
+    hurtPlayer(floorEffect.damage);
+  }
+  if (floorEffect.healing > 0) {
+    player = heal(player, floorEffect.healing);
+  }
+  if (floorEffect.teleport) {
+    player = setPosition(player, floorEffect.teleport);
+    events.push({ type: 'teleported', position: floorEffect.teleport });
+  }
+
+  // Handle firing - held fire repeats at the weapon's fire rate
+  player = updateWeaponCooldown(player, deltaTime);
+  if (actions.has('fire')) {
+    const fireResult = fire(player);
+    if (fireResult.success) {
+      player = fireResult.player;
+      const weapon = player.currentWeapon;
+      events.push({ type: 'weaponFired', weaponId: weapon.id });
+
+      // Trace each pellet along the aim direction, scattered by the weapon's spread
+      let scoreIncrease = 0;
+      let pelletsHit = 0;
+      for (let pellet = 0; pellet < weapon.pellets; pellet++) {
+        const aim = player.rotation + (random() * 2 - 1) * weapon.spread;
+
+        // Projectile weapons resolve their hits when the projectile lands
+        if (weapon.projectileSpeed > 0) {
+          launch({
+            position: player.position,
+            direction: fromAngle(aim),
+            options: {
+              owner: 'player',
+              damage: weapon.damage,
+              speed: weapon.projectileSpeed,
+              spriteId: `projectile_${weapon.id}`,
+              splashRadius: weapon.splashRadius,
+            },
+          });
+          continue;
+        }
+
+        const shot = hitscan(
+          player.position,
+          fromAngle(aim),
+          weapon.range,
+          level,
+          enemyManager.getActiveEnemies()
+        );
+
+        // Splash weapons hurt everything near the impact, even when hitting a wall
+        if (weapon.splashRadius > 0) {
+          if (shot.target || shot.wallImpact) {
+            const victims = enemyManager.findEnemiesInRadius(shot.position, weapon.splashRadius);
+            for (const victim of victims) {
+              scoreIncrease += damageEnemy(victim.id, weapon.damage);
+            }
+            pelletsHit += victims.length > 0 ? 1 : 0;
+          }
+        } else if (shot.target) {
+          scoreIncrease += damageEnemy(shot.target.id, weapon.damage);
+          pelletsHit++;
+        }
+      }
+      // Projectiles count as hits when they land
+      levelStats = {
+        ...levelStats,
+        shotsFired: levelStats.shotsFired + weapon.pellets,
+        shotsHit: levelStats.shotsHit + pelletsHit,
+      };
+      if (scoreIncrease > 0) {
+        player = addScore(player, scoreIncrease);
+      }
+    }
+  }
+
+  // Update enemies
+  const enemyResult = enemyManager.update(player, level, deltaTime, aiRandom);
+  enemyResult.projectileLaunches.forEach(launch);
+
+  // Move projectiles - enemy shots hit the player directly, player shots hit enemies
+  const projectileResult = updateProjectiles(
+    projectiles,
+    new CollisionSystem(level),
+    player,
+    enemyManager.getActiveEnemies(),
+    deltaTime
+  );
+  projectiles = projectileResult.projectiles;
+  let projectileScore = 0;
+  for (const hit of projectileResult.enemyHits) {
+    projectileScore += damageEnemy(hit.enemyId, hit.damage);
+  }
+  const projectilesHit = new Set(projectileResult.enemyHits.map((hit) => hit.projectileId)).size;
+  if (projectilesHit > 0) {
+    levelStats = { ...levelStats, shotsHit: levelStats.shotsHit + projectilesHit };
+  }
+  if (projectileScore > 0) {
+    player = addScore(player, projectileScore);
+  }
+  if (projectileResult.damageToPlayer > 0) {
+    hurtPlayer(projectileResult.damageToPlayer);
+  }
+
+  // Apply enemy melee damage to player (with cooldown)
+  let enemyAttackCooldown = state.enemyAttackCooldown - deltaTime;
+  if (enemyResult.totalDamageToPlayer > 0 && enemyAttackCooldown <= 0) {
+    hurtPlayer(enemyResult.totalDamageToPlayer);
+    enemyAttackCooldown = ATTACK_COOLDOWN;
+  }
+
+  // Process item collection
+  const itemResult = processItems(player, state.items);
+  player = itemResult.player;
+  itemResult.items.forEach((item, index) => {
+    if (item.collected && !state.items[index].collected) {
+      events.push({ type: 'itemCollected', itemId: item.id, itemType: item.type });
+    }
+  });
+
+  // Count secret areas the player has stepped into
+  const newSecrets = findNewSecrets(player.position, level, state.foundSecrets);
+  const foundSecrets = [...state.foundSecrets, ...newSecrets];
+  newSecrets.forEach((_, index) => {
+    events.push({
+      type: 'secretFound',
+      found: state.foundSecrets.length + index + 1,
+      total: level.secrets?.length ?? 0,
+    });
+  });
+
+  // Run level triggers against the outcome of this step
+  const triggerResult = updateTriggers(state.triggers, level, {
+    playerPosition: player.position,
+    activeEnemyCount: enemyManager.getActiveEnemyCount(),
+    deltaTime,
+  });
+  for (const trigger of triggerResult.fired) {
+    events.push({ type: 'triggerFired', triggerId: trigger.id });
+    for (const action of trigger.actions) {
+      switch (action.type) {
+        case 'spawnEnemy':
+          enemyManager.spawnEnemy(action.position, action.enemyType);
+          break;
+        case 'setTile':
+          // Never close a cell over the player or a live enemy
+          if (
+            action.tile === 0 ||
+            !isTileOccupied(action.x, action.y, [
+              { position: player.position, radius: PLAYER_RADIUS },
+              ...enemyManager.getActiveEnemies(),
+            ])
+          ) {
+            level = setTile(level, action.x, action.y, action.tile);
+          }
+          break;
+        case 'message':
+          events.push({ type: 'message', text: action.text });
+          break;
+        case 'sound':
+          events.push({ type: 'sound', sound: action.sound });
+          break;
+      }
+    }
+  }
+
+  let nextState: GameState = {
+    ...state,
+    player,
+    enemies: enemyManager.getEnemies(),
+    items: itemResult.items,
+    levelMap: level,
+    elapsedTime: state.elapsedTime + deltaTime,
+    projectiles,
+    nextProjectileId,
+    enemyAttackCooldown,
+    heldActions: Array.from(actions),
+    rng,
+    triggers: triggerResult.triggers,
+    foundSecrets,
+    levelStats,
+  };
+
+  // Check for player death
+  if (isPlayerDead(player)) {
+    events.push({ type: 'playerDied' });
+    return { state: { ...nextState, status: 'gameOver' }, events };
+  }
+
+  // Check for level exit - a locked exit keeps the player in the level
+  if (isAtExitPoint(player.position, level) && isExitOpen(level, nextState)) {
+    events.push({
+      type: 'levelComplete',
+      levelIndex: state.currentLevel,
+      summary: summarizeLevel(nextState, campaign.levels[state.currentLevel]),
+    });
+    const levelManager = createCampaignLevelManager(campaign, state.currentLevel);
+    if (hasNextLevel(levelManager)) {
+      nextState = createLevelState(levelManager.nextLevel, campaign, nextState);
+    } else {
+      events.push({ type: 'victory' });
+      nextState = { ...nextState, status: 'victory' };
+    }
+  }
+
+  return { state: nextState, events };
+}
@@ -0,0 +1,292 @@
+/**
+ * Trigger module for FrankenKiro
+ * Handles scripted level triggers: watching their conditions each step
+ * and reporting the actions to run when they fire
+ */
+
+import { Vector2 } from '@/engine/types';
+import { distance } from '@/engine/vector2';
+import { SOUND_EFFECT_TYPES } from '@/audio/audioManager';
+import { SoundEffectType } from '@/audio/types';
+import {
+  LevelMap,
+  LevelTrigger,
+  TriggerCondition,
+  TriggerRegion,
+  TriggerState,
+} from './types';
+import { isEnemyType } from './enemyArchetypes';
+
+/**
+ * Highest tile a setTile action may place (floor or plain walls)
+ * Doors are left out because their runtime state is built when a level loads
+ */
+const MAX_TRIGGER_TILE = 4;
+
+/**
+ * What a trigger can observe during a step
+ */
+export interface TriggerContext {
+  /** Player position after movement */
+  playerPosition: Vector2;
+  /** Number of enemies still alive */
+  activeEnemyCount: number;
+  /** Time since last step */
+  deltaTime: number;
+}
+
+/**
+ * Result of updating triggers
+ */
+export interface TriggerUpdateResult {
+  triggers: TriggerState[];
+  /** Triggers that fired this step, with their actions in order */
+  fired: LevelTrigger[];
+}
+
+/**
+ * Create the runtime state for a level's triggers
+ */
+export function createTriggerStates(level: LevelMap): TriggerState[] {
+  return (level.triggers ?? []).map((trigger) => ({
+    id: trigger.id,
+    fired: false,
+    active: false,
+    timer: 0,
+  }));
+}
+
+/**
+ * Check if a position lies in a trigger region
+ */
+export function isInTriggerRegion(position: Vector2, region: TriggerRegion): boolean {
+  if (region.shape === 'radius') {
+    return distance(position, region.center) <= region.radius;
+  }
+  const tileX = Math.floor(position.x);
+  const tileY = Math.floor(position.y);
+  return (
+    tileX >= region.x &&
+    tileX < region.x + region.width &&
+    tileY >= region.y &&
+    tileY < region.y + region.height
+  );
+}
+
+/**
+ * Check whether the state a trigger watches holds right now: the player
+ * being in the region for enter and exit triggers, or no enemies being left
+ */
+function isWatchedStateHeld(condition: TriggerCondition, context: TriggerContext): boolean {
+  switch (condition.type) {
+    case 'enter':
+    case 'exit':
+      return isInTriggerRegion(context.playerPosition, condition.region);
+    case 'enemiesDead':
+      return context.activeEnemyCount === 0;
+    case 'timer':
+      return false;
+  }
+}
+
+/**
+ * Advance one trigger and decide whether it fires
+ */
+function updateTrigger(
+  trigger: LevelTrigger,
+  state: TriggerState,
+  context: TriggerContext
+): { state: TriggerState; fires: boolean } {
+  const armed = trigger.repeat || !state.fired;
+  const { condition } = trigger;
+
+  if (condition.type === 'timer') {
+    const timer = state.timer + context.deltaTime;
+    const fires = armed && timer >= condition.delay;
+    return {
+      state: { ...state, fired: state.fired || fires, timer: fires ? 0 : timer },
+      fires,
+    };
+  }
+
+  // Exit triggers fire as the watched state ends, everything else as it begins
+  const held = isWatchedStateHeld(condition, context);
+  const changed = condition.type === 'exit' ? state.active && !held : held && !state.active;
+  const fires = armed && changed;
+  return {
+    state: { ...state, fired: state.fired || fires, active: held },
+    fires,
+  };
+}
+
+/**
+ * Update every trigger of a level for one step
+ * Conditions fire on the step they become true, so a repeatable trigger
+ * fires again only once its condition has stopped holding in between
+ * @param triggers - Current trigger states
+ * @param level - The level declaring the triggers
+ * @param context - What the triggers can observe this step
+ * @returns The new trigger states and the triggers that fired
+ */
+export function updateTriggers(
+  triggers: TriggerState[],
+  level: LevelMap,
+  context: TriggerContext
+): TriggerUpdateResult {
+  const fired: LevelTrigger[] = [];
+  const nextTriggers = triggers.map((state) => {
+    const trigger = level.triggers?.find((t) => t.id === state.id);
+    if (!trigger) {
+      return state;
+    }
+    const result = updateTrigger(trigger, state, context);
+    if (result.fires) {
+      fired.push(trigger);
+    }
+    return result.state;
+  });
+  return { triggers: nextTriggers, fired };
+}
+
+/**
+ * Check a trigger region's shape
+ */
+function isValidRegion(value: unknown): value is TriggerRegion {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const r = value as Record<string, unknown>;
+  if (r.shape === 'radius') {
+    const center = r.center as Record<string, unknown> | null;
+    return (
+      typeof center === 'object' && center !== null &&
+      typeof center.x === 'number' && typeof center.y === 'number' &&
+      typeof r.radius === 'number' && r.radius > 0
+    );
+  }
+  return (
+    r.shape === 'rect' &&
+    typeof r.x === 'number' && typeof r.y === 'number' &&
+    typeof r.width === 'number' && r.width > 0 &&
+    typeof r.height === 'number' && r.height > 0
+  );
+}
+
+/**
+ * Validate one trigger action against the level it belongs to
+ */
+function validateAction(action: unknown, label: string, width: number, height: number): string[] {
+  if (typeof action !== 'object' || action === null) {
+    return [`${label} must be an object`];
+  }
+  const a = action as Record<string, unknown>;
+  switch (a.type) {
+    case 'spawnEnemy': {
+      const errors: string[] = [];
+      const position = a.position as Record<string, unknown> | null;
+      if (
+        typeof position !== 'object' || position === null ||
+        typeof position.x !== 'number' || typeof position.y !== 'number' ||
+        position.x < 0 || position.x >= width || position.y < 0 || position.y >= height
+      ) {
+        errors.push(`${label} must spawn within level bounds`);
+      }
+      if (!isEnemyType(a.enemyType)) {
+        errors.push(`${label} has unknown enemy type "${String(a.enemyType)}"`);
+      }
+      return errors;
+    }
+    case 'setTile':
+      if (
+        typeof a.x !== 'number' || typeof a.y !== 'number' ||
+        !Number.isInteger(a.x) || !Number.isInteger(a.y) ||
+        a.x < 0 || a.x >= width || a.y < 0 || a.y >= height
+      ) {
+        return [`${label} must change a tile within level bounds`];
+      }
+      if (typeof a.tile !== 'number' || !Number.isInteger(a.tile) || a.tile < 0 || a.tile > MAX_TRIGGER_TILE) {
+        return [`${label} can only place floor or wall tiles`];
+      }
+      return [];
+    case 'message':
+      return typeof a.text === 'string' ? [] : [`${label} must have message text`];
+    case 'sound':
+      return SOUND_EFFECT_TYPES.includes(a.sound as SoundEffectType)
+        ? []
+        : [`${label} has unknown sound "${String(a.sound)}"`];
+    default:
+      return [`${label} has unknown type "${String(a.type)}"`];
+  }
+}
+
+/**
+ * Validate a level's trigger list
+ * @param triggers - The triggers value from a level map
+ * @param width - Level width
+ * @param height - Level height
+ * @returns Error messages, empty when the triggers are valid
+ */
+export function validateTriggers(triggers: unknown, width: number, height: number): string[] {
+  if (!Array.isArray(triggers)) {
+    return ['Level map triggers must be an array'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  triggers.forEach((value: unknown, index) => {
+    const t = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    const label = `triggers[${index}]`;
+
+    if (typeof t.id !== 'string' || !t.id) {
+      errors.push(`${label} must have an id`);
+    } else if (ids.has(t.id)) {
+      errors.push(`${label} reuses trigger id "${t.id}"`);
+    } else {
+      ids.add(t.id);
+    }
+
+    const condition = (typeof t.condition === 'object' && t.condition !== null
+      ? t.condition
+      : {}) as Record<string, unknown>;
+    if (condition.type === 'enter' || condition.type === 'exit') {
+      if (!isValidRegion(condition.region)) {
+        errors.push(`${label} must have a valid region`);
+      }
+    } else if (condition.type === 'timer') {
+      if (typeof condition.delay !== 'number' || !isFinite(condition.delay) || condition.delay <= 0) {
+        errors.push(`${label} must have a positive timer delay`);
+      }
+    } else if (condition.type !== 'enemiesDead') {
+      errors.push(`${label} has unknown condition "${String(condition.type)}"`);
+    }
+
+    if (!Array.isArray(t.actions)) {
+      errors.push(`${label} must have an actions array`);
+    } else {
+      t.actions.forEach((action: unknown, actionIndex) => {
+        errors.push(...validateAction(action, `${label}.actions[${actionIndex}]`, width, height));
+      });
+    }
+
+    if (t.repeat !== undefined && typeof t.repeat !== 'boolean') {
+      errors.push(`${label} repeat must be true or false`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Check that saved trigger state has the right shape
+ */
+export function isValidTriggerState(value: unknown): value is TriggerState {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const t = value as Record<string, unknown>;
+  return (
+    typeof t.id === 'string' &&
+    typeof t.fired === 'boolean' &&
+    typeof t.active === 'boolean' &&
+    typeof t.timer === 'number' && isFinite(t.timer)
+  );
+}
@@ -3,15 +3,23 @@
  */
 
 import { Vector2 } from '@/engine/types';
+import { GameAction } from '@/input/types';
+import { SoundEffectType } from '@/audio/types';
+
+/**
+ * Identifiers for the weapons in the arsenal
+ */
+export type WeaponId = 'pistol' | 'shotgun' | 'stitcher' | 'launcher';
 
 /**
  * Player statistics
+ * Each weapon draws on its own ammunition pool
  */
 export interface PlayerStats {
   health: number;
   maxHealth: number;
-  ammunition: number;
-  maxAmmunition: number;
+  ammo: Record<WeaponId, number>;
+  maxAmmo: Record<WeaponId, number>;
   score: number;
 }
 
@@ -19,19 +27,53 @@ export interface PlayerStats {
  * Weapon definition
  */
 export interface Weapon {
+  id: WeaponId;
   name: string;
+  /** Damage per pellet */
   damage: number;
+  /** Shots per second */
   fireRate: number;
   ammoCost: number;
   range: number;
+  /** Pellets fired per shot */
+  pellets: number;
+  /** Maximum angle a pellet strays from the aim direction in radians */
+  spread: number;
+  /** Radius of splash damage around the impact (0 for none) */
+  splashRadius: number;
+  /** Speed of the fired projectile (0 for instant hitscan) */
+  projectileSpeed: number;
   spriteSheet: string;
   soundEffect: string;
 }
 
+/**
+ * Who fired a projectile (projectiles never hurt their own side)
+ */
+export type ProjectileOwner = 'player' | 'enemy';
+
+/**
+ * Projectile in flight
+ */
+export interface Projectile {
+  id: string;
+  position: Vector2;
+  /** Velocity in tiles per second */
+  velocity: Vector2;
+  owner: ProjectileOwner;
+  damage: number;
+  /** Seconds left before the projectile fizzles out */
+  lifetime: number;
+  radius: number;
+  /** Radius of splash damage on impact (0 for none) */
+  splashRadius: number;
+  spriteId: string;
+}
+
 /**
  * Item types available in the game
  */
-export type ItemType = 'health' | 'ammo' | 'key';
+export type ItemType = 'health' | 'ammo' | 'key' | 'weapon' | 'collectible';
 
 /**
  * Game item (power-ups, keys, etc.)
@@ -43,6 +85,8 @@ export interface GameItem {
   value: number;
   collected: boolean;
   spriteId: string;
+  /** Weapon granted (weapon items) or refilled (ammo items) */
+  weaponId?: WeaponId;
 }
 
 /**
@@ -53,20 +97,51 @@ export interface Player {
   rotation: number;
   stats: PlayerStats;
   inventory: string[];
+  /** Weapons the player owns */
+  weapons: WeaponId[];
   currentWeapon: Weapon;
+  /** Seconds until the current weapon can fire again */
+  weaponCooldown: number;
 }
 
 
 /**
  * Enemy AI states
+ * Searching enemies have lost sight of the player and head for where they last saw them
+ */
+export type EnemyState = 'idle' | 'pursuing' | 'attacking' | 'searching' | 'dead';
+
+/**
+ * Enemy animations: standing, walk cycle, attack wind-up, pain flinch and
+ * the death sequence that ends as a corpse
  */
-export type EnemyState = 'idle' | 'pursuing' | 'attacking' | 'dead';
+export type EnemyAnimation = 'idle' | 'walk' | 'attack' | 'pain' | 'death';
+
+/**
+ * Stats shared by every enemy of one type
+ */
+export interface EnemyArchetype {
+  health: number;
+  speed: number;
+  damage: number;
+  attackRange: number;
+  detectionRange: number;
+  pointValue: number;
+  radius: number;
+  spriteId: string;
+  /** Ranged attackers throw projectiles instead of striking in melee */
+  projectile?: {
+    speed: number;
+    spriteId: string;
+  };
+}
 
 /**
  * Enemy entity
  */
 export interface Enemy {
   id: string;
+  enemyType: string;
   position: Vector2;
   rotation: number;
   health: number;
@@ -78,6 +153,17 @@ export interface Enemy {
   state: EnemyState;
   spriteId: string;
   pointValue: number;
+  radius: number;
+  /** Seconds until a ranged enemy can throw again */
+  attackCooldown: number;
+  /** Animation being played */
+  animation: EnemyAnimation;
+  /** Seconds since the animation started */
+  animationTime: number;
+  /** Where the player was last seen, used while searching */
+  lastKnownPlayerPosition?: Vector2;
+  /** Remaining waypoints toward the last known player position */
+  path?: Vector2[];
 }
 
 /**
@@ -95,8 +181,157 @@ export interface ItemSpawn {
   position: Vector2;
   itemType: ItemType;
   value: number;
+  weaponId?: WeaponId;
 }
 
+/**
+ * Door animation states
+ */
+export type DoorState = 'closed' | 'opening' | 'open' | 'closing';
+
+/**
+ * Runtime state of a door tile
+ * orientation follows Ray.side: 'horizontal' doors span the x axis
+ * (panel at y + 0.5), 'vertical' doors span the y axis (panel at x + 0.5)
+ */
+export interface Door {
+  x: number;
+  y: number;
+  orientation: 'horizontal' | 'vertical';
+  keyId?: string;
+  openAmount: number;
+  state: DoorState;
+}
+
+/**
+ * Rectangle of whole tiles
+ */
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Teleport pad link
+ * x and y are the pad's tile on the floor layer; stepping onto it sends the
+ * player to destination
+ */
+export interface Teleporter {
+  x: number;
+  y: number;
+  destination: Vector2;
+}
+
+/**
+ * How a level light flickers: a steady lamp, an unsteady torch flame, the slow
+ * pulse of a glowing vat, or a faulty lamp that keeps cutting out
+ */
+export type LightFlicker = 'steady' | 'torch' | 'pulse' | 'faulty';
+
+/**
+ * Static light placed in a level
+ * Lights may sit in a wall tile, like a torch in its bracket
+ */
+export interface LevelLight {
+  position: Vector2;
+  /** Light color as a hex string, like '#ff9933' */
+  color: string;
+  /** Distance in tiles the light reaches */
+  radius: number;
+  /** Brightness at the light itself (1 when missing) */
+  intensity?: number;
+  /** How the light flickers (steady when missing) */
+  flicker?: LightFlicker;
+}
+
+/**
+ * Push-wall animation states
+ */
+export type PushWallState = 'hidden' | 'moving' | 'done';
+
+/**
+ * Runtime state of a secret wall that slides back when pushed
+ * x and y are the tile the wall starts on; while moving, the wall is a
+ * full tile block offset from there along (dx, dy)
+ */
+export interface PushWall {
+  x: number;
+  y: number;
+  /** Wall tile type, kept so the block looks like the wall it hides in */
+  tile: number;
+  dx: number;
+  dy: number;
+  /** Tiles moved so far */
+  offset: number;
+  /** Tiles the wall will move in total */
+  distance: number;
+  state: PushWallState;
+}
+
+/**
+ * Area of the level a trigger watches
+ * Rects are in whole tiles; radii are measured from a world position
+ */
+export type TriggerRegion =
+  | ({ shape: 'rect' } & TileRect)
+  | { shape: 'radius'; center: Vector2; radius: number };
+
+/**
+ * When a trigger fires
+ * Region conditions fire as the player crosses the region edge, enemiesDead
+ * fires when the last enemy falls, and timers fire a delay after the level starts
+ */
+export type TriggerCondition =
+  | { type: 'enter'; region: TriggerRegion }
+  | { type: 'exit'; region: TriggerRegion }
+  | { type: 'enemiesDead' }
+  | { type: 'timer'; delay: number };
+
+/**
+ * Something a trigger does when it fires
+ */
+export type TriggerAction =
+  | { type: 'spawnEnemy'; position: Vector2; enemyType: string }
+  | { type: 'setTile'; x: number; y: number; tile: number }
+  | { type: 'message'; text: string }
+  | { type: 'sound'; sound: SoundEffectType };
+
+/**
+ * Scripted trigger declared by a level
+ */
+export interface LevelTrigger {
+  id: string;
+  condition: TriggerCondition;
+  actions: TriggerAction[];
+  /** Fire every time the condition is met instead of only the first time */
+  repeat?: boolean;
+}
+
+/**
+ * Runtime state of a level trigger
+ */
+export interface TriggerState {
+  id: string;
+  /** Whether the trigger has fired at least once */
+  fired: boolean;
+  /** Whether the watched state (player in the region, no enemies left) held on the previous step */
+  active: boolean;
+  /** Seconds counted toward a timer condition */
+  timer: number;
+}
+
+/**
+ * Rule deciding when a level's exit lets the player leave
+ * Key rules name the key item value, as locked doors do
+ */
+export type ExitRule =
+  | { type: 'open' }
+  | { type: 'key'; key: number }
+  | { type: 'enemiesDead' }
+  | { type: 'collectibles'; count: number };
+
 /**
  * Level map data structure
  */
@@ -108,12 +343,134 @@ export interface LevelMap {
   enemySpawns: EnemySpawn[];
   items: ItemSpawn[];
   exitPoint: Vector2;
+  /** What the player must do before the exit opens (always open when missing) */
+  exitRule?: ExitRule;
+  /** Scripted triggers */
+  triggers?: LevelTrigger[];
+  /** Tiles of walls that slide back when the player pushes them */
+  secretWalls?: Vector2[];
+  /** Secret areas, counted as found when the player steps into them */
+  secrets?: TileRect[];
+  /** Floor tile types, indexed [y][x] like grid (all plain floor when missing) */
+  floor?: number[][];
+  /** Where each teleport pad on the floor layer sends the player */
+  teleporters?: Teleporter[];
+  /** Ceiling tile types, indexed [y][x] like grid (all stone when missing) */
+  ceiling?: number[][];
+  /** Static lights, baked into a per-tile light map when the level is drawn */
+  lights?: LevelLight[];
+  /** Light of tiles no light reaches, from 0 (pitch dark) to 1 (fully lit, the default) */
+  ambientLight?: number;
+  /** Runtime door state, created by initializeDoors when a level is loaded */
+  doors?: Door[];
+  /** Runtime push-wall state, created by initializePushWalls when a level is loaded */
+  pushWalls?: PushWall[];
+}
+
+/**
+ * Level file contents: a level map plus format metadata
+ * Runtime door and push-wall state is never stored in files
+ */
+export interface LevelFile extends Omit<LevelMap, 'doors' | 'pushWalls'> {
+  /** Level format version */
+  version: number;
+  /** Display name of the level */
+  name?: string;
+}
+
+/**
+ * Visual theme of a campaign level
+ */
+export type LevelTheme = 'lab' | 'dungeon' | 'tower';
+
+/**
+ * A level in a campaign with its presentation metadata
+ */
+export interface CampaignLevel {
+  /** Unique id within the campaign, used by next-level links */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Text shown when the level starts */
+  intro: string;
+  /** Target completion time in seconds */
+  parTime: number;
+  theme: LevelTheme;
+  /**
+   * Id of the level the exit leads to
+   * Omitted to continue with the following level in the list,
+   * null to end the campaign here
+   */
+  next?: string | null;
+  level: LevelMap;
+}
+
+/**
+ * An ordered list of levels played from the first entry
+ */
+export interface Campaign {
+  id: string;
+  name: string;
+  levels: CampaignLevel[];
+}
+
+/**
+ * Campaign pack file contents
+ */
+export interface CampaignFile extends Omit<Campaign, 'levels'> {
+  /** Campaign format version */
+  version: number;
+  levels: Array<Omit<CampaignLevel, 'level'> & { level: LevelFile | LevelMap }>;
 }
 
 /**
  * Game status states
  */
-export type GameStatus = 'menu' | 'playing' | 'paused' | 'gameOver' | 'victory';
+export type GameStatus = 'menu' | 'playing' | 'paused' | 'intermission' | 'gameOver' | 'victory';
+
+/**
+ * State of the seeded random streams the simulation draws from
+ * Kept in the game state so every step is reproducible from the seed
+ */
+export interface RandomState {
+  gameplay: number;
+  ai: number;
+}
+
+/**
+ * Running statistics for the level being played
+ * Totals such as kills and items are read from the game state when needed
+ */
+export interface LevelStats {
+  /** Game elapsed time when the level started */
+  startTime: number;
+  /** Shots fired, counting each pellet or projectile */
+  shotsFired: number;
+  /** Shots that damaged at least one enemy */
+  shotsHit: number;
+  /** Damage the player took */
+  damageTaken: number;
+}
+
+/**
+ * Final statistics of a completed level, shown at the intermission
+ */
+export interface LevelSummary {
+  levelId: string;
+  kills: number;
+  totalKills: number;
+  items: number;
+  totalItems: number;
+  secrets: number;
+  totalSecrets: number;
+  shotsFired: number;
+  /** Fraction of shots that hit, from 0 to 1 */
+  accuracy: number;
+  damageTaken: number;
+  /** Seconds spent on the level */
+  time: number;
+  parTime: number;
+}
 
 /**
  * Complete game state
@@ -126,6 +483,19 @@ export interface GameState {
   currentLevel: number;
   levelMap: LevelMap;
   elapsedTime: number;
+  projectiles: Projectile[];
+  nextProjectileId: number;
+  /** Seconds until enemy melee attacks can hurt the player again */
+  enemyAttackCooldown: number;
+  /** Actions held on the previous step, for once-per-press actions */
+  heldActions: GameAction[];
+  rng: RandomState;
+  /** Runtime state of the level's triggers */
+  triggers: TriggerState[];
+  /** Indices of the level's secret areas the player has found */
+  foundSecrets: number[];
+  /** Statistics for the current level */
+  levelStats: LevelStats;
 }
 
 /**
@@ -140,6 +510,8 @@ export interface SaveData {
       rotation: number;
       stats: PlayerStats;
       inventory: string[];
+      weapons?: WeaponId[];
+      currentWeaponId?: WeaponId;
     };
     currentLevel: number;
     enemies: {
@@ -147,8 +519,19 @@ export interface SaveData {
       position: Vector2;
       health: number;
       state: EnemyState;
+      /** Lets enemies spawned during play be recreated */
+      enemyType?: string;
+      animation?: EnemyAnimation;
+      animationTime?: number;
     }[];
     collectedItems: string[];
     elapsedTime: number;
+    doors?: Door[];
+    triggers?: TriggerState[];
+    pushWalls?: PushWall[];
+    foundSecrets?: number[];
+    levelStats?: LevelStats;
+    /** Level grid, including tiles changed by triggers and push-walls */
+    grid?: number[][];
   };
 }
@@ -0,0 +1,121 @@
+/**
+ * Weapon registry for FrankenKiro
+ * Defines every weapon in the arsenal and the order they are cycled in
+ */
+
+import { Weapon, WeaponId } from './types';
+
+/**
+ * All weapons available in the game, keyed by id
+ */
+export const WEAPONS: Readonly<Record<WeaponId, Weapon>> = {
+  pistol: {
+    id: 'pistol',
+    name: 'Pistol',
+    damage: 10,
+    fireRate: 2,
+    ammoCost: 1,
+    range: 10,
+    pellets: 1,
+    spread: 0,
+    splashRadius: 0,
+    projectileSpeed: 0,
+    spriteSheet: 'pistol',
+    soundEffect: 'pistol_fire',
+  },
+  shotgun: {
+    id: 'shotgun',
+    name: 'Grave Shotgun',
+    damage: 8,
+    fireRate: 1,
+    ammoCost: 1,
+    range: 6,
+    pellets: 7,
+    spread: 0.3,
+    splashRadius: 0,
+    projectileSpeed: 0,
+    spriteSheet: 'shotgun',
+    soundEffect: 'shotgun_fire',
+  },
+  stitcher: {
+    id: 'stitcher',
+    name: 'Stitcher',
+    damage: 6,
+    fireRate: 10,
+    ammoCost: 1,
+    range: 12,
+    pellets: 1,
+    spread: 0.04,
+    splashRadius: 0,
+    projectileSpeed: 0,
+    spriteSheet: 'stitcher',
+    soundEffect: 'stitcher_fire',
+  },
+  launcher: {
+    id: 'launcher',
+    name: 'Vat Launcher',
+    damage: 60,
+    fireRate: 0.8,
+    ammoCost: 1,
+    range: 20,
+    pellets: 1,
+    spread: 0,
+    splashRadius: 1.5,
+    projectileSpeed: 8,
+    spriteSheet: 'launcher',
+    soundEffect: 'launcher_fire',
+  },
+};
+
+/**
+ * Weapon order for slot keys (1-4) and next/previous cycling
+ */
+export const WEAPON_ORDER: readonly WeaponId[] = ['pistol', 'shotgun', 'stitcher', 'launcher'];
+
+/**
+ * Maximum ammunition each weapon can hold
+ */
+export const WEAPON_MAX_AMMO: Readonly<Record<WeaponId, number>> = {
+  pistol: 100,
+  shotgun: 40,
+  stitcher: 200,
+  launcher: 20,
+};
+
+/**
+ * Ammunition granted when picking up a weapon
+ */
+export const WEAPON_PICKUP_AMMO: Readonly<Record<WeaponId, number>> = {
+  pistol: 20,
+  shotgun: 10,
+  stitcher: 60,
+  launcher: 5,
+};
+
+/**
+ * Check if a value is a known weapon id
+ */
+export function isWeaponId(value: unknown): value is WeaponId {
+  return typeof value === 'string' && value in WEAPONS;
+}
+
+/**
+ * Get a copy of a weapon definition
+ */
+export function getWeapon(id: WeaponId): Weapon {
+  return { ...WEAPONS[id] };
+}
+
+/**
+ * Get the weapon id for a slot number (1-based)
+ */
+export function getWeaponForSlot(slot: number): WeaponId | undefined {
+  return WEAPON_ORDER[slot - 1];
+}
+
+/**
+ * Get the seconds between shots for a weapon
+ */
+export function getFireInterval(weapon: Weapon): number {
+  return weapon.fireRate > 0 ? 1 / weapon.fireRate : Infinity;
+}
@@ -27,6 +27,11 @@ const DEFAULT_KEY_BINDINGS: KeyBindings = {
   ' ': 'fire',
   'e': 'interact',
   'E': 'interact',
+  // Weapon selection
+  '1': 'weapon1',
+  '2': 'weapon2',
+  '3': 'weapon3',
+  '4': 'weapon4',
 };
 
 /**
@@ -34,6 +39,10 @@ const DEFAULT_KEY_BINDINGS: KeyBindings = {
  */
 export class InputHandler {
   private activeActions: Set<GameAction>;
+  /** Queued wheel notches, positive for next weapon and negative for previous */
+  private wheelSteps: number;
+  /** Whether the last input read reported a wheel notch */
+  private wheelPulsed: boolean;
   private mousePosition: { x: number; y: number };
   private keyBindings: KeyBindings;
   private touchControlsEnabled: boolean;
@@ -42,9 +51,12 @@ export class InputHandler {
   private boundMouseMove: (e: MouseEvent) => void;
   private boundMouseDown: (e: MouseEvent) => void;
   private boundMouseUp: (e: MouseEvent) => void;
+  private boundWheel: (e: WheelEvent) => void;
 
   constructor() {
     this.activeActions = new Set<GameAction>();
+    this.wheelSteps = 0;
+    this.wheelPulsed = false;
     this.mousePosition = { x: 0, y: 0 };
     this.keyBindings = { ...DEFAULT_KEY_BINDINGS };
     this.touchControlsEnabled = false;
@@ -55,6 +67,7 @@ export class InputHandler {
     this.boundMouseMove = this.handleMouseMove.bind(this);
     this.boundMouseDown = this.handleMouseDown.bind(this);
     this.boundMouseUp = this.handleMouseUp.bind(this);
+    this.boundWheel = this.handleWheel.bind(this);
   }
 
   /**
@@ -68,6 +81,7 @@ export class InputHandler {
       window.addEventListener('mousemove', this.boundMouseMove);
       window.addEventListener('mousedown', this.boundMouseDown);
       window.addEventListener('mouseup', this.boundMouseUp);
+      window.addEventListener('wheel', this.boundWheel);
     }
   }
 
@@ -82,6 +96,7 @@ export class InputHandler {
       window.removeEventListener('mousemove', this.boundMouseMove);
       window.removeEventListener('mousedown', this.boundMouseDown);
       window.removeEventListener('mouseup', this.boundMouseUp);
+      window.removeEventListener('wheel', this.boundWheel);
     }
   }
 
@@ -132,12 +147,31 @@ export class InputHandler {
     }
   }
 
+  /**
+   * Handle mouse wheel events (weapon cycling)
+   * Wheel notches have no release, so they are queued and played out by getInputState
+   */
+  private handleWheel(event: WheelEvent): void {
+    this.wheelSteps += Math.sign(event.deltaY);
+  }
+
   /**
    * Get the current input state
+   * Each queued wheel notch is reported for a single read, with a read
+   * without it in between so consecutive notches register as separate presses
    */
   public getInputState(): InputState {
+    const activeActions = new Set(this.activeActions);
+    if (this.wheelPulsed || this.wheelSteps === 0) {
+      this.wheelPulsed = false;
+    } else {
+      activeActions.add(this.wheelSteps > 0 ? 'nextWeapon' : 'previousWeapon');
+      this.wheelSteps -= Math.sign(this.wheelSteps);
+      this.wheelPulsed = true;
+    }
+
     return {
-      activeActions: new Set(this.activeActions),
+      activeActions,
       mousePosition: { ...this.mousePosition },
     };
   }
@@ -217,6 +251,8 @@ export class InputHandler {
    */
   public clearActions(): void {
     this.activeActions.clear();
+    this.wheelSteps = 0;
+    this.wheelPulsed = false;
   }
 }
 
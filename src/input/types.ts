@@ -13,7 +13,13 @@ export type GameAction =
   | 'turnLeft'
   | 'turnRight'
   | 'fire'
-  | 'interact';
+  | 'interact'
+  | 'nextWeapon'
+  | 'previousWeapon'
+  | 'weapon1'
+  | 'weapon2'
+  | 'weapon3'
+  | 'weapon4';
 
 /**
  * Current state of all inputs